@@ -0,0 +1,22 @@
+/** @type {import('jest').Config} */
+module.exports = {
+	// Suites that parse HTML switch to jest-environment-jsdom with a `@jest-environment jsdom` docblock
+	testEnvironment: 'node',
+	roots: ['<rootDir>/tests'],
+	// The obsidian package only ships type definitions
+	moduleNameMapper: {
+		'^obsidian$': '<rootDir>/tests/__mocks__/obsidian.ts',
+	},
+	transform: {
+		'^.+\\.ts$': ['ts-jest', {
+			tsconfig: {
+				module: 'commonjs',
+				target: 'ES2019',
+				lib: ['DOM', 'ES2019'],
+				noImplicitAny: true,
+				strictNullChecks: true,
+				isolatedModules: true,
+			},
+		}],
+	},
+};
@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+/**
+ * Minimal CORS proxy for the Canvas LMS plugin, to run on your own
+ * machine or server instead of a public proxy that would see your token.
+ *
+ * It only forwards to one Canvas instance, and with PROXY_SECRET set it
+ * only accepts requests signed by the plugin with the same secret. It
+ * never logs tokens or query strings. No dependencies beyond Node.
+ *
+ *   CANVAS_URL=https://school.instructure.com PROXY_SECRET=... node proxy/canvas-proxy.mjs
+ *
+ * Environment:
+ *   CANVAS_URL      Canvas instance to forward to (required)
+ *   PROXY_SECRET    Shared secret for request signatures (recommended)
+ *   PORT            Port to listen on, default 8787
+ *   HOST            Address to listen on, default 127.0.0.1
+ *   ALLOWED_ORIGIN  Origin allowed by CORS, default app://obsidian.md
+ *
+ * The plugin requests `<proxy URL>/<encoded Canvas URL>`.
+ */
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import process from 'process';
+import { fileURLToPath } from 'url';
+
+const TIMESTAMP_HEADER = 'x-canvas-proxy-timestamp';
+const SIGNATURE_HEADER = 'x-canvas-proxy-signature';
+/** Signed requests older or newer than this are refused */
+const MAX_CLOCK_SKEW_SECONDS = 300;
+/** Request headers passed on to Canvas */
+const FORWARDED_HEADERS = ['authorization', 'content-type', 'accept'];
+/** Response headers not copied back, since this proxy sets its own */
+const DROPPED_HEADERS = ['connection', 'keep-alive', 'transfer-encoding'];
+
+/**
+ * Whether a request carries a valid, fresh signature over its body
+ * @param {string} secret Shared secret
+ * @param {string} method HTTP method
+ * @param {string} targetUrl Canvas URL the request is for
+ * @param {Buffer} body Request body, empty for requests without one
+ * @param {Record<string, string | string[] | undefined>} headers Request headers
+ * @param {number} now Epoch milliseconds
+ * @returns {boolean}
+ */
+export function verifySignature(secret, method, targetUrl, body, headers, now = Date.now()) {
+	const timestamp = String(headers[TIMESTAMP_HEADER] || '');
+	const signature = String(headers[SIGNATURE_HEADER] || '');
+	if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - Number(timestamp)) > MAX_CLOCK_SKEW_SECONDS) {
+		return false;
+	}
+	const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+	const expected = crypto.createHmac('sha256', secret)
+		.update(`${timestamp}\n${method.toUpperCase()}\n${targetUrl}\n${bodyHash}`)
+		.digest('hex');
+	return signature.length === expected.length
+		&& crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/**
+ * Create the proxy server; call `listen` on it to start
+ * @param {{ canvasUrl: string, secret?: string, allowedOrigin?: string, log?: (line: string) => void }} options
+ * @returns {http.Server}
+ */
+export function createProxyServer(options) {
+	const canvas = new URL(options.canvasUrl);
+	const log = options.log || (line => console.log(line));
+	const corsHeaders = {
+		'Access-Control-Allow-Origin': options.allowedOrigin || 'app://obsidian.md',
+		'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+		'Access-Control-Allow-Headers': ['Authorization', 'Content-Type', 'Accept', TIMESTAMP_HEADER, SIGNATURE_HEADER].join(', '),
+		'Access-Control-Expose-Headers': 'Link, Retry-After, WWW-Authenticate, X-Rate-Limit-Remaining, X-Request-Cost'
+	};
+
+	function reply(res, status, message) {
+		res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+		res.end(JSON.stringify({ errors: [{ message }] }));
+	}
+
+	return http.createServer((req, res) => {
+		if (req.method === 'OPTIONS') {
+			res.writeHead(204, corsHeaders);
+			res.end();
+			return;
+		}
+
+		let targetUrl;
+		let target;
+		try {
+			targetUrl = decodeURIComponent((req.url || '').slice(1));
+			target = new URL(targetUrl);
+		} catch (error) {
+			reply(res, 400, 'Expected the encoded Canvas URL as path');
+			return;
+		}
+		// The allow-list: the token in this request is only ever forwarded to the configured Canvas host
+		if (target.protocol !== canvas.protocol || target.host !== canvas.host) {
+			log(`${req.method} to ${target.host} refused: not ${canvas.host}`);
+			reply(res, 403, `This proxy only forwards to ${canvas.host}`);
+			return;
+		}
+
+		const chunks = [];
+		req.on('data', chunk => chunks.push(chunk));
+		req.on('end', () => {
+			const body = Buffer.concat(chunks);
+			// The signature covers the body, so it can only be checked once all of it arrived
+			if (options.secret && !verifySignature(options.secret, req.method || 'GET', targetUrl, body, req.headers)) {
+				log(`${req.method} ${target.pathname} refused: bad or missing signature`);
+				reply(res, 401, 'Invalid proxy signature');
+				return;
+			}
+			const headers = {};
+			FORWARDED_HEADERS.forEach(name => {
+				if (req.headers[name]) headers[name] = req.headers[name];
+			});
+			if (body.length > 0) {
+				headers['content-length'] = String(body.length);
+			}
+
+			const client = target.protocol === 'https:' ? https : http;
+			const upstream = client.request(target, { method: req.method, headers }, response => {
+				const responseHeaders = { ...corsHeaders };
+				Object.entries(response.headers).forEach(([name, value]) => {
+					if (!DROPPED_HEADERS.includes(name) && !name.startsWith('access-control-')) {
+						responseHeaders[name] = value;
+					}
+				});
+				log(`${req.method} ${target.pathname} -> ${response.statusCode}`);
+				res.writeHead(response.statusCode || 502, responseHeaders);
+				response.pipe(res);
+			});
+			upstream.on('error', error => {
+				log(`${req.method} ${target.pathname} failed: ${error.message}`);
+				reply(res, 502, 'Could not reach Canvas');
+			});
+			upstream.end(body);
+		});
+	});
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+	const canvasUrl = process.env.CANVAS_URL;
+	if (!canvasUrl) {
+		console.error('Set CANVAS_URL to your Canvas instance, e.g. CANVAS_URL=https://school.instructure.com');
+		process.exit(1);
+	}
+	if (!process.env.PROXY_SECRET) {
+		console.warn('PROXY_SECRET is not set; any local program can send requests through this proxy');
+	}
+	const port = Number(process.env.PORT || 8787);
+	const host = process.env.HOST || '127.0.0.1';
+	const server = createProxyServer({
+		canvasUrl,
+		secret: process.env.PROXY_SECRET,
+		allowedOrigin: process.env.ALLOWED_ORIGIN
+	});
+	server.listen(port, host, () => {
+		// With PORT=0 the system picks a free port
+		console.log(`Forwarding http://${host}:${server.address().port}/ to ${new URL(canvasUrl).host}`);
+	});
+}
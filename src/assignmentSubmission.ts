@@ -0,0 +1,347 @@
+import {
+    App, Component, FuzzySuggestModal, MarkdownRenderer, Modal, Notice, Setting, TFile, getFrontMatterInfo
+} from 'obsidian';
+import MyPlugin from './main';
+import { Assignment, CanvasId, Course, Submission, SubmissionRequest } from './canvasTypes';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import { formatNoteDate } from './markdownUtils';
+import { CanvasProfile, PROFILE_KEY } from './profiles';
+import { updateFrontmatterFields } from './vaultUtils';
+
+/** Frontmatter keys recording where a note was handed in */
+export const SUBMITTED_ASSIGNMENT_KEY = 'submitted_assignment_id';
+export const SUBMITTED_COURSE_KEY = 'submitted_course_id';
+export const SUBMISSION_ID_KEY = 'canvas_submission_id';
+
+/** Submission types this plugin can hand in */
+const SUPPORTED_TYPES: SubmissionRequest['submission_type'][] = ['online_text_entry', 'online_upload'];
+
+const SUBMISSION_TYPE_LABELS: Record<string, string> = {
+    online_text_entry: 'Text entry',
+    online_upload: 'File upload',
+    online_url: 'Website URL',
+    media_recording: 'Media recording',
+    online_quiz: 'Quiz',
+    discussion_topic: 'Discussion',
+    external_tool: 'External tool',
+    on_paper: 'On paper',
+    none: 'No submission'
+};
+
+const MIME_TYPES: Record<string, string> = {
+    pdf: 'application/pdf',
+    md: 'text/markdown',
+    txt: 'text/plain',
+    html: 'text/html',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    svg: 'image/svg+xml',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    zip: 'application/zip'
+};
+
+/** Assignment a note is handed in to, with the course and profile it belongs to */
+interface SubmissionTarget {
+    assignment: Assignment;
+    course: Course;
+    profile: CanvasProfile;
+}
+
+/** What the user chose to hand in */
+type SubmissionChoice =
+    | { type: 'online_text_entry' }
+    | { type: 'online_upload'; file: TFile };
+
+/**
+ * Hands in a note as the user's submission for a Canvas assignment,
+ * either as a text entry rendered to HTML or as an uploaded file (the
+ * note itself or one of the files it links to). The assignment comes
+ * from the note's frontmatter when it is an assignment note or was
+ * submitted before; otherwise the user picks one.
+ */
+export class AssignmentSubmitter {
+    plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Ask which assignment and what to hand in, then submit the note
+     * @param file Note to submit
+     */
+    async submitNote(file: TFile): Promise<void> {
+        const target = await this.findTarget(file);
+        if (target) {
+            this.confirm(file, target);
+            return;
+        }
+
+        new Notice('Loading Canvas assignments...');
+        const profile = this.plugin.activeProfile;
+        const api = this.plugin.getApi(profile.id);
+        const targets: SubmissionTarget[] = [];
+        for (const course of await api.getCourses('student', 'active')) {
+            const assignments = await api.getCourseAssignments(course.id, { include: ['submission'] });
+            assignments
+                .filter(assignment => !assignment.locked_for_user && getSupportedTypes(assignment).length > 0)
+                .forEach(assignment => targets.push({ assignment, course, profile }));
+        }
+        if (targets.length === 0) {
+            new Notice('No open Canvas assignments accept text entries or file uploads');
+            return;
+        }
+        new AssignmentSuggestModal(this.plugin.app, targets, chosen => this.confirm(file, chosen)).open();
+    }
+
+    /**
+     * Hand in a note to an assignment and record the submission in its frontmatter
+     * @param file Note being submitted
+     * @param target Assignment to submit to
+     * @param choice Text entry, or the file to upload
+     * @returns The new submission
+     */
+    async submit(file: TFile, target: SubmissionTarget, choice: SubmissionChoice): Promise<Submission> {
+        const { app } = this.plugin;
+        const api = this.plugin.getApi(target.profile.id);
+        const { assignment, course } = target;
+
+        let request: SubmissionRequest;
+        if (choice.type === 'online_text_entry') {
+            request = { submission_type: 'online_text_entry', body: await renderNoteHtml(app, file) };
+        } else {
+            const uploaded = await api.uploadSubmissionFile(course.id, assignment.id, {
+                name: choice.file.name,
+                contentType: MIME_TYPES[choice.file.extension.toLowerCase()] ?? 'application/octet-stream',
+                data: await app.vault.readBinary(choice.file)
+            });
+            request = { submission_type: 'online_upload', file_ids: [uploaded.id] };
+        }
+
+        const submission = await api.submitAssignment(course.id, assignment.id, request);
+        await updateFrontmatterFields(app, file, {
+            [SUBMITTED_ASSIGNMENT_KEY]: assignment.id,
+            [SUBMITTED_COURSE_KEY]: course.id,
+            [SUBMISSION_ID_KEY]: submission.id ?? null,
+            submitted_at: submission.submitted_at ?? new Date().toISOString(),
+            submission_attempt: submission.attempt ?? null
+        });
+        return submission;
+    }
+
+    /**
+     * Files a note links to or embeds that could be uploaded instead of the note
+     */
+    getAttachments(file: TFile): TFile[] {
+        const { metadataCache } = this.plugin.app;
+        const cache = metadataCache.getFileCache(file);
+        const attachments = new Map<string, TFile>();
+        [...(cache?.embeds ?? []), ...(cache?.links ?? [])].forEach(reference => {
+            const linked = metadataCache.getFirstLinkpathDest(reference.link.split('#')[0], file.path);
+            if (linked && linked.extension !== 'md') {
+                attachments.set(linked.path, linked);
+            }
+        });
+        return [...attachments.values()];
+    }
+
+    private confirm(file: TFile, target: SubmissionTarget) {
+        new SubmitConfirmModal(this.plugin.app, file, target, this.getAttachments(file), async choice => {
+            try {
+                new Notice(`Submitting to ${target.assignment.name}...`);
+                const submission = await this.submit(file, target, choice);
+                new Notice(`Submitted to ${target.assignment.name}${submission.attempt ? ` (attempt ${submission.attempt})` : ''}`);
+            } catch (error) {
+                console.error('Error submitting to Canvas:', error);
+                new Notice(`Failed to submit: ${error.message || 'Unknown error'}`);
+            }
+        }).open();
+    }
+
+    /**
+     * Assignment named in the note's frontmatter, if any
+     */
+    private async findTarget(file: TFile): Promise<SubmissionTarget | null> {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!frontmatter) return null;
+        const assignmentId: CanvasId | undefined = frontmatter[ASSIGNMENT_ID_KEY] ?? frontmatter[SUBMITTED_ASSIGNMENT_KEY];
+        const courseId: CanvasId | undefined = frontmatter[ASSIGNMENT_ID_KEY] !== undefined
+            ? frontmatter.course_id
+            : frontmatter[SUBMITTED_COURSE_KEY];
+        if (assignmentId === undefined || assignmentId === null || courseId === undefined || courseId === null) return null;
+
+        const profile = this.plugin.settings.profiles.find(other => other.id === frontmatter[PROFILE_KEY])
+            ?? this.plugin.activeProfile;
+        const assignment = await this.plugin.getApi(profile.id).getAssignment(courseId, assignmentId, {
+            include: ['submission'],
+            fresh: true
+        });
+        return {
+            assignment,
+            course: { id: courseId, name: String(frontmatter.course ?? `Course ${courseId}`) },
+            profile
+        };
+    }
+}
+
+/**
+ * Submission types of an assignment that can be handed in from a note
+ * @param assignment Assignment
+ * @returns Supported types, in order of preference
+ */
+export function getSupportedTypes(assignment: Assignment): SubmissionRequest['submission_type'][] {
+    return SUPPORTED_TYPES.filter(type => assignment.submission_types?.includes(type));
+}
+
+/**
+ * Whether an assignment accepts a file, judging by its extension
+ * @param assignment Assignment
+ * @param extension File extension without dot
+ */
+export function isExtensionAllowed(assignment: Assignment, extension: string): boolean {
+    const allowed = assignment.allowed_extensions ?? [];
+    return allowed.length === 0 || allowed.some(other => other.toLowerCase() === extension.toLowerCase());
+}
+
+/**
+ * Render a note's Markdown to HTML for a text entry, without its frontmatter
+ */
+async function renderNoteHtml(app: App, file: TFile): Promise<string> {
+    const content = await app.vault.cachedRead(file);
+    const markdown = content.slice(getFrontMatterInfo(content).contentStart);
+    const el = createDiv();
+    const component = new Component();
+    component.load();
+    try {
+        await MarkdownRenderer.render(app, markdown, el, file.path, component);
+        return el.innerHTML;
+    } finally {
+        component.unload();
+    }
+}
+
+class AssignmentSuggestModal extends FuzzySuggestModal<SubmissionTarget> {
+    private targets: SubmissionTarget[];
+    private onChoose: (target: SubmissionTarget) => void;
+
+    constructor(app: App, targets: SubmissionTarget[], onChoose: (target: SubmissionTarget) => void) {
+        super(app);
+        this.targets = targets;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose the assignment to submit to');
+    }
+
+    getItems(): SubmissionTarget[] {
+        return this.targets;
+    }
+
+    getItemText(target: SubmissionTarget): string {
+        return `${target.course.name}: ${target.assignment.name}`;
+    }
+
+    onChooseItem(target: SubmissionTarget): void {
+        this.onChoose(target);
+    }
+}
+
+/**
+ * Shows what is about to be handed in and where, and lets the user pick
+ * among the submission types the assignment allows
+ */
+class SubmitConfirmModal extends Modal {
+    private file: TFile;
+    private target: SubmissionTarget;
+    private attachments: TFile[];
+    private onSubmit: (choice: SubmissionChoice) => void;
+
+    constructor(
+        app: App,
+        file: TFile,
+        target: SubmissionTarget,
+        attachments: TFile[],
+        onSubmit: (choice: SubmissionChoice) => void
+    ) {
+        super(app);
+        this.file = file;
+        this.target = target;
+        this.attachments = attachments;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const { assignment, course } = this.target;
+        contentEl.createEl('h3', { text: 'Submit to Canvas' });
+        contentEl.createEl('p', { text: `${course.name}: ${assignment.name}` });
+        if (assignment.due_at) {
+            contentEl.createEl('p', { text: `Due ${formatNoteDate(assignment.due_at)}` });
+        }
+
+        const allowed = (assignment.submission_types ?? []).map(type => SUBMISSION_TYPE_LABELS[type] ?? type);
+        contentEl.createEl('p', { text: `Accepted submission types: ${allowed.join(', ') || 'none'}` });
+        if (assignment.allowed_extensions?.length) {
+            contentEl.createEl('p', { text: `Accepted file types: ${assignment.allowed_extensions.join(', ')}` });
+        }
+        const submission = assignment.submission;
+        if (submission?.submitted_at) {
+            contentEl.createEl('p', {
+                text: `You already submitted on ${formatNoteDate(submission.submitted_at)}; this adds a new attempt.`
+            });
+        }
+
+        // Every way this note can be handed in, keyed by dropdown value
+        const choices = new Map<string, { label: string; choice: SubmissionChoice }>();
+        const types = getSupportedTypes(assignment);
+        if (types.includes('online_text_entry')) {
+            choices.set('text', { label: `Text entry of "${this.file.basename}"`, choice: { type: 'online_text_entry' } });
+        }
+        if (types.includes('online_upload')) {
+            [this.file, ...this.attachments]
+                .filter(file => isExtensionAllowed(assignment, file.extension))
+                .forEach(file => choices.set(`file:${file.path}`, {
+                    label: `Upload ${file.name}`,
+                    choice: { type: 'online_upload', file }
+                }));
+        }
+
+        if (choices.size === 0) {
+            contentEl.createEl('p', { text: 'This assignment does not accept this note or any file it links to.' });
+            new Setting(contentEl).addButton(button => button.setButtonText('Close').onClick(() => this.close()));
+            return;
+        }
+
+        let selected = [...choices.keys()][0];
+        new Setting(contentEl)
+            .setName('Hand in')
+            .setDesc('Embedded images are not part of text entries; upload a PDF export to keep them')
+            .addDropdown(dropdown => {
+                choices.forEach((value, key) => dropdown.addOption(key, value.label));
+                dropdown
+                    .setValue(selected)
+                    .onChange(value => {
+                        selected = value;
+                    });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Submit')
+                .setCta()
+                .onClick(() => {
+                    const entry = choices.get(selected);
+                    this.close();
+                    if (entry) this.onSubmit(entry.choice);
+                }))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
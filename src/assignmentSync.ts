@@ -0,0 +1,162 @@
+import { TFile, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import { Assignment, Course, getSubmissionStatus } from './canvasTypes';
+import { SyncResult } from './courseSync';
+import { HtmlConversionOptions, canvasHtmlToMarkdown } from './htmlConverter';
+import { createVaultLinkResolver } from './linkResolver';
+import { upsertRegion, wrapRegion } from './noteRegions';
+import { CanvasProfile, PROFILE_KEY, getProfileFolder, indexProfileNotes } from './profiles';
+import { ensureFolder, getAvailableNotePath, sanitizeFileName, updateFrontmatterFields } from './vaultUtils';
+
+/** Frontmatter key identifying the Canvas assignment a note belongs to */
+export const ASSIGNMENT_ID_KEY = 'canvas_assignment_id';
+
+/**
+ * Materializes every Canvas assignment as its own note, with the
+ * current user's submission state in the frontmatter and the converted
+ * description in a managed region. Notes are matched by Canvas id, so
+ * renaming or moving them does not break updates.
+ */
+export class AssignmentNoteSync {
+    plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Create or update assignment notes for all active courses of a profile
+     * @param profile Profile to sync; defaults to the active one
+     * @returns Number of notes created, updated and left unchanged
+     */
+    async syncAll(profile: CanvasProfile = this.plugin.activeProfile): Promise<SyncResult> {
+        const courses = await this.plugin.getApi(profile.id).getCourses(profile.role, 'active');
+        const result: SyncResult = { created: 0, updated: 0, unchanged: 0 };
+
+        for (const course of courses) {
+            const courseResult = await this.syncCourse(course, profile);
+            result.created += courseResult.created;
+            result.updated += courseResult.updated;
+            result.unchanged += courseResult.unchanged;
+        }
+        return result;
+    }
+
+    /**
+     * Create or update the assignment notes of one course
+     * @param course Course whose assignments are synced
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @returns Number of notes created, updated and left unchanged
+     */
+    async syncCourse(course: Course, profile: CanvasProfile = this.plugin.activeProfile): Promise<SyncResult> {
+        const api = this.plugin.getApi(profile.id);
+        const assignments = await api.getCourseAssignments(course.id, {
+            include: ['submission']
+        });
+        const index = indexProfileNotes(this.plugin.app, ASSIGNMENT_ID_KEY, profile.id);
+        const conversion: HtmlConversionOptions = {
+            baseUrl: api.baseUrl,
+            resolveLink: createVaultLinkResolver(this.plugin.app, profile.id, '', this.plugin.moduleMirror)
+        };
+        const result: SyncResult = { created: 0, updated: 0, unchanged: 0 };
+
+        for (const assignment of assignments) {
+            const existing = index.get(String(assignment.id)) ?? null;
+            const outcome = await this.syncAssignment(course, assignment, existing, conversion, profile);
+            result[outcome]++;
+        }
+        return result;
+    }
+
+    /**
+     * Create or update the note of a single assignment
+     * @param course Course the assignment belongs to
+     * @param assignment Assignment, fetched with `include[]=submission`
+     * @param existing Note already synced for this assignment, if any
+     * @param conversion Options for converting the description HTML
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @returns What happened to the note
+     */
+    async syncAssignment(
+        course: Course,
+        assignment: Assignment,
+        existing: TFile | null,
+        conversion: HtmlConversionOptions = { baseUrl: this.plugin.canvasApi.baseUrl },
+        profile: CanvasProfile = this.plugin.activeProfile
+    ): Promise<keyof SyncResult> {
+        const { app } = this.plugin;
+        const description = this.renderDescription(assignment, conversion);
+        let file = existing;
+        let outcome: keyof SyncResult = 'updated';
+
+        if (!file) {
+            const folder = this.getCourseFolder(course, profile);
+            await ensureFolder(app, folder);
+            const path = getAvailableNotePath(app, folder, assignment.name, String(assignment.id));
+            file = await app.vault.create(path, [
+                `# ${assignment.name}`,
+                '',
+                wrapRegion('description', description),
+                '',
+                '## Notes',
+                ''
+            ].join('\n'));
+            outcome = 'created';
+        } else {
+            const content = await app.vault.read(file);
+            const updated = upsertRegion(content, 'description', description);
+            if (updated !== content) {
+                await app.vault.modify(file, updated);
+            } else {
+                outcome = 'unchanged';
+            }
+        }
+
+        const frontmatterChanged = await this.updateFrontmatter(file, course, assignment, profile);
+        if (outcome === 'unchanged' && frontmatterChanged) {
+            outcome = 'updated';
+        }
+        return outcome;
+    }
+
+    /**
+     * Folder holding a course's assignment notes
+     */
+    getCourseFolder(course: Course, profile: CanvasProfile = this.plugin.activeProfile): string {
+        const root = getProfileFolder(this.plugin.settings.assignmentNotesFolder || 'Canvas/Assignments', profile);
+        return normalizePath(`${root}/${sanitizeFileName(course.name)}`);
+    }
+
+    /**
+     * Write assignment and submission metadata into the note's frontmatter
+     * @returns True if any field changed
+     */
+    private async updateFrontmatter(
+        file: TFile,
+        course: Course,
+        assignment: Assignment,
+        profile: CanvasProfile
+    ): Promise<boolean> {
+        const submission = assignment.submission;
+        const fields: Record<string, string | number | boolean | null> = {
+            [ASSIGNMENT_ID_KEY]: assignment.id,
+            [PROFILE_KEY]: profile.id,
+            course_id: course.id,
+            course: course.name,
+            due_at: assignment.due_at,
+            points_possible: assignment.points_possible ?? null,
+            submission_state: submission?.workflow_state ?? 'unsubmitted',
+            status: getSubmissionStatus(assignment),
+            score: submission?.score ?? null,
+            late: submission?.late ?? false,
+            missing: submission?.missing ?? false,
+            canvas_url: assignment.html_url ?? null
+        };
+
+        return updateFrontmatterFields(this.plugin.app, file, fields);
+    }
+
+    private renderDescription(assignment: Assignment, conversion: HtmlConversionOptions): string {
+        return canvasHtmlToMarkdown(assignment.description, conversion) || '_No description provided._';
+    }
+}
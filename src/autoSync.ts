@@ -0,0 +1,228 @@
+import { Notice, moment } from 'obsidian';
+import MyPlugin from './main';
+import { scopedKey } from './profiles';
+import { CHANGE_LABELS, CanvasChange, SyncSnapshot, diffCourseSnapshots, snapshotCourse } from './syncSnapshot';
+
+/** Where the last snapshot is persisted; the plugin stores it next to data.json */
+export interface SnapshotStore {
+    load(): Promise<SyncSnapshot | null>;
+    save(snapshot: SyncSnapshot): Promise<void>;
+}
+
+/** Changes listed individually in a notice before the rest are summarised */
+const MAX_NOTICE_CHANGES = 5;
+const NOTICE_DURATION_MS = 10000;
+
+/**
+ * Periodically refreshes the enabled courses of every profile in the background, reports
+ * what changed since the previous run, and keeps the status bar item up
+ * to date with the last sync time, unseen changes and errors.
+ */
+export class AutoSyncScheduler {
+    plugin: MyPlugin;
+    private store: SnapshotStore;
+    private statusEl: HTMLElement;
+    private snapshot: SyncSnapshot = { courses: {}, lastSyncedAt: null };
+    private intervalId: number | null = null;
+    private running = false;
+    private lastError: string | null = null;
+    /** Changes not yet shown through the status bar */
+    private unseen: CanvasChange[] = [];
+
+    constructor(plugin: MyPlugin, store: SnapshotStore, statusEl: HTMLElement) {
+        this.plugin = plugin;
+        this.store = store;
+        this.statusEl = statusEl;
+    }
+
+    /**
+     * Restore the last snapshot from the store
+     */
+    async load(): Promise<void> {
+        const snapshot = await this.store.load();
+        if (snapshot) {
+            this.snapshot = { courses: snapshot.courses ?? {}, lastSyncedAt: snapshot.lastSyncedAt ?? null };
+        }
+        this.renderStatus();
+    }
+
+    /**
+     * (Re)schedule background runs from the current settings. Called on
+     * load and whenever settings are saved.
+     */
+    start(): void {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        if (this.plugin.settings.autoSyncEnabled) {
+            this.intervalId = window.setInterval(() => this.run(), this.getIntervalMs());
+            this.plugin.registerInterval(this.intervalId);
+        }
+        this.renderStatus();
+    }
+
+    /**
+     * Run now if the last sync is older than the interval, e.g. after
+     * Obsidian was closed for a while
+     */
+    runIfDue(): void {
+        const last = this.snapshot.lastSyncedAt ?? 0;
+        if (this.plugin.settings.autoSyncEnabled && Date.now() - last >= this.getIntervalMs()) {
+            this.run();
+        }
+    }
+
+    /**
+     * Sync the enabled courses of every profile and report changes since the last run
+     * @param manual Started by the user, who is shown the result through
+     * showChanges() instead of the background notice
+     * @returns Detected changes; empty if the run was skipped or failed
+     */
+    async run(manual = false): Promise<CanvasChange[]> {
+        if (this.running) return [];
+        if (this.plugin.settings.offlineMode) {
+            this.renderStatus();
+            return [];
+        }
+
+        this.running = true;
+        this.renderStatus();
+        const { settings } = this.plugin;
+
+        try {
+            const changes: CanvasChange[] = [];
+            const courseSnapshots: SyncSnapshot['courses'] = {};
+            for (const profile of settings.profiles) {
+                const api = this.plugin.getApi(profile.id);
+                const courses = await api.getCourses(profile.role, 'active', {
+                    include: ['term', 'teachers', 'total_scores'],
+                    fresh: true
+                });
+                const announcements = await api.getAnnouncements(courses.map(course => course.id), { fresh: true });
+
+                for (const course of courses) {
+                    const id = String(course.id);
+                    // Course ids are only unique per Canvas instance
+                    const key = scopedKey(profile.id, id);
+                    const assignments = await api.getCourseAssignments(course.id, { include: ['submission'], fresh: true });
+                    const courseAnnouncements = announcements.filter(announcement => announcement.context_code === `course_${id}`);
+
+                    const next = snapshotCourse(course, assignments, courseAnnouncements);
+                    changes.push(...diffCourseSnapshots(id, this.snapshot.courses[key], next));
+                    courseSnapshots[key] = next;
+
+                    // The fresh responses are cached, so the note syncs below reuse them
+                    if (settings.autoSyncNotes) {
+                        await this.plugin.courseSync.syncCourse(course, profile);
+                        await this.plugin.assignmentSync.syncCourse(course, profile);
+                        await this.plugin.discussionSync.syncCourse(course, profile);
+                    }
+                }
+            }
+            if (settings.autoSyncNotes && settings.taskSyncEnabled) {
+                await this.plugin.taskSync.reconcile();
+            }
+            if (settings.icsAutoExport) {
+                await this.plugin.icsExporter.export();
+            }
+            // Only rewrites the plan if due dates, estimates or progress changed
+            if (settings.plannerAutoReplan && this.plugin.studyPlanner.hasPlan) {
+                await this.plugin.studyPlanner.plan();
+            }
+
+            this.snapshot = { courses: courseSnapshots, lastSyncedAt: Date.now() };
+            await this.store.save(this.snapshot);
+            this.lastError = null;
+
+            if (changes.length > 0) {
+                this.unseen.push(...changes);
+                if (settings.autoSyncNotify && !manual) {
+                    this.notify(changes);
+                }
+            }
+            return changes;
+        } catch (error) {
+            console.error('Canvas auto-sync failed:', error);
+            this.lastError = error.message || 'Unknown error';
+            return [];
+        } finally {
+            this.running = false;
+            this.renderStatus();
+        }
+    }
+
+    /**
+     * Show the changes collected since they were last viewed, and clear
+     * the badge. Bound to clicks on the status bar item.
+     */
+    showChanges(): void {
+        if (this.lastError) {
+            new Notice(`Canvas sync failed: ${this.lastError}`);
+        } else if (this.unseen.length === 0) {
+            new Notice(`No new Canvas changes. ${this.describeLastSync()}`);
+        } else {
+            this.notify(this.unseen);
+        }
+        this.unseen = [];
+        this.renderStatus();
+    }
+
+    private notify(changes: CanvasChange[]): void {
+        const lines = changes.slice(0, MAX_NOTICE_CHANGES).map(change => `• ${describeChange(change)}`);
+        if (changes.length > MAX_NOTICE_CHANGES) {
+            lines.push(`…and ${changes.length - MAX_NOTICE_CHANGES} more`);
+        }
+        new Notice(`Canvas: ${changes.length} change${changes.length === 1 ? '' : 's'}\n${lines.join('\n')}`, NOTICE_DURATION_MS);
+    }
+
+    private renderStatus(): void {
+        const el = this.statusEl;
+        el.toggleClass('is-error', this.lastError !== null);
+        el.toggleClass('has-changes', this.unseen.length > 0);
+
+        let text: string;
+        if (this.running) {
+            text = 'Canvas: syncing…';
+        } else if (this.plugin.settings.offlineMode) {
+            text = 'Canvas: offline';
+        } else if (this.lastError) {
+            text = 'Canvas: sync failed';
+        } else if (this.snapshot.lastSyncedAt) {
+            text = `Canvas: synced ${moment(this.snapshot.lastSyncedAt).format('HH:mm')}`;
+        } else {
+            text = 'Canvas LMS Ready';
+        }
+        if (this.unseen.length > 0) {
+            text += ` · ${this.unseen.length} new`;
+        }
+
+        el.setText(text);
+        el.setAttr('aria-label', this.lastError ?? this.describeLastSync());
+    }
+
+    private describeLastSync(): string {
+        const last = this.snapshot.lastSyncedAt;
+        return last ? `Last auto-sync ${moment(last).format('YYYY-MM-DD HH:mm')}` : 'Not synced yet';
+    }
+
+    private getIntervalMs(): number {
+        return Math.max(5, this.plugin.settings.autoSyncIntervalMinutes) * 60 * 1000;
+    }
+}
+
+/**
+ * One-line description of a change for notices
+ */
+function describeChange(change: CanvasChange): string {
+    const label = `${CHANGE_LABELS[change.kind]}: ${change.title} (${change.course})`;
+    switch (change.kind) {
+        case 'new-assignment':
+        case 'due-date-changed':
+            return change.dueAt ? `${label}, due ${moment(change.dueAt).format('ddd MMM D, HH:mm')}` : label;
+        case 'grade-posted':
+            return change.grade ? `${label}: ${change.grade}` : label;
+        default:
+            return label;
+    }
+}
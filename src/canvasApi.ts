@@ -1,17 +1,206 @@
 import { MyPluginSettings } from './settings';
-import { requestUrl, RequestUrlResponse, Notice } from 'obsidian';
+import {
+    Assignment, AssignmentGroup, CalendarEvent, CanvasFile, CanvasId, Course, DiscussionEntry, DiscussionTopic,
+    DiscussionView, Enrollment, Module, ModuleItem, Page, PlannerItem, PlannerOverride, Quiz, QuizQuestion, QuizSubmission,
+    RubricAssessmentEntry, Submission, SubmissionRequest, TodoItem, UserProfile
+} from './canvasTypes';
+import {
+    Validator, validateAssignment, validateAssignmentGroup, validateCalendarEvent, validateCourse, validateDiscussionEntry,
+    validateDiscussionTopic, validateDiscussionView, validateEnrollment, validateFile, validateModule, validateModuleItem,
+    validatePage, validatePlannerItem, validatePlannerOverride, validateQuiz, validateQuizQuestion, validateQuizSubmission,
+    validateSubmission, validateTodoItem, validateUploadTarget, validateUserProfile
+} from './canvasValidators';
+import {
+    CanvasApiError, CanvasAuthError, CanvasErrorBody, CanvasOfflineError, CanvasValidationError, RequestAbortedError, UntrustedHostError
+} from './errors';
+import { HttpResponse, HttpTransport, obsidianTransport, redactSecrets } from './httpTransport';
+import { CanvasAuthHandler, isTokenExpiring } from './oauth';
+import { CanvasProfile, DEFAULT_PROFILE_ID, getProfileSecrets } from './profiles';
+import { buildProxyUrl, getHost, isCanvasUrl, signProxyRequest } from './proxy';
+import { RequestScheduler } from './requestScheduler';
+import { CachedResponse, DEFAULT_CACHE_TTL_MINUTES, ResponseCache, getCacheResource } from './responseCache';
+
+/** Page size requested from Canvas list endpoints unless overridden */
+const DEFAULT_PAGE_SIZE = 50;
+
+export interface RequestOptions {
+    /** Cancels the request, including queued and backoff waits */
+    signal?: AbortSignal;
+    /** Skip cached responses and ask Canvas, still caching the answer */
+    fresh?: boolean;
+}
+
+export interface PaginationOptions extends RequestOptions {
+    /** Number of items requested per page (Canvas caps this at 100) */
+    perPage?: number;
+    /** Stop after this many items, even if more pages are available */
+    maxItems?: number;
+    /** Key of the list in endpoints that wrap each page in an object */
+    listKey?: string;
+}
+
+/**
+ * Look up a response header case-insensitively
+ * @param headers Response headers
+ * @param name Header name
+ * @returns Header value, or undefined if absent
+ */
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+    if (!headers) return undefined;
+    const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+}
+
+/**
+ * API path of a request URL, without host or query string
+ * @param url Absolute request URL
+ * @returns Path such as `/api/v1/courses`
+ */
+function getEndpointPath(url: string): string {
+    try {
+        return new URL(url).pathname;
+    } catch (error) {
+        return url.split('?')[0];
+    }
+}
+
+/**
+ * Parse a Canvas error response body
+ * @param text Raw response text
+ * @returns Parsed error body, or null if it is not JSON
+ */
+function parseErrorBody(text: string): CanvasErrorBody | null {
+    try {
+        const body = JSON.parse(text);
+        return body && typeof body === 'object' ? body : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Whether a 401 response means the access token itself is bad. Canvas
+ * also answers 401 when a valid token lacks permission for an action;
+ * only rejected tokens come with `WWW-Authenticate` or an
+ * "Invalid access token" message.
+ * @param headers Response headers
+ * @param text Response body
+ * @returns True if signing in again could help
+ */
+export function isTokenRejection(headers: Record<string, string> | undefined, text: string): boolean {
+    return getHeader(headers, 'www-authenticate') !== undefined || /invalid access token|expired/i.test(text);
+}
+
+/**
+ * Extract the `rel="next"` URL from a Link header
+ * @param linkHeader Value of the Link header
+ * @returns URL of the next page, or null on the last page
+ */
+export function parseNextLink(linkHeader: string | undefined): string | null {
+    if (!linkHeader) return null;
+    for (const part of linkHeader.split(',')) {
+        const match = part.match(/<([^>]+)>\s*;(.*)/);
+        if (match && /rel="?next"?/.test(match[2])) {
+            return match[1].trim();
+        }
+    }
+    return null;
+}
+
+/** The parts of a response CanvasAPI works with, whether live or cached */
+export interface CanvasResponse {
+    status: number;
+    headers: Record<string, string>;
+    json: any;
+    /** Epoch milliseconds when Canvas produced the response */
+    fetchedAt: number;
+    /** True if the response was served from the cache */
+    fromCache: boolean;
+}
+
+/**
+ * Encode form fields and a file as a multipart/form-data body. Canvas
+ * requires the file to come after all other fields.
+ */
+function buildMultipartBody(
+    boundary: string,
+    fields: Record<string, string>,
+    file: { name: string; contentType: string; data: ArrayBuffer }
+): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const quote = (value: string) => value.replace(/"/g, '%22').replace(/\r?\n/g, ' ');
+    let head = '';
+    Object.entries(fields).forEach(([name, value]) => {
+        head += `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"\r\n\r\n${value}\r\n`;
+    });
+    head += `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${quote(file.name)}"\r\n`
+        + `Content-Type: ${file.contentType}\r\n\r\n`;
+    const parts = [encoder.encode(head), new Uint8Array(file.data), encoder.encode(`\r\n--${boundary}--\r\n`)];
+
+    const body = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        body.set(part, offset);
+        offset += part.length;
+    });
+    return body.buffer;
+}
+
+function fromCacheEntry(entry: CachedResponse): CanvasResponse {
+    return { ...entry, fromCache: true };
+}
+
+export interface QueryOptions extends PaginationOptions {
+    /** Extra data to embed in each item, e.g. 'term', 'teachers', 'submission' */
+    include?: string[];
+}
 
 export class CanvasAPI {
+    /** Canvas account this client talks to */
+    readonly profile: CanvasProfile;
     private apiUrl: string;
     private accessToken: string;
     private useProxy: boolean;
     private corsProxyUrl: string;
+    private cache: ResponseCache | null;
+    private cacheSettings: Pick<MyPluginSettings, 'cacheEnabled' | 'staleWhileRevalidate' | 'offlineMode' | 'cacheTtlMinutes'>;
+    private revalidating = new Set<string>();
+    private scheduler: RequestScheduler;
+    private auth: CanvasAuthHandler | null;
+    private transport: HttpTransport;
 
-    constructor(settings: MyPluginSettings) {
-        this.apiUrl = settings.canvasApiUrl.replace(/\/$/, ''); // Remove trailing slash
-        this.accessToken = settings.canvasApiToken;
-        this.useProxy = settings.useProxy;
-        this.corsProxyUrl = settings.corsProxyUrl;
+    constructor(
+        profile: CanvasProfile,
+        settings: MyPluginSettings,
+        cache: ResponseCache | null = null,
+        auth: CanvasAuthHandler | null = null,
+        transport: HttpTransport = obsidianTransport
+    ) {
+        this.profile = profile;
+        this.apiUrl = profile.canvasApiUrl.replace(/\/$/, ''); // Remove trailing slash
+        this.accessToken = profile.canvasApiToken;
+        this.useProxy = profile.useProxy;
+        this.corsProxyUrl = profile.corsProxyUrl;
+        this.cache = cache;
+        this.auth = auth;
+        this.transport = transport;
+        this.cacheSettings = {
+            cacheEnabled: settings.cacheEnabled,
+            staleWhileRevalidate: settings.staleWhileRevalidate,
+            offlineMode: settings.offlineMode,
+            cacheTtlMinutes: settings.cacheTtlMinutes
+        };
+        this.scheduler = new RequestScheduler({
+            concurrency: settings.maxConcurrentRequests,
+            maxRetries: settings.maxRetries
+        });
+    }
+
+    /**
+     * Canvas instance URL without trailing slash, for links to Canvas pages
+     */
+    get baseUrl(): string {
+        return this.apiUrl;
     }
 
     /**
@@ -20,93 +209,372 @@ export class CanvasAPI {
      * @param method HTTP method ('GET', 'POST', 'PUT', 'DELETE')
      * @param params Query parameters
      * @param data Request body for POST/PUT requests
+     * @param validator Optional validator for the response body
+     * @param options Abort signal and cache bypass
      * @returns JSON response from the API
      */
-    private async _request(
+    private async _request<T = any>(
         endpoint: string, 
         method: string = 'GET', 
         params: Record<string, any> = {}, 
-        data: any = null
-    ): Promise<any> {
+        data: any = null,
+        validator?: Validator<T>,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        const url = this._buildUrl(endpoint, params);
+        const response = await this._send(url, method, data, options);
+        return validator ? validator(response.json, getEndpointPath(url)) : response.json;
+    }
+
+    /**
+     * Build the full request URL for an endpoint
+     * @param endpoint API endpoint (e.g., '/api/v1/courses')
+     * @param params Query parameters
+     * @returns Absolute Canvas URL
+     */
+    private _buildUrl(endpoint: string, params: Record<string, any> = {}): string {
+        // Ensure endpoint starts with '/'
+        if (!endpoint.startsWith('/')) {
+            endpoint = '/' + endpoint;
+        }
+        
+        // Ensure endpoint includes api/v1 path
+        if (!endpoint.includes('/api/v1')) {
+            endpoint = '/api/v1' + endpoint;
+        }
+        
+        // Build the full URL
+        let url = `${this.apiUrl}${endpoint}`;
+        
+        // Add query parameters
+        if (Object.keys(params).length > 0) {
+            const queryParams = new URLSearchParams();
+            Object.entries(params).forEach(([key, value]) => {
+                // Canvas expects list parameters as repeated `key[]=value` pairs
+                if (Array.isArray(value)) {
+                    const listKey = key.endsWith('[]') ? key : `${key}[]`;
+                    value.forEach(item => queryParams.append(listKey, String(item)));
+                } else {
+                    queryParams.append(key, String(value));
+                }
+            });
+            url += `?${queryParams.toString()}`;
+        }
+
+        return url;
+    }
+
+    /**
+     * Send a request to an absolute Canvas URL, going through the response
+     * cache for GET requests
+     * @param url Absolute URL, as built by _buildUrl or taken from a Link header
+     * @param method HTTP method ('GET', 'POST', 'PUT', 'DELETE')
+     * @param data Request body for POST/PUT requests
+     * @param options Abort signal and cache bypass
+     * @returns Response, including headers
+     */
+    private async _send(url: string, method = 'GET', data: any = null, options: RequestOptions = {}): Promise<CanvasResponse> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            throw new RequestAbortedError();
+        }
+
+        const endpoint = getEndpointPath(url);
+        const cache = this.cacheSettings.cacheEnabled || this.cacheSettings.offlineMode ? this.cache : null;
+
+        if (method !== 'GET' && this.cacheSettings.offlineMode) {
+            throw new CanvasOfflineError(endpoint);
+        }
+
+        if (!cache || method !== 'GET') {
+            const response = await this._fetch(url, method, data, signal);
+            // Writes make any cached copy of the resource outdated
+            if (method !== 'GET' && this.cache) {
+                this.cache.invalidate(endpoint);
+            }
+            return response;
+        }
+
+        const entry = cache.get(this._cacheKey(url));
+
+        if (this.cacheSettings.offlineMode) {
+            if (entry) return fromCacheEntry(entry);
+            throw new CanvasOfflineError(endpoint);
+        }
+
+        if (entry && !options.fresh) {
+            const resource = getCacheResource(endpoint);
+            const ttlMinutes = this.cacheSettings.cacheTtlMinutes?.[resource] ?? DEFAULT_CACHE_TTL_MINUTES[resource];
+            const age = Date.now() - entry.fetchedAt;
+
+            if (age < ttlMinutes * 60 * 1000) {
+                return fromCacheEntry(entry);
+            }
+            if (this.cacheSettings.staleWhileRevalidate) {
+                this._revalidate(url, cache);
+                return fromCacheEntry(entry);
+            }
+        }
+
         try {
-            // Ensure endpoint starts with '/'
-            if (!endpoint.startsWith('/')) {
-                endpoint = '/' + endpoint;
+            return await this._fetchAndCache(url, cache, signal);
+        } catch (error) {
+            // On flaky connections a stale answer beats no answer; Canvas
+            // errors such as 401 or 404 are still surfaced
+            if (entry && !(error instanceof RequestAbortedError) && !(error instanceof CanvasApiError && error.status < 500)) {
+                console.warn(`Serving stale cache for ${endpoint}:`, error);
+                return fromCacheEntry(entry);
             }
-            
-            // Ensure endpoint includes api/v1 path
-            if (!endpoint.includes('/api/v1')) {
-                endpoint = '/api/v1' + endpoint;
+            throw error;
+        }
+    }
+
+    /**
+     * Cache key of a request URL. Profiles share one cache, and two
+     * accounts on the same Canvas instance request identical URLs, so
+     * keys other than the default profile's are prefixed with its id.
+     */
+    private _cacheKey(url: string): string {
+        return this.profile.id === DEFAULT_PROFILE_ID ? url : `${this.profile.id} ${url}`;
+    }
+
+    /**
+     * Refresh a cache entry in the background
+     */
+    private _revalidate(url: string, cache: ResponseCache): void {
+        if (this.revalidating.has(url)) return;
+        this.revalidating.add(url);
+        this._fetchAndCache(url, cache).then(
+            () => this.revalidating.delete(url),
+            error => {
+                this.revalidating.delete(url);
+                console.warn('Background revalidation failed:', error);
             }
-            
-            // Build the full URL
-            let url = `${this.apiUrl}${endpoint}`;
-            
-            // Add query parameters
-            if (Object.keys(params).length > 0) {
-                const queryParams = new URLSearchParams();
-                Object.entries(params).forEach(([key, value]) => {
-                    queryParams.append(key, String(value));
-                });
-                url += `?${queryParams.toString()}`;
+        );
+    }
+
+    private async _fetchAndCache(url: string, cache: ResponseCache, signal?: AbortSignal): Promise<CanvasResponse> {
+        const response = await this._fetch(url, 'GET', null, signal);
+        const link = getHeader(response.headers, 'link');
+        cache.set(this._cacheKey(url), {
+            status: response.status,
+            headers: link ? { link } : {},
+            json: response.json,
+            fetchedAt: response.fetchedAt
+        });
+        return response;
+    }
+
+    /**
+     * Send a request to Canvas over the network, through the scheduler
+     * that limits concurrency and retries throttled or failed attempts.
+     * The token only goes to the Canvas host, or to a proxy the user approved.
+     * @param url Absolute Canvas URL
+     * @param method HTTP method ('GET', 'POST', 'PUT', 'DELETE')
+     * @param data Request body for POST/PUT requests
+     * @param signal Optional abort signal
+     * @param retried Set on the retry after a token refresh
+     * @returns Live response
+     */
+    private async _fetch(url: string, method: string, data: any, signal?: AbortSignal, retried = false): Promise<CanvasResponse> {
+        const endpoint = getEndpointPath(url);
+        const canvasUrl = url;
+        try {
+            // Pagination links and upload redirects come from responses; never follow them off Canvas with the token
+            if (!isCanvasUrl(url, this.apiUrl)) {
+                throw new UntrustedHostError(getHost(url) || url);
             }
-            
-            // Use CORS proxy if enabled
-            if (this.useProxy && this.corsProxyUrl) {
-                url = `${this.corsProxyUrl}${encodeURIComponent(url)}`;
-                console.log(`Using proxy URL: ${url}`);
+
+            // Refresh OAuth2 tokens shortly before they expire rather than waiting for a 401
+            if (!retried && isTokenExpiring(this.profile)) {
+                await this._refreshToken();
             }
-            
+
+            const body = data ? JSON.stringify(data) : '';
             // Set headers
             const headers: Record<string, string> = {
                 'Authorization': `Bearer ${this.accessToken}`,
                 'Content-Type': 'application/json'
             };
+
+            // Use CORS proxy if enabled, once the user agreed to hand it the token
+            let via = '';
+            if (this.useProxy && this.corsProxyUrl) {
+                via = await this._approveProxy();
+                Object.assign(headers, await signProxyRequest(this.profile.proxySecret, method, url, body));
+                url = buildProxyUrl(this.corsProxyUrl, url);
+            }
             
-            console.log(`Making ${method} request to: ${url}`);
+            console.log(`Making ${method} request to: ${this._redact(canvasUrl)}${via ? ` via ${via}` : ''}`);
             
             // Make the request
-            const response: RequestUrlResponse = await requestUrl({
+            const response: HttpResponse = await this.scheduler.run(method, () => this.transport({
                 url: url,
                 method: method,
                 headers: headers,
-                body: data ? JSON.stringify(data) : undefined,
-                throw: false
-            });
+                body: body || undefined
+            }), signal);
             
             console.log(`Response status: ${response.status}`);
             
+            if (response.status === 401 && isTokenRejection(response.headers, response.text)) {
+                if (!retried && await this._refreshToken()) {
+                    return await this._fetch(canvasUrl, method, data, signal, true);
+                }
+                this.auth?.onUnauthorized(this.profile);
+                throw new CanvasAuthError(this.profile.id, endpoint, parseErrorBody(response.text), response.text);
+            }
+            
             // Handle error responses
             if (response.status >= 400) {
-                console.error(`Error ${response.status}:`, response.text);
-                throw new Error(`Canvas API request failed: ${response.status} - ${response.text}`);
+                console.error(`Error ${response.status}:`, this._redact(response.text));
+                throw new CanvasApiError(response.status, endpoint, parseErrorBody(response.text), response.text);
             }
             
-            return response.json;
+            return {
+                status: response.status,
+                headers: response.headers,
+                // DELETE and some PUT endpoints answer with an empty body
+                json: response.text ? response.json : null,
+                fetchedAt: Date.now(),
+                fromCache: false
+            };
         } catch (error) {
-            console.error('Canvas API request failed:', error);
+            console.error('Canvas API request failed:', this._redact(error instanceof Error ? `${error.name}: ${error.message}` : String(error)));
             throw error;
         }
     }
 
+    /**
+     * Make sure the user agreed to send the token to the configured proxy
+     * @returns Proxy host
+     */
+    private async _approveProxy(): Promise<string> {
+        const host = getHost(this.corsProxyUrl);
+        if (!host) {
+            throw new UntrustedHostError(this.corsProxyUrl, `Invalid CORS proxy URL: ${this.corsProxyUrl}`);
+        }
+        if (host === getHost(this.apiUrl) || host === this.profile.approvedProxyHost) return host;
+        if (!this.auth?.approveProxyHost || !await this.auth.approveProxyHost(this.profile, host)) {
+            throw new UntrustedHostError(host, `The Canvas token was not sent to the proxy ${host}, which was not approved`);
+        }
+        return host;
+    }
+
+    /**
+     * Remove this profile's secrets and any credentials from text to log
+     * @param text URL or response body
+     * @returns Redacted text
+     */
+    private _redact(text: string): string {
+        return redactSecrets(text, [this.accessToken, ...Object.values(getProfileSecrets(this.profile))]);
+    }
+
+    /**
+     * Get a new access token through the auth handler
+     * @returns True if the token was replaced
+     */
+    private async _refreshToken(): Promise<boolean> {
+        const token = this.auth ? await this.auth.refresh(this.profile) : null;
+        if (!token) return false;
+        this.accessToken = token;
+        return true;
+    }
+
+    /**
+     * Iterate over every item of a paginated list endpoint, following
+     * the `Link: rel="next"` headers Canvas returns
+     * @param endpoint API endpoint (e.g., '/api/v1/courses')
+     * @param params Query parameters
+     * @param options Page size, optional cap on the number of items and key of wrapped lists
+     * @param validator Optional validator applied to every item
+     * @returns Async iterator over the items of all pages
+     */
+    async *paginate<T = any>(
+        endpoint: string,
+        params: Record<string, any> = {},
+        options: PaginationOptions = {},
+        validator?: Validator<T>
+    ): AsyncGenerator<T> {
+        const maxItems = options.maxItems ?? Infinity;
+        if (maxItems <= 0) {
+            return;
+        }
+
+        let url: string | null = this._buildUrl(endpoint, {
+            per_page: options.perPage ?? DEFAULT_PAGE_SIZE,
+            ...params
+        });
+        let count = 0;
+
+        while (url) {
+            const response = await this._send(url, 'GET', null, options);
+            const path = options.listKey ? `${getEndpointPath(url)}.${options.listKey}` : getEndpointPath(url);
+            const page = options.listKey ? response.json?.[options.listKey] : response.json;
+            // An error page or changed endpoint must not read as an empty list, which syncs would act on
+            if (!Array.isArray(page)) {
+                throw new CanvasValidationError(path, 'array', page);
+            }
+            const items: unknown[] = page;
+
+            for (const item of items) {
+                yield validator ? validator(item, `${path}[${count}]`) : item as T;
+                if (++count >= maxItems) {
+                    return;
+                }
+            }
+
+            url = parseNextLink(getHeader(response.headers, 'link'));
+        }
+    }
+
+    /**
+     * Fetch every item of a paginated list endpoint
+     * @param endpoint API endpoint (e.g., '/api/v1/courses')
+     * @param params Query parameters
+     * @param options Page size and optional cap on the number of items
+     * @param validator Optional validator applied to every item
+     * @returns Items of all pages, in order
+     */
+    async requestAllPages<T = any>(
+        endpoint: string,
+        params: Record<string, any> = {},
+        options: PaginationOptions = {},
+        validator?: Validator<T>
+    ): Promise<T[]> {
+        const items: T[] = [];
+        for await (const item of this.paginate<T>(endpoint, params, options, validator)) {
+            items.push(item);
+        }
+        return items;
+    }
+
     /**
      * Get the current user's profile
+     * @param options Abort signal
      * @returns User profile object
      */
-    async getUserProfile(): Promise<any> {
-        return this._request('/users/self');
+    async getUserProfile(options: RequestOptions = {}): Promise<UserProfile> {
+        return this._request('/users/self', 'GET', {}, null, validateUserProfile, options);
     }
     
     /**
      * Get courses for the current user
      * @param enrollmentType Filter by enrollment type
      * @param enrollmentState Filter by enrollment state
+     * @param options Pagination options and extra data to include
      * @returns List of courses
      */
-    async getCourses(enrollmentType?: string, enrollmentState?: string): Promise<any[]> {
-        const params: Record<string, any> = {
-            per_page: 50
-        };
+    async getCourses(
+        enrollmentType?: string,
+        enrollmentState?: string,
+        options: QueryOptions = {}
+    ): Promise<Course[]> {
+        const params: Record<string, any> = {};
+
+        if (options.include && options.include.length > 0) {
+            params.include = options.include;
+        }
         
         if (enrollmentType) {
             params.enrollment_type = enrollmentType;
@@ -116,56 +584,559 @@ export class CanvasAPI {
             params.enrollment_state = enrollmentState;
         }
         
-        return this._request('/courses', 'GET', params);
+        return this._filterEnabled(await this.requestAllPages('/courses', params, options, validateCourse));
+    }
+
+    /**
+     * Keep only the courses enabled in the profile; none enabled keeps all
+     */
+    private _filterEnabled(courses: Course[]): Course[] {
+        const enabled = this.profile.enabledCourses;
+        return enabled.length === 0 ? courses : courses.filter(course => enabled.includes(String(course.id)));
     }
     
     /**
      * Get assignments for a specific course
      * @param courseId Course ID
+     * @param options Pagination options and extra data to include; pass
+     * `include: ['submission']` to get the current user's own submission
      * @returns List of assignments
      */
-    async getCourseAssignments(courseId: string | number): Promise<any[]> {
-        return this._request(`/courses/${courseId}/assignments`, 'GET', { per_page: 50 });
+    async getCourseAssignments(courseId: string | number, options: QueryOptions = {}): Promise<Assignment[]> {
+        const params: Record<string, any> = {};
+        if (options.include && options.include.length > 0) {
+            params.include = options.include;
+        }
+        return this.requestAllPages(`/courses/${courseId}/assignments`, params, options, validateAssignment);
     }
     
+    /**
+     * Get a single assignment
+     * @param courseId Course ID
+     * @param assignmentId Assignment ID
+     * @param options Extra data to include, abort signal and cache bypass
+     * @returns The assignment
+     */
+    async getAssignment(
+        courseId: CanvasId,
+        assignmentId: CanvasId,
+        options: RequestOptions & { include?: string[] } = {}
+    ): Promise<Assignment> {
+        const params: Record<string, any> = {};
+        if (options.include && options.include.length > 0) {
+            params.include = options.include;
+        }
+        return this._request(`/courses/${courseId}/assignments/${assignmentId}`, 'GET', params, null, validateAssignment, options);
+    }
+
+    /**
+     * Get the assignment groups of a course with their weights and drop
+     * rules, each holding its assignments and the user's submissions
+     * @param courseId Course ID
+     * @param options Pagination options
+     * @returns Assignment groups in course order
+     */
+    async getAssignmentGroups(courseId: CanvasId, options?: PaginationOptions): Promise<AssignmentGroup[]> {
+        return this.requestAllPages(`/courses/${courseId}/assignment_groups`, {
+            include: ['assignments', 'submission'],
+            exclude_assignment_submission_types: ['wiki_page']
+        }, options, validateAssignmentGroup);
+    }
+
     /**
      * Get modules for a specific course
      * @param courseId Course ID
+     * @param options Pagination options
      * @returns List of modules
      */
-    async getCourseModules(courseId: string | number): Promise<any[]> {
-        return this._request(`/courses/${courseId}/modules`, 'GET', { per_page: 50 });
+    async getCourseModules(courseId: string | number, options?: PaginationOptions): Promise<Module[]> {
+        return this.requestAllPages(`/courses/${courseId}/modules`, {}, options, validateModule);
     }
     
+    /**
+     * Get the items of a module, in module order
+     * @param courseId Course ID
+     * @param moduleId Module ID
+     * @param options Pagination options
+     * @returns Module items, including sub-headers
+     */
+    async getModuleItems(courseId: CanvasId, moduleId: CanvasId, options?: PaginationOptions): Promise<ModuleItem[]> {
+        return this.requestAllPages(`/courses/${courseId}/modules/${moduleId}/items`, {}, options, validateModuleItem);
+    }
+
+    /**
+     * Get the wiki pages of a course, without their bodies
+     * @param courseId Course ID
+     * @param options Pagination options
+     * @returns Pages with their last update time
+     */
+    async getCoursePages(courseId: CanvasId, options?: PaginationOptions): Promise<Page[]> {
+        return this.requestAllPages(`/courses/${courseId}/pages`, {}, options, validatePage);
+    }
+
+    /**
+     * Get a single wiki page, including its body
+     * @param courseId Course ID
+     * @param pageUrl Page slug, as in a module item's `page_url`
+     * @param options Abort signal and cache bypass
+     * @returns Page
+     */
+    async getPage(courseId: CanvasId, pageUrl: string, options: RequestOptions = {}): Promise<Page> {
+        return this._request(`/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}`, 'GET', {}, null, validatePage, options);
+    }
+
+    /**
+     * Get the files of a course, with the same metadata as getFile
+     * @param courseId Course ID
+     * @param options Pagination options
+     * @returns Files the user can see
+     */
+    async getCourseFiles(courseId: CanvasId, options?: PaginationOptions): Promise<CanvasFile[]> {
+        return this.requestAllPages(`/courses/${courseId}/files`, {}, options, validateFile);
+    }
+
+    /**
+     * Get the metadata of a file, including its download URL
+     * @param fileId File ID
+     * @param options Abort signal and cache bypass
+     * @returns File
+     */
+    async getFile(fileId: CanvasId, options: RequestOptions = {}): Promise<CanvasFile> {
+        return this._request(`/files/${fileId}`, 'GET', {}, null, validateFile, options);
+    }
+
+    /**
+     * Download the content of a file. Downloads bypass the response
+     * cache; the token is only sent if the URL is on the Canvas host,
+     * since Canvas redirects downloads to its file storage.
+     * @param file File, as returned by getFile
+     * @param signal Optional abort signal
+     * @returns File content
+     */
+    async downloadFile(file: CanvasFile, signal?: AbortSignal): Promise<ArrayBuffer> {
+        const endpoint = getEndpointPath(file.url);
+        if (this.cacheSettings.offlineMode) {
+            throw new CanvasOfflineError(endpoint);
+        }
+        const headers: Record<string, string> = {};
+        if (new URL(file.url, this.apiUrl).host === new URL(this.apiUrl).host) {
+            headers['Authorization'] = `Bearer ${this.accessToken}`;
+        }
+        const response = await this.scheduler.run('GET', () => this.transport({
+            url: new URL(file.url, this.apiUrl).toString(),
+            method: 'GET',
+            headers
+        }), signal);
+        if (response.status >= 400) {
+            throw new CanvasApiError(response.status, endpoint, null, `Could not download ${file.display_name}`);
+        }
+        return response.arrayBuffer;
+    }
+
+    /**
+     * Upload a file to attach to the current user's submission, using
+     * Canvas's three-step flow: announce the file, send it to the upload
+     * URL Canvas hands out, then confirm the upload if Canvas asks to.
+     * The token is never sent to the upload URL, which may be a storage
+     * service outside Canvas.
+     * @param courseId Course ID
+     * @param assignmentId Assignment ID
+     * @param file Name, MIME type and content of the file
+     * @returns The uploaded file, ready to be listed in `file_ids`
+     */
+    async uploadSubmissionFile(
+        courseId: CanvasId,
+        assignmentId: CanvasId,
+        file: { name: string; contentType: string; data: ArrayBuffer }
+    ): Promise<CanvasFile> {
+        const target = await this._request(`/courses/${courseId}/assignments/${assignmentId}/submissions/self/files`, 'POST', {}, {
+            name: file.name,
+            size: file.data.byteLength,
+            content_type: file.contentType,
+            on_duplicate: 'rename'
+        }, validateUploadTarget);
+
+        const boundary = `----CanvasUpload${Date.now().toString(16)}`;
+        const response = await this.scheduler.run('POST', () => this.transport({
+            url: target.upload_url,
+            method: 'POST',
+            contentType: `multipart/form-data; boundary=${boundary}`,
+            body: buildMultipartBody(boundary, target.upload_params, file)
+        }));
+        const endpoint = getEndpointPath(target.upload_url);
+        if (response.status >= 400) {
+            throw new CanvasApiError(response.status, endpoint, parseErrorBody(response.text), response.text);
+        }
+
+        // Older Canvas instances redirect to a URL that confirms the upload and returns the file
+        const location = getHeader(response.headers, 'location');
+        if (response.status >= 300 && location) {
+            return validateFile((await this._fetch(new URL(location, this.apiUrl).toString(), 'GET', null)).json, endpoint);
+        }
+        return validateFile(response.json, endpoint);
+    }
+
+    /**
+     * Hand in the current user's submission for an assignment
+     * @param courseId Course ID
+     * @param assignmentId Assignment ID
+     * @param submission Text entry body or uploaded file ids
+     * @returns The new submission
+     */
+    async submitAssignment(courseId: CanvasId, assignmentId: CanvasId, submission: SubmissionRequest): Promise<Submission> {
+        return this._request(`/courses/${courseId}/assignments/${assignmentId}/submissions`, 'POST', {}, {
+            submission
+        }, validateSubmission);
+    }
+
+    /**
+     * Get the classic quizzes of a course
+     * @param courseId Course ID
+     * @param options Pagination options
+     * @returns Quizzes the user can see
+     */
+    async getQuizzes(courseId: CanvasId, options?: PaginationOptions): Promise<Quiz[]> {
+        return this.requestAllPages(`/courses/${courseId}/quizzes`, {}, options, validateQuiz);
+    }
+
+    /**
+     * Get the current user's attempts at a quiz
+     * @param courseId Course ID
+     * @param quizId Quiz ID
+     * @param options Abort signal and cache bypass
+     * @returns Quiz submissions, one per attempt Canvas keeps
+     */
+    async getQuizSubmissions(courseId: CanvasId, quizId: CanvasId, options: RequestOptions = {}): Promise<QuizSubmission[]> {
+        // Each page wraps its submissions in a `quiz_submissions` object
+        return this.requestAllPages(`/courses/${courseId}/quizzes/${quizId}/submissions`, {}, {
+            ...options,
+            perPage: 100,
+            listKey: 'quiz_submissions'
+        }, validateQuizSubmission);
+    }
+
+    /**
+     * Get the questions of a quiz as presented in one attempt. Students
+     * only get them once the quiz lets them see their results, and only
+     * get correct answers if the quiz shows them.
+     * @param courseId Course ID
+     * @param quizId Quiz ID
+     * @param submission Attempt whose questions to list
+     * @param options Pagination options
+     * @returns Questions with their answers
+     */
+    async getQuizQuestions(
+        courseId: CanvasId,
+        quizId: CanvasId,
+        submission: QuizSubmission,
+        options?: PaginationOptions
+    ): Promise<QuizQuestion[]> {
+        return this.requestAllPages(`/courses/${courseId}/quizzes/${quizId}/questions`, {
+            quiz_submission_id: submission.id,
+            quiz_submission_attempt: submission.attempt ?? 1
+        }, options, validateQuizQuestion);
+    }
+
     /**
      * Get upcoming events for the current user
+     * @param options Pagination options
      * @returns List of upcoming events
      */
-    async getUpcomingEvents(): Promise<any[]> {
-        return this._request('/users/self/upcoming_events');
+    async getUpcomingEvents(options?: PaginationOptions): Promise<CalendarEvent[]> {
+        return this.requestAllPages('/users/self/upcoming_events', {}, options, validateCalendarEvent);
     }
     
     /**
      * Get todo items for the current user
+     * @param options Pagination options
      * @returns List of todo items
      */
-    async getTodoItems(): Promise<any[]> {
-        return this._request('/users/self/todo');
+    async getTodoItems(options?: PaginationOptions): Promise<TodoItem[]> {
+        return this.requestAllPages('/users/self/todo', {}, options, validateTodoItem);
     }
     
     /**
      * Get course grades for the current user
+     * @param options Pagination options
+     * @param enrollmentType Enrollment type of the courses to list; only
+     * student enrollments carry grades
      * @returns List of courses with grade information
      */
-    async getCourseGrades(): Promise<any[]> {
-        return this._request('/courses', 'GET', { 
+    async getCourseGrades(options?: PaginationOptions, enrollmentType = 'student'): Promise<Course[]> {
+        return this._filterEnabled(await this.requestAllPages('/courses', { 
             include: ['total_scores', 'current_grading_period_scores'],
-            enrollment_type: 'student',
-            enrollment_state: 'active',
-            per_page: 50
-        });
+            enrollment_type: enrollmentType,
+            enrollment_state: 'active'
+        }, options, validateCourse));
+    }
+
+    /**
+     * Get the enrollments of a course
+     * @param courseId Course ID
+     * @param types Enrollment types to list, e.g. `StudentEnrollment`
+     * @param options Pagination options
+     * @returns Active enrollments with their user and grades
+     */
+    async getCourseEnrollments(
+        courseId: CanvasId,
+        types: string[] = ['StudentEnrollment'],
+        options?: PaginationOptions
+    ): Promise<Enrollment[]> {
+        return this.requestAllPages(`/courses/${courseId}/enrollments`, {
+            type: types,
+            state: ['active'],
+            include: ['current_points']
+        }, options, validateEnrollment);
+    }
+
+    /**
+     * Get every submission of an assignment; needs a teacher or TA enrollment
+     * @param courseId Course ID
+     * @param assignmentId Assignment ID
+     * @param options Pagination options and cache bypass
+     * @returns Submissions with their student and rubric assessment
+     */
+    async getSubmissions(courseId: CanvasId, assignmentId: CanvasId, options?: PaginationOptions): Promise<Submission[]> {
+        return this.requestAllPages(`/courses/${courseId}/assignments/${assignmentId}/submissions`, {
+            include: ['user', 'rubric_assessment']
+        }, options, validateSubmission);
+    }
+
+    /**
+     * Get one student's submission, including its text entry and attachments
+     * @param courseId Course ID
+     * @param assignmentId Assignment ID
+     * @param userId Student's user ID
+     * @param options Abort signal and cache bypass
+     * @returns The submission
+     */
+    async getSubmission(
+        courseId: CanvasId,
+        assignmentId: CanvasId,
+        userId: CanvasId,
+        options: RequestOptions = {}
+    ): Promise<Submission> {
+        return this._request(`/courses/${courseId}/assignments/${assignmentId}/submissions/${userId}`, 'GET', {
+            include: ['user', 'rubric_assessment']
+        }, null, validateSubmission, options);
+    }
+
+    /**
+     * Get the submissions of every student for every assignment of a course
+     * @param courseId Course ID
+     * @param options Pagination options and cache bypass
+     * @returns Submissions, one per student and assignment
+     */
+    async getStudentSubmissions(courseId: CanvasId, options?: PaginationOptions): Promise<Submission[]> {
+        return this.requestAllPages(`/courses/${courseId}/students/submissions`, {
+            student_ids: ['all'],
+            include: ['user']
+        }, options, validateSubmission);
+    }
+
+    /**
+     * Grade a student's submission, optionally with a rubric assessment
+     * and a comment; needs a teacher or TA enrollment
+     * @param courseId Course ID
+     * @param assignmentId Assignment ID
+     * @param userId Student's user ID
+     * @param grade Score or grade to post, rubric points and comments per
+     * criterion, and a comment for the student
+     * @returns The graded submission
+     */
+    async gradeSubmission(
+        courseId: CanvasId,
+        assignmentId: CanvasId,
+        userId: CanvasId,
+        grade: { postedGrade?: string; rubricAssessment?: Record<string, RubricAssessmentEntry>; comment?: string }
+    ): Promise<Submission> {
+        const data: Record<string, any> = {};
+        if (grade.postedGrade !== undefined) {
+            data.submission = { posted_grade: grade.postedGrade };
+        }
+        if (grade.rubricAssessment && Object.keys(grade.rubricAssessment).length > 0) {
+            data.rubric_assessment = grade.rubricAssessment;
+        }
+        if (grade.comment) {
+            data.comment = { text_comment: grade.comment };
+        }
+        return this._request(
+            `/courses/${courseId}/assignments/${assignmentId}/submissions/${userId}`, 'PUT', {}, data, validateSubmission
+        );
     }
     
+    /**
+     * Get calendar events of a set of contexts between two dates
+     * @param contextCodes Contexts such as `course_123` or `user_self`
+     * @param startDate ISO start of the range
+     * @param endDate ISO end of the range
+     * @param options Pagination options
+     * @returns Calendar events, excluding assignment due dates
+     */
+    async getCalendarEvents(
+        contextCodes: string[],
+        startDate: string,
+        endDate: string,
+        options?: PaginationOptions
+    ): Promise<CalendarEvent[]> {
+        if (contextCodes.length === 0) return [];
+        return this.requestAllPages('/calendar_events', {
+            type: 'event',
+            context_codes: contextCodes,
+            start_date: startDate,
+            end_date: endDate
+        }, options, validateCalendarEvent);
+    }
+
+    /**
+     * Get announcements posted in a set of courses
+     * @param courseIds Courses to include
+     * @param options Pagination options; Canvas defaults to the last 14 days
+     * unless a start date is given
+     * @returns Announcements, newest first
+     */
+    async getAnnouncements(
+        courseIds: CanvasId[],
+        options: PaginationOptions & { startDate?: string; endDate?: string } = {}
+    ): Promise<DiscussionTopic[]> {
+        if (courseIds.length === 0) return [];
+        const params: Record<string, any> = {
+            context_codes: courseIds.map(id => `course_${id}`)
+        };
+        if (options.startDate) {
+            params.start_date = options.startDate;
+        }
+        if (options.endDate) {
+            params.end_date = options.endDate;
+        }
+        return this.requestAllPages('/announcements', params, options, validateDiscussionTopic);
+    }
+
+    /**
+     * Get the discussion topics of a course
+     * @param courseId Course ID
+     * @param options Pagination options; set `onlyAnnouncements` to list
+     * announcements instead of discussions
+     * @returns Topics, most recently active first
+     */
+    async getDiscussionTopics(
+        courseId: CanvasId,
+        options: PaginationOptions & { onlyAnnouncements?: boolean } = {}
+    ): Promise<DiscussionTopic[]> {
+        const params: Record<string, any> = {};
+        if (options.onlyAnnouncements) {
+            params.only_announcements = true;
+        }
+        return this.requestAllPages(`/courses/${courseId}/discussion_topics`, params, options, validateDiscussionTopic);
+    }
+
+    /**
+     * Get a single discussion topic or announcement
+     * @param courseId Course ID
+     * @param topicId Topic ID
+     * @param options Abort signal and cache bypass
+     * @returns Topic with the current user's read state
+     */
+    async getDiscussionTopic(courseId: CanvasId, topicId: CanvasId, options: RequestOptions = {}): Promise<DiscussionTopic> {
+        return this._request(`/courses/${courseId}/discussion_topics/${topicId}`, 'GET', {}, null, validateDiscussionTopic, options);
+    }
+
+    /**
+     * Get every post of a discussion topic as a threaded tree
+     * @param courseId Course ID
+     * @param topicId Topic ID
+     * @param options Abort signal and cache bypass
+     * @returns Entries, their authors and which entries are unread
+     */
+    async getDiscussionView(courseId: CanvasId, topicId: CanvasId, options: RequestOptions = {}): Promise<DiscussionView> {
+        return this._request(`/courses/${courseId}/discussion_topics/${topicId}/view`, 'GET', {}, null, validateDiscussionView, options);
+    }
+
+    /**
+     * Mark a topic and all of its entries as read for the current user
+     * @param courseId Course ID
+     * @param topicId Topic ID
+     */
+    async markDiscussionTopicRead(courseId: CanvasId, topicId: CanvasId): Promise<void> {
+        await this._request(`/courses/${courseId}/discussion_topics/${topicId}/read_all`, 'PUT');
+    }
+
+    /**
+     * Post a reply to a discussion topic, or to one of its entries
+     * @param courseId Course ID
+     * @param topicId Topic ID
+     * @param message Reply as HTML
+     * @param parentEntryId Entry to reply to; omit to reply to the topic
+     * @returns The created entry
+     */
+    async postDiscussionEntry(
+        courseId: CanvasId,
+        topicId: CanvasId,
+        message: string,
+        parentEntryId?: CanvasId
+    ): Promise<DiscussionEntry> {
+        const endpoint = parentEntryId === undefined
+            ? `/courses/${courseId}/discussion_topics/${topicId}/entries`
+            : `/courses/${courseId}/discussion_topics/${topicId}/entries/${parentEntryId}/replies`;
+        return this._request(endpoint, 'POST', {}, { message }, validateDiscussionEntry);
+    }
+
+    /**
+     * Get planner items between two dates, with the user's overrides
+     * @param startDate ISO start of the range
+     * @param endDate ISO end of the range
+     * @param options Pagination options and cache bypass
+     * @returns Planner items, oldest first
+     */
+    async getPlannerItems(startDate: string, endDate: string, options?: PaginationOptions): Promise<PlannerItem[]> {
+        return this.requestAllPages('/planner/items', {
+            start_date: startDate,
+            end_date: endDate
+        }, options, validatePlannerItem);
+    }
+
+    /**
+     * Get every planner override of the current user
+     * @param options Pagination options and cache bypass
+     * @returns List of planner overrides
+     */
+    async getPlannerOverrides(options?: PaginationOptions): Promise<PlannerOverride[]> {
+        return this.requestAllPages('/planner/overrides', {}, options, validatePlannerOverride);
+    }
+
+    /**
+     * Mark a planner item complete or dismissed. Canvas allows one
+     * override per item; use updatePlannerOverride once it exists.
+     * @param plannableType Kind of item, e.g. 'assignment' or 'quiz'
+     * @param plannableId ID of the assignment, quiz, etc.
+     * @param changes New completion state
+     * @returns The created override
+     */
+    async createPlannerOverride(
+        plannableType: string,
+        plannableId: CanvasId,
+        changes: { marked_complete?: boolean; dismissed?: boolean }
+    ): Promise<PlannerOverride> {
+        return this._request('/planner/overrides', 'POST', {}, {
+            plannable_type: plannableType,
+            plannable_id: plannableId,
+            ...changes
+        }, validatePlannerOverride);
+    }
+
+    /**
+     * Change an existing planner override
+     * @param overrideId Override ID
+     * @param changes New completion state
+     * @returns The updated override
+     */
+    async updatePlannerOverride(
+        overrideId: CanvasId,
+        changes: { marked_complete?: boolean; dismissed?: boolean }
+    ): Promise<PlannerOverride> {
+        return this._request(`/planner/overrides/${overrideId}`, 'PUT', {}, changes, validatePlannerOverride);
+    }
+
     /**
      * Test connection to Canvas API
      * @returns True if connection is successful
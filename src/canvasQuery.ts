@@ -0,0 +1,172 @@
+import { SubmissionStatus } from './canvasTypes';
+
+/**
+ * Query language of `canvas` code blocks.
+ *
+ * A query is a list of `key: value` pairs, separated by spaces or new
+ * lines. Values run until the next key, so they may contain spaces:
+ *
+ *     type: assignments course: 1234 status: missing due: next 7d
+ *
+ * Blocks read the active profile unless they name one with `profile:`.
+ */
+
+export type CanvasQueryType = 'todo' | 'assignments' | 'grades' | 'events';
+
+export type StatusFilter = SubmissionStatus | 'pending' | 'completed';
+
+export interface DueFilter {
+    /** Inclusive lower bound, or null for no bound */
+    from: Date | null;
+    /** Inclusive upper bound, or null for no bound */
+    to: Date | null;
+}
+
+export interface CanvasQuery {
+    type: CanvasQueryType;
+    /** Course id, or part of a course name or code */
+    course?: string;
+    status?: StatusFilter;
+    due?: DueFilter;
+    /** Column to sort by; a leading `-` sorts descending */
+    sort?: string;
+    limit?: number;
+    /** Profile id or name; the active profile when absent */
+    profile?: string;
+}
+
+export class CanvasQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CanvasQueryError';
+        Object.setPrototypeOf(this, CanvasQueryError.prototype);
+    }
+}
+
+const QUERY_TYPES: CanvasQueryType[] = ['todo', 'assignments', 'grades', 'events'];
+const STATUS_FILTERS: StatusFilter[] = [
+    'graded', 'submitted', 'late', 'missing', 'excused', 'unsubmitted', 'pending', 'completed'
+];
+const KNOWN_KEYS = ['type', 'course', 'status', 'due', 'sort', 'limit', 'profile'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIT_DAYS: Record<string, number> = { d: 1, w: 7 };
+
+/**
+ * Parse the source of a `canvas` code block
+ * @param source Code block content
+ * @param now Reference time for relative due filters
+ * @returns Parsed query
+ * @throws CanvasQueryError for unknown keys or invalid values
+ */
+export function parseCanvasQuery(source: string, now: Date = new Date()): CanvasQuery {
+    const pairs: Record<string, string> = {};
+    const pattern = /(\w+)\s*:\s*([\s\S]*?)(?=\s+\w+\s*:|$)/g;
+    const text = source.trim();
+
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+    while ((match = pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+            pattern.lastIndex++;
+            continue;
+        }
+        if (text.slice(consumed, match.index).trim()) {
+            throw new CanvasQueryError(`Cannot parse "${text.slice(consumed, match.index).trim()}"`);
+        }
+        const key = match[1].toLowerCase();
+        if (!KNOWN_KEYS.includes(key)) {
+            throw new CanvasQueryError(`Unknown key "${key}". Expected one of: ${KNOWN_KEYS.join(', ')}`);
+        }
+        pairs[key] = match[2].trim();
+        consumed = match.index + match[0].length;
+    }
+    if (text.slice(consumed).trim()) {
+        throw new CanvasQueryError(`Cannot parse "${text.slice(consumed).trim()}"`);
+    }
+
+    const type = (pairs.type ?? '').toLowerCase() as CanvasQueryType;
+    if (!QUERY_TYPES.includes(type)) {
+        throw new CanvasQueryError(`Missing or unknown type. Expected one of: ${QUERY_TYPES.join(', ')}`);
+    }
+
+    const query: CanvasQuery = { type };
+
+    if (pairs.course) {
+        query.course = pairs.course;
+    }
+
+    if (pairs.status) {
+        const status = pairs.status.toLowerCase() as StatusFilter;
+        if (!STATUS_FILTERS.includes(status)) {
+            throw new CanvasQueryError(`Unknown status "${pairs.status}". Expected one of: ${STATUS_FILTERS.join(', ')}`);
+        }
+        query.status = status;
+    }
+
+    if (pairs.due) {
+        query.due = parseDueFilter(pairs.due, now);
+    }
+
+    if (pairs.sort) {
+        query.sort = pairs.sort.toLowerCase();
+    }
+
+    if (pairs.limit) {
+        const limit = Number(pairs.limit);
+        if (!Number.isInteger(limit) || limit <= 0) {
+            throw new CanvasQueryError(`Limit must be a positive whole number, got "${pairs.limit}"`);
+        }
+        query.limit = limit;
+    }
+
+    if (pairs.profile) {
+        query.profile = pairs.profile;
+    }
+
+    return query;
+}
+
+/**
+ * Parse a due date filter: `today`, `overdue`, `next 7d`, `past 2w`
+ * @param value Filter text
+ * @param now Reference time
+ * @returns Date range
+ * @throws CanvasQueryError for unrecognized filters
+ */
+export function parseDueFilter(value: string, now: Date = new Date()): DueFilter {
+    const normalized = value.trim().toLowerCase();
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    if (normalized === 'today') {
+        return { from: startOfToday, to: new Date(startOfToday.getTime() + DAY_MS - 1) };
+    }
+    if (normalized === 'overdue') {
+        return { from: null, to: now };
+    }
+
+    const relative = normalized.match(/^(next|past)\s+(\d+)\s*([dw])$/);
+    if (relative) {
+        const span = Number(relative[2]) * UNIT_DAYS[relative[3]] * DAY_MS;
+        return relative[1] === 'next'
+            ? { from: now, to: new Date(now.getTime() + span) }
+            : { from: new Date(now.getTime() - span), to: now };
+    }
+
+    throw new CanvasQueryError(`Unknown due filter "${value}". Use today, overdue, next 7d or past 2w`);
+}
+
+/**
+ * Check a due date against a due filter
+ * @param dueAt ISO due date
+ * @param filter Date range
+ * @returns False for items without a due date
+ */
+export function matchesDueFilter(dueAt: string | null | undefined, filter: DueFilter): boolean {
+    if (!dueAt) return false;
+    const due = new Date(dueAt).getTime();
+    if (isNaN(due)) return false;
+    if (filter.from && due < filter.from.getTime()) return false;
+    if (filter.to && due > filter.to.getTime()) return false;
+    return true;
+}
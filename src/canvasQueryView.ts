@@ -0,0 +1,366 @@
+import { MarkdownRenderChild, TFile, moment, setIcon } from 'obsidian';
+import MyPlugin from './main';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import {
+    Assignment, Course, SUBMISSION_STATUS_LABELS, getSubmissionStatus, getTodoDueAt, getTodoTitle, isSubmissionComplete
+} from './canvasTypes';
+import { CanvasQuery, StatusFilter, matchesDueFilter, parseCanvasQuery } from './canvasQuery';
+import { COURSE_ID_KEY } from './courseSync';
+import { CanvasAPI } from './canvasApi';
+import { CanvasProfile, indexProfileNotes } from './profiles';
+
+interface QueryColumn {
+    key: string;
+    label: string;
+}
+
+interface QueryRow {
+    /** Display text per column */
+    cells: Record<string, string>;
+    /** Sort key per column, when it differs from the display text */
+    sortKeys: Record<string, string | number | null>;
+    /** Synced note to open when the row is clicked */
+    note?: TFile;
+    /** Canvas page to open when there is no synced note */
+    url?: string;
+}
+
+interface QueryResult {
+    columns: QueryColumn[];
+    rows: QueryRow[];
+}
+
+/** Column each query type sorts by until the user clicks a header */
+const DEFAULT_SORT: Record<CanvasQuery['type'], string> = {
+    todo: 'due',
+    assignments: 'due',
+    grades: 'course',
+    events: 'date'
+};
+
+/**
+ * Live view rendered in place of a `canvas` code block. Data is fetched
+ * when the block is shown and on demand through the refresh button, so
+ * the view never goes stale the way inserted tables do.
+ */
+export class CanvasQueryView extends MarkdownRenderChild {
+    plugin: MyPlugin;
+    source: string;
+    sourcePath: string;
+    private query: CanvasQuery | null = null;
+    private profile: CanvasProfile | null = null;
+    private result: QueryResult | null = null;
+    private sortKey = '';
+    private sortDescending = false;
+
+    constructor(containerEl: HTMLElement, plugin: MyPlugin, source: string, sourcePath: string) {
+        super(containerEl);
+        this.plugin = plugin;
+        this.source = source;
+        this.sourcePath = sourcePath;
+    }
+
+    onload() {
+        try {
+            this.query = parseCanvasQuery(this.source);
+        } catch (error) {
+            this.renderError(error.message || 'Invalid query');
+            return;
+        }
+
+        this.profile = this.findProfile(this.query.profile);
+        if (!this.profile) {
+            this.renderError(`Unknown profile "${this.query.profile}"`);
+            return;
+        }
+
+        const sort = this.query.sort ?? DEFAULT_SORT[this.query.type];
+        this.sortDescending = sort.startsWith('-');
+        this.sortKey = sort.replace(/^-/, '');
+        this.refresh();
+    }
+
+    /**
+     * Fetch fresh data and re-render the view
+     */
+    async refresh() {
+        if (!this.query || !this.profile) return;
+
+        this.renderShell('Loading Canvas data...');
+        try {
+            this.result = await this.loadQuery(this.query);
+            this.renderTable();
+        } catch (error) {
+            console.error('Error rendering canvas block:', error);
+            this.renderError(`Failed to load Canvas data: ${error.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Profile named by id or name, or the active one if none is named
+     */
+    private findProfile(name: string | undefined): CanvasProfile | null {
+        if (!name) return this.plugin.activeProfile;
+        const wanted = name.toLowerCase();
+        return this.plugin.settings.profiles
+            .find(profile => profile.id === wanted || profile.name.toLowerCase() === wanted) ?? null;
+    }
+
+    private get api(): CanvasAPI {
+        return this.plugin.getApi(this.profile?.id ?? this.plugin.activeProfile.id);
+    }
+
+    private indexNotes(key: string): Map<string, TFile> {
+        return indexProfileNotes(this.plugin.app, key, this.profile?.id ?? this.plugin.activeProfile.id);
+    }
+
+    private async loadQuery(query: CanvasQuery): Promise<QueryResult> {
+        switch (query.type) {
+            case 'todo':
+                return this.loadTodo(query);
+            case 'assignments':
+                return this.loadAssignments(query);
+            case 'grades':
+                return this.loadGrades(query);
+            case 'events':
+                return this.loadEvents(query);
+        }
+    }
+
+    private async loadTodo(query: CanvasQuery): Promise<QueryResult> {
+        const todos = await this.api.getTodoItems();
+        const notes = this.indexNotes(ASSIGNMENT_ID_KEY);
+
+        const rows = todos
+            .filter(todo => !query.course || matchesCourse(query.course, todo.course_id, todo.context_name))
+            .filter(todo => !query.due || matchesDueFilter(getTodoDueAt(todo), query.due))
+            .map(todo => {
+                const due = getTodoDueAt(todo);
+                return {
+                    cells: { title: getTodoTitle(todo), course: todo.context_name ?? '', due: formatViewDate(due) },
+                    sortKeys: { due: due ? Date.parse(due) : null },
+                    note: todo.assignment ? notes.get(String(todo.assignment.id)) : undefined,
+                    url: todo.html_url ?? todo.assignment?.html_url
+                };
+            });
+
+        return {
+            columns: [
+                { key: 'title', label: 'Item' },
+                { key: 'course', label: 'Course' },
+                { key: 'due', label: 'Due' }
+            ],
+            rows
+        };
+    }
+
+    private async loadAssignments(query: CanvasQuery): Promise<QueryResult> {
+        const courses = (await this.api.getCourses(this.api.profile.role, 'active'))
+            .filter(course => !query.course || matchesCourse(query.course, course.id, course.name, course.course_code));
+        const notes = this.indexNotes(ASSIGNMENT_ID_KEY);
+
+        const perCourse = await Promise.all(courses.map(async course => ({
+            course,
+            assignments: await this.api.getCourseAssignments(course.id, { include: ['submission'] })
+        })));
+
+        const rows: QueryRow[] = [];
+        perCourse.forEach(({ course, assignments }) => {
+            assignments
+                .filter(assignment => !query.status || matchesStatus(query.status, assignment))
+                .filter(assignment => !query.due || matchesDueFilter(assignment.due_at, query.due))
+                .forEach(assignment => {
+                    const status = getSubmissionStatus(assignment);
+                    rows.push({
+                        cells: {
+                            assignment: assignment.name,
+                            course: course.name,
+                            due: formatViewDate(assignment.due_at),
+                            points: assignment.points_possible != null ? String(assignment.points_possible) : '',
+                            status: SUBMISSION_STATUS_LABELS[status]
+                        },
+                        sortKeys: {
+                            due: assignment.due_at ? Date.parse(assignment.due_at) : null,
+                            points: assignment.points_possible ?? null,
+                            status
+                        },
+                        note: notes.get(String(assignment.id)),
+                        url: assignment.html_url
+                    });
+                });
+        });
+
+        return {
+            columns: [
+                { key: 'assignment', label: 'Assignment' },
+                { key: 'course', label: 'Course' },
+                { key: 'due', label: 'Due' },
+                { key: 'points', label: 'Points' },
+                { key: 'status', label: 'Status' }
+            ],
+            rows
+        };
+    }
+
+    private async loadGrades(query: CanvasQuery): Promise<QueryResult> {
+        const courses = (await this.api.getCourseGrades({}, this.api.profile.role))
+            .filter(course => !query.course || matchesCourse(query.course, course.id, course.name, course.course_code));
+        const notes = this.indexNotes(COURSE_ID_KEY);
+
+        const rows = courses.map((course: Course) => {
+            const enrollment = course.enrollments?.[0];
+            const score = enrollment?.computed_current_score ?? null;
+            return {
+                cells: {
+                    course: course.name,
+                    grade: enrollment?.computed_current_grade ?? 'N/A',
+                    score: score !== null ? String(score) : 'N/A'
+                },
+                sortKeys: { score },
+                note: notes.get(String(course.id)),
+                url: `${this.api.baseUrl}/courses/${course.id}/grades`
+            };
+        });
+
+        return {
+            columns: [
+                { key: 'course', label: 'Course' },
+                { key: 'grade', label: 'Grade' },
+                { key: 'score', label: 'Score' }
+            ],
+            rows
+        };
+    }
+
+    private async loadEvents(query: CanvasQuery): Promise<QueryResult> {
+        const events = await this.api.getUpcomingEvents();
+        const notes = this.indexNotes(ASSIGNMENT_ID_KEY);
+
+        const rows = events
+            .filter(event => !query.course || matchesCourse(
+                query.course, (event.context_code ?? '').replace(/^course_/, ''), event.context_name
+            ))
+            .filter(event => !query.due || matchesDueFilter(event.start_at, query.due))
+            .map(event => ({
+                cells: { event: event.title, date: formatViewDate(event.start_at), course: event.context_name ?? '' },
+                sortKeys: { date: event.start_at ? Date.parse(event.start_at) : null },
+                note: event.assignment ? notes.get(String(event.assignment.id)) : undefined,
+                url: event.html_url
+            }));
+
+        return {
+            columns: [
+                { key: 'event', label: 'Event' },
+                { key: 'date', label: 'Date' },
+                { key: 'course', label: 'Course' }
+            ],
+            rows
+        };
+    }
+
+    private renderShell(message: string): HTMLElement {
+        const el = this.containerEl;
+        el.empty();
+        el.addClass('canvas-query');
+
+        const header = el.createDiv({ cls: 'canvas-query-header' });
+        header.createSpan({ cls: 'canvas-query-title', text: `Canvas ${this.query?.type ?? ''}` });
+        const refreshButton = header.createEl('button', { cls: 'canvas-query-refresh', attr: { 'aria-label': 'Refresh' } });
+        setIcon(refreshButton, 'refresh-cw');
+        refreshButton.addEventListener('click', () => this.refresh());
+
+        return el.createDiv({ cls: 'canvas-query-status', text: message });
+    }
+
+    private renderError(message: string) {
+        const status = this.renderShell(message);
+        status.addClass('canvas-api-status', 'error');
+    }
+
+    private renderTable() {
+        if (!this.result) return;
+
+        const status = this.renderShell('');
+        const rows = this.sortedRows(this.result.rows);
+        const limited = this.query?.limit ? rows.slice(0, this.query.limit) : rows;
+
+        if (limited.length === 0) {
+            status.setText('Nothing to show.');
+            return;
+        }
+        status.setText(`Updated ${moment().format('HH:mm')}`);
+
+        const table = this.containerEl.createEl('table', { cls: 'canvas-query-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        this.result.columns.forEach(column => {
+            const th = headerRow.createEl('th', { text: column.label });
+            if (column.key === this.sortKey) {
+                th.addClass('is-sorted');
+                th.setText(`${column.label} ${this.sortDescending ? '▼' : '▲'}`);
+            }
+            th.addEventListener('click', () => {
+                this.sortDescending = column.key === this.sortKey ? !this.sortDescending : false;
+                this.sortKey = column.key;
+                this.renderTable();
+            });
+        });
+
+        const body = table.createEl('tbody');
+        limited.forEach(row => {
+            const tr = body.createEl('tr');
+            this.result?.columns.forEach(column => tr.createEl('td', { text: row.cells[column.key] ?? '' }));
+            if (row.note || row.url) {
+                tr.addClass('is-clickable');
+                tr.addEventListener('click', () => this.openRow(row));
+            }
+        });
+    }
+
+    private sortedRows(rows: QueryRow[]): QueryRow[] {
+        const key = this.sortKey;
+        const direction = this.sortDescending ? -1 : 1;
+        const sortValue = (row: QueryRow) => (key in row.sortKeys ? row.sortKeys[key] : row.cells[key] ?? null);
+
+        return [...rows].sort((a, b) => {
+            const valueA = sortValue(a);
+            const valueB = sortValue(b);
+            // Empty values always go last
+            if (valueA === null || valueA === '') return valueB === null || valueB === '' ? 0 : 1;
+            if (valueB === null || valueB === '') return -1;
+            if (typeof valueA === 'number' && typeof valueB === 'number') {
+                return (valueA - valueB) * direction;
+            }
+            return String(valueA).localeCompare(String(valueB)) * direction;
+        });
+    }
+
+    private openRow(row: QueryRow) {
+        if (row.note) {
+            this.plugin.app.workspace.openLinkText(row.note.path, this.sourcePath);
+        } else if (row.url) {
+            window.open(row.url);
+        }
+    }
+}
+
+/**
+ * Match a course filter against a course id, name or code
+ */
+function matchesCourse(filter: string, id: string | number | undefined, ...names: Array<string | undefined>): boolean {
+    if (/^\d+$/.test(filter)) {
+        return String(id) === filter;
+    }
+    const needle = filter.toLowerCase();
+    return names.some(name => name?.toLowerCase().includes(needle));
+}
+
+function matchesStatus(filter: StatusFilter, assignment: Assignment): boolean {
+    if (filter === 'completed') return isSubmissionComplete(assignment);
+    if (filter === 'pending') return !isSubmissionComplete(assignment);
+    return getSubmissionStatus(assignment) === filter;
+}
+
+function formatViewDate(dateStr: string | null | undefined): string {
+    if (!dateStr) return 'No date';
+    return moment(dateStr).format('ddd MMM D, HH:mm');
+}
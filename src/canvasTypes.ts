@@ -0,0 +1,524 @@
+/**
+ * Canvas LMS domain model.
+ *
+ * These interfaces describe the subset of each Canvas object that the
+ * plugin reads. Canvas returns many more fields; anything not listed here
+ * should be treated as unknown. Fields Canvas may omit or send as null
+ * are typed accordingly, so callers are forced to handle them.
+ */
+
+/** Canvas ids are numeric, but some endpoints return them as strings */
+export type CanvasId = number | string;
+
+export interface UserProfile {
+    id: CanvasId;
+    name: string;
+    short_name?: string;
+    sortable_name?: string;
+    login_id?: string;
+    primary_email?: string;
+    email?: string;
+    avatar_url?: string;
+    time_zone?: string;
+}
+
+export interface Enrollment {
+    type: string;
+    role?: string;
+    enrollment_state?: string;
+    user_id?: CanvasId;
+    computed_current_grade?: string | null;
+    computed_current_score?: number | null;
+    computed_final_grade?: string | null;
+    computed_final_score?: number | null;
+    current_grading_period_title?: string | null;
+    /** Only present on a course's enrollment list, with `include[]=user` */
+    user?: CourseUser;
+    /** Grades of a student enrollment, as listed by the course */
+    grades?: EnrollmentGrades;
+}
+
+/** Person as listed on a course roster or a submission */
+export interface CourseUser {
+    id: CanvasId;
+    name: string;
+    sortable_name?: string;
+    login_id?: string;
+}
+
+export interface EnrollmentGrades {
+    current_score?: number | null;
+    current_grade?: string | null;
+    final_score?: number | null;
+    final_grade?: string | null;
+    html_url?: string;
+}
+
+export interface Term {
+    id: CanvasId;
+    name: string;
+    start_at?: string | null;
+    end_at?: string | null;
+}
+
+export interface Teacher {
+    id: CanvasId;
+    display_name: string;
+}
+
+export interface Course {
+    id: CanvasId;
+    name: string;
+    course_code?: string;
+    workflow_state?: string;
+    start_at?: string | null;
+    end_at?: string | null;
+    enrollment_term_id?: CanvasId;
+    term?: Term;
+    teachers?: Teacher[];
+    enrollments?: Enrollment[];
+    /** Whether the final grade weights assignment groups */
+    apply_assignment_group_weights?: boolean;
+}
+
+export interface Submission {
+    id?: CanvasId;
+    assignment_id: CanvasId;
+    user_id?: CanvasId;
+    workflow_state: string;
+    score?: number | null;
+    grade?: string | null;
+    submitted_at?: string | null;
+    graded_at?: string | null;
+    late?: boolean;
+    missing?: boolean;
+    excused?: boolean | null;
+    attempt?: number | null;
+    submission_type?: string | null;
+    /** HTML of a text entry submission */
+    body?: string | null;
+    /** Address handed in by a website URL submission */
+    url?: string | null;
+    /** Files of an upload submission */
+    attachments?: CanvasFile[];
+    preview_url?: string;
+    /** Only present when requested with `include[]=user` */
+    user?: CourseUser;
+    /** Points and comments per rubric criterion, with `include[]=rubric_assessment` */
+    rubric_assessment?: Record<string, RubricAssessmentEntry> | null;
+}
+
+export interface RubricRating {
+    id?: string;
+    description: string;
+    long_description?: string | null;
+    points: number;
+}
+
+export interface RubricCriterion {
+    id: string;
+    description: string;
+    long_description?: string | null;
+    points: number;
+    ratings: RubricRating[];
+}
+
+export interface RubricAssessmentEntry {
+    points?: number | null;
+    rating_id?: string | null;
+    comments?: string | null;
+}
+
+export interface Assignment {
+    id: CanvasId;
+    name: string;
+    course_id?: CanvasId;
+    description?: string | null;
+    due_at: string | null;
+    unlock_at?: string | null;
+    lock_at?: string | null;
+    points_possible?: number | null;
+    html_url?: string;
+    submission_types?: string[];
+    has_submitted_submissions?: boolean;
+    updated_at?: string;
+    published?: boolean;
+    /** File extensions accepted for online uploads; empty or missing allows any */
+    allowed_extensions?: string[];
+    locked_for_user?: boolean;
+    assignment_group_id?: CanvasId;
+    /** Counts toward nothing when true, e.g. practice assignments */
+    omit_from_final_grade?: boolean;
+    grading_type?: string;
+    /** Submissions waiting for a grade; only sent to teachers and TAs */
+    needs_grading_count?: number;
+    rubric?: RubricCriterion[];
+    /** Only present when requested with `include[]=submission` */
+    submission?: Submission;
+}
+
+export interface AssignmentGroupRules {
+    drop_lowest?: number;
+    drop_highest?: number;
+    /** Assignments that are never dropped */
+    never_drop?: CanvasId[];
+}
+
+export interface AssignmentGroup {
+    id: CanvasId;
+    name: string;
+    position?: number;
+    /** Percentage of the final grade, used when the course weights groups */
+    group_weight?: number | null;
+    rules?: AssignmentGroupRules;
+    /** Only present when requested with `include[]=assignments` */
+    assignments?: Assignment[];
+}
+
+export interface ModuleItem {
+    id: CanvasId;
+    module_id?: CanvasId;
+    title: string;
+    type: string;
+    position?: number;
+    indent?: number;
+    html_url?: string;
+    url?: string;
+    content_id?: CanvasId;
+    page_url?: string;
+    external_url?: string;
+}
+
+/** Wiki page; `body` is only present when a single page is requested */
+export interface Page {
+    page_id?: CanvasId;
+    /** Slug used in page URLs, e.g. `week-1-readings` */
+    url: string;
+    title: string;
+    body?: string | null;
+    updated_at?: string;
+    html_url?: string;
+}
+
+/** Course file, e.g. lecture slides */
+export interface CanvasFile {
+    id: CanvasId;
+    display_name: string;
+    filename?: string;
+    /** Size in bytes */
+    size: number;
+    'content-type'?: string;
+    /** Download URL, carrying a verifier */
+    url: string;
+    updated_at?: string;
+    modified_at?: string;
+    locked_for_user?: boolean;
+}
+
+/** Where to send a file in the second step of a Canvas file upload */
+export interface FileUploadTarget {
+    upload_url: string;
+    /** Form fields to send along with the file, in this order */
+    upload_params: Record<string, string>;
+}
+
+/** What a submission hands in; the fields used depend on the type */
+export interface SubmissionRequest {
+    submission_type: 'online_text_entry' | 'online_upload';
+    /** HTML, for text entries */
+    body?: string;
+    /** Uploaded files, for uploads */
+    file_ids?: CanvasId[];
+}
+
+export interface Module {
+    id: CanvasId;
+    name: string;
+    position?: number;
+    state?: string;
+    unlock_at?: string | null;
+    items_count?: number;
+    items_url?: string;
+    /** Only present when requested with `include[]=items` */
+    items?: ModuleItem[];
+}
+
+export interface CalendarEvent {
+    /** Assignment events use ids such as `assignment_123` */
+    id: CanvasId;
+    title: string;
+    type?: string;
+    start_at: string | null;
+    end_at?: string | null;
+    all_day?: boolean;
+    description?: string | null;
+    location_name?: string | null;
+    context_code?: string;
+    context_name?: string;
+    html_url?: string;
+    /** Set for assignment events */
+    assignment?: Assignment;
+}
+
+/** Discussion topic; announcements are topics with `is_announcement` set */
+export interface DiscussionTopic {
+    id: CanvasId;
+    title: string;
+    message?: string | null;
+    posted_at?: string | null;
+    html_url?: string;
+    /** e.g. `course_123` */
+    context_code?: string;
+    user_name?: string;
+    author?: { id?: CanvasId; display_name?: string };
+    /** `read` or `unread` for the current user */
+    read_state?: string;
+    unread_count?: number;
+    is_announcement?: boolean;
+    last_reply_at?: string | null;
+    discussion_subentry_count?: number;
+    /** Set when the current user may not post replies */
+    locked_for_user?: boolean;
+}
+
+/** Post in a discussion, as returned by the topic's full view */
+export interface DiscussionEntry {
+    id: CanvasId;
+    user_id?: CanvasId;
+    parent_id?: CanvasId | null;
+    message?: string | null;
+    created_at?: string;
+    updated_at?: string;
+    deleted?: boolean;
+    /** Threaded replies, oldest first */
+    replies?: DiscussionEntry[];
+}
+
+export interface DiscussionParticipant {
+    id: CanvasId;
+    display_name: string;
+}
+
+/** Full thread of a discussion topic with the current user's read state */
+export interface DiscussionView {
+    participants: DiscussionParticipant[];
+    /** Ids of entries the current user has not read */
+    unread_entries: CanvasId[];
+    /** Top-level entries, each with its nested replies */
+    view: DiscussionEntry[];
+}
+
+/** Classic quiz; New Quizzes are external tools and not listed here */
+export interface Quiz {
+    id: CanvasId;
+    title: string;
+    html_url?: string;
+    quiz_type?: string;
+    description?: string | null;
+    due_at?: string | null;
+    question_count?: number;
+    points_possible?: number | null;
+    published?: boolean;
+    locked_for_user?: boolean;
+    /** Whether students may see correct answers; false, true, or a date range */
+    show_correct_answers?: boolean;
+}
+
+export interface QuizSubmission {
+    id: CanvasId;
+    quiz_id: CanvasId;
+    attempt?: number | null;
+    /** 'untaken', 'pending_review', 'complete', 'settings_only' or 'preview' */
+    workflow_state: string;
+    score?: number | null;
+    kept_score?: number | null;
+    quiz_points_possible?: number | null;
+    finished_at?: string | null;
+}
+
+export interface QuizAnswer {
+    id?: CanvasId;
+    text?: string | null;
+    html?: string | null;
+    /** 100 for correct answers; only sent once the user may see them */
+    weight?: number;
+    comments?: string | null;
+    comments_html?: string | null;
+    /** Blank or dropdown this answer fills, for multi-blank questions */
+    blank_id?: string | null;
+    /** Pair of a matching question */
+    left?: string | null;
+    right?: string | null;
+    /** Numerical answers: 'exact_answer', 'range_answer' or 'precision_answer' */
+    numerical_answer_type?: string | null;
+    exact?: number | null;
+    margin?: number | null;
+    start?: number | null;
+    end?: number | null;
+    approximate?: number | null;
+    precision?: number | null;
+}
+
+export interface QuizQuestion {
+    id: CanvasId;
+    quiz_id?: CanvasId;
+    position?: number | null;
+    question_name?: string | null;
+    question_type: string;
+    /** Question body as HTML */
+    question_text: string;
+    points_possible?: number | null;
+    answers?: QuizAnswer[];
+    correct_comments_html?: string | null;
+    neutral_comments_html?: string | null;
+}
+
+export interface TodoQuiz {
+    id: CanvasId;
+    title: string;
+    due_at?: string | null;
+    html_url?: string;
+}
+
+export interface TodoItem {
+    /** `submitting` for the student's own work, `grading` for teachers */
+    type: string;
+    context_type?: string;
+    course_id?: CanvasId;
+    context_name?: string;
+    html_url?: string;
+    ignore?: string;
+    ignore_permanently?: string;
+    /** Missing for quizzes, discussions and other non-assignment items */
+    assignment?: Assignment;
+    quiz?: TodoQuiz;
+}
+
+/** Kinds of items the Canvas planner tracks completion for */
+export type PlannableType = 'assignment' | 'quiz' | 'discussion_topic' | 'wiki_page' | 'planner_note' | 'calendar_event';
+
+/** A user's completion or dismissal of a planner item */
+export interface PlannerOverride {
+    id: CanvasId;
+    plannable_type: string;
+    plannable_id: CanvasId;
+    marked_complete: boolean;
+    dismissed?: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+/** Submission flags the planner reports for assignment-like items */
+export interface PlannerSubmissions {
+    submitted?: boolean;
+    excused?: boolean;
+    graded?: boolean;
+    late?: boolean;
+    missing?: boolean;
+    needs_grading?: boolean;
+}
+
+export interface PlannerItem {
+    plannable_id: CanvasId;
+    plannable_type: string;
+    plannable_date?: string;
+    course_id?: CanvasId;
+    context_name?: string;
+    html_url?: string;
+    /** The underlying assignment, quiz, page or note */
+    plannable: {
+        id: CanvasId;
+        title?: string;
+        due_at?: string | null;
+        /** Set for graded quizzes and discussions */
+        assignment_id?: CanvasId;
+    };
+    planner_override?: PlannerOverride | null;
+    /** `false` for items that take no submission */
+    submissions?: PlannerSubmissions | false;
+}
+
+/**
+ * Whether Canvas shows a planner item as done. As in the Canvas planner,
+ * an explicit override wins; otherwise handing in the work completes it.
+ * @param item Planner item
+ * @returns True if the item is completed or dismissed
+ */
+export function isPlannerItemComplete(item: PlannerItem): boolean {
+    const override = item.planner_override;
+    if (override) {
+        return override.marked_complete || !!override.dismissed;
+    }
+    const submissions = item.submissions;
+    return !!submissions && !!(submissions.submitted || submissions.excused || submissions.graded);
+}
+
+/**
+ * Planner item a todo entry corresponds to
+ * @param todo Todo item
+ * @returns Plannable type and id, or null if the item cannot be tracked
+ */
+export function getTodoPlannable(todo: TodoItem): { type: PlannableType; id: CanvasId } | null {
+    if (todo.quiz) return { type: 'quiz', id: todo.quiz.id };
+    if (todo.assignment) return { type: 'assignment', id: todo.assignment.id };
+    return null;
+}
+
+/**
+ * Human-readable title of a todo item, whatever kind of item it is
+ * @param todo Todo item
+ * @returns Assignment or quiz name, falling back to a generic label
+ */
+export function getTodoTitle(todo: TodoItem): string {
+    return todo.assignment?.name ?? todo.quiz?.title ?? 'Untitled item';
+}
+
+/**
+ * Due date of a todo item, whatever kind of item it is
+ * @param todo Todo item
+ * @returns ISO due date, or null if the item has none
+ */
+export function getTodoDueAt(todo: TodoItem): string | null {
+    return todo.assignment?.due_at ?? todo.quiz?.due_at ?? null;
+}
+
+export type SubmissionStatus = 'graded' | 'submitted' | 'late' | 'missing' | 'excused' | 'unsubmitted';
+
+/** Labels used for submission statuses in tables and notes */
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+    graded: '✅ Graded',
+    submitted: '✅ Submitted',
+    late: '⚠️ Late',
+    missing: '❌ Missing',
+    excused: '➖ Excused',
+    unsubmitted: '⏳ Pending'
+};
+
+/**
+ * Status of the current user's submission for an assignment. The
+ * assignment must have been fetched with `include[]=submission`;
+ * without it every assignment reads as unsubmitted.
+ * @param assignment Assignment with embedded submission
+ * @returns Submission status
+ */
+export function getSubmissionStatus(assignment: Assignment): SubmissionStatus {
+    const submission = assignment.submission;
+    if (!submission) return 'unsubmitted';
+    if (submission.excused) return 'excused';
+    if (submission.missing) return 'missing';
+    if (submission.workflow_state === 'graded') return 'graded';
+    if (submission.submitted_at || submission.workflow_state === 'submitted' || submission.workflow_state === 'pending_review') {
+        return submission.late ? 'late' : 'submitted';
+    }
+    return 'unsubmitted';
+}
+
+/**
+ * Whether the current user has handed in an assignment
+ * @param assignment Assignment with embedded submission
+ * @returns True once submitted, graded or excused
+ */
+export function isSubmissionComplete(assignment: Assignment): boolean {
+    const status = getSubmissionStatus(assignment);
+    return status !== 'missing' && status !== 'unsubmitted';
+}
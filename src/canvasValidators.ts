@@ -0,0 +1,397 @@
+import {
+    Assignment, AssignmentGroup, CalendarEvent, CanvasFile, Course, CourseUser, DiscussionEntry, DiscussionTopic,
+    DiscussionView, Enrollment, FileUploadTarget, Module, ModuleItem, Page, PlannerItem, PlannerOverride, Quiz, QuizAnswer,
+    QuizQuestion, QuizSubmission, RubricCriterion, Submission, TodoItem, UserProfile
+} from './canvasTypes';
+import { CanvasValidationError } from './errors';
+
+/**
+ * Runtime validators for Canvas responses.
+ *
+ * Each validator checks only the fields the plugin relies on and returns
+ * the value typed as the matching domain interface. Extra fields are left
+ * untouched; a missing or mistyped required field throws a
+ * CanvasValidationError pointing at the offending path.
+ */
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+/**
+ * Field kinds understood by validateShape. A trailing `?` marks a field
+ * that may be missing or null.
+ */
+type FieldKind = 'id' | 'string' | 'number' | 'boolean' | 'array' | 'object';
+type FieldSpec = Record<string, FieldKind | `${FieldKind}?`>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+    switch (kind) {
+        case 'id':
+            return typeof value === 'number' || (typeof value === 'string' && value.length > 0);
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return isRecord(value);
+        default:
+            return typeof value === kind;
+    }
+}
+
+/**
+ * Check that a value is an object whose fields match a spec
+ * @param value Value to check
+ * @param path Location of the value, used in error messages
+ * @param spec Expected kind of each field
+ * @returns The value, narrowed to a record
+ */
+function validateShape(value: unknown, path: string, spec: FieldSpec): Record<string, unknown> {
+    if (!isRecord(value)) {
+        throw new CanvasValidationError(path, 'object', value);
+    }
+
+    Object.entries(spec).forEach(([field, rawKind]) => {
+        const optional = rawKind.endsWith('?');
+        const kind = (optional ? rawKind.slice(0, -1) : rawKind) as FieldKind;
+        const fieldValue = value[field];
+
+        if (fieldValue === undefined || fieldValue === null) {
+            if (!optional) {
+                throw new CanvasValidationError(`${path}.${field}`, kind, fieldValue);
+            }
+            return;
+        }
+        if (!matchesKind(fieldValue, kind)) {
+            throw new CanvasValidationError(`${path}.${field}`, kind, fieldValue);
+        }
+    });
+
+    return value;
+}
+
+/**
+ * Validate a nested value if present
+ */
+function validateOptional<T>(value: unknown, path: string, validator: Validator<T>): void {
+    if (value !== undefined && value !== null) {
+        validator(value, path);
+    }
+}
+
+/**
+ * Build a validator for a list of items
+ * @param itemValidator Validator applied to each element
+ * @returns Validator for the whole array
+ */
+export function arrayOf<T>(itemValidator: Validator<T>): Validator<T[]> {
+    return (value, path) => {
+        if (!Array.isArray(value)) {
+            throw new CanvasValidationError(path, 'array', value);
+        }
+        return value.map((item, index) => itemValidator(item, `${path}[${index}]`));
+    };
+}
+
+export const validateUserProfile: Validator<UserProfile> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        name: 'string',
+        login_id: 'string?',
+        primary_email: 'string?',
+        email: 'string?'
+    }) as unknown as UserProfile;
+};
+
+export const validateCourseUser: Validator<CourseUser> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        name: 'string',
+        sortable_name: 'string?'
+    }) as unknown as CourseUser;
+};
+
+export const validateEnrollment: Validator<Enrollment> = (value, path) => {
+    const enrollment = validateShape(value, path, {
+        type: 'string',
+        computed_current_grade: 'string?',
+        computed_current_score: 'number?',
+        computed_final_grade: 'string?',
+        computed_final_score: 'number?',
+        user: 'object?',
+        grades: 'object?'
+    });
+    validateOptional(enrollment.user, `${path}.user`, validateCourseUser);
+    return enrollment as unknown as Enrollment;
+};
+
+export const validateCourse: Validator<Course> = (value, path) => {
+    // Courses outside their access dates come back as `{ id, access_restricted_by_date }` only.
+    // Name a copy: the response may be a cache entry, which validating must not change.
+    const normalized = isRecord(value) && value.access_restricted_by_date === true && value.name === undefined
+        ? { ...value, name: `Course ${String(value.id)}` }
+        : value;
+    const course = validateShape(normalized, path, {
+        id: 'id',
+        name: 'string',
+        course_code: 'string?',
+        term: 'object?',
+        teachers: 'array?',
+        enrollments: 'array?'
+    });
+    validateOptional(course.enrollments, `${path}.enrollments`, arrayOf(validateEnrollment));
+    return course as unknown as Course;
+};
+
+export const validateSubmission: Validator<Submission> = (value, path) => {
+    const submission = validateShape(value, path, {
+        assignment_id: 'id',
+        workflow_state: 'string',
+        score: 'number?',
+        grade: 'string?',
+        submitted_at: 'string?',
+        late: 'boolean?',
+        missing: 'boolean?',
+        body: 'string?',
+        attachments: 'array?',
+        user: 'object?',
+        rubric_assessment: 'object?'
+    });
+    validateOptional(submission.attachments, `${path}.attachments`, arrayOf(validateFile));
+    validateOptional(submission.user, `${path}.user`, validateCourseUser);
+    return submission as unknown as Submission;
+};
+
+export const validateRubricCriterion: Validator<RubricCriterion> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        description: 'string',
+        points: 'number',
+        ratings: 'array'
+    }) as unknown as RubricCriterion;
+};
+
+export const validateAssignment: Validator<Assignment> = (value, path) => {
+    const assignment = validateShape(value, path, {
+        id: 'id',
+        name: 'string',
+        description: 'string?',
+        due_at: 'string?',
+        points_possible: 'number?',
+        html_url: 'string?',
+        submission_types: 'array?',
+        has_submitted_submissions: 'boolean?',
+        needs_grading_count: 'number?',
+        rubric: 'array?',
+        submission: 'object?'
+    });
+    validateOptional(assignment.submission, `${path}.submission`, validateSubmission);
+    validateOptional(assignment.rubric, `${path}.rubric`, arrayOf(validateRubricCriterion));
+    // Canvas omits due_at entirely for undated assignments; normalize to null
+    if (assignment.due_at === undefined) {
+        assignment.due_at = null;
+    }
+    return assignment as unknown as Assignment;
+};
+
+export const validateAssignmentGroup: Validator<AssignmentGroup> = (value, path) => {
+    const group = validateShape(value, path, {
+        id: 'id',
+        name: 'string',
+        group_weight: 'number?',
+        rules: 'object?',
+        assignments: 'array?'
+    });
+    validateOptional(group.assignments, `${path}.assignments`, arrayOf(validateAssignment));
+    return group as unknown as AssignmentGroup;
+};
+
+export const validateUploadTarget: Validator<FileUploadTarget> = (value, path) => {
+    const target = validateShape(value, path, {
+        upload_url: 'string',
+        upload_params: 'object?'
+    });
+    target.upload_params = target.upload_params ?? {};
+    return target as unknown as FileUploadTarget;
+};
+
+export const validateModuleItem: Validator<ModuleItem> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        title: 'string',
+        type: 'string',
+        html_url: 'string?',
+        url: 'string?',
+        page_url: 'string?',
+        external_url: 'string?'
+    }) as unknown as ModuleItem;
+};
+
+export const validateModule: Validator<Module> = (value, path) => {
+    const module = validateShape(value, path, {
+        id: 'id',
+        name: 'string',
+        position: 'number?',
+        items: 'array?'
+    });
+    validateOptional(module.items, `${path}.items`, arrayOf(validateModuleItem));
+    return module as unknown as Module;
+};
+
+export const validatePage: Validator<Page> = (value, path) => {
+    return validateShape(value, path, {
+        url: 'string',
+        title: 'string',
+        body: 'string?',
+        updated_at: 'string?',
+        html_url: 'string?'
+    }) as unknown as Page;
+};
+
+export const validateFile: Validator<CanvasFile> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        display_name: 'string',
+        size: 'number',
+        url: 'string',
+        updated_at: 'string?'
+    }) as unknown as CanvasFile;
+};
+
+export const validateCalendarEvent: Validator<CalendarEvent> = (value, path) => {
+    const event = validateShape(value, path, {
+        id: 'id',
+        title: 'string',
+        start_at: 'string?',
+        context_name: 'string?',
+        html_url: 'string?',
+        assignment: 'object?'
+    });
+    validateOptional(event.assignment, `${path}.assignment`, validateAssignment);
+    if (event.start_at === undefined) {
+        event.start_at = null;
+    }
+    return event as unknown as CalendarEvent;
+};
+
+export const validateDiscussionTopic: Validator<DiscussionTopic> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        title: 'string',
+        message: 'string?',
+        posted_at: 'string?',
+        html_url: 'string?',
+        context_code: 'string?',
+        read_state: 'string?'
+    }) as unknown as DiscussionTopic;
+};
+
+export const validateDiscussionEntry: Validator<DiscussionEntry> = (value, path) => {
+    const entry = validateShape(value, path, {
+        id: 'id',
+        message: 'string?',
+        created_at: 'string?',
+        replies: 'array?'
+    });
+    validateOptional(entry.replies, `${path}.replies`, arrayOf(validateDiscussionEntry));
+    return entry as unknown as DiscussionEntry;
+};
+
+export const validateDiscussionView: Validator<DiscussionView> = (value, path) => {
+    const view = validateShape(value, path, {
+        participants: 'array?',
+        unread_entries: 'array?',
+        view: 'array?'
+    });
+    // Topics nobody has replied to yet come back without any of the lists
+    view.participants = view.participants ?? [];
+    view.unread_entries = view.unread_entries ?? [];
+    view.view = view.view ?? [];
+    arrayOf(validateDiscussionEntry)(view.view, `${path}.view`);
+    return view as unknown as DiscussionView;
+};
+
+export const validateTodoItem: Validator<TodoItem> = (value, path) => {
+    const todo = validateShape(value, path, {
+        type: 'string',
+        context_name: 'string?',
+        html_url: 'string?',
+        assignment: 'object?',
+        quiz: 'object?'
+    });
+    validateOptional(todo.assignment, `${path}.assignment`, validateAssignment);
+    validateOptional(todo.quiz, `${path}.quiz`, (quiz, quizPath) => validateShape(quiz, quizPath, {
+        id: 'id',
+        title: 'string'
+    }));
+    return todo as unknown as TodoItem;
+};
+
+export const validatePlannerOverride: Validator<PlannerOverride> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        plannable_type: 'string',
+        plannable_id: 'id',
+        marked_complete: 'boolean',
+        dismissed: 'boolean?',
+        updated_at: 'string?'
+    }) as unknown as PlannerOverride;
+};
+
+export const validatePlannerItem: Validator<PlannerItem> = (value, path) => {
+    const item = validateShape(value, path, {
+        plannable_id: 'id',
+        plannable_type: 'string',
+        plannable_date: 'string?',
+        context_name: 'string?',
+        html_url: 'string?',
+        plannable: 'object',
+        planner_override: 'object?'
+    });
+    validateShape(item.plannable, `${path}.plannable`, {
+        id: 'id',
+        title: 'string?',
+        due_at: 'string?'
+    });
+    validateOptional(item.planner_override, `${path}.planner_override`, validatePlannerOverride);
+    return item as unknown as PlannerItem;
+};
+
+export const validateQuiz: Validator<Quiz> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        title: 'string',
+        html_url: 'string?',
+        quiz_type: 'string?',
+        due_at: 'string?',
+        question_count: 'number?'
+    }) as unknown as Quiz;
+};
+
+export const validateQuizSubmission: Validator<QuizSubmission> = (value, path) => {
+    return validateShape(value, path, {
+        id: 'id',
+        quiz_id: 'id',
+        attempt: 'number?',
+        workflow_state: 'string',
+        score: 'number?',
+        finished_at: 'string?'
+    }) as unknown as QuizSubmission;
+};
+
+export const validateQuizQuestion: Validator<QuizQuestion> = (value, path) => {
+    const question = validateShape(value, path, {
+        id: 'id',
+        question_type: 'string',
+        question_text: 'string?',
+        points_possible: 'number?',
+        answers: 'array?'
+    });
+    validateOptional(question.answers, `${path}.answers`, arrayOf((answer, answerPath) => validateShape(answer, answerPath, {
+        text: 'string?',
+        html: 'string?',
+        weight: 'number?'
+    }) as unknown as QuizAnswer));
+    return { ...question, question_text: question.question_text ?? '' } as unknown as QuizQuestion;
+};
@@ -0,0 +1,167 @@
+import { TFile } from 'obsidian';
+import MyPlugin from './main';
+import { Assignment, Course, Module, SUBMISSION_STATUS_LABELS, getSubmissionStatus } from './canvasTypes';
+import { escapeLinkText, formatNoteDate, markdownTable } from './markdownUtils';
+import { upsertRegion, wrapRegion } from './noteRegions';
+import { CanvasProfile, PROFILE_KEY, findProfileNote, getProfileFolder } from './profiles';
+import { ensureFolder, getAvailableNotePath, updateFrontmatterFields } from './vaultUtils';
+
+/** Frontmatter key identifying the Canvas course a note belongs to */
+export const COURSE_ID_KEY = 'canvas_course_id';
+
+export interface SyncResult {
+    created: number;
+    updated: number;
+    unchanged: number;
+}
+
+/**
+ * Keeps one Markdown note per active Canvas course in the configured
+ * folder. Only the frontmatter fields and the marked regions are
+ * rewritten on each sync; anything else in the note belongs to the user.
+ */
+export class CourseNoteSync {
+    plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Create or update the notes for all active courses of a profile
+     * @param profile Profile to sync; defaults to the active one
+     * @returns Number of notes created, updated and left unchanged
+     */
+    async syncAll(profile: CanvasProfile = this.plugin.activeProfile): Promise<SyncResult> {
+        const courses = await this.plugin.getApi(profile.id).getCourses(profile.role, 'active', {
+            include: ['term', 'teachers', 'total_scores']
+        });
+
+        const result: SyncResult = { created: 0, updated: 0, unchanged: 0 };
+        for (const course of courses) {
+            const outcome = await this.syncCourse(course, profile);
+            result[outcome]++;
+        }
+        return result;
+    }
+
+    /**
+     * Create or update the note for a single course
+     * @param course Course, ideally fetched with term, teachers and total_scores
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @returns What happened to the note
+     */
+    async syncCourse(course: Course, profile: CanvasProfile = this.plugin.activeProfile): Promise<keyof SyncResult> {
+        const { app } = this.plugin;
+        const api = this.plugin.getApi(profile.id);
+        const [assignments, modules] = await Promise.all([
+            api.getCourseAssignments(course.id, { include: ['submission'] }),
+            api.getCourseModules(course.id)
+        ]);
+
+        const regions: Record<string, string> = {
+            assignments: this.renderAssignments(assignments),
+            modules: this.renderModules(modules)
+        };
+
+        let file = findProfileNote(app, COURSE_ID_KEY, course.id, profile.id);
+        let outcome: keyof SyncResult = 'updated';
+
+        if (!file) {
+            const folder = getProfileFolder(this.plugin.settings.courseNotesFolder || 'Canvas', profile);
+            await ensureFolder(app, folder);
+            const path = getAvailableNotePath(app, folder, course.name, String(course.id));
+            file = await app.vault.create(path, this.renderNewNote(course, regions));
+            outcome = 'created';
+        } else {
+            const content = await app.vault.read(file);
+            const updated = Object.entries(regions)
+                .reduce((text, [id, body]) => upsertRegion(text, id, body), content);
+            if (updated !== content) {
+                await app.vault.modify(file, updated);
+            } else {
+                outcome = 'unchanged';
+            }
+        }
+
+        const frontmatterChanged = await this.updateFrontmatter(file, course, profile);
+        if (outcome === 'unchanged' && frontmatterChanged) {
+            outcome = 'updated';
+        }
+        return outcome;
+    }
+
+    /**
+     * Write the course metadata into the note's frontmatter
+     * @returns True if any field changed
+     */
+    private async updateFrontmatter(file: TFile, course: Course, profile: CanvasProfile): Promise<boolean> {
+        const enrollment = course.enrollments?.[0];
+        const fields: Record<string, string | number | null> = {
+            [COURSE_ID_KEY]: course.id,
+            [PROFILE_KEY]: profile.id,
+            course_code: course.course_code ?? null,
+            term: course.term?.name ?? null,
+            teacher: course.teachers?.map(teacher => teacher.display_name).join(', ') || null,
+            current_score: enrollment?.computed_current_score ?? null,
+            current_grade: enrollment?.computed_current_grade ?? null
+        };
+
+        return updateFrontmatterFields(this.plugin.app, file, fields);
+    }
+
+    private renderNewNote(course: Course, regions: Record<string, string>): string {
+        return [
+            `# ${course.name}`,
+            '',
+            '## Assignments',
+            '',
+            wrapRegion('assignments', regions.assignments),
+            '',
+            '## Modules',
+            '',
+            wrapRegion('modules', regions.modules),
+            '',
+            '## Notes',
+            ''
+        ].join('\n');
+    }
+
+    private renderAssignments(assignments: Assignment[]): string {
+        if (assignments.length === 0) {
+            return 'No assignments found for this course.';
+        }
+
+        // Undated assignments go last, the rest by due date
+        const sorted = [...assignments].sort((a, b) => {
+            if (!a.due_at) return b.due_at ? 1 : 0;
+            if (!b.due_at) return -1;
+            return a.due_at.localeCompare(b.due_at);
+        });
+
+        return markdownTable(
+            ['Assignment', 'Due', 'Points', 'Status'],
+            sorted.map(assignment => [
+                assignment.html_url
+                    ? `[${escapeLinkText(assignment.name)}](${assignment.html_url})`
+                    : assignment.name,
+                formatNoteDate(assignment.due_at) || 'No due date',
+                assignment.points_possible ?? '',
+                SUBMISSION_STATUS_LABELS[getSubmissionStatus(assignment)]
+            ])
+        );
+    }
+
+    private renderModules(modules: Module[]): string {
+        if (modules.length === 0) {
+            return 'No modules found for this course.';
+        }
+
+        return modules
+            .map(module => {
+                const count = module.items_count !== undefined ? ` (${module.items_count} items)` : '';
+                return `- ${module.name}${count}`;
+            })
+            .join('\n');
+    }
+}
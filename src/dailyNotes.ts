@@ -0,0 +1,302 @@
+import { TFile, moment, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import { CanvasId, PlannableType, getTodoDueAt, getTodoPlannable, getTodoTitle } from './canvasTypes';
+import { escapeLinkText } from './markdownUtils';
+import { readRegion, upsertRegion, wrapRegion } from './noteRegions';
+import { indexProfileNotes } from './profiles';
+import { markCanvasTask, taskKey } from './taskSync';
+import { renderOutputTemplate } from './templateEngine';
+
+/** Region id of the managed agenda inside daily notes */
+const AGENDA_REGION = 'daily-agenda';
+
+/** Do not refresh the same note more often than this when it is reopened */
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface AgendaItem {
+    assignmentId?: CanvasId;
+    /** Planner item behind the entry, used to sync its checkbox */
+    plannable?: { type: PlannableType; id: CanvasId };
+    title: string;
+    course: string;
+    dueAt: string;
+    url?: string;
+}
+
+interface PostedGrade {
+    assignmentId: CanvasId;
+    title: string;
+    course: string;
+    score: number | null;
+    grade: string | null;
+    pointsPossible: number | null;
+    gradedAt: string;
+    url?: string;
+}
+
+/**
+ * Fills a managed "Canvas" section in daily notes with the items due in
+ * the next few days and the grades posted since the previous daily note.
+ * Only notes dated today or later are touched, so past daily notes keep
+ * the agenda they had on their day.
+ */
+export class DailyNoteAgenda {
+    plugin: MyPlugin;
+    private lastRefresh = new Map<string, number>();
+    private running = new Set<string>();
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Date of a daily note, based on the configured folder and format
+     * @param file Any vault file
+     * @returns Start of the note's day, or null if it is not a daily note
+     */
+    getDailyNoteDate(file: TFile): moment.Moment | null {
+        if (file.extension !== 'md') return null;
+
+        const folder = normalizePath(this.plugin.settings.dailyNoteFolder || '/');
+        const parent = file.parent?.path ?? '/';
+        if (folder !== '/' && parent !== folder) return null;
+
+        const date = moment(file.basename, this.plugin.settings.dailyNoteFormat || 'YYYY-MM-DD', true);
+        return date.isValid() ? date.startOf('day') : null;
+    }
+
+    /**
+     * Refresh the agenda of a daily note if it is due for one
+     * @param file Note that was created or opened
+     * @param force Skip the refresh interval check
+     */
+    async handleFile(file: TFile | null, force = false): Promise<void> {
+        if (!file || !this.plugin.settings.dailyNoteEnabled) return;
+
+        const date = this.getDailyNoteDate(file);
+        if (!date || date.isBefore(moment().startOf('day'))) return;
+
+        const last = this.lastRefresh.get(file.path) ?? 0;
+        if (this.running.has(file.path) || (!force && Date.now() - last < REFRESH_INTERVAL_MS)) return;
+
+        this.running.add(file.path);
+        try {
+            await this.updateNote(file, date);
+            this.lastRefresh.set(file.path, Date.now());
+        } catch (error) {
+            console.error('Error updating Canvas agenda in daily note:', error);
+        } finally {
+            this.running.delete(file.path);
+        }
+    }
+
+    /**
+     * Write the agenda section of a daily note
+     * @param file Daily note
+     * @param date Day the note belongs to
+     */
+    async updateNote(file: TFile, date: moment.Moment): Promise<void> {
+        const { app } = this.plugin;
+        // Send ticks made since the last refresh first, or re-rendering would undo them
+        if (this.plugin.settings.taskSyncEnabled) {
+            await this.plugin.taskSync.pushFile(file);
+        }
+        const body = await this.renderAgenda(file, date);
+        const content = await app.vault.read(file);
+
+        let updated: string;
+        if (readRegion(content, AGENDA_REGION) !== null) {
+            updated = upsertRegion(content, AGENDA_REGION, body);
+        } else {
+            const heading = this.plugin.settings.dailyNoteHeading || '## Canvas';
+            const separator = content.length === 0 || content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+            updated = `${content}${separator}${heading}\n\n${wrapRegion(AGENDA_REGION, body)}\n`;
+        }
+
+        if (updated !== content) {
+            await app.vault.modify(file, updated);
+        }
+    }
+
+    private async renderAgenda(file: TFile, date: moment.Moment): Promise<string> {
+        const lookahead = Math.max(0, this.plugin.settings.dailyNoteLookaheadDays);
+        const end = date.clone().add(lookahead, 'days').endOf('day');
+        const since = this.getPreviousDailyNoteDate(file, date) ?? date.clone().subtract(1, 'day');
+
+        // The agenda shows the active profile
+        const profile = this.plugin.activeProfile.id;
+        const taskSyncEnabled = this.plugin.settings.taskSyncEnabled;
+        const [items, grades, completion] = await Promise.all([
+            this.fetchAgendaItems(date, end),
+            this.fetchPostedGrades(since),
+            taskSyncEnabled
+                ? this.plugin.taskSync.fetchCompletion(date, end, profile)
+                : Promise.resolve(new Map<string, boolean>())
+        ]);
+        const notes = indexProfileNotes(this.plugin.app, ASSIGNMENT_ID_KEY, profile);
+        const template = this.plugin.settings.dailyNoteTemplate || DEFAULT_ITEM_TEMPLATE;
+        const rendered: Array<{ profile: string; type: string; id: CanvasId; completed: boolean }> = [];
+
+        const sections: string[] = [];
+        for (let offset = 0; offset <= lookahead; offset++) {
+            const day = date.clone().add(offset, 'days');
+            const label = offset === 0 ? 'Due today' : offset === 1 ? 'Due tomorrow' : `Due ${day.format('dddd, MMM D')}`;
+            const dayItems = items.filter(item => moment(item.dueAt).isSame(day, 'day'));
+
+            const lines = dayItems.length > 0
+                ? dayItems.map(item => {
+                    const line = renderOutputTemplate(template, {
+                        link: this.linkTo(item.title, item.assignmentId, item.url, notes, file),
+                        title: item.title,
+                        course: item.course,
+                        due: moment(item.dueAt).format('YYYY-MM-DD HH:mm'),
+                        time: moment(item.dueAt).format('HH:mm'),
+                        dueAt: item.dueAt,
+                        url: item.url ?? ''
+                    }, {
+                        formatDate: (value, format) => moment(value).format(format || 'YYYY-MM-DD HH:mm')
+                    });
+                    if (!taskSyncEnabled || !item.plannable) return line;
+
+                    const { type, id } = item.plannable;
+                    const completed = completion.get(taskKey(type, id, profile)) ?? false;
+                    const marked = markCanvasTask(line, type, id, completed, profile);
+                    if (marked !== line) {
+                        rendered.push({ profile, type, id, completed });
+                    }
+                    return marked;
+                })
+                : ['Nothing due.'];
+            sections.push(`### ${label}\n\n${lines.join('\n')}`);
+        }
+
+        if (grades.length > 0) {
+            const lines = grades.map(grade => {
+                const score = grade.score !== null && grade.pointsPossible !== null
+                    ? `${grade.score}/${grade.pointsPossible}`
+                    : grade.grade ?? 'graded';
+                return `- ${this.linkTo(grade.title, grade.assignmentId, grade.url, notes, file)} (${grade.course}): ${score}`;
+            });
+            sections.push(`### New grades since ${since.format('MMM D')}\n\n${lines.join('\n')}`);
+        }
+
+        this.plugin.taskSync.recordTasks(rendered);
+        return sections.join('\n\n');
+    }
+
+    /**
+     * Items due between two dates, from the todo list and upcoming events
+     */
+    private async fetchAgendaItems(start: moment.Moment, end: moment.Moment): Promise<AgendaItem[]> {
+        const [todos, events] = await Promise.all([
+            this.plugin.canvasApi.getTodoItems(),
+            this.plugin.canvasApi.getUpcomingEvents()
+        ]);
+
+        const items: AgendaItem[] = [];
+        const seen = new Set<string>();
+        const add = (item: AgendaItem) => {
+            const key = item.assignmentId !== undefined ? `assignment:${item.assignmentId}` : `${item.title}:${item.dueAt}`;
+            if (seen.has(key) || !moment(item.dueAt).isBetween(start, end, undefined, '[]')) return;
+            seen.add(key);
+            items.push(item);
+        };
+
+        todos.forEach(todo => {
+            const dueAt = getTodoDueAt(todo);
+            if (!dueAt) return;
+            add({
+                assignmentId: todo.assignment?.id,
+                plannable: getTodoPlannable(todo) ?? undefined,
+                title: getTodoTitle(todo),
+                course: todo.context_name ?? '',
+                dueAt,
+                url: todo.html_url ?? todo.assignment?.html_url
+            });
+        });
+
+        events.forEach(event => {
+            const dueAt = event.assignment?.due_at ?? event.start_at;
+            if (!dueAt) return;
+            add({
+                assignmentId: event.assignment?.id,
+                plannable: event.assignment ? { type: 'assignment', id: event.assignment.id } : undefined,
+                title: event.title,
+                course: event.context_name ?? '',
+                dueAt,
+                url: event.html_url
+            });
+        });
+
+        return items.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+    }
+
+    /**
+     * Submissions graded after a given time, across all active courses
+     */
+    private async fetchPostedGrades(since: moment.Moment): Promise<PostedGrade[]> {
+        const courses = await this.plugin.canvasApi.getCourses(this.plugin.activeProfile.role, 'active');
+        const perCourse = await Promise.all(courses.map(async course => ({
+            course,
+            assignments: await this.plugin.canvasApi.getCourseAssignments(course.id, { include: ['submission'] })
+        })));
+
+        const grades: PostedGrade[] = [];
+        perCourse.forEach(({ course, assignments }) => {
+            assignments.forEach(assignment => {
+                const submission = assignment.submission;
+                if (!submission?.graded_at || submission.workflow_state !== 'graded') return;
+                if (!moment(submission.graded_at).isAfter(since)) return;
+                grades.push({
+                    assignmentId: assignment.id,
+                    title: assignment.name,
+                    course: course.name,
+                    score: submission.score ?? null,
+                    grade: submission.grade ?? null,
+                    pointsPossible: assignment.points_possible ?? null,
+                    gradedAt: submission.graded_at,
+                    url: assignment.html_url
+                });
+            });
+        });
+
+        return grades.sort((a, b) => b.gradedAt.localeCompare(a.gradedAt));
+    }
+
+    /**
+     * Date of the most recent daily note before the given one
+     */
+    private getPreviousDailyNoteDate(file: TFile, date: moment.Moment): moment.Moment | null {
+        let previous: moment.Moment | null = null;
+        for (const other of this.plugin.app.vault.getMarkdownFiles()) {
+            if (other.path === file.path) continue;
+            const otherDate = this.getDailyNoteDate(other);
+            if (otherDate && otherDate.isBefore(date) && (!previous || otherDate.isAfter(previous))) {
+                previous = otherDate;
+            }
+        }
+        return previous;
+    }
+
+    /**
+     * Link to the synced assignment note, or to Canvas if there is none
+     */
+    private linkTo(
+        title: string,
+        assignmentId: CanvasId | undefined,
+        url: string | undefined,
+        notes: Map<string, TFile>,
+        source: TFile
+    ): string {
+        const note = assignmentId !== undefined ? notes.get(String(assignmentId)) : undefined;
+        if (note) {
+            const linktext = this.plugin.app.metadataCache.fileToLinktext(note, source.path, true);
+            return `[[${linktext}|${title.replace(/[|\]]/g, ' ')}]]`;
+        }
+        return url ? `[${escapeLinkText(title)}](${url})` : title;
+    }
+}
+
+/** Default line template for items due in the agenda */
+export const DEFAULT_ITEM_TEMPLATE = '- [ ] {{link}} ({{course}}, due {{time}})';
@@ -0,0 +1,262 @@
+import { ItemView, TFile, WorkspaceLeaf, moment } from 'obsidian';
+import MyPlugin from './main';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import {
+    Assignment, Course, SUBMISSION_STATUS_LABELS, getSubmissionStatus, isSubmissionComplete
+} from './canvasTypes';
+import { COURSE_ID_KEY } from './courseSync';
+import { CanvasProfile, indexProfileNotes } from './profiles';
+
+export const VIEW_TYPE_CANVAS_DASHBOARD = 'canvas-dashboard';
+
+/** How close a deadline is; drives the colour of due items */
+export type Urgency = 'overdue' | 'urgent' | 'soon' | 'later';
+
+interface DashboardCourse {
+    course: Course;
+    assignments: Assignment[];
+}
+
+interface DashboardData {
+    /** Profile the data was loaded for; the active one at the time */
+    profile: CanvasProfile;
+    /** Canvas instance URL of the profile */
+    baseUrl: string;
+    courses: DashboardCourse[];
+    fetchedAt: number;
+}
+
+interface DashboardEntry {
+    assignment: Assignment;
+    course: Course;
+}
+
+/**
+ * Classify a deadline by how soon it is
+ * @param dueAt ISO due date
+ * @param now Reference time
+ * @returns Overdue, within a day, within three days, or later
+ */
+export function getUrgency(dueAt: string, now = moment()): Urgency {
+    const hours = moment(dueAt).diff(now, 'hours', true);
+    if (hours < 0) return 'overdue';
+    if (hours < 24) return 'urgent';
+    if (hours < 72) return 'soon';
+    return 'later';
+}
+
+/**
+ * Sidebar view summarising what is due, what is missing and how each
+ * course is going. Data comes through the API's response cache, so
+ * background refreshes are cheap; the refresh action bypasses it.
+ */
+export class CanvasDashboardView extends ItemView {
+    plugin: MyPlugin;
+    private data: DashboardData | null = null;
+    private error: string | null = null;
+    private loading = false;
+    /** Course panes the user opened, kept across refreshes */
+    private expanded = new Set<string>();
+
+    constructor(leaf: WorkspaceLeaf, plugin: MyPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_CANVAS_DASHBOARD;
+    }
+
+    getDisplayText(): string {
+        return 'Canvas';
+    }
+
+    getIcon(): string {
+        return 'graduation-cap';
+    }
+
+    async onOpen() {
+        this.addAction('refresh-cw', 'Refresh', () => this.refresh(true));
+        this.render();
+        this.refresh();
+
+        const minutes = Math.max(1, this.plugin.settings.dashboardRefreshMinutes);
+        this.registerInterval(window.setInterval(() => this.refresh(), minutes * 60 * 1000));
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Reload the dashboard data, keeping the current content on screen
+     * until the new data arrives
+     * @param fresh Ask Canvas even if cached responses are still valid
+     */
+    async refresh(fresh = false) {
+        if (this.loading) return;
+        this.loading = true;
+        this.renderStatus();
+
+        try {
+            const api = this.plugin.canvasApi;
+            const courses = await api.getCourses(api.profile.role, 'active', {
+                include: ['total_scores'],
+                fresh
+            });
+            const perCourse = await Promise.all(courses.map(async course => ({
+                course,
+                assignments: await api.getCourseAssignments(course.id, { include: ['submission'], fresh })
+            })));
+            this.data = { profile: api.profile, baseUrl: api.baseUrl, courses: perCourse, fetchedAt: Date.now() };
+            this.error = null;
+        } catch (error) {
+            console.error('Error refreshing Canvas dashboard:', error);
+            this.error = error.message || 'Unknown error';
+        } finally {
+            this.loading = false;
+        }
+        this.render();
+    }
+
+    private render() {
+        const el = this.contentEl;
+        el.empty();
+        el.addClass('canvas-dashboard');
+        el.createDiv({ cls: 'canvas-dashboard-status' });
+        this.renderStatus();
+
+        if (!this.data) return;
+
+        const now = moment();
+        const days = this.plugin.settings.dashboardDueDays;
+        const horizon = now.clone().add(days, 'days');
+        const assignmentNotes = indexProfileNotes(this.app, ASSIGNMENT_ID_KEY, this.data.profile.id);
+        const courseNotes = indexProfileNotes(this.app, COURSE_ID_KEY, this.data.profile.id);
+        const baseUrl = this.data.baseUrl;
+
+        const entries: DashboardEntry[] = [];
+        this.data.courses.forEach(({ course, assignments }) => {
+            assignments.forEach(assignment => entries.push({ assignment, course }));
+        });
+
+        const dueSoon = entries
+            .filter(({ assignment }) => assignment.due_at && !isSubmissionComplete(assignment)
+                && moment(assignment.due_at).isBetween(now, horizon))
+            .sort((a, b) => (a.assignment.due_at ?? '').localeCompare(b.assignment.due_at ?? ''));
+        this.renderSection(el, `Due in the next ${days} days`, dueSoon, assignmentNotes, now, 'Nothing due.');
+
+        const overdue = entries
+            .filter(({ assignment }) => ['missing', 'late'].includes(getSubmissionStatus(assignment)))
+            .sort((a, b) => (b.assignment.due_at ?? '').localeCompare(a.assignment.due_at ?? ''));
+        this.renderSection(el, 'Missing and late', overdue, assignmentNotes, now, 'Nothing missing.');
+
+        const coursesEl = el.createDiv({ cls: 'canvas-dashboard-section' });
+        coursesEl.createEl('h4', { text: 'Courses' });
+        this.data.courses.forEach(({ course, assignments }) => {
+            const key = String(course.id);
+            const details = coursesEl.createEl('details', { cls: 'canvas-dashboard-course' });
+            details.open = this.expanded.has(key);
+            details.addEventListener('toggle', () => {
+                if (details.open) this.expanded.add(key);
+                else this.expanded.delete(key);
+            });
+
+            const summary = details.createEl('summary');
+            summary.createSpan({ cls: 'canvas-dashboard-course-name', text: course.name });
+            summary.createSpan({ cls: 'canvas-dashboard-score', text: formatScore(course) });
+
+            const note = courseNotes.get(key);
+            const open = details.createDiv({ cls: 'canvas-dashboard-link', text: note ? 'Open course note' : 'Open in Canvas' });
+            open.addEventListener('click', () => this.openTarget(note, `${baseUrl}/courses/${course.id}`));
+
+            const upcoming = assignments
+                .filter(assignment => assignment.due_at && !isSubmissionComplete(assignment) && moment(assignment.due_at).isAfter(now))
+                .sort((a, b) => (a.due_at ?? '').localeCompare(b.due_at ?? ''))
+                .map(assignment => ({ assignment, course }));
+            const missing = assignments.filter(assignment => getSubmissionStatus(assignment) === 'missing').length;
+
+            if (missing > 0) {
+                details.createDiv({ cls: 'canvas-dashboard-missing', text: `${missing} missing` });
+            }
+            this.renderList(details, upcoming, assignmentNotes, now, 'No upcoming assignments.');
+        });
+    }
+
+    private renderStatus() {
+        const status = this.contentEl.querySelector('.canvas-dashboard-status');
+        if (!(status instanceof HTMLElement)) return;
+
+        status.toggleClass('is-error', this.error !== null);
+        if (this.loading) {
+            status.setText(this.data ? 'Refreshing...' : 'Loading Canvas data...');
+        } else if (this.error) {
+            status.setText(`Failed to load Canvas data: ${this.error}`);
+        } else if (this.data) {
+            const updated = `Updated ${moment(this.data.fetchedAt).format('HH:mm')}`;
+            // Name the profile once there is more than one to tell apart
+            status.setText(this.plugin.settings.profiles.length > 1 ? `${this.data.profile.name} · ${updated}` : updated);
+        }
+    }
+
+    private renderSection(
+        parent: HTMLElement,
+        title: string,
+        entries: DashboardEntry[],
+        notes: Map<string, TFile>,
+        now: moment.Moment,
+        emptyText: string
+    ) {
+        const section = parent.createDiv({ cls: 'canvas-dashboard-section' });
+        section.createEl('h4', { text: title });
+        this.renderList(section, entries, notes, now, emptyText);
+    }
+
+    private renderList(
+        parent: HTMLElement,
+        entries: DashboardEntry[],
+        notes: Map<string, TFile>,
+        now: moment.Moment,
+        emptyText: string
+    ) {
+        if (entries.length === 0) {
+            parent.createDiv({ cls: 'canvas-dashboard-empty', text: emptyText });
+            return;
+        }
+
+        const list = parent.createEl('ul', { cls: 'canvas-dashboard-list' });
+        entries.forEach(({ assignment, course }) => {
+            const item = list.createEl('li', { cls: 'canvas-dashboard-item' });
+            if (assignment.due_at && !isSubmissionComplete(assignment)) {
+                item.addClass(`is-${getUrgency(assignment.due_at, now)}`);
+            }
+            item.createDiv({ cls: 'canvas-dashboard-item-title', text: assignment.name });
+
+            const due = assignment.due_at ? moment(assignment.due_at) : null;
+            const meta = [
+                course.name,
+                due ? `due ${due.format('ddd MMM D, HH:mm')} (${due.from(now)})` : 'no due date',
+                SUBMISSION_STATUS_LABELS[getSubmissionStatus(assignment)]
+            ];
+            item.createDiv({ cls: 'canvas-dashboard-item-meta', text: meta.join(' · ') });
+
+            item.addEventListener('click', () => this.openTarget(notes.get(String(assignment.id)), assignment.html_url));
+        });
+    }
+
+    private openTarget(note: TFile | undefined, url: string | undefined) {
+        if (note) {
+            this.app.workspace.getLeaf(false).openFile(note);
+        } else if (url) {
+            window.open(url);
+        }
+    }
+}
+
+function formatScore(course: Course): string {
+    const enrollment = course.enrollments?.find(e => e.type === 'student') ?? course.enrollments?.[0];
+    const score = enrollment?.computed_current_score;
+    const grade = enrollment?.computed_current_grade;
+    if (score == null && !grade) return 'No score';
+    return [score != null ? `${score}%` : null, grade].filter(Boolean).join(' · ');
+}
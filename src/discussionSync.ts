@@ -0,0 +1,328 @@
+import { TFile, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import { CanvasId, Course, DiscussionEntry, DiscussionTopic, DiscussionView } from './canvasTypes';
+import { SyncResult } from './courseSync';
+import { HtmlConversionOptions, canvasHtmlToMarkdown } from './htmlConverter';
+import { createVaultLinkResolver } from './linkResolver';
+import { formatNoteDate } from './markdownUtils';
+import { upsertRegion, wrapRegion } from './noteRegions';
+import { CanvasProfile, PROFILE_KEY, getProfileFolder, indexProfileNotes } from './profiles';
+import { ensureFolder, getAvailableNotePath, sanitizeFileName, updateFrontmatterFields } from './vaultUtils';
+
+/** Frontmatter key identifying the Canvas discussion topic a note belongs to */
+export const TOPIC_ID_KEY = 'canvas_topic_id';
+
+/** Heading of the note section whose text "Reply to Canvas discussion" posts */
+export const REPLY_HEADING = '## Your reply';
+
+export interface DiscussionSyncResult extends SyncResult {
+    /** Posts the user has not read in Canvas yet */
+    unread: number;
+}
+
+/**
+ * Writes announcements and discussion topics into per-course folders,
+ * one note per topic with its threaded replies. Canvas keeps track of
+ * what the user has read: posts still unread in Canvas are rendered as
+ * highlighted "New" callouts, and a topic's thread is only fetched again
+ * when it has new replies or its read state changed.
+ */
+export class DiscussionNoteSync {
+    plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Sync announcements and discussions of all active courses of a profile
+     * @param profile Profile to sync; defaults to the active one
+     * @returns Number of notes created, updated and unchanged, and unread posts
+     */
+    async syncAll(profile: CanvasProfile = this.plugin.activeProfile): Promise<DiscussionSyncResult> {
+        const courses = await this.plugin.getApi(profile.id).getCourses(profile.role, 'active');
+        const result: DiscussionSyncResult = { created: 0, updated: 0, unchanged: 0, unread: 0 };
+
+        for (const course of courses) {
+            const courseResult = await this.syncCourse(course, profile);
+            result.created += courseResult.created;
+            result.updated += courseResult.updated;
+            result.unchanged += courseResult.unchanged;
+            result.unread += courseResult.unread;
+        }
+        return result;
+    }
+
+    /**
+     * Sync the announcements and discussions of one course
+     * @param course Course whose topics are synced
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @returns Number of notes created, updated and unchanged, and unread posts
+     */
+    async syncCourse(course: Course, profile: CanvasProfile = this.plugin.activeProfile): Promise<DiscussionSyncResult> {
+        const api = this.plugin.getApi(profile.id);
+        const topics = [
+            ...await api.getDiscussionTopics(course.id, { onlyAnnouncements: true, fresh: true }),
+            ...await api.getDiscussionTopics(course.id, { fresh: true })
+        ];
+        const index = indexProfileNotes(this.plugin.app, TOPIC_ID_KEY, profile.id);
+        const conversion: HtmlConversionOptions = {
+            baseUrl: api.baseUrl,
+            resolveLink: createVaultLinkResolver(this.plugin.app, profile.id, '', this.plugin.moduleMirror)
+        };
+        const result: DiscussionSyncResult = { created: 0, updated: 0, unchanged: 0, unread: 0 };
+
+        for (const topic of topics) {
+            const existing = index.get(String(topic.id)) ?? null;
+            const outcome = await this.syncTopic(course, topic, existing, conversion, profile);
+            result[outcome]++;
+            result.unread += (topic.unread_count ?? 0) + (topic.read_state === 'unread' ? 1 : 0);
+        }
+        return result;
+    }
+
+    /**
+     * Create or update the note of a single topic
+     * @param course Course the topic belongs to
+     * @param topic Announcement or discussion topic
+     * @param existing Note already synced for this topic, if any
+     * @param conversion Options for converting post HTML
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @param force Fetch the thread even if the topic looks unchanged
+     * @returns What happened to the note
+     */
+    async syncTopic(
+        course: Course,
+        topic: DiscussionTopic,
+        existing: TFile | null,
+        conversion: HtmlConversionOptions = { baseUrl: this.plugin.canvasApi.baseUrl },
+        profile: CanvasProfile = this.plugin.activeProfile,
+        force = false
+    ): Promise<keyof SyncResult> {
+        const { app } = this.plugin;
+
+        // The thread is only worth fetching when it has changed since the last sync
+        if (existing && !force && !this.hasChanged(existing, topic)) {
+            return 'unchanged';
+        }
+
+        const view = (topic.discussion_subentry_count ?? 0) > 0
+            ? await this.plugin.getApi(profile.id).getDiscussionView(course.id, topic.id, { fresh: true })
+            : null;
+        const message = this.renderMessage(topic, conversion);
+        const replies = view ? renderEntries(view, conversion) : '_No replies yet._';
+        let file = existing;
+        let outcome: keyof SyncResult = 'updated';
+
+        if (!file) {
+            const folder = this.getCourseFolder(course, profile);
+            await ensureFolder(app, folder);
+            const path = getAvailableNotePath(app, folder, topic.title, String(topic.id));
+            file = await app.vault.create(path, [
+                `# ${topic.title}`,
+                '',
+                wrapRegion('message', message),
+                '',
+                '## Replies',
+                '',
+                wrapRegion('replies', replies),
+                '',
+                ...(topic.locked_for_user ? [] : [REPLY_HEADING, ''])
+            ].join('\n'));
+            outcome = 'created';
+        } else {
+            const content = await app.vault.read(file);
+            const updated = upsertRegion(upsertRegion(content, 'message', message), 'replies', replies);
+            if (updated !== content) {
+                await app.vault.modify(file, updated);
+            } else {
+                outcome = 'unchanged';
+            }
+        }
+
+        const frontmatterChanged = await this.updateFrontmatter(file, course, topic, profile);
+        if (outcome === 'unchanged' && frontmatterChanged) {
+            outcome = 'updated';
+        }
+        return outcome;
+    }
+
+    /**
+     * Fetch one topic again and rewrite its note, e.g. after replying
+     * @param file Topic note
+     * @returns False if the note is not a synced topic
+     */
+    async refreshNote(file: TFile): Promise<boolean> {
+        const target = this.getNoteTopic(file);
+        if (!target) return false;
+        const api = this.plugin.getApi(target.profile.id);
+        const topic = await api.getDiscussionTopic(target.courseId, target.topicId, { fresh: true });
+        const course: Course = { id: target.courseId, name: target.courseName };
+        await this.syncTopic(course, topic, file, {
+            baseUrl: api.baseUrl,
+            resolveLink: createVaultLinkResolver(this.plugin.app, target.profile.id, file.path, this.plugin.moduleMirror)
+        }, target.profile, true);
+        return true;
+    }
+
+    /**
+     * Mark the topic of a note and all its replies as read in Canvas
+     * @param file Topic note
+     * @returns False if the note is not a synced topic
+     */
+    async markRead(file: TFile): Promise<boolean> {
+        const target = this.getNoteTopic(file);
+        if (!target) return false;
+        await this.plugin.getApi(target.profile.id).markDiscussionTopicRead(target.courseId, target.topicId);
+        return this.refreshNote(file);
+    }
+
+    /**
+     * Post the text under the reply heading of a topic note to Canvas,
+     * then clear it and refresh the thread
+     * @param file Topic note
+     * @returns False if there is nothing to post
+     */
+    async postReply(file: TFile): Promise<boolean> {
+        const target = this.getNoteTopic(file);
+        if (!target) return false;
+        const { app } = this.plugin;
+        const content = await app.vault.read(file);
+        const reply = extractReply(content);
+        if (!reply || !reply.text) return false;
+
+        await this.plugin.getApi(target.profile.id).postDiscussionEntry(target.courseId, target.topicId, textToHtml(reply.text));
+        await app.vault.modify(file, `${content.slice(0, reply.start)}\n\n${content.slice(reply.end)}`);
+        await this.refreshNote(file);
+        return true;
+    }
+
+    /**
+     * Canvas ids and profile of a topic note, read from its frontmatter
+     */
+    getNoteTopic(file: TFile): { courseId: CanvasId; courseName: string; topicId: CanvasId; profile: CanvasProfile } | null {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        const topicId = frontmatter?.[TOPIC_ID_KEY];
+        const courseId = frontmatter?.course_id;
+        if (topicId === undefined || topicId === null || courseId === undefined || courseId === null) return null;
+        const profileId = frontmatter?.[PROFILE_KEY];
+        const profile = this.plugin.settings.profiles.find(other => other.id === profileId) ?? this.plugin.activeProfile;
+        return { courseId, courseName: String(frontmatter?.course ?? ''), topicId, profile };
+    }
+
+    /**
+     * Folder holding a course's topic notes
+     */
+    getCourseFolder(course: Course, profile: CanvasProfile = this.plugin.activeProfile): string {
+        const root = getProfileFolder(this.plugin.settings.discussionNotesFolder || 'Canvas/Discussions', profile);
+        return normalizePath(`${root}/${sanitizeFileName(course.name)}`);
+    }
+
+    private hasChanged(file: TFile, topic: DiscussionTopic): boolean {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!frontmatter) return true;
+        return frontmatter.last_reply_at !== (topic.last_reply_at ?? null)
+            || frontmatter.unread_count !== (topic.unread_count ?? 0)
+            || frontmatter.read_state !== (topic.read_state ?? null)
+            || frontmatter.reply_count !== (topic.discussion_subentry_count ?? 0)
+            || frontmatter.title !== topic.title;
+    }
+
+    /**
+     * Write topic metadata and read state into the note's frontmatter
+     * @returns True if any field changed
+     */
+    private async updateFrontmatter(file: TFile, course: Course, topic: DiscussionTopic, profile: CanvasProfile): Promise<boolean> {
+        return updateFrontmatterFields(this.plugin.app, file, {
+            [TOPIC_ID_KEY]: topic.id,
+            [PROFILE_KEY]: profile.id,
+            course_id: course.id,
+            course: course.name,
+            title: topic.title,
+            topic_type: topic.is_announcement ? 'announcement' : 'discussion',
+            author: topic.author?.display_name ?? topic.user_name ?? null,
+            posted_at: topic.posted_at ?? null,
+            last_reply_at: topic.last_reply_at ?? null,
+            reply_count: topic.discussion_subentry_count ?? 0,
+            read_state: topic.read_state ?? null,
+            unread_count: topic.unread_count ?? 0,
+            canvas_url: topic.html_url ?? null
+        });
+    }
+
+    private renderMessage(topic: DiscussionTopic, conversion: HtmlConversionOptions): string {
+        const author = topic.author?.display_name ?? topic.user_name ?? 'Unknown author';
+        const byline = [author, formatNoteDate(topic.posted_at)].filter(Boolean).join(' · ');
+        const body = canvasHtmlToMarkdown(topic.message, conversion) || '_No message._';
+        if (topic.read_state === 'unread') {
+            return [`> [!tip] New · ${byline}`, ...body.split('\n').map(line => `> ${line}`)].join('\n');
+        }
+        return `_${byline}_\n\n${body}`;
+    }
+}
+
+/**
+ * Render a discussion thread as nested callouts, highlighting unread posts
+ * @param view Full topic view
+ * @param conversion Options for converting post HTML
+ * @returns Markdown
+ */
+export function renderEntries(view: DiscussionView, conversion: HtmlConversionOptions = {}): string {
+    const names = new Map(view.participants.map(participant => [String(participant.id), participant.display_name]));
+    const unread = new Set(view.unread_entries.map(String));
+
+    const render = (entry: DiscussionEntry, depth: number): string[] => {
+        const prefix = '> '.repeat(depth + 1);
+        const isNew = unread.has(String(entry.id));
+        const author = entry.user_id !== undefined ? names.get(String(entry.user_id)) ?? 'Unknown author' : 'Unknown author';
+        const byline = [author, formatNoteDate(entry.created_at)].filter(Boolean).join(' · ');
+        const body = entry.deleted
+            ? '_This reply was deleted._'
+            : canvasHtmlToMarkdown(entry.message, conversion) || '_Empty reply._';
+
+        const lines = [
+            `${prefix}[!${isNew ? 'tip' : 'quote'}] ${isNew ? 'New · ' : ''}${byline}`,
+            ...body.split('\n').map(line => `${prefix}${line}`.trimEnd())
+        ];
+        (entry.replies ?? []).forEach(reply => {
+            lines.push(prefix.trimEnd(), ...render(reply, depth + 1));
+        });
+        return lines;
+    };
+
+    if (view.view.length === 0) return '_No replies yet._';
+    return view.view.map(entry => render(entry, 0).join('\n')).join('\n\n');
+}
+
+/**
+ * Locate the user's reply text under the reply heading
+ * @param content Full note content
+ * @returns Reply text without comments and the range it occupies, or null
+ * if the note has no reply heading
+ */
+function extractReply(content: string): { text: string; start: number; end: number } | null {
+    const headingMatch = new RegExp(`^${REPLY_HEADING}[ \\t]*$`, 'm').exec(content);
+    if (!headingMatch) return null;
+    const start = headingMatch.index + headingMatch[0].length;
+    // The reply runs up to the next heading of the same or a higher level
+    const nextHeading = /^#{1,2} /m.exec(content.slice(start));
+    const end = nextHeading ? start + nextHeading.index : content.length;
+    const text = content.slice(start, end)
+        .replace(/%%[\s\S]*?%%/g, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .trim();
+    return { text, start, end };
+}
+
+/**
+ * Turn plain reply text into the HTML Canvas expects, one paragraph per block
+ */
+function textToHtml(text: string): string {
+    const escape = (value: string) => value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    return text.split(/\n\s*\n/)
+        .map(paragraph => `<p>${escape(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+        .join('');
+}
@@ -0,0 +1,159 @@
+/**
+ * Error body returned by Canvas for failed requests. Canvas is not
+ * consistent here: most endpoints return `errors` as a list of messages,
+ * some as a field → messages map, and a few only set `message`.
+ */
+export interface CanvasErrorBody {
+    errors?: Array<{ message: string }> | Record<string, Array<{ message: string }>>;
+    message?: string;
+    status?: string;
+}
+
+/**
+ * Thrown when Canvas answers a request with an HTTP error status
+ */
+export class CanvasApiError extends Error {
+    /** HTTP status code */
+    readonly status: number;
+    /** API path that was requested, without host or query string */
+    readonly endpoint: string;
+    /** Parsed Canvas error body, or null if the response was not JSON */
+    readonly body: CanvasErrorBody | null;
+
+    constructor(status: number, endpoint: string, body: CanvasErrorBody | null, rawText = '') {
+        super(`Canvas API request to ${endpoint} failed: ${status} - ${describeErrorBody(body) || rawText || 'No details'}`);
+        this.name = 'CanvasApiError';
+        this.status = status;
+        this.endpoint = endpoint;
+        this.body = body;
+        // Keep instanceof working when compiled down to ES5-style classes
+        Object.setPrototypeOf(this, CanvasApiError.prototype);
+    }
+}
+
+/**
+ * Thrown when Canvas rejects the access token of a profile, because it
+ * expired, was revoked or could not be refreshed. The user has to sign
+ * in again or enter a new token.
+ */
+export class CanvasAuthError extends CanvasApiError {
+    /** Profile whose token was rejected */
+    readonly profileId: string;
+
+    constructor(profileId: string, endpoint: string, body: CanvasErrorBody | null, rawText = '') {
+        super(401, endpoint, body, rawText);
+        this.name = 'CanvasAuthError';
+        this.profileId = profileId;
+        Object.setPrototypeOf(this, CanvasAuthError.prototype);
+    }
+}
+
+/**
+ * Thrown when the Canvas OAuth2 token endpoint refuses a grant, e.g. an
+ * authorization code that was already used or a revoked refresh token
+ */
+export class OAuthError extends Error {
+    /** OAuth2 error code, e.g. `invalid_grant` */
+    readonly code: string;
+
+    constructor(code: string, description?: string) {
+        super(`Canvas sign-in failed: ${description || code}`);
+        this.name = 'OAuthError';
+        this.code = code;
+        Object.setPrototypeOf(this, OAuthError.prototype);
+    }
+}
+
+/**
+ * Thrown in offline mode when a request has no cached response to serve
+ */
+export class CanvasOfflineError extends Error {
+    /** API path that was requested, without host or query string */
+    readonly endpoint: string;
+
+    constructor(endpoint: string) {
+        super(`Offline mode: no cached data for ${endpoint}. Sync while online first.`);
+        this.name = 'CanvasOfflineError';
+        this.endpoint = endpoint;
+        Object.setPrototypeOf(this, CanvasOfflineError.prototype);
+    }
+}
+
+/**
+ * Thrown when a request is cancelled through its AbortSignal
+ */
+export class RequestAbortedError extends Error {
+    constructor() {
+        super('Canvas request was aborted');
+        this.name = 'RequestAbortedError';
+        Object.setPrototypeOf(this, RequestAbortedError.prototype);
+    }
+}
+
+/**
+ * Thrown instead of sending the access token to a host other than the
+ * profile's Canvas host, e.g. a pagination link pointing elsewhere or a
+ * proxy the user did not approve
+ */
+export class UntrustedHostError extends Error {
+    /** Host the token would have gone to */
+    readonly host: string;
+
+    constructor(host: string, message = `Refusing to send the Canvas token to ${host}, which is not the Canvas host`) {
+        super(message);
+        this.name = 'UntrustedHostError';
+        this.host = host;
+        Object.setPrototypeOf(this, UntrustedHostError.prototype);
+    }
+}
+
+/**
+ * Thrown when a Canvas response does not have the shape the plugin expects
+ */
+export class CanvasValidationError extends Error {
+    /** Location of the offending value, e.g. `/courses[3].name` */
+    readonly path: string;
+
+    constructor(path: string, expected: string, actual: unknown) {
+        super(`Unexpected Canvas response at ${path}: expected ${expected}, got ${describeValue(actual)}`);
+        this.name = 'CanvasValidationError';
+        this.path = path;
+        Object.setPrototypeOf(this, CanvasValidationError.prototype);
+    }
+}
+
+/**
+ * Flatten a Canvas error body into a single readable message
+ * @param body Parsed error body
+ * @returns Joined error messages, or an empty string if there are none
+ */
+function describeErrorBody(body: CanvasErrorBody | null): string {
+    if (!body) return '';
+
+    const messages: string[] = [];
+    if (Array.isArray(body.errors)) {
+        body.errors.forEach(error => messages.push(error.message));
+    } else if (body.errors && typeof body.errors === 'object') {
+        Object.entries(body.errors).forEach(([field, errors]) => {
+            (Array.isArray(errors) ? errors : []).forEach(error => messages.push(`${field}: ${error.message}`));
+        });
+    }
+    if (body.message) {
+        messages.push(body.message);
+    }
+
+    return messages.filter(Boolean).join('; ');
+}
+
+/**
+ * Short description of a value for error messages
+ * @param value Any value
+ * @returns Type name, plus the value itself for primitives
+ */
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'object') return 'object';
+    if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+    return `${typeof value} ${String(value)}`;
+}
@@ -0,0 +1,285 @@
+import { AssignmentGroup } from './canvasTypes';
+
+/**
+ * Grade calculation following Canvas's own rules.
+ *
+ * Canvas reports two grades: the current grade counts graded work only,
+ * the final grade counts ungraded work as zero. Excused assignments and
+ * assignments omitted from the final grade count toward neither. Each
+ * assignment group drops its lowest and highest scores according to its
+ * rules, choosing the assignments whose removal gives the best (or, for
+ * drop-highest, the worst) group percentage, as Canvas does. With group
+ * weighting on, group percentages are combined by weight and rescaled
+ * when the weights of the groups that count add up to less than 100.
+ *
+ * Everything here is free of Obsidian and network access so it can be
+ * reused by views, commands and tests.
+ */
+
+export interface GradedAssignment {
+    id: string;
+    name: string;
+    pointsPossible: number;
+    /** Score received, or null while not graded */
+    score: number | null;
+    excused: boolean;
+    missing: boolean;
+    dueAt: string | null;
+}
+
+export interface GradeGroup {
+    id: string;
+    name: string;
+    /** Percentage of the final grade; only used when the course weights groups */
+    weight: number;
+    dropLowest: number;
+    dropHighest: number;
+    /** Assignments that are never dropped */
+    neverDrop: string[];
+    assignments: GradedAssignment[];
+}
+
+export interface GradeModel {
+    weighted: boolean;
+    groups: GradeGroup[];
+}
+
+/** Hypothetical scores by assignment id, replacing the received score */
+export type WhatIfScores = Record<string, number>;
+
+export interface GroupGrade {
+    id: string;
+    name: string;
+    weight: number;
+    score: number;
+    possible: number;
+    /** Null when nothing in the group counts yet */
+    percent: number | null;
+    /** Ids of the assignments removed by the drop rules */
+    dropped: string[];
+}
+
+export interface GradeBreakdown {
+    /** Null when nothing counts yet */
+    percent: number | null;
+    /** Points over all counted groups, as shown for unweighted courses */
+    score: number;
+    possible: number;
+    groups: GroupGrade[];
+}
+
+export interface GradeResult {
+    /** Graded work only */
+    current: GradeBreakdown;
+    /** Ungraded work counted as zero */
+    final: GradeBreakdown;
+}
+
+interface ScoredItem {
+    id: string;
+    score: number;
+    possible: number;
+}
+
+// Dinkelbach iterations converge in a handful of steps; this only guards against float noise
+const MAX_DROP_ITERATIONS = 100;
+
+/**
+ * Build a grade model from assignment groups fetched with their
+ * assignments and the user's submissions
+ * @param groups Assignment groups, including `assignments[].submission`
+ * @param weighted Whether the course weights assignment groups
+ * @returns Grade model
+ */
+export function buildGradeModel(groups: AssignmentGroup[], weighted: boolean): GradeModel {
+    return {
+        weighted,
+        groups: groups.map(group => ({
+            id: String(group.id),
+            name: group.name,
+            weight: group.group_weight ?? 0,
+            dropLowest: group.rules?.drop_lowest ?? 0,
+            dropHighest: group.rules?.drop_highest ?? 0,
+            neverDrop: (group.rules?.never_drop ?? []).map(String),
+            assignments: (group.assignments ?? [])
+                .filter(assignment => !assignment.omit_from_final_grade
+                    && assignment.grading_type !== 'not_graded'
+                    && assignment.published !== false)
+                .map(assignment => {
+                    const submission = assignment.submission;
+                    // Scores of submissions awaiting review are not part of the grade yet
+                    const score = submission && submission.workflow_state !== 'pending_review'
+                        ? submission.score ?? null
+                        : null;
+                    return {
+                        id: String(assignment.id),
+                        name: assignment.name,
+                        pointsPossible: assignment.points_possible ?? 0,
+                        score,
+                        excused: submission?.excused === true,
+                        missing: submission?.missing === true,
+                        dueAt: assignment.due_at
+                    };
+                })
+        }))
+    };
+}
+
+/**
+ * Calculate the current and final grade
+ * @param model Grade model
+ * @param whatIf Hypothetical scores to use instead of the received ones
+ * @returns Current and final grade with a per-group breakdown
+ */
+export function calculateGrade(model: GradeModel, whatIf: WhatIfScores = {}): GradeResult {
+    return {
+        current: calculateBreakdown(model, whatIf, false),
+        final: calculateBreakdown(model, whatIf, true)
+    };
+}
+
+/**
+ * Find the lowest score on one assignment that lifts the current grade,
+ * with all other what-if scores applied, to a target percentage
+ * @param model Grade model
+ * @param assignmentId Assignment to solve for, e.g. the final exam
+ * @param targetPercent Grade to reach, e.g. 90
+ * @param whatIf Other hypothetical scores
+ * @returns Score needed, rounded up to two decimals; 0 if the target is
+ * reached anyway, or null if even triple the points possible falls short
+ */
+export function scoreNeeded(
+    model: GradeModel,
+    assignmentId: string,
+    targetPercent: number,
+    whatIf: WhatIfScores = {}
+): number | null {
+    const assignment = model.groups
+        .flatMap(group => group.assignments)
+        .find(candidate => candidate.id === assignmentId);
+    if (!assignment || assignment.excused) return null;
+
+    const gradeWith = (score: number) =>
+        calculateBreakdown(model, { ...whatIf, [assignmentId]: score }, false).percent ?? 0;
+    const reaches = (score: number) => gradeWith(score) >= targetPercent - 1e-9;
+
+    // Allow extra credit above the points possible, within reason
+    const upper = Math.max(assignment.pointsPossible, 1) * 3;
+    if (reaches(0)) return 0;
+    if (!reaches(upper)) return null;
+
+    // The grade never falls as the score rises, even with drop rules
+    let low = 0;
+    let high = upper;
+    while (high - low > 0.001) {
+        const middle = (low + high) / 2;
+        if (reaches(middle)) {
+            high = middle;
+        } else {
+            low = middle;
+        }
+    }
+    return Math.ceil(high * 100) / 100;
+}
+
+function calculateBreakdown(model: GradeModel, whatIf: WhatIfScores, countUngraded: boolean): GradeBreakdown {
+    const groups = model.groups.map(group => calculateGroup(group, whatIf, countUngraded));
+    const counted = groups.filter(group => group.possible > 0);
+    const score = counted.reduce((sum, group) => sum + group.score, 0);
+    const possible = counted.reduce((sum, group) => sum + group.possible, 0);
+
+    let percent: number | null;
+    if (model.weighted) {
+        const fullWeight = counted.reduce((sum, group) => sum + group.weight, 0);
+        const weighted = counted.reduce((sum, group) => sum + (group.score / group.possible) * group.weight, 0);
+        // Canvas scales up when the groups that count carry less than 100%, but never down
+        percent = fullWeight > 0 ? weighted * (fullWeight < 100 ? 100 / fullWeight : 1) : null;
+    } else {
+        percent = possible > 0 ? (score / possible) * 100 : null;
+    }
+
+    return { percent, score, possible, groups };
+}
+
+function calculateGroup(group: GradeGroup, whatIf: WhatIfScores, countUngraded: boolean): GroupGrade {
+    const items: ScoredItem[] = [];
+    group.assignments.forEach(assignment => {
+        if (assignment.excused) return;
+        const score = whatIf[assignment.id] ?? assignment.score;
+        if (score === null && !countUngraded) return;
+        items.push({ id: assignment.id, score: score ?? 0, possible: assignment.pointsPossible });
+    });
+
+    const kept = dropAssignments(items, group);
+    const keptIds = new Set(kept.map(item => item.id));
+    const score = kept.reduce((sum, item) => sum + item.score, 0);
+    const possible = kept.reduce((sum, item) => sum + item.possible, 0);
+
+    return {
+        id: group.id,
+        name: group.name,
+        weight: group.weight,
+        score,
+        possible,
+        percent: possible > 0 ? (score / possible) * 100 : null,
+        dropped: items.filter(item => !keptIds.has(item.id)).map(item => item.id)
+    };
+}
+
+/**
+ * Apply a group's drop rules: lowest first, then highest, always keeping
+ * at least one assignment
+ */
+function dropAssignments(items: ScoredItem[], group: GradeGroup): ScoredItem[] {
+    const fixed = items.filter(item => group.neverDrop.includes(item.id));
+    let candidates = items.filter(item => !group.neverDrop.includes(item.id));
+    const minimum = fixed.length > 0 ? 0 : 1;
+
+    const dropLowest = Math.min(group.dropLowest, Math.max(candidates.length - minimum, 0));
+    if (dropLowest > 0) {
+        candidates = keepSubset(candidates, candidates.length - dropLowest, fixed, true);
+    }
+    const dropHighest = Math.min(group.dropHighest, Math.max(candidates.length - minimum, 0));
+    if (dropHighest > 0) {
+        candidates = keepSubset(candidates, candidates.length - dropHighest, fixed, false);
+    }
+    return [...fixed, ...candidates];
+}
+
+/**
+ * Choose `keep` candidates that, together with the fixed items, give the
+ * highest (or lowest) overall ratio of score to points possible. Picking
+ * the best items one by one is not enough when points differ, so this
+ * uses Dinkelbach's method for fractional subset selection.
+ */
+function keepSubset(candidates: ScoredItem[], keep: number, fixed: ScoredItem[], highest: boolean): ScoredItem[] {
+    const direction = highest ? 1 : -1;
+    const pick = (value: (item: ScoredItem) => number) => [...candidates]
+        .sort((a, b) => direction * (value(b) - value(a)) || 0)
+        .slice(0, keep);
+
+    // Groups of extra credit only have no ratio to optimize
+    if (candidates.every(item => item.possible === 0) && fixed.every(item => item.possible === 0)) {
+        return pick(item => item.score);
+    }
+
+    let chosen = pick(item => subsetRatio([item], []));
+    let ratio = subsetRatio(chosen, fixed);
+    for (let i = 0; i < MAX_DROP_ITERATIONS && Number.isFinite(ratio); i++) {
+        const q = ratio;
+        const next = pick(item => item.score - q * item.possible);
+        const nextRatio = subsetRatio(next, fixed);
+        if (direction * (nextRatio - ratio) <= 1e-12) break;
+        chosen = next;
+        ratio = nextRatio;
+    }
+    return chosen;
+}
+
+function subsetRatio(items: ScoredItem[], fixed: ScoredItem[]): number {
+    const all = [...items, ...fixed];
+    const score = all.reduce((sum, item) => sum + item.score, 0);
+    const possible = all.reduce((sum, item) => sum + item.possible, 0);
+    if (possible > 0) return score / possible;
+    return score > 0 ? Infinity : 0;
+}
@@ -0,0 +1,215 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting } from 'obsidian';
+import MyPlugin from './main';
+import { Course } from './canvasTypes';
+import {
+    GradeModel, GradeResult, GradedAssignment, WhatIfScores, buildGradeModel, calculateGrade, scoreNeeded
+} from './gradeCalculator';
+
+/**
+ * Grade breakdown of one course with what-if scores. Typing a score next
+ * to an assignment replaces the received one and updates the grades; the
+ * solver at the bottom finds the score one assignment needs for a target.
+ */
+export class GradeCalculatorModal extends Modal {
+    plugin: MyPlugin;
+    private course: Course;
+    private model: GradeModel | null = null;
+    private whatIf: WhatIfScores = {};
+    private summaryEl: HTMLElement;
+    private groupEls = new Map<string, HTMLElement>();
+    private assignmentSettings = new Map<string, Setting>();
+    private solverAssignmentId = '';
+    private solverTarget = 90;
+    private solverResultEl: HTMLElement;
+
+    constructor(app: App, plugin: MyPlugin, course: Course) {
+        super(app);
+        this.plugin = plugin;
+        this.course = course;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('canvas-grade-calculator');
+        contentEl.createEl('h3', { text: `${this.course.name} grades` });
+        const loadingEl = contentEl.createEl('p', { text: 'Loading assignments...' });
+
+        try {
+            const groups = await this.plugin.canvasApi.getAssignmentGroups(this.course.id);
+            this.model = buildGradeModel(groups, this.course.apply_assignment_group_weights === true);
+        } catch (error) {
+            console.error('Error loading Canvas assignment groups:', error);
+            loadingEl.setText(`Failed to load grades: ${error.message || 'Unknown error'}`);
+            return;
+        }
+        loadingEl.remove();
+        this.render(this.model);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render(model: GradeModel) {
+        const { contentEl } = this;
+        this.summaryEl = contentEl.createDiv({ cls: 'canvas-grade-summary' });
+        contentEl.createEl('p', {
+            text: 'Enter a score next to any assignment to see how it would change your grade.',
+            cls: 'setting-item-description'
+        });
+
+        model.groups.forEach(group => {
+            this.groupEls.set(group.id, contentEl.createEl('h4'));
+            group.assignments.forEach(assignment => {
+                const setting = new Setting(contentEl)
+                    .setName(assignment.name)
+                    .addText(text => text
+                        .setPlaceholder(assignment.score !== null ? String(assignment.score) : 'What-if')
+                        .onChange(value => {
+                            const score = Number(value);
+                            if (value.trim() === '' || Number.isNaN(score)) {
+                                delete this.whatIf[assignment.id];
+                            } else {
+                                this.whatIf[assignment.id] = score;
+                            }
+                            this.update();
+                        }));
+                this.assignmentSettings.set(assignment.id, setting);
+            });
+        });
+
+        contentEl.createEl('h4', { text: 'What do I need?' });
+        const assignments = model.groups.flatMap(group => group.assignments).filter(assignment => !assignment.excused);
+        // Default to the first ungraded assignment, usually the one being asked about
+        this.solverAssignmentId = (assignments.find(assignment => assignment.score === null) ?? assignments[0])?.id ?? '';
+        new Setting(contentEl)
+            .setName('Assignment')
+            .addDropdown(dropdown => {
+                assignments.forEach(assignment => dropdown.addOption(assignment.id, assignment.name));
+                dropdown
+                    .setValue(this.solverAssignmentId)
+                    .onChange(value => {
+                        this.solverAssignmentId = value;
+                        this.update();
+                    });
+            });
+        new Setting(contentEl)
+            .setName('Target grade (%)')
+            .addText(text => text
+                .setValue(String(this.solverTarget))
+                .onChange(value => {
+                    const target = Number(value);
+                    if (!Number.isNaN(target)) {
+                        this.solverTarget = target;
+                        this.update();
+                    }
+                }));
+        this.solverResultEl = contentEl.createEl('p');
+
+        this.update();
+    }
+
+    // Refresh every computed text without rebuilding the inputs being typed in
+    private update() {
+        const model = this.model;
+        if (!model) return;
+        const actual = calculateGrade(model);
+        const projected = calculateGrade(model, this.whatIf);
+
+        this.summaryEl.empty();
+        this.summaryEl.createEl('p', { text: `Current grade: ${formatPercent(actual.current.percent)}` });
+        if (Object.keys(this.whatIf).length > 0) {
+            this.summaryEl.createEl('p', { text: `With what-if scores: ${formatPercent(projected.current.percent)}` });
+        }
+        this.summaryEl.createEl('p', {
+            text: `If all remaining work scores zero: ${formatPercent(projected.final.percent)}`
+        });
+
+        projected.current.groups.forEach(group => {
+            const weight = model.weighted ? ` (${group.weight}% of grade)` : '';
+            this.groupEls.get(group.id)?.setText(`${group.name}${weight}: ${formatPercent(group.percent)}`);
+        });
+
+        model.groups.forEach(group => group.assignments.forEach(assignment => {
+            this.assignmentSettings.get(assignment.id)?.setDesc(describeAssignment(assignment, projected));
+        }));
+
+        const target = model.groups.flatMap(group => group.assignments).find(assignment => assignment.id === this.solverAssignmentId);
+        if (!target) {
+            this.solverResultEl.setText('No assignment to solve for.');
+            return;
+        }
+        const others = { ...this.whatIf };
+        delete others[target.id];
+        const needed = scoreNeeded(model, target.id, this.solverTarget, others);
+        if (needed === null) {
+            this.solverResultEl.setText(`${this.solverTarget}% is out of reach with ${target.name} alone.`);
+        } else if (needed === 0) {
+            this.solverResultEl.setText(`You reach ${this.solverTarget}% whatever you score on ${target.name}.`);
+        } else {
+            const extraCredit = needed > target.pointsPossible ? ', more than the points possible' : '';
+            this.solverResultEl.setText(
+                `You need ${needed} / ${target.pointsPossible} on ${target.name}${extraCredit} to reach ${this.solverTarget}%.`
+            );
+        }
+    }
+}
+
+export class CourseSuggestModal extends FuzzySuggestModal<Course> {
+    private courses: Course[];
+    private onChoose: (course: Course) => void;
+
+    constructor(app: App, courses: Course[], onChoose: (course: Course) => void) {
+        super(app);
+        this.courses = courses;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a Canvas course');
+    }
+
+    getItems(): Course[] {
+        return this.courses;
+    }
+
+    getItemText(course: Course): string {
+        return course.name;
+    }
+
+    onChooseItem(course: Course): void {
+        this.onChoose(course);
+    }
+}
+
+/**
+ * Open the grade calculator for a course of the active profile, asking which one
+ * @param plugin Plugin instance
+ */
+export async function openGradeCalculator(plugin: MyPlugin): Promise<void> {
+    try {
+        const courses = await plugin.canvasApi.getCourses('student', 'active');
+        if (courses.length === 0) {
+            new Notice('No active Canvas courses found');
+            return;
+        }
+        new CourseSuggestModal(plugin.app, courses, course => {
+            new GradeCalculatorModal(plugin.app, plugin, course).open();
+        }).open();
+    } catch (error) {
+        console.error('Error fetching Canvas courses:', error);
+        new Notice(`Failed to fetch courses: ${error.message || 'Unknown error'}`);
+    }
+}
+
+function formatPercent(percent: number | null): string {
+    return percent === null ? 'no grade yet' : `${percent.toFixed(2)}%`;
+}
+
+function describeAssignment(assignment: GradedAssignment, result: GradeResult): string {
+    const dropped = result.current.groups.some(group => group.dropped.includes(assignment.id));
+    const parts = [
+        assignment.score !== null ? `${assignment.score} / ${assignment.pointsPossible}` : `– / ${assignment.pointsPossible}`
+    ];
+    if (assignment.excused) parts.push('excused');
+    else if (assignment.missing) parts.push('missing');
+    if (dropped) parts.push('dropped');
+    return parts.join(' · ');
+}
@@ -0,0 +1,485 @@
+/**
+ * Canvas HTML to Obsidian Markdown conversion.
+ *
+ * Assignment descriptions, pages, announcements and discussion posts all
+ * come from the Canvas rich content editor. This converter understands
+ * the markup that editor produces: equation images, LaTeX delimiters,
+ * `instructure_file_link` anchors and links between course objects,
+ * which can be rewritten to wikilinks once the target has been synced.
+ *
+ * The module has no Obsidian dependency; it only needs a DOMParser.
+ */
+
+export type CanvasLinkType =
+    | 'course' | 'assignment' | 'page' | 'file' | 'discussion'
+    | 'announcement' | 'quiz' | 'module' | 'module_item';
+
+/** A Canvas object referenced by a link in rich content */
+export interface CanvasLinkTarget {
+    type: CanvasLinkType;
+    /** Empty for user files outside a course */
+    courseId: string;
+    /** Object id, or the page slug for pages; the course id for course links */
+    id: string;
+}
+
+export interface HtmlConversionOptions {
+    /** Canvas instance URL, used to resolve relative links and spot internal ones */
+    baseUrl?: string;
+    /**
+     * Map an internal Canvas link to the link text of a synced vault note
+     * or attachment. Return null to keep the regular Canvas URL.
+     */
+    resolveLink?: (target: CanvasLinkTarget) => string | null;
+}
+
+interface ConversionContext {
+    options: HtmlConversionOptions;
+    inTable: boolean;
+}
+
+const PATH_TYPES: Record<string, CanvasLinkType> = {
+    assignments: 'assignment',
+    pages: 'page',
+    wiki: 'page',
+    files: 'file',
+    discussion_topics: 'discussion',
+    announcements: 'announcement',
+    quizzes: 'quiz',
+    modules: 'module'
+};
+
+/**
+ * Convert Canvas rich content HTML to Markdown
+ * @param html HTML fragment as returned by the Canvas API
+ * @param options Base URL and internal link resolver
+ * @returns Markdown without leading or trailing blank lines
+ */
+export function canvasHtmlToMarkdown(html: string | null | undefined, options: HtmlConversionOptions = {}): string {
+    if (!html || !html.trim()) return '';
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const markdown = convertChildren(doc.body, { options, inTable: false });
+
+    return markdown
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/** Marks paragraph breaks in plain text, which survive collapsing line breaks */
+const TEXT_PARAGRAPH_BREAK = '\u0000';
+/** Elements set apart by a blank line in plain text */
+const TEXT_PARAGRAPH_TAGS = new Set([
+    'p', 'section', 'article', 'header', 'footer', 'figure', 'blockquote', 'pre',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'table', 'dl', 'hr'
+]);
+/** Elements that start a new line in plain text */
+const TEXT_LINE_TAGS = new Set(['div', 'li', 'tr', 'dt', 'dd', 'figcaption', 'caption']);
+
+/**
+ * Convert Canvas rich content HTML to plain text, for places that show
+ * text as it is, such as calendar descriptions. Nothing is escaped; links
+ * keep their URL in parentheses.
+ * @param html HTML fragment as returned by the Canvas API
+ * @param baseUrl Canvas instance URL, to make relative links absolute
+ * @returns Text without leading or trailing blank lines
+ */
+export function canvasHtmlToText(html: string | null | undefined, baseUrl?: string): string {
+    if (!html || !html.trim()) return '';
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return convertToText(doc.body, baseUrl)
+        .split(TEXT_PARAGRAPH_BREAK)
+        .map(paragraph => paragraph.replace(/[ \t]*\n[ \t]*/g, '\n').replace(/\n+/g, '\n').trim())
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+/**
+ * Recognize links to Canvas objects
+ * @param href Link target, absolute or relative to the Canvas instance
+ * @param baseUrl Canvas instance URL; absolute links to other hosts are ignored
+ * @returns The linked object, or null for external and unrecognized links
+ */
+export function parseCanvasUrl(href: string, baseUrl?: string): CanvasLinkTarget | null {
+    let url: URL;
+    try {
+        url = new URL(href, baseUrl || 'https://canvas.invalid');
+    } catch (error) {
+        return null;
+    }
+
+    if (baseUrl) {
+        try {
+            if (url.host !== new URL(baseUrl).host) return null;
+        } catch (error) {
+            return null;
+        }
+    } else if (url.host !== 'canvas.invalid') {
+        return null;
+    }
+
+    const path = url.pathname.replace(/^\/api\/v1/, '');
+
+    const moduleItem = path.match(/^\/courses\/(\d+)\/modules\/items\/(\d+)/);
+    if (moduleItem) {
+        return { type: 'module_item', courseId: moduleItem[1], id: moduleItem[2] };
+    }
+
+    const courseObject = path.match(/^\/courses\/(\d+)\/([a-z_]+)\/([^/?#]+)/);
+    if (courseObject && PATH_TYPES[courseObject[2]]) {
+        return { type: PATH_TYPES[courseObject[2]], courseId: courseObject[1], id: decodeURIComponent(courseObject[3]) };
+    }
+
+    const userFile = path.match(/^\/(?:users\/\d+\/)?files\/(\d+)/);
+    if (userFile) {
+        return { type: 'file', courseId: '', id: userFile[1] };
+    }
+
+    const course = path.match(/^\/courses\/(\d+)\/?$/);
+    if (course) {
+        return { type: 'course', courseId: course[1], id: course[1] };
+    }
+
+    return null;
+}
+
+function convertToText(node: Node, baseUrl?: string): string {
+    let result = '';
+    node.childNodes.forEach(child => {
+        if (child.nodeType === Node.TEXT_NODE) {
+            result += (child.textContent ?? '').replace(/\s+/g, ' ');
+            return;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+        const el = child as HTMLElement;
+        const tag = el.tagName.toLowerCase();
+        if (tag === 'script' || tag === 'style' || tag === 'noscript' || tag === 'template') return;
+        if (tag === 'br') {
+            result += '\n';
+            return;
+        }
+        if (tag === 'img') {
+            result += getEquationLatex(el) ?? el.getAttribute('alt') ?? '';
+            return;
+        }
+
+        let text = convertToText(el, baseUrl);
+        const href = tag === 'a' ? el.getAttribute('href') : null;
+        if (href && !href.startsWith('#') && !href.startsWith('javascript:')) {
+            const url = absoluteUrl(href, baseUrl);
+            text = text.trim() && text.trim() !== url ? `${text} (${url})` : url;
+        }
+        if (tag === 'li') {
+            text = `- ${text.trim()}`;
+        } else if (tag === 'td' || tag === 'th') {
+            text = `${text.trim()}\t`;
+        }
+        if (TEXT_PARAGRAPH_TAGS.has(tag)) {
+            result += `${TEXT_PARAGRAPH_BREAK}${text}${TEXT_PARAGRAPH_BREAK}`;
+        } else if (TEXT_LINE_TAGS.has(tag)) {
+            result += `\n${text}\n`;
+        } else {
+            result += text;
+        }
+    });
+    return result;
+}
+
+function convertChildren(node: Node, ctx: ConversionContext): string {
+    let result = '';
+    node.childNodes.forEach(child => {
+        result += convertNode(child, ctx);
+    });
+    return result;
+}
+
+function convertNode(node: Node, ctx: ConversionContext): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return convertText(node.textContent ?? '');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+        return '';
+    }
+
+    const el = node as HTMLElement;
+    const tag = el.tagName.toLowerCase();
+
+    switch (tag) {
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+            const text = convertChildren(el, ctx).replace(/\s+/g, ' ').trim();
+            return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`, ctx) : '';
+        }
+        case 'p': case 'div': case 'section': case 'article': case 'header': case 'footer':
+        case 'figure': case 'figcaption': case 'dl': case 'dd': case 'dt':
+            return block(convertChildren(el, ctx).trim(), ctx);
+        case 'br':
+            return ctx.inTable ? '<br>' : '\n';
+        case 'hr':
+            return block('---', ctx);
+        case 'strong': case 'b':
+            return wrapInline(convertChildren(el, ctx), '**');
+        case 'em': case 'i':
+            return wrapInline(convertChildren(el, ctx), '*');
+        case 's': case 'del': case 'strike':
+            return wrapInline(convertChildren(el, ctx), '~~');
+        case 'mark':
+            return wrapInline(convertChildren(el, ctx), '==');
+        case 'sup':
+            return `<sup>${convertChildren(el, ctx).trim()}</sup>`;
+        case 'sub':
+            return `<sub>${convertChildren(el, ctx).trim()}</sub>`;
+        case 'code':
+            return inlineCode(el.textContent ?? '');
+        case 'pre':
+            return convertPre(el, ctx);
+        case 'a':
+            return convertLink(el, ctx);
+        case 'img':
+            return convertImage(el, ctx);
+        case 'ul':
+            return convertList(el, ctx, false);
+        case 'ol':
+            return convertList(el, ctx, true);
+        case 'table':
+            return convertTable(el as HTMLTableElement, ctx);
+        case 'blockquote': {
+            const inner = convertChildren(el, ctx).trim().replace(/\n{3,}/g, '\n\n');
+            return block(inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'), ctx);
+        }
+        case 'iframe': {
+            const src = el.getAttribute('src');
+            if (!src) return '';
+            const title = el.getAttribute('title') || 'Embedded content';
+            return block(`[${escapeText(title)}](${formatUrl(absoluteUrl(src, ctx.options.baseUrl))})`, ctx);
+        }
+        case 'script':
+            // MathJax-style `<script type="math/tex">` blocks
+            if ((el.getAttribute('type') ?? '').startsWith('math/tex')) {
+                const latex = (el.textContent ?? '').trim();
+                return el.getAttribute('type')?.includes('mode=display') ? block(`$$\n${latex}\n$$`, ctx) : `$${latex}$`;
+            }
+            return '';
+        case 'style': case 'noscript': case 'template': case 'head':
+            return '';
+        default:
+            return convertChildren(el, ctx);
+    }
+}
+
+/**
+ * Convert a text node: collapse whitespace, turn LaTeX delimiters into
+ * Obsidian math and escape everything else
+ */
+function convertText(raw: string): string {
+    const text = raw.replace(/\s+/g, ' ');
+    const mathPattern = /\\\((.+?)\\\)|\\\[(.+?)\\\]|\$\$(.+?)\$\$/g;
+
+    let result = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = mathPattern.exec(text)) !== null) {
+        result += escapeText(text.slice(lastIndex, match.index));
+        if (match[1] !== undefined) {
+            result += `$${match[1].trim()}$`;
+        } else {
+            result += `$$${(match[2] ?? match[3]).trim()}$$`;
+        }
+        lastIndex = match.index + match[0].length;
+    }
+    return result + escapeText(text.slice(lastIndex));
+}
+
+/**
+ * Escape characters Markdown or Obsidian would otherwise interpret
+ */
+function escapeText(text: string): string {
+    return text
+        // `<` would let escaped markup like `&lt;em&gt;` render as HTML
+        .replace(/([\\`*_[\]$~=<])/g, '\\$1')
+        // `#word` would become a tag
+        .replace(/(^|\s)#(?=\S)/g, '$1\\#');
+}
+
+function block(content: string, ctx: ConversionContext): string {
+    if (!content) return '';
+    // Tables cannot hold block content, so keep cells on one line
+    return ctx.inTable ? ` ${content} ` : `\n\n${content}\n\n`;
+}
+
+/**
+ * Wrap inline content in emphasis markers, keeping surrounding
+ * whitespace outside the markers so they still parse
+ */
+function wrapInline(content: string, marker: string): string {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) return content;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function inlineCode(text: string): string {
+    const code = text.replace(/\s+/g, ' ');
+    if (!code.trim()) return '';
+    const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+    return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function convertPre(el: HTMLElement, ctx: ConversionContext): string {
+    const code = (el.textContent ?? '').replace(/\n$/, '');
+    const classes = `${el.className} ${el.querySelector('code')?.className ?? ''}`;
+    const language = classes.match(/(?:language|lang)-([\w+#-]+)/)?.[1] ?? '';
+    const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return block(`${fence}${language}\n${code}\n${fence}`, ctx);
+}
+
+function convertLink(el: HTMLElement, ctx: ConversionContext): string {
+    const href = el.getAttribute('href');
+    const text = convertChildren(el, ctx).replace(/\s+/g, ' ').trim()
+        || escapeText(el.getAttribute('title') ?? '')
+        || escapeText(href ?? '');
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) {
+        return text;
+    }
+
+    const target = parseCanvasUrl(href, ctx.options.baseUrl);
+    const resolved = target && ctx.options.resolveLink ? ctx.options.resolveLink(target) : null;
+    if (resolved) {
+        return wikilink(resolved, text, ctx);
+    }
+
+    return `[${text}](${formatUrl(absoluteUrl(href, ctx.options.baseUrl))})`;
+}
+
+function convertImage(el: HTMLElement, ctx: ConversionContext): string {
+    const src = el.getAttribute('src') ?? '';
+    const alt = el.getAttribute('alt') ?? '';
+
+    const latex = getEquationLatex(el);
+    if (latex !== null) {
+        // An equation alone in its paragraph is a display equation
+        const parent = el.parentElement;
+        const standalone = parent && parent.tagName.toLowerCase() === 'p'
+            && parent.childElementCount === 1 && !(parent.textContent ?? '').trim();
+        return standalone && !ctx.inTable ? block(`$$\n${latex}\n$$`, ctx) : `$${latex}$`;
+    }
+
+    if (!src) return '';
+
+    const target = parseCanvasUrl(src, ctx.options.baseUrl);
+    const resolved = target && ctx.options.resolveLink ? ctx.options.resolveLink(target) : null;
+    if (resolved) {
+        return `!${wikilink(resolved, '', ctx)}`;
+    }
+
+    return `![${escapeText(alt)}](${formatUrl(absoluteUrl(src, ctx.options.baseUrl))})`;
+}
+
+/**
+ * LaTeX source of a Canvas equation image
+ * @returns LaTeX, or null if the image is not an equation
+ */
+function getEquationLatex(el: HTMLElement): string | null {
+    const content = el.getAttribute('data-equation-content');
+    if (content) return content.trim();
+
+    if (!el.classList.contains('equation_image')) return null;
+
+    // Older content only carries the LaTeX in the (double-encoded) image URL
+    const encoded = (el.getAttribute('src') ?? '').match(/equation_images\/([^?#]+)/)?.[1];
+    if (encoded) {
+        try {
+            return decodeURIComponent(decodeURIComponent(encoded)).trim();
+        } catch (error) {
+            // fall through to the alt text
+        }
+    }
+    const alt = el.getAttribute('alt') ?? '';
+    return alt.replace(/^LaTeX:\s*/, '').trim() || null;
+}
+
+function convertList(el: HTMLElement, ctx: ConversionContext, ordered: boolean): string {
+    let index = Number(el.getAttribute('start')) || 1;
+    const items: string[] = [];
+
+    Array.from(el.children).forEach(child => {
+        const tag = child.tagName.toLowerCase();
+        if (tag === 'ul' || tag === 'ol') {
+            // Invalid but common: a nested list directly inside a list
+            const nested = convertNode(child, ctx).trim();
+            if (nested && items.length > 0) {
+                items[items.length - 1] += '\n' + indent(nested);
+            }
+            return;
+        }
+        if (tag !== 'li') return;
+
+        const marker = ordered ? `${index++}.` : '-';
+        const body = convertChildren(child, ctx).trim().replace(/\n{2,}/g, '\n');
+        const [first, ...rest] = body.split('\n');
+        items.push([`${marker} ${first ?? ''}`.trimEnd(), ...rest.map(line => indent(line))].join('\n'));
+    });
+
+    if (items.length === 0) return '';
+    if (ctx.inTable) return ` ${items.join('<br>')} `;
+    return `\n\n${items.join('\n')}\n\n`;
+}
+
+function indent(text: string): string {
+    return text.split('\n').map(line => (line ? `\t${line}` : line)).join('\n');
+}
+
+function convertTable(table: HTMLTableElement, ctx: ConversionContext): string {
+    if (ctx.inTable) {
+        // Markdown has no nested tables; flatten to text
+        return ` ${(table.textContent ?? '').replace(/\s+/g, ' ').trim()} `;
+    }
+
+    const cellCtx: ConversionContext = { ...ctx, inTable: true };
+    const rows = Array.from(table.rows).map(row =>
+        Array.from(row.cells).map(cell =>
+            convertChildren(cell, cellCtx)
+                .replace(/\s+/g, ' ')
+                .trim()
+                .replace(/\\?\|/g, pipe => (pipe === '|' ? '\\|' : pipe))
+        )
+    );
+    if (rows.length === 0) return '';
+
+    const columns = Math.max(...rows.map(row => row.length));
+    const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+
+    const caption = table.caption ? convertChildren(table.caption, ctx).trim() : '';
+    const [header, ...body] = rows.map(pad);
+    const lines = [
+        `| ${header.join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...body.map(row => `| ${row.join(' | ')} |`)
+    ];
+    return block((caption ? `**${caption}**\n\n` : '') + lines.join('\n'), ctx);
+}
+
+function wikilink(target: string, text: string, ctx: ConversionContext): string {
+    const label = text && text !== target ? `${ctx.inTable ? '\\|' : '|'}${text}` : '';
+    return `[[${target}${label}]]`;
+}
+
+function absoluteUrl(href: string, baseUrl?: string): string {
+    if (!baseUrl) return href;
+    try {
+        return new URL(href, baseUrl).toString();
+    } catch (error) {
+        return href;
+    }
+}
+
+/**
+ * Wrap URLs Markdown would otherwise cut short
+ */
+function formatUrl(url: string): string {
+    return /[\s()<>]/.test(url) ? `<${url.replace(/>/g, '%3E')}>` : url;
+}
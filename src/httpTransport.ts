@@ -0,0 +1,58 @@
+import { requestUrl } from 'obsidian';
+
+/**
+ * HTTP transport used by CanvasAPI.
+ *
+ * Inside Obsidian requests go through `requestUrl`, which is not bound
+ * by CORS. Keeping it behind this interface lets tests and tools point
+ * the client at a local fake Canvas server instead.
+ */
+
+export interface HttpRequest {
+    url: string;
+    method: string;
+    headers?: Record<string, string>;
+    /** Content-Type of the body, if not set in `headers` */
+    contentType?: string;
+    body?: string | ArrayBuffer;
+}
+
+export interface HttpResponse {
+    status: number;
+    headers: Record<string, string>;
+    text: string;
+    /** Parsed body; only read when `text` is not empty */
+    json: any;
+    arrayBuffer: ArrayBuffer;
+}
+
+/**
+ * Send a request and resolve with the response, whatever its status.
+ * Only network failures reject.
+ */
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Transport backed by Obsidian's `requestUrl`
+ */
+export const obsidianTransport: HttpTransport = request => requestUrl({ ...request, throw: false });
+
+/** Query and JSON fields that carry credentials */
+const SECRET_PARAMS = 'access_token|refresh_token|client_secret|code|verifier|sf_verifier|token|password';
+
+/**
+ * Blank out credentials in text about to be logged: tokens in query
+ * strings, JSON bodies and Authorization headers, plus any of the given
+ * secret values wherever they appear
+ * @param text URL, header or response body
+ * @param secrets Secret values to remove, such as the profile's token
+ * @returns Text safe to write to the console
+ */
+export function redactSecrets(text: string, secrets: string[] = []): string {
+    return secrets
+        .filter(secret => secret.length >= 4)
+        .reduce((result, secret) => result.split(secret).join('[redacted]').split(encodeURIComponent(secret)).join('[redacted]'), text)
+        .replace(new RegExp(`([?&](?:${SECRET_PARAMS})=)[^&#\\s"']*`, 'gi'), '$1[redacted]')
+        .replace(new RegExp(`("(?:${SECRET_PARAMS})"\\s*:\\s*")[^"]*`, 'gi'), '$1[redacted]')
+        .replace(/(Bearer\s+)[^\s"',]+/gi, '$1[redacted]');
+}
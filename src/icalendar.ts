@@ -0,0 +1,255 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer for Canvas deadlines and events.
+ *
+ * Assignments become VTODOs with a DUE date and calendar events become
+ * VEVENTs. Output uses CRLF line endings and folds lines at 75 octets.
+ * Each component carries a hash of its content in `X-CANVAS-HASH`; when
+ * a previous export is passed in, unchanged components keep their
+ * DTSTAMP and SEQUENCE, so calendar apps only see real updates.
+ */
+
+export interface CalendarItem {
+    /** Stable unique id, e.g. `canvas-assignment-123@school.instructure.com` */
+    uid: string;
+    kind: 'todo' | 'event';
+    summary: string;
+    description?: string;
+    url?: string;
+    /** Usually the course name */
+    categories: string[];
+    /** Due date of a todo */
+    due?: Date;
+    /** Set on todos the user has already handed in */
+    completed?: boolean;
+    /** When the todo was handed in; the due date stands in when Canvas does not say */
+    completedAt?: Date;
+    /** Start of an event */
+    start?: Date;
+    /** End of an event; defaults to the start */
+    end?: Date;
+    /** Event spans whole days; start and end are taken as local dates */
+    allDay?: boolean;
+}
+
+export interface CalendarOptions {
+    /** PRODID of the calendar, e.g. `-//Canvas LMS for Obsidian//EN` */
+    prodId: string;
+    /** Display name shown by calendar apps */
+    name: string;
+    /** Minutes before the due date or start at which to remind; empty for none */
+    alarmMinutes: number[];
+    /** Current time, used for DTSTAMP of new and changed components */
+    now: Date;
+    /** Content of the previous export, to keep DTSTAMP and SEQUENCE stable */
+    previous?: string;
+}
+
+interface PreviousComponent {
+    hash: string;
+    sequence: number;
+    dtstamp: string;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ * @param text Raw text
+ * @returns Escaped text
+ */
+export function escapeText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so that no line exceeds 75 octets of UTF-8,
+ * without splitting multi-byte characters (RFC 5545 section 3.1)
+ * @param line Unfolded content line
+ * @returns Folded line, joined with CRLF and a leading space
+ */
+export function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = utf8Length(char);
+        // Continuation lines start with a space, which counts toward the limit
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+/**
+ * Format a UTC DATE-TIME value, e.g. `20240131T235900Z`
+ */
+export function formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a DATE value from the local calendar date, e.g. `20240131`
+ */
+export function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+/**
+ * Serialize items into a complete VCALENDAR
+ * @param items Todos and events to include
+ * @param options Calendar name, alarms and previous export
+ * @returns iCalendar text with CRLF line endings
+ */
+export function serializeCalendar(items: CalendarItem[], options: CalendarOptions): string {
+    const previous = parsePreviousComponents(options.previous ?? '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${options.prodId}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(options.name)}`
+    ];
+
+    [...items]
+        .sort((a, b) => a.uid.localeCompare(b.uid))
+        .forEach(item => lines.push(...serializeItem(item, options, previous.get(item.uid))));
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function serializeItem(item: CalendarItem, options: CalendarOptions, previous: PreviousComponent | undefined): string[] {
+    const component = item.kind === 'todo' ? 'VTODO' : 'VEVENT';
+    const body: string[] = [];
+
+    if (item.kind === 'todo') {
+        if (item.due) {
+            body.push(`DUE:${formatDateTime(item.due)}`);
+        }
+        body.push(`STATUS:${item.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+        if (item.completed) {
+            // Not the export time, which would make every export look like a change
+            const completedAt = item.completedAt ?? item.due;
+            if (completedAt) {
+                body.push(`COMPLETED:${formatDateTime(completedAt)}`);
+            }
+        }
+    } else if (item.start) {
+        if (item.allDay) {
+            const end = new Date(item.end ?? item.start);
+            // DTEND of an all-day event is exclusive
+            if (formatDate(end) === formatDate(item.start)) {
+                end.setDate(end.getDate() + 1);
+            }
+            body.push(`DTSTART;VALUE=DATE:${formatDate(item.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+        } else {
+            body.push(`DTSTART:${formatDateTime(item.start)}`, `DTEND:${formatDateTime(item.end ?? item.start)}`);
+        }
+    }
+
+    body.push(`SUMMARY:${escapeText(item.summary)}`);
+    if (item.description) {
+        body.push(`DESCRIPTION:${escapeText(item.description)}`);
+    }
+    if (item.url) {
+        body.push(`URL:${item.url}`);
+    }
+    if (item.categories.length > 0) {
+        body.push(`CATEGORIES:${item.categories.map(escapeText).join(',')}`);
+    }
+
+    const anchor = item.kind === 'todo' ? item.due : item.start;
+    if (anchor && !(item.kind === 'todo' && item.completed)) {
+        options.alarmMinutes.forEach(minutes => body.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(item.summary)}`,
+            `TRIGGER${item.kind === 'todo' ? ';RELATED=END' : ''}:-PT${Math.round(minutes)}M`,
+            'END:VALARM'
+        ));
+    }
+
+    const hash = hashString(`${component}\n${body.join('\n')}`);
+    const unchanged = previous?.hash === hash;
+    const sequence = previous ? (unchanged ? previous.sequence : previous.sequence + 1) : 0;
+    const dtstamp = unchanged && previous ? previous.dtstamp : formatDateTime(options.now);
+
+    return [
+        `BEGIN:${component}`,
+        `UID:${item.uid}`,
+        `DTSTAMP:${dtstamp}`,
+        `SEQUENCE:${sequence}`,
+        `X-CANVAS-HASH:${hash}`,
+        ...body,
+        `END:${component}`
+    ];
+}
+
+/**
+ * Read UID, hash, SEQUENCE and DTSTAMP of each component of an export
+ */
+function parsePreviousComponents(content: string): Map<string, PreviousComponent> {
+    const components = new Map<string, PreviousComponent>();
+    // Unfold continuation lines before reading properties
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+    let current: Partial<PreviousComponent> & { uid?: string } | null = null;
+    let depth = 0;
+    lines.forEach(line => {
+        if (/^BEGIN:(VTODO|VEVENT)$/.test(line)) {
+            current = {};
+            depth = 0;
+        } else if (current && line.startsWith('BEGIN:')) {
+            depth++;
+        } else if (current && /^END:(VTODO|VEVENT)$/.test(line)) {
+            const { uid, hash, sequence, dtstamp } = current;
+            if (uid && hash && dtstamp) {
+                components.set(uid, { hash, sequence: sequence ?? 0, dtstamp });
+            }
+            current = null;
+        } else if (current && line.startsWith('END:')) {
+            depth--;
+        } else if (current && depth === 0) {
+            const [name, ...rest] = line.split(':');
+            const value = rest.join(':');
+            if (name === 'UID') current.uid = value;
+            else if (name === 'X-CANVAS-HASH') current.hash = value;
+            else if (name === 'SEQUENCE') current.sequence = parseInt(value, 10) || 0;
+            else if (name === 'DTSTAMP') current.dtstamp = value;
+        }
+    });
+    return components;
+}
+
+function utf8Length(char: string): number {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) return 1;
+    if (code < 0x800) return 2;
+    if (code < 0x10000) return 3;
+    return 4;
+}
+
+/**
+ * Short, stable hash of a string (FNV-1a, 32 bit)
+ */
+function hashString(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
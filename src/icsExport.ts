@@ -0,0 +1,169 @@
+import { TFile, moment, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import { CanvasAPI } from './canvasApi';
+import { Assignment, CalendarEvent, isSubmissionComplete } from './canvasTypes';
+import { canvasHtmlToText } from './htmlConverter';
+import { CalendarItem, serializeCalendar } from './icalendar';
+import { ensureFolder } from './vaultUtils';
+
+/** Calendar events exported, relative to today */
+const EVENT_DAYS_BEHIND = 30;
+const EVENT_DAYS_AHEAD = 180;
+
+export interface IcsExportResult {
+    /** Number of todos and events in the file */
+    items: number;
+    /** False if the file already had this content */
+    written: boolean;
+    path: string;
+}
+
+/**
+ * Writes Canvas deadlines and events to an .ics file in the vault, for
+ * calendar apps that subscribe to it through a synced folder. Every
+ * profile goes into the same file. UIDs are derived from Canvas ids and
+ * the Canvas host, so they stay stable across exports and machines and
+ * never collide between institutions.
+ */
+export class IcsExporter {
+    plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Regenerate the export file; it is only rewritten if something changed
+     * @returns Item count, whether the file was written and its path
+     */
+    async export(): Promise<IcsExportResult> {
+        const { app, settings } = this.plugin;
+        const path = normalizePath(settings.icsExportPath || 'Canvas/canvas.ics');
+        const items = await this.collectItems();
+
+        const existing = app.vault.getAbstractFileByPath(path);
+        const previous = existing instanceof TFile ? await app.vault.read(existing) : undefined;
+        const content = serializeCalendar(items, {
+            prodId: `-//${this.plugin.manifest.name}//${this.plugin.manifest.version}//EN`,
+            name: settings.icsCalendarName || 'Canvas',
+            alarmMinutes: settings.icsAlarmMinutes,
+            now: new Date(),
+            previous
+        });
+
+        if (content === previous) {
+            return { items: items.length, written: false, path };
+        }
+        if (existing instanceof TFile) {
+            await app.vault.modify(existing, content);
+        } else if (existing) {
+            throw new Error(`Cannot write ${path}: a folder with that name exists`);
+        } else {
+            await ensureFolder(app, path.split('/').slice(0, -1).join('/'));
+            await app.vault.create(path, content);
+        }
+        return { items: items.length, written: true, path };
+    }
+
+    private async collectItems(): Promise<CalendarItem[]> {
+        const items = new Map<string, CalendarItem>();
+        for (const profile of this.plugin.settings.profiles) {
+            await this.collectProfileItems(this.plugin.getApi(profile.id), items);
+        }
+        return [...items.values()];
+    }
+
+    private async collectProfileItems(api: CanvasAPI, items: Map<string, CalendarItem>): Promise<void> {
+        const host = this.getHost(api);
+        const today = moment().startOf('day');
+
+        const courses = await api.getCourses(api.profile.role, 'active');
+        const courseNames = new Map(courses.map(course => [`course_${course.id}`, course.name]));
+        const [perCourse, upcoming, calendarEvents] = await Promise.all([
+            Promise.all(courses.map(async course => ({
+                course,
+                assignments: await api.getCourseAssignments(course.id, { include: ['submission'] })
+            }))),
+            api.getUpcomingEvents(),
+            api.getCalendarEvents(
+                courses.map(course => `course_${course.id}`),
+                today.clone().subtract(EVENT_DAYS_BEHIND, 'days').toISOString(),
+                today.clone().add(EVENT_DAYS_AHEAD, 'days').toISOString()
+            )
+        ]);
+
+        const add = (item: CalendarItem | null) => {
+            if (item && !items.has(item.uid)) items.set(item.uid, item);
+        };
+
+        perCourse.forEach(({ course, assignments }) => {
+            assignments.forEach(assignment => add(this.assignmentItem(assignment, course.name, host)));
+        });
+        upcoming.forEach(event => {
+            const courseName = courseNames.get(event.context_code ?? '') ?? event.context_name ?? '';
+            // Assignment due dates also show up as upcoming events
+            add(event.assignment
+                ? this.assignmentItem(event.assignment, courseName, host)
+                : this.eventItem(event, courseName, host, api.baseUrl));
+        });
+        calendarEvents.forEach(event => {
+            const courseName = courseNames.get(event.context_code ?? '') ?? event.context_name ?? '';
+            add(this.eventItem(event, courseName, host, api.baseUrl));
+        });
+    }
+
+    private assignmentItem(assignment: Assignment, courseName: string, host: string): CalendarItem | null {
+        if (!assignment.due_at) return null;
+        const points = assignment.points_possible != null ? `${assignment.points_possible} points` : '';
+        const handedIn = assignment.submission?.submitted_at ?? assignment.submission?.graded_at;
+        return {
+            uid: `canvas-assignment-${assignment.id}@${host}`,
+            kind: 'todo',
+            summary: courseName ? `${assignment.name} (${courseName})` : assignment.name,
+            description: [courseName, points].filter(Boolean).join(' · '),
+            url: assignment.html_url,
+            categories: courseName ? [courseName] : [],
+            due: new Date(assignment.due_at),
+            completed: isSubmissionComplete(assignment),
+            completedAt: handedIn ? new Date(handedIn) : undefined
+        };
+    }
+
+    private eventItem(event: CalendarEvent, courseName: string, host: string, baseUrl: string): CalendarItem | null {
+        if (!event.start_at) return null;
+        // Calendar apps show descriptions as they are, so no Markdown
+        const description = canvasHtmlToText(event.description, baseUrl);
+        return {
+            uid: `canvas-event-${String(event.id).replace(/^calendar_event_/, '')}@${host}`,
+            kind: 'event',
+            summary: event.title,
+            description: [event.location_name, description].filter(Boolean).join('\n\n'),
+            url: event.html_url,
+            categories: courseName ? [courseName] : [],
+            start: new Date(event.start_at),
+            end: event.end_at ? new Date(event.end_at) : undefined,
+            allDay: event.all_day
+        };
+    }
+
+    private getHost(api: CanvasAPI): string {
+        try {
+            return new URL(api.baseUrl).hostname;
+        } catch (error) {
+            return 'canvas';
+        }
+    }
+}
+
+/**
+ * Parse a comma-separated list of reminder offsets in minutes
+ * @param value e.g. `60, 1440`
+ * @returns Valid, non-negative offsets in ascending order
+ */
+export function parseAlarmMinutes(value: string): number[] {
+    return value.split(',')
+        .filter(part => part.trim() !== '')
+        .map(part => Number(part.trim()))
+        .filter(minutes => !isNaN(minutes) && minutes >= 0)
+        .sort((a, b) => a - b);
+}
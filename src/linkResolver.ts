@@ -0,0 +1,79 @@
+import { App, TFile } from 'obsidian';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import { COURSE_ID_KEY } from './courseSync';
+import { CanvasLinkTarget, CanvasLinkType } from './htmlConverter';
+import { PAGE_URL_KEY } from './moduleMirror';
+import { belongsToProfile, indexProfileNotes } from './profiles';
+
+/** Frontmatter key under which each kind of synced note stores its Canvas id */
+const SYNCED_NOTE_KEYS: Partial<Record<CanvasLinkType, string>> = {
+    course: COURSE_ID_KEY,
+    assignment: ASSIGNMENT_ID_KEY
+};
+
+/** Finds what the module mirror wrote; implemented by ModuleMirror */
+export interface MirroredFileLookup {
+    getMirroredFile(profileId: string, kind: 'page' | 'file', id: string): TFile | null;
+}
+
+/**
+ * Build a resolver for canvasHtmlToMarkdown that rewrites links to
+ * Canvas objects into wikilinks when the object has been synced to the
+ * vault. Courses and assignments are found by their notes' frontmatter,
+ * pages and files through the module mirror. Each index is built on
+ * first use and reused for the lifetime of the resolver, so create one
+ * per sync run.
+ * @param app Obsidian app
+ * @param profileId Profile whose notes links may point to
+ * @param sourcePath Path of the note the links will be written to
+ * @param mirror Module mirror, to resolve mirrored pages and files
+ * @returns Link resolver
+ */
+export function createVaultLinkResolver(
+    app: App,
+    profileId: string,
+    sourcePath = '',
+    mirror: MirroredFileLookup | null = null
+): (target: CanvasLinkTarget) => string | null {
+    const indexes = new Map<string, Map<string, TFile>>();
+    const getIndex = (key: string, build: () => Map<string, TFile>) => {
+        let index = indexes.get(key);
+        if (!index) {
+            index = build();
+            indexes.set(key, index);
+        }
+        return index;
+    };
+
+    return (target: CanvasLinkTarget) => {
+        let file: TFile | null | undefined = null;
+        if (target.type === 'page' && target.courseId) {
+            const id = `${target.courseId}/${target.id}`;
+            // Page notes moved out of the manifest's sight still carry their slug
+            file = mirror?.getMirroredFile(profileId, 'page', id)
+                ?? getIndex(PAGE_URL_KEY, () => indexPageNotes(app, profileId)).get(id);
+        } else if (target.type === 'file') {
+            file = mirror?.getMirroredFile(profileId, 'file', target.id);
+        } else {
+            const key = SYNCED_NOTE_KEYS[target.type];
+            file = key ? getIndex(key, () => indexProfileNotes(app, key, profileId)).get(target.id) : null;
+        }
+        return file ? app.metadataCache.fileToLinktext(file, sourcePath, true) : null;
+    };
+}
+
+/**
+ * Index a profile's mirrored page notes by course id and slug. Slugs
+ * repeat across courses, so the course is read from the note's Canvas URL.
+ */
+function indexPageNotes(app: App, profileId: string): Map<string, TFile> {
+    const index = new Map<string, TFile>();
+    for (const file of app.vault.getMarkdownFiles()) {
+        const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+        const slug = frontmatter?.[PAGE_URL_KEY];
+        if (!frontmatter || typeof slug !== 'string' || !belongsToProfile(frontmatter, profileId)) continue;
+        const course = typeof frontmatter.canvas_url === 'string' ? frontmatter.canvas_url.match(/\/courses\/(\d+)\//) : null;
+        if (course) index.set(`${course[1]}/${slug}`, file);
+    }
+    return index;
+}
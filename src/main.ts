@@ -1,28 +1,117 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
+import { App, Editor, FuzzySuggestModal, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile } from 'obsidian';
 import { CanvasAPI } from './canvasApi';
+import { CanvasQueryView } from './canvasQueryView';
+import { getTodoPlannable, isSubmissionComplete } from './canvasTypes';
+import { AssignmentNoteSync } from './assignmentSync';
+import { AssignmentSubmitter } from './assignmentSubmission';
+import { AutoSyncScheduler } from './autoSync';
+import { COURSE_ID_KEY, CourseNoteSync } from './courseSync';
+import { DailyNoteAgenda } from './dailyNotes';
+import { DiscussionNoteSync, REPLY_HEADING } from './discussionSync';
+import { CourseSuggestModal, openGradeCalculator } from './gradeCalculatorModal';
+import { IcsExporter } from './icsExport';
+import { MirrorEntry, ModuleMirror } from './moduleMirror';
+import { QuizImporter } from './quizImport';
+import { StudyPlanState, StudyPlanner } from './studyPlanner';
+import { SubmissionGrader } from './submissionGrading';
+import { CanvasOAuth, OAUTH_PROTOCOL_ACTION } from './oauth';
+import { withoutPublicProxy } from './proxy';
+import {
+	DEFAULT_OUTPUT_TEMPLATES, OutputTemplateId, OutputTemplateSetting, buildCoursesData, buildEventsData, buildGradesData, buildProfileData,
+	buildTodoData, loadOutputTemplate, renderCommandTemplate
+} from './outputTemplates';
+import {
+	CanvasProfile, DEFAULT_PROFILE, ProfileSecrets, SECRETS_STORAGE_KEY, getProfileSecrets, migrateLegacyProfile, withoutSecrets
+} from './profiles';
+import { CanvasDashboardView, VIEW_TYPE_CANVAS_DASHBOARD } from './dashboardView';
+import { CacheSnapshot, DEFAULT_CACHE_TTL_MINUTES, ResponseCache } from './responseCache';
 import { SampleSettingTab, MyPluginSettings, DEFAULT_SETTINGS } from './settings';
+import { SyncSnapshot } from './syncSnapshot';
+import { TaskCompletionSync, TaskState, taskMarker } from './taskSync';
 
 export default class MyPlugin extends Plugin {
 	settings: MyPluginSettings;
-	canvasApi: CanvasAPI;
+	courseSync: CourseNoteSync;
+	assignmentSync: AssignmentNoteSync;
+	discussionSync: DiscussionNoteSync;
+	submitter: AssignmentSubmitter;
+	grader: SubmissionGrader;
+	quizImporter: QuizImporter;
+	responseCache: ResponseCache;
+	dailyNoteAgenda: DailyNoteAgenda;
+	taskSync: TaskCompletionSync;
+	autoSync: AutoSyncScheduler;
+	icsExporter: IcsExporter;
+	moduleMirror: ModuleMirror;
+	studyPlanner: StudyPlanner;
+	oauth: CanvasOAuth;
+	// One API client per profile, created on first use
+	private apis = new Map<string, CanvasAPI>();
+	// Whether this device's local storage holds secrets that must be cleared when they move back to data.json
+	private secretsOnDevice = false;
 
 	async onload() {
+		this.oauth = new CanvasOAuth(this);
 		await this.loadSettings();
-		this.canvasApi = new CanvasAPI(this.settings);
+		this.responseCache = new ResponseCache(this.createJsonStore<CacheSnapshot>('cache.json'));
+		await this.responseCache.load();
+		this.taskSync = new TaskCompletionSync(this, this.createJsonStore<Record<string, TaskState>>('tasks.json'));
+		await this.taskSync.load();
+		this.courseSync = new CourseNoteSync(this);
+		this.assignmentSync = new AssignmentNoteSync(this);
+		this.discussionSync = new DiscussionNoteSync(this);
+		this.submitter = new AssignmentSubmitter(this);
+		this.grader = new SubmissionGrader(this);
+		this.quizImporter = new QuizImporter(this);
+		this.dailyNoteAgenda = new DailyNoteAgenda(this);
+		this.icsExporter = new IcsExporter(this);
+		this.moduleMirror = new ModuleMirror(this, this.createJsonStore<Record<string, MirrorEntry>>('mirror.json'));
+		await this.moduleMirror.load();
+		this.studyPlanner = new StudyPlanner(this, this.createJsonStore<StudyPlanState>('planner.json'));
+		await this.studyPlanner.load();
+
+		this.registerView(VIEW_TYPE_CANVAS_DASHBOARD, leaf => new CanvasDashboardView(leaf, this));
+
+		// Canvas sends the browser back here after OAuth2 sign-in
+		this.registerObsidianProtocolHandler(OAUTH_PROTOCOL_ACTION, params => {
+			this.oauth.handleRedirect(params);
+		});
 
 		// This creates an icon in the left ribbon.
 		const ribbonIconEl = this.addRibbonIcon('graduation-cap', 'Canvas LMS', (evt: MouseEvent) => {
 			// Called when the user clicks the icon.
-			this.fetchCanvasData(true);
+			this.activateDashboard();
 		});
 		// Perform additional things with the ribbon
 		ribbonIconEl.addClass('my-plugin-ribbon-class');
 
 		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
+		// It shows the auto-sync state; clicking it lists what changed.
 		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('Canvas LMS Ready');
+		statusBarItemEl.addClass('canvas-sync-status');
+		this.autoSync = new AutoSyncScheduler(this, this.createJsonStore<SyncSnapshot>('snapshot.json'), statusBarItemEl);
+		await this.autoSync.load();
+		this.registerDomEvent(statusBarItemEl, 'click', () => this.autoSync.showChanges());
 
 		// Add Canvas API related commands
+		this.addCommand({
+			id: 'open-canvas-dashboard',
+			name: 'Open Canvas dashboard',
+			callback: () => {
+				this.activateDashboard();
+			}
+		});
+
+		this.addCommand({
+			id: 'switch-canvas-profile',
+			name: 'Switch Canvas profile',
+			callback: () => {
+				new ProfileSuggestModal(this.app, this.settings.profiles, profile => {
+					this.setActiveProfile(profile.id).then(() => new Notice(`Canvas profile: ${profile.name}`));
+				}).open();
+			}
+		});
+
 		this.addCommand({
 			id: 'fetch-canvas-courses',
 			name: 'Fetch Canvas Courses (Console)',
@@ -87,6 +176,14 @@ export default class MyPlugin extends Plugin {
 			}
 		});
 		
+		this.addCommand({
+			id: 'fetch-canvas-todo-tasks-to-note',
+			name: 'Fetch Canvas Todo Items (Insert as Tasks)',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.insertCanvasTodoTasks();
+			}
+		});
+		
 		this.addCommand({
 			id: 'fetch-canvas-grades',
 			name: 'Fetch Canvas Course Grades (Console)',
@@ -103,6 +200,260 @@ export default class MyPlugin extends Plugin {
 			}
 		});
 		
+		this.addCommand({
+			id: 'open-canvas-grade-calculator',
+			name: 'Open Canvas grade calculator',
+			callback: () => {
+				openGradeCalculator(this);
+			}
+		});
+		
+		this.addCommand({
+			id: 'sync-canvas-courses',
+			name: 'Sync Canvas courses to vault',
+			callback: () => {
+				this.syncCanvasCourses();
+			}
+		});
+		
+		this.addCommand({
+			id: 'sync-canvas-assignments',
+			name: 'Sync Canvas assignments to vault',
+			callback: () => {
+				this.syncCanvasAssignments();
+			}
+		});
+		
+		this.addCommand({
+			id: 'submit-note-to-canvas',
+			name: 'Submit current note to Canvas assignment',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) {
+					this.submitter.submitNote(file).catch(error => {
+						console.error('Error preparing Canvas submission:', error);
+						new Notice(`Failed to load assignment: ${error.message || 'Unknown error'}`);
+					});
+				}
+				return true;
+			}
+		});
+		
+		// Grading commands only apply to profiles that teach
+		this.addCommand({
+			id: 'review-canvas-submissions',
+			name: 'Review ungraded Canvas submissions',
+			checkCallback: (checking: boolean) => {
+				if (this.activeProfile.role === 'student') return false;
+				if (!checking) {
+					this.grader.chooseSubmission().catch(error => {
+						console.error('Error loading Canvas assignments:', error);
+						new Notice(`Failed to load assignments: ${error.message || 'Unknown error'}`);
+					});
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'post-canvas-grade',
+			name: 'Post grade from current review note to Canvas',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.grader.getReviewNote(file)) return false;
+				if (!checking) {
+					this.grader.postGrade(file).catch(error => {
+						console.error('Error reading Canvas review note:', error);
+						new Notice(`Failed to read grade: ${error.message || 'Unknown error'}`);
+					});
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'export-canvas-gradebook',
+			name: 'Export Canvas gradebook to vault',
+			checkCallback: (checking: boolean) => {
+				if (this.activeProfile.role === 'student') return false;
+				if (!checking) {
+					this.grader.chooseGradebookCourse().catch(error => {
+						console.error('Error fetching Canvas courses:', error);
+						new Notice(`Failed to fetch courses: ${error.message || 'Unknown error'}`);
+					});
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'import-canvas-quizzes',
+			name: 'Import Canvas quizzes and rubrics as study notes',
+			callback: () => {
+				this.importCanvasQuizzes();
+			}
+		});
+		
+		this.addCommand({
+			id: 'sync-canvas-discussions',
+			name: 'Sync Canvas announcements and discussions to vault',
+			callback: () => {
+				this.syncCanvasDiscussions();
+			}
+		});
+		
+		this.addCommand({
+			id: 'mark-canvas-discussion-read',
+			name: 'Mark Canvas discussion in current note as read',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.discussionSync.getNoteTopic(file)) return false;
+				if (!checking) {
+					this.discussionSync.markRead(file)
+						.then(() => new Notice('Canvas discussion marked as read'))
+						.catch(error => {
+							console.error('Error marking Canvas discussion read:', error);
+							new Notice(`Failed to mark discussion as read: ${error.message || 'Unknown error'}`);
+						});
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'reply-to-canvas-discussion',
+			name: 'Reply to Canvas discussion from current note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.discussionSync.getNoteTopic(file)) return false;
+				if (!checking) {
+					this.replyToCanvasDiscussion(file);
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'sync-canvas-tasks',
+			name: 'Sync Canvas task completion',
+			callback: () => {
+				this.syncCanvasTasks();
+			}
+		});
+		
+		this.addCommand({
+			id: 'run-canvas-auto-sync',
+			name: 'Check Canvas for changes now',
+			callback: async () => {
+				new Notice('Checking Canvas for changes...');
+				await this.autoSync.run(true);
+				this.autoSync.showChanges();
+			}
+		});
+		
+		this.addCommand({
+			id: 'mirror-canvas-modules',
+			name: 'Mirror Canvas course modules to vault',
+			callback: () => {
+				this.mirrorCanvasModules();
+			}
+		});
+		
+		this.addCommand({
+			id: 'mirror-current-canvas-course',
+			name: 'Mirror modules of current course note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const courseId = file && this.app.metadataCache.getFileCache(file)?.frontmatter?.[COURSE_ID_KEY];
+				if (courseId === undefined || courseId === null || courseId === '') return false;
+				if (!checking) {
+					this.mirrorCanvasModules(String(courseId));
+				}
+				return true;
+			}
+		});
+		
+		this.addCommand({
+			id: 'export-canvas-ics',
+			name: 'Export Canvas calendar (.ics)',
+			callback: () => {
+				this.exportCanvasCalendar();
+			}
+		});
+		
+		this.addCommand({
+			id: 'plan-canvas-study-sessions',
+			name: 'Plan study sessions for upcoming Canvas assignments',
+			callback: () => {
+				this.planStudySessions();
+			}
+		});
+		
+		this.addCommand({
+			id: 'toggle-canvas-offline-mode',
+			name: 'Toggle Canvas offline mode',
+			callback: async () => {
+				this.settings.offlineMode = !this.settings.offlineMode;
+				await this.saveSettings();
+				new Notice(this.settings.offlineMode
+					? `Canvas offline mode on. ${this.getLastSyncedText()}`
+					: 'Canvas offline mode off');
+			}
+		});
+		
+		this.addCommand({
+			id: 'clear-canvas-cache',
+			name: 'Clear Canvas cache',
+			callback: () => {
+				this.clearCanvasCache();
+			}
+		});
+		
+		this.addCommand({
+			id: 'update-canvas-daily-note',
+			name: 'Update Canvas agenda in current daily note',
+			callback: () => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.dailyNoteAgenda.getDailyNoteDate(file)) {
+					new Notice('The active file is not a daily note');
+					return;
+				}
+				this.dailyNoteAgenda.handleFile(file, true);
+			}
+		});
+		
+		// Fill the Canvas agenda when a daily note is created or opened. Vault
+		// create events also fire for every file while the vault loads, so
+		// only listen once the layout is ready.
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(this.app.vault.on('create', file => {
+				if (file instanceof TFile) {
+					this.dailyNoteAgenda.handleFile(file);
+					this.studyPlanner.handleDailyNote(file);
+				}
+			}));
+			this.registerEvent(this.app.workspace.on('file-open', file => {
+				this.dailyNoteAgenda.handleFile(file);
+				this.studyPlanner.handleDailyNote(file);
+			}));
+			// Send ticked Canvas tasks to the planner
+			this.registerEvent(this.app.vault.on('modify', file => {
+				this.taskSync.handleModify(file);
+			}));
+			// Follow mirrored files the user moves or renames
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+				this.moduleMirror.handleRename(file, oldPath);
+			}));
+			this.autoSync.start();
+			this.autoSync.runIfDue();
+		});
+		
+		// Render ```canvas code blocks as live views
+		this.registerMarkdownCodeBlockProcessor('canvas', (source, el, ctx) => {
+			ctx.addChild(new CanvasQueryView(el, this, source, ctx.sourcePath));
+		});
+		
 		// This adds a simple command that can be triggered anywhere
 		this.addCommand({
 			id: 'open-sample-modal-simple',
@@ -148,9 +499,6 @@ export default class MyPlugin extends Plugin {
 		this.registerDomEvent(document, 'click', (evt: MouseEvent) => {
 			console.log('click', evt);
 		});
-
-		// When registering intervals, this function will automatically clear the interval when the plugin is disabled.
-		this.registerInterval(window.setInterval(() => console.log('setInterval'), 5 * 60 * 1000));
 	}
 
 	// Helper method to get the active editor
@@ -163,7 +511,7 @@ export default class MyPlugin extends Plugin {
 	}
 
 	// Helper method to format a date string
-	private formatDate(dateStr: string): string {
+	private formatDate(dateStr: string | null | undefined): string {
 		if (!dateStr) return 'No date';
 		const date = new Date(dateStr);
 		return date.toLocaleDateString() + ' ' + date.toLocaleTimeString();
@@ -181,6 +529,88 @@ export default class MyPlugin extends Plugin {
 		return false;
 	}
 
+	// Helper method to describe when data was last fetched from Canvas
+	getLastSyncedText(): string {
+		const lastSyncedAt = this.responseCache?.lastSyncedAt;
+		return lastSyncedAt ? `Last synced ${this.formatDate(new Date(lastSyncedAt).toISOString())}` : 'Never synced';
+	}
+
+	// Helper method to mark inserted output that came from the offline cache
+	private getOfflineFooter(): string {
+		return this.settings.offlineMode ? `\n_Offline mode: cached data. ${this.getLastSyncedText()}._\n` : '';
+	}
+
+	// Persist plugin state such as the response cache next to data.json in the plugin folder
+	private createJsonStore<T>(fileName: string) {
+		const path = `${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/${fileName}`;
+		const adapter = this.app.vault.adapter;
+		return {
+			load: async (): Promise<T | null> => {
+				if (!(await adapter.exists(path))) return null;
+				try {
+					return JSON.parse(await adapter.read(path));
+				} catch (error) {
+					console.error(`Ignoring unreadable ${fileName}:`, error);
+					return null;
+				}
+			},
+			save: async (value: T) => {
+				await adapter.write(path, JSON.stringify(value));
+			}
+		};
+	}
+
+	// Profile used by commands and views that do not name one
+	get activeProfile(): CanvasProfile {
+		return this.settings.profiles.find(profile => profile.id === this.settings.activeProfileId)
+			?? this.settings.profiles[0];
+	}
+
+	// API client of the active profile
+	get canvasApi(): CanvasAPI {
+		return this.getApi(this.activeProfile.id);
+	}
+
+	// API client of a profile; unknown ids fall back to the active profile
+	getApi(profileId: string): CanvasAPI {
+		let api = this.apis.get(profileId);
+		if (!api) {
+			const profile = this.settings.profiles.find(other => other.id === profileId) ?? this.activeProfile;
+			api = new CanvasAPI(profile, this.settings, this.responseCache, this.oauth);
+			this.apis.set(profileId, api);
+		}
+		return api;
+	}
+
+	async setActiveProfile(profileId: string) {
+		this.settings.activeProfileId = profileId;
+		await this.saveSettings();
+		// Open dashboards show the active profile
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_CANVAS_DASHBOARD).forEach(leaf => {
+			if (leaf.view instanceof CanvasDashboardView) {
+				leaf.view.refresh();
+			}
+		});
+	}
+
+	// Reveal the dashboard, opening it in the right sidebar if needed
+	async activateDashboard() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_CANVAS_DASHBOARD)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_CANVAS_DASHBOARD, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	async clearCanvasCache() {
+		await this.responseCache.clear();
+		new Notice('Canvas cache cleared');
+	}
+
 	// Test connection to Canvas API
 	async testCanvasConnection(): Promise<boolean> {
 		try {
@@ -204,64 +634,29 @@ export default class MyPlugin extends Plugin {
 	async fetchCanvasData(insertIntoNote: boolean = false) {
 		try {
 			new Notice('Fetching Canvas courses...');
-			const courses = await this.canvasApi.getCourses('student', 'active');
+			const courses = await this.canvasApi.getCourses(this.activeProfile.role, 'active');
 			console.log('Canvas Courses:', courses);
 			
-			let outputText = '';
+			// Fetch assignments for all courses in parallel; the API's request
+			// scheduler keeps concurrency within Canvas rate limits
+			const assignmentsByCourse = await Promise.all(courses.map(course =>
+				this.canvasApi.getCourseAssignments(course.id, { include: ['submission'] })
+			));
 			
-			if (courses && courses.length > 0) {
-				// Display courses in console in a structured way
-				console.log('\n=== Active Courses ===');
-				outputText += '## Canvas Active Courses\n\n';
-				
-				courses.forEach(course => {
-					console.log(`Course: ${course.name} (ID: ${course.id})`);
-					outputText += `- **${course.name}** (ID: ${course.id})\n`;
+			// Display courses in console in a structured way
+			console.log('\n=== Active Courses ===');
+			courses.forEach((course, index) => {
+				console.log(`\n=== Assignments for ${course.name} (ID: ${course.id}) ===`);
+				assignmentsByCourse[index].filter(assignment => assignment.due_at).forEach(assignment => {
+					const completed = isSubmissionComplete(assignment) ? 'Completed' : 'Not Completed';
+					console.log(`${completed}: ${assignment.name} (Due: ${assignment.due_at})`);
 				});
-				
-				// Fetch assignments for each course
-				for (const course of courses) {
-					console.log(`\n=== Assignments for ${course.name} ===`);
-					outputText += `\n### Assignments for ${course.name}\n\n`;
-					
-					const assignments = await this.canvasApi.getCourseAssignments(course.id);
-					
-					if (assignments && assignments.length > 0) {
-						let completedCount = 0;
-						let pendingCount = 0;
-						
-						outputText += '| Assignment | Due Date | Status |\n';
-						outputText += '| --- | --- | --- |\n';
-						
-						assignments.forEach(assignment => {
-							if (assignment.due_at) {
-								// Check if assignment has been submitted
-								const status = assignment.has_submitted_submissions ? 
-									'✅ Completed' : '⏳ Pending';
-									
-								if (assignment.has_submitted_submissions) {
-									completedCount++;
-									console.log(`Completed: ${assignment.name} (Due: ${assignment.due_at})`);
-								} else {
-									pendingCount++;
-									console.log(`Not Completed: ${assignment.name} (Due: ${assignment.due_at})`);
-								}
-								
-								outputText += `| ${assignment.name} | ${this.formatDate(assignment.due_at)} | ${status} |\n`;
-							}
-						});
-						
-						outputText += `\n**Summary:** ${completedCount} completed, ${pendingCount} pending assignments\n\n`;
-					} else {
-						console.log('No assignments found for this course.');
-						outputText += 'No assignments found for this course.\n\n';
-					}
-				}
-			}
+			});
 			
 			new Notice(`Fetched ${courses.length} courses`);
 			
 			if (insertIntoNote) {
+				const outputText = await this.renderOutput('courses', buildCoursesData(courses, assignmentsByCourse));
 				if (this.insertTextIntoCurrentDocument(outputText)) {
 					new Notice('Canvas courses data inserted into note');
 				}
@@ -280,19 +675,13 @@ export default class MyPlugin extends Plugin {
 			console.log('\n=== User Profile ===');
 			console.log(`Name: ${profile.name}`);
 			console.log(`ID: ${profile.id}`);
-			console.log(`Email: ${profile.primary_email || profile.email}`);
+			console.log(`Email: ${profile.primary_email || profile.email || 'N/A'}`);
 			console.log(`Login ID: ${profile.login_id}`);
 			
-			let outputText = '';
-			outputText += '## Canvas User Profile\n\n';
-			outputText += `- **Name:** ${profile.name}\n`;
-			outputText += `- **ID:** ${profile.id}\n`;
-			outputText += `- **Email:** ${profile.primary_email || profile.email}\n`;
-			outputText += `- **Login ID:** ${profile.login_id}\n\n`;
-			
 			new Notice(`Fetched profile for ${profile.name}`);
 			
 			if (insertIntoNote) {
+				const outputText = await this.renderOutput('profile', buildProfileData(profile));
 				if (this.insertTextIntoCurrentDocument(outputText)) {
 					new Notice('Canvas profile data inserted into note');
 				}
@@ -309,26 +698,12 @@ export default class MyPlugin extends Plugin {
 			const events = await this.canvasApi.getUpcomingEvents();
 			
 			console.log('\n=== Upcoming Events ===');
-			
-			let outputText = '';
-			outputText += '## Canvas Upcoming Events\n\n';
-			
-			if (events && events.length > 0) {
-				outputText += '| Event | Date | Course |\n';
-				outputText += '| --- | --- | --- |\n';
-				
-				events.forEach(event => {
-					console.log(`${event.title} (Date: ${event.start_at})`);
-					outputText += `| ${event.title} | ${this.formatDate(event.start_at)} | ${event.context_name || 'N/A'} |\n`;
-				});
-			} else {
-				console.log('No upcoming events found.');
-				outputText += 'No upcoming events found.\n';
-			}
+			events.forEach(event => console.log(`${event.title} (Date: ${event.start_at})`));
 			
 			new Notice(`Fetched ${events.length} upcoming events`);
 			
 			if (insertIntoNote) {
+				const outputText = await this.renderOutput('events', buildEventsData(events));
 				if (this.insertTextIntoCurrentDocument(outputText)) {
 					new Notice('Canvas events data inserted into note');
 				}
@@ -345,26 +720,15 @@ export default class MyPlugin extends Plugin {
 			const todos = await this.canvasApi.getTodoItems();
 			
 			console.log('\n=== Todo Items ===');
-			
-			let outputText = '';
-			outputText += '## Canvas Todo Items\n\n';
-			
-			if (todos && todos.length > 0) {
-				outputText += '| Assignment | Course | Due Date |\n';
-				outputText += '| --- | --- | --- |\n';
-				
-				todos.forEach(todo => {
-					console.log(`${todo.assignment.name} (Course: ${todo.context_name})`);
-					outputText += `| ${todo.assignment.name} | ${todo.context_name} | ${this.formatDate(todo.assignment.due_at)} |\n`;
-				});
-			} else {
-				console.log('No todo items found.');
-				outputText += 'No todo items found.\n';
-			}
+			const data = buildTodoData(todos);
+			(data.items as Array<{ title: string; course: string }>).forEach(item => {
+				console.log(`${item.title} (Course: ${item.course})`);
+			});
 			
 			new Notice(`Fetched ${todos.length} todo items`);
 			
 			if (insertIntoNote) {
+				const outputText = await this.renderOutput('todo', data);
 				if (this.insertTextIntoCurrentDocument(outputText)) {
 					new Notice('Canvas todo items inserted into note');
 				}
@@ -375,40 +739,47 @@ export default class MyPlugin extends Plugin {
 		}
 	}
 	
+	async insertCanvasTodoTasks() {
+		try {
+			new Notice('Fetching Canvas todo items...');
+			const todos = await this.canvasApi.getTodoItems();
+			
+			const profile = this.activeProfile.id;
+			const recorded: Array<{ profile: string; type: string; id: string | number; completed: boolean }> = [];
+			const data = buildTodoData(todos, todo => {
+				const plannable = getTodoPlannable(todo);
+				// The todo list only holds open items, so every task starts unchecked
+				if (!plannable || !this.settings.taskSyncEnabled) return '';
+				recorded.push({ ...plannable, profile, completed: false });
+				return taskMarker(plannable.type, plannable.id, profile);
+			});
+			const outputText = await this.renderOutput('todoTasks', data);
+			
+			if (this.insertTextIntoCurrentDocument(outputText)) {
+				this.taskSync.recordTasks(recorded);
+				new Notice(`Inserted ${todos.length} Canvas todo items`);
+			}
+		} catch (error) {
+			console.error('Error fetching Canvas todo items:', error);
+			new Notice(`Failed to fetch todo items: ${error.message || 'Unknown error'}`);
+		}
+	}
+	
 	async fetchCanvasGrades(insertIntoNote: boolean = false) {
 		try {
 			new Notice('Fetching Canvas course grades...');
-			const courses = await this.canvasApi.getCourseGrades();
+			const courses = await this.canvasApi.getCourseGrades({}, this.activeProfile.role);
 			
 			console.log('\n=== Course Grades ===');
-			
-			let outputText = '';
-			outputText += '## Canvas Course Grades\n\n';
-			outputText += '| Course | Grade | Score |\n';
-			outputText += '| --- | --- | --- |\n';
-			
-			if (courses && courses.length > 0) {
-				courses.forEach(course => {
-					if (course.enrollments && course.enrollments.length > 0) {
-						const enrollment = course.enrollments[0];
-						const grade = enrollment.computed_current_grade || 'N/A';
-						const score = enrollment.computed_current_score || 'N/A';
-						
-						console.log(`${course.name}: ${grade || score || 'No grade'}`);
-						outputText += `| ${course.name} | ${grade} | ${score} |\n`;
-					} else {
-						console.log(`${course.name}: No grade information`);
-						outputText += `| ${course.name} | No grade | No score |\n`;
-					}
-				});
-			} else {
-				console.log('No courses with grades found.');
-				outputText += 'No courses with grades found.\n';
-			}
+			const data = buildGradesData(courses);
+			(data.courses as Array<{ name: string; grade: string; score: number | string }>).forEach(course => {
+				console.log(`${course.name}: ${course.grade || course.score || 'No grade'}`);
+			});
 			
 			new Notice(`Fetched grades for ${courses.length} courses`);
 			
 			if (insertIntoNote) {
+				const outputText = await this.renderOutput('grades', data);
 				if (this.insertTextIntoCurrentDocument(outputText)) {
 					new Notice('Canvas grades data inserted into note');
 				}
@@ -419,18 +790,227 @@ export default class MyPlugin extends Plugin {
 		}
 	}
 
+	// Fill the template chosen for an insert command, adding the offline note if needed
+	private async renderOutput(id: OutputTemplateId, data: Record<string, unknown>): Promise<string> {
+		const template = await loadOutputTemplate(this.app, id, this.settings.outputTemplates[id] ?? DEFAULT_OUTPUT_TEMPLATES[id]);
+		const output = renderCommandTemplate(template, data, {
+			dateFormat: this.settings.templateDateFormat || 'YYYY-MM-DD HH:mm',
+			timeZone: this.settings.templateTimeZone
+		});
+		return output + this.getOfflineFooter();
+	}
+
+	async syncCanvasCourses() {
+		try {
+			new Notice('Syncing Canvas courses to vault...');
+			const result = await this.courseSync.syncAll();
+			console.log('Canvas course sync:', result);
+			new Notice(`Canvas sync complete: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged`);
+		} catch (error) {
+			console.error('Error syncing Canvas courses:', error);
+			new Notice(`Failed to sync Canvas courses: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	async syncCanvasAssignments() {
+		try {
+			new Notice('Syncing Canvas assignments to vault...');
+			const result = await this.assignmentSync.syncAll();
+			console.log('Canvas assignment sync:', result);
+			new Notice(`Canvas sync complete: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged`);
+			// Tick tasks for items completed in Canvas since the last sync
+			if (this.settings.taskSyncEnabled) {
+				await this.syncCanvasTasks();
+			}
+		} catch (error) {
+			console.error('Error syncing Canvas assignments:', error);
+			new Notice(`Failed to sync Canvas assignments: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	// Mirror modules of the given course, or of every course with mirroring turned on
+	async mirrorCanvasModules(courseId?: string) {
+		try {
+			new Notice('Mirroring Canvas modules to vault...');
+			let result;
+			if (courseId) {
+				const course = (await this.canvasApi.getCourses(this.activeProfile.role, 'active'))
+					.find(other => String(other.id) === courseId);
+				if (!course) {
+					new Notice('This course is not among your active Canvas courses');
+					return;
+				}
+				result = await this.moduleMirror.syncCourse(course);
+			} else {
+				result = await this.moduleMirror.syncAll();
+			}
+			console.log('Canvas module mirror:', result);
+			new Notice(`Canvas mirror complete: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged, ${result.skipped} skipped`);
+		} catch (error) {
+			console.error('Error mirroring Canvas modules:', error);
+			new Notice(`Failed to mirror Canvas modules: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	async exportCanvasCalendar() {
+		try {
+			new Notice('Exporting Canvas calendar...');
+			const result = await this.icsExporter.export();
+			new Notice(result.written
+				? `Exported ${result.items} Canvas items to ${result.path}`
+				: `${result.path} is already up to date`);
+		} catch (error) {
+			console.error('Error exporting Canvas calendar:', error);
+			new Notice(`Failed to export Canvas calendar: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	async planStudySessions() {
+		try {
+			new Notice('Planning study sessions...');
+			const { state } = await this.studyPlanner.plan(true);
+			const unfit = state.schedule.unfit.length;
+			new Notice(`Planned ${state.schedule.sessions.length} study sessions${unfit > 0 ? `; ${unfit} assignments do not fit before their deadline` : ''}`);
+			const note = this.settings.plannerOutput === 'note' ? this.studyPlanner.getPlanNote() : null;
+			if (note) {
+				await this.app.workspace.getLeaf(false).openFile(note);
+			}
+		} catch (error) {
+			console.error('Error planning study sessions:', error);
+			new Notice(`Failed to plan study sessions: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	// Ask for a course, then write flashcards for its finished quizzes and rubric checklists into its assignment notes
+	async importCanvasQuizzes() {
+		try {
+			const profile = this.activeProfile;
+			const courses = await this.getApi(profile.id).getCourses(profile.role, 'active');
+			if (courses.length === 0) {
+				new Notice('No active Canvas courses found');
+				return;
+			}
+			new CourseSuggestModal(this.app, courses, async course => {
+				try {
+					new Notice(`Importing quizzes and rubrics of ${course.name}...`);
+					const result = await this.quizImporter.importCourse(course, profile);
+					const hidden = result.hidden > 0 ? `; ${result.hidden} questions without visible answers skipped` : '';
+					new Notice(`Imported ${result.cards} flashcards from ${result.quizzes} quizzes and ${result.rubrics} rubrics${hidden}`);
+				} catch (error) {
+					console.error('Error importing Canvas quizzes:', error);
+					new Notice(`Failed to import quizzes: ${error.message || 'Unknown error'}`);
+				}
+			}).open();
+		} catch (error) {
+			console.error('Error fetching Canvas courses:', error);
+			new Notice(`Failed to fetch courses: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	async syncCanvasDiscussions() {
+		try {
+			new Notice('Syncing Canvas announcements and discussions to vault...');
+			const result = await this.discussionSync.syncAll();
+			console.log('Canvas discussion sync:', result);
+			new Notice(`Canvas sync complete: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged, ${result.unread} unread posts`);
+		} catch (error) {
+			console.error('Error syncing Canvas discussions:', error);
+			new Notice(`Failed to sync Canvas discussions: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	// Post the text under the reply heading of a discussion note
+	async replyToCanvasDiscussion(file: TFile) {
+		try {
+			if (await this.discussionSync.postReply(file)) {
+				new Notice('Reply posted to Canvas');
+			} else {
+				new Notice(`Write your reply under "${REPLY_HEADING}" first`);
+			}
+		} catch (error) {
+			console.error('Error posting Canvas reply:', error);
+			new Notice(`Failed to post reply: ${error.message || 'Unknown error'}`);
+		}
+	}
+
+	async syncCanvasTasks() {
+		if (!this.settings.taskSyncEnabled) {
+			new Notice('Canvas task sync is turned off in settings');
+			return;
+		}
+		try {
+			new Notice('Syncing Canvas task completion...');
+			const result = await this.taskSync.reconcile();
+			console.log('Canvas task sync:', result);
+			new Notice(`Canvas task sync complete: ${result.pushed} sent, ${result.pulled} updated, ${result.conflicts} conflicts resolved`);
+		} catch (error) {
+			console.error('Error syncing Canvas tasks:', error);
+			new Notice(`Failed to sync Canvas tasks: ${error.message || 'Unknown error'}`);
+		}
+	}
+
 	onunload() {
-		// Clean up any resources if needed
+		// Write out any cache changes still waiting for the debounce
+		this.responseCache?.flush().catch(error => console.error('Failed to save Canvas cache:', error));
+		this.taskSync?.flush().catch(error => console.error('Failed to save Canvas task states:', error));
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData() ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Nested objects need their own merge so new keys get defaults
+		this.settings.cacheTtlMinutes = Object.assign({}, DEFAULT_CACHE_TTL_MINUTES, this.settings.cacheTtlMinutes);
+		this.settings.mirrorRules = Object.assign({}, DEFAULT_SETTINGS.mirrorRules, this.settings.mirrorRules);
+		this.settings.mirrorCourses = { ...this.settings.mirrorCourses };
+		this.settings.plannerWeeklyHours = [...this.settings.plannerWeeklyHours];
+		this.settings.outputTemplates = Object.fromEntries(Object.entries(DEFAULT_OUTPUT_TEMPLATES).map(([id, template]) =>
+			[id, Object.assign({}, template, this.settings.outputTemplates?.[id as OutputTemplateId])]
+		)) as Record<OutputTemplateId, OutputTemplateSetting>;
+		// Settings from before profiles held a single account at the top level
+		const profiles: CanvasProfile[] = Array.isArray(data.profiles) && data.profiles.length > 0
+			? data.profiles
+			: [migrateLegacyProfile(data)];
+		// Copy so editing a profile never touches DEFAULT_SETTINGS; new fields get defaults
+		this.secretsOnDevice = this.settings.secretStorage === 'device';
+		const secrets: Record<string, ProfileSecrets> = this.secretsOnDevice
+			? this.app.loadLocalStorage(SECRETS_STORAGE_KEY) ?? {}
+			: {};
+		// Public proxies saved by earlier versions are dropped rather than sent the token
+		this.settings.profiles = profiles.map(profile => withoutPublicProxy({
+			...DEFAULT_PROFILE,
+			...profile,
+			...secrets[profile.id],
+			enabledCourses: [...(profile.enabledCourses ?? [])]
+		}));
+		['canvasApiUrl', 'canvasApiToken', 'useProxy', 'corsProxyUrl', 'autoSyncCourses']
+			.forEach(key => delete (this.settings as unknown as Record<string, unknown>)[key]);
+	}
+
+	// Write settings, keeping secrets out of data.json when they are stored on the device
+	async persistSettings() {
+		if (this.settings.secretStorage === 'device') {
+			const secrets: Record<string, ProfileSecrets> = {};
+			this.settings.profiles.forEach(profile => secrets[profile.id] = getProfileSecrets(profile));
+			this.app.saveLocalStorage(SECRETS_STORAGE_KEY, secrets);
+			this.secretsOnDevice = true;
+			await this.saveData({ ...this.settings, profiles: this.settings.profiles.map(withoutSecrets) });
+		} else {
+			if (this.secretsOnDevice) {
+				this.app.saveLocalStorage(SECRETS_STORAGE_KEY, null);
+				this.secretsOnDevice = false;
+			}
+			await this.saveData(this.settings);
+		}
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
-		// Recreate API instance with new settings
-		this.canvasApi = new CanvasAPI(this.settings);
+		await this.persistSettings();
+		// Recreate API instances with new settings
+		this.apis.clear();
+		// A changed token or sign-in may have fixed a rejected one
+		this.oauth.resetPrompts();
+		// Pick up interval changes; the scheduler exists once onload got past settings
+		this.autoSync?.start();
 	}
 }
 
@@ -449,3 +1029,27 @@ class SampleModal extends Modal {
 		contentEl.empty();
 	}
 }
+
+class ProfileSuggestModal extends FuzzySuggestModal<CanvasProfile> {
+	private profiles: CanvasProfile[];
+	private onChoose: (profile: CanvasProfile) => void;
+
+	constructor(app: App, profiles: CanvasProfile[], onChoose: (profile: CanvasProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a Canvas profile');
+	}
+
+	getItems(): CanvasProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: CanvasProfile): string {
+		return profile.name;
+	}
+
+	onChooseItem(profile: CanvasProfile): void {
+		this.onChoose(profile);
+	}
+}
@@ -0,0 +1,97 @@
+import { moment } from 'obsidian';
+
+/**
+ * Escape a value for use inside a Markdown table cell
+ * @param value Cell content
+ * @returns Content with pipes escaped and line breaks flattened
+ */
+export function escapeTableCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return String(value)
+        .replace(/\r?\n/g, ' ')
+        .replace(/\|/g, '\\|')
+        .trim();
+}
+
+/**
+ * Escape characters that would end a Markdown link label early
+ * @param text Link label
+ * @returns Label with square brackets escaped
+ */
+export function escapeLinkText(text: string): string {
+    return text.replace(/([[\]])/g, '\\$1');
+}
+
+/**
+ * Build a Markdown table
+ * @param headers Column headers
+ * @param rows Cell values, one array per row
+ * @returns Table Markdown, without a trailing blank line
+ */
+export function markdownTable(headers: string[], rows: unknown[][]): string {
+    const lines = [
+        `| ${headers.map(escapeTableCell).join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(escapeTableCell).join(' | ')} |`)
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Format a Canvas timestamp for generated notes. Unlike the locale
+ * dependent output of the insert commands, this is stable across
+ * machines so re-syncs do not produce spurious diffs.
+ * @param dateStr ISO timestamp
+ * @returns Date as `YYYY-MM-DD HH:mm`, or an empty string
+ */
+export function formatNoteDate(dateStr: string | null | undefined): string {
+    if (!dateStr) return '';
+    const date = moment(dateStr);
+    return date.isValid() ? date.format('YYYY-MM-DD HH:mm') : '';
+}
+
+/**
+ * Format a timestamp for output templates, in a given time zone
+ * @param dateStr ISO timestamp
+ * @param format Moment format
+ * @param timeZone IANA time zone such as `Europe/Berlin`; empty for the system zone
+ * @returns Formatted date, or an empty string for missing or invalid dates
+ */
+export function formatTemplateDate(dateStr: string | null | undefined, format: string, timeZone = ''): string {
+    if (!dateStr) return '';
+    const date = moment(dateStr);
+    if (!date.isValid()) return '';
+    if (timeZone) {
+        const offset = getTimeZoneOffset(date.toDate(), timeZone);
+        if (offset !== null) date.utcOffset(offset);
+    }
+    return date.format(format);
+}
+
+/**
+ * Offset of a time zone from UTC at a given moment, which moment.js
+ * alone cannot tell without its time zone data
+ * @param date Point in time, since offsets change with daylight saving
+ * @param timeZone IANA time zone
+ * @returns Offset in minutes, or null for unknown zones
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number | null {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric'
+        }).formatToParts(date);
+    } catch (error) {
+        return null;
+    }
+    const part = (type: string) => Number(parts.find(other => other.type === type)?.value ?? 0);
+    const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+    return Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
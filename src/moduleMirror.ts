@@ -0,0 +1,471 @@
+import { TAbstractFile, TFile, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import { CanvasFile, Course, Module, ModuleItem } from './canvasTypes';
+import { CanvasApiError } from './errors';
+import { canvasHtmlToMarkdown } from './htmlConverter';
+import { createVaultLinkResolver } from './linkResolver';
+import { escapeLinkText } from './markdownUtils';
+import { upsertRegion, wrapRegion } from './noteRegions';
+import { CanvasProfile, PROFILE_KEY, getProfileFolder, indexProfileNotes, scopedKey } from './profiles';
+import {
+    ensureFolder, getAvailableFilePath, getAvailableNotePath, sanitizeFileName, updateFrontmatterFields
+} from './vaultUtils';
+
+/**
+ * Mirrors the module structure of a course into the vault: one folder
+ * per module with an index note listing its items in order. Pages become
+ * Markdown notes, files are downloaded as attachments, external URLs
+ * become link notes, and assignments link to their synced notes.
+ *
+ * What was written is recorded in a manifest together with Canvas's
+ * `updated_at` and file size, so re-runs only fetch and write what
+ * changed. Items removed from Canvas are left in the vault. Links in
+ * synced notes resolve to mirrored pages and files through the manifest.
+ */
+
+/** Frontmatter key identifying the Canvas module an index note belongs to */
+export const MODULE_ID_KEY = 'canvas_module_id';
+/** Frontmatter key holding the slug of the Canvas page a note mirrors */
+export const PAGE_URL_KEY = 'canvas_page_url';
+
+/** Which files to download */
+export interface MirrorRules {
+    /** File extensions to download, lower case without dot; empty means all */
+    includeExtensions: string[];
+    /** File extensions never to download */
+    excludeExtensions: string[];
+    /** Largest file to download in megabytes; 0 means no limit */
+    maxFileSizeMb: number;
+}
+
+/** Mirroring settings of one course; unset rules fall back to the defaults */
+export interface CourseMirrorRules extends Partial<MirrorRules> {
+    enabled: boolean;
+}
+
+/** What was last written for a mirrored item */
+export interface MirrorEntry {
+    path: string;
+    updatedAt: string | null;
+    size?: number;
+}
+
+/** Where the manifest is persisted; the plugin stores it next to data.json */
+export interface MirrorManifestStore {
+    load(): Promise<Record<string, MirrorEntry> | null>;
+    save(entries: Record<string, MirrorEntry>): Promise<void>;
+}
+
+export interface MirrorResult {
+    created: number;
+    updated: number;
+    unchanged: number;
+    /** Files left out by the download rules */
+    skipped: number;
+}
+
+type MirrorOutcome = keyof MirrorResult;
+
+/** Outcome of mirroring one item, and the line it gets in the module index */
+interface MirroredItem {
+    outcome: MirrorOutcome | null;
+    line: string;
+}
+
+/**
+ * Combine the default rules with a course's overrides
+ * @param defaults Rules from the settings
+ * @param course Overrides of the course, if any
+ * @returns Effective rules
+ */
+export function resolveMirrorRules(defaults: MirrorRules, course?: Partial<MirrorRules>): MirrorRules {
+    return {
+        includeExtensions: course?.includeExtensions ?? defaults.includeExtensions,
+        excludeExtensions: course?.excludeExtensions ?? defaults.excludeExtensions,
+        maxFileSizeMb: course?.maxFileSizeMb ?? defaults.maxFileSizeMb
+    };
+}
+
+/**
+ * Why a file is not downloaded under a set of rules
+ * @param fileName File name including extension
+ * @param size Size in bytes
+ * @param rules Effective rules
+ * @returns Reason to skip the file, or null to download it
+ */
+export function getSkipReason(fileName: string, size: number, rules: MirrorRules): string | null {
+    const dot = fileName.lastIndexOf('.');
+    const extension = dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+    if (rules.includeExtensions.length > 0 && !rules.includeExtensions.includes(extension)) {
+        return `type .${extension || '?'} not included`;
+    }
+    if (rules.excludeExtensions.includes(extension)) {
+        return `type .${extension} excluded`;
+    }
+    if (rules.maxFileSizeMb > 0 && size > rules.maxFileSizeMb * 1024 * 1024) {
+        return `larger than ${rules.maxFileSizeMb} MB`;
+    }
+    return null;
+}
+
+/**
+ * Parse a comma-separated list of file extensions
+ * @param value e.g. `pdf, .pptx`
+ * @returns Lower-case extensions without dots
+ */
+export function parseExtensions(value: string): string[] {
+    return value.split(',')
+        .map(part => part.trim().toLowerCase().replace(/^\./, ''))
+        .filter(part => part !== '');
+}
+
+export class ModuleMirror {
+    plugin: MyPlugin;
+    private store: MirrorManifestStore;
+    private entries: Record<string, MirrorEntry> = {};
+
+    constructor(plugin: MyPlugin, store: MirrorManifestStore) {
+        this.plugin = plugin;
+        this.store = store;
+    }
+
+    /**
+     * Restore the manifest from the store
+     */
+    async load(): Promise<void> {
+        this.entries = (await this.store.load()) ?? {};
+    }
+
+    /**
+     * Vault file a Canvas page or file was mirrored to
+     * @param profileId Profile the item belongs to
+     * @param kind Kind of item
+     * @param id `<course id>/<page slug>` for pages, the file id for files
+     * @returns Mirrored file, or null if it was not mirrored or is gone
+     */
+    getMirroredFile(profileId: string, kind: 'page' | 'file', id: string): TFile | null {
+        const entry = this.entries[scopedKey(profileId, `${kind}:${id}`)];
+        const file = entry ? this.plugin.app.vault.getAbstractFileByPath(entry.path) : null;
+        return file instanceof TFile ? file : null;
+    }
+
+    /**
+     * Whether mirroring is turned on for a course
+     */
+    isEnabled(course: Course, profile: CanvasProfile): boolean {
+        return this.plugin.settings.mirrorCourses[scopedKey(profile.id, course.id)]?.enabled ?? false;
+    }
+
+    /**
+     * Mirror every course of a profile that has mirroring turned on
+     * @param profile Profile to mirror; defaults to the active one
+     * @returns Counts over all courses
+     */
+    async syncAll(profile: CanvasProfile = this.plugin.activeProfile): Promise<MirrorResult> {
+        const courses = (await this.plugin.getApi(profile.id).getCourses(profile.role, 'active'))
+            .filter(course => this.isEnabled(course, profile));
+        const result: MirrorResult = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+        for (const course of courses) {
+            const courseResult = await this.syncCourse(course, profile);
+            (Object.keys(result) as MirrorOutcome[]).forEach(key => result[key] += courseResult[key]);
+        }
+        return result;
+    }
+
+    /**
+     * Mirror the modules of one course, whether or not it is turned on
+     * @param course Course to mirror
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @returns Number of items created, updated, unchanged and skipped
+     */
+    async syncCourse(course: Course, profile: CanvasProfile = this.plugin.activeProfile): Promise<MirrorResult> {
+        const { settings } = this.plugin;
+        const api = this.plugin.getApi(profile.id);
+        const rules = resolveMirrorRules(settings.mirrorRules, settings.mirrorCourses[scopedKey(profile.id, course.id)]);
+        const root = normalizePath(`${getProfileFolder(settings.mirrorFolder || 'Canvas/Modules', profile)}/${sanitizeFileName(course.name)}`);
+        const result: MirrorResult = { created: 0, updated: 0, unchanged: 0, skipped: 0 };
+
+        const modules = [...await api.getCourseModules(course.id)]
+            .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+        const pageUpdates = await this.getPageUpdates(course, profile);
+        const files = await this.getCourseFiles(course, profile);
+        const assignmentNotes = indexProfileNotes(this.plugin.app, ASSIGNMENT_ID_KEY, profile.id);
+
+        try {
+            for (const module of modules) {
+                // Keep a module's folder once written; new folders carry the module id, which survives reordering and renames
+                const indexPath = this.entries[this.key(profile, 'module', module.id)]?.path;
+                const folder = indexPath
+                    ? normalizePath(indexPath.slice(0, indexPath.lastIndexOf('/')))
+                    : normalizePath(`${root}/${sanitizeFileName(module.name)} (${module.id})`);
+                await ensureFolder(this.plugin.app, folder);
+                const sourcePath = indexPath ?? normalizePath(`${folder}/${sanitizeFileName(module.name)}.md`);
+
+                const lines: string[] = [];
+                for (const item of await api.getModuleItems(course.id, module.id)) {
+                    const mirrored = await this.syncItem(item, {
+                        course, profile, folder, rules, pageUpdates, files, assignmentNotes, sourcePath
+                    });
+                    if (mirrored.outcome) result[mirrored.outcome]++;
+                    lines.push(`${'  '.repeat(item.indent ?? 0)}${mirrored.line}`);
+                }
+                await this.writeModuleIndex(module, course, profile, sourcePath, lines);
+            }
+        } finally {
+            // Files written before a failure must be known next time, or they would be written again under a new name
+            await this.store.save(this.entries);
+        }
+        return result;
+    }
+
+    /**
+     * Keep manifest paths current when the user moves or renames a mirrored file
+     * @param file Renamed file
+     * @param oldPath Previous path
+     */
+    handleRename(file: TAbstractFile, oldPath: string): void {
+        let changed = false;
+        Object.values(this.entries).forEach(entry => {
+            if (entry.path === oldPath) {
+                entry.path = file.path;
+                changed = true;
+            }
+        });
+        if (changed) {
+            this.store.save(this.entries).catch(error => console.error('Failed to save Canvas mirror manifest:', error));
+        }
+    }
+
+    private async syncItem(item: ModuleItem, context: ItemContext): Promise<MirroredItem> {
+        const canvasLink = `- ${this.canvasLink(item.title, item.html_url)}`;
+
+        switch (item.type) {
+            case 'SubHeader':
+                return { outcome: null, line: `- **${item.title}**` };
+            case 'Page':
+                if (!item.page_url) return { outcome: null, line: canvasLink };
+                return this.syncPage(item, item.page_url, context);
+            case 'File':
+                if (item.content_id === undefined) return { outcome: null, line: canvasLink };
+                return this.syncFile(item, context);
+            case 'ExternalUrl':
+                return this.syncExternalUrl(item, context);
+            case 'Assignment': {
+                const note = item.content_id !== undefined ? context.assignmentNotes.get(String(item.content_id)) : undefined;
+                return { outcome: null, line: note ? `- ${this.link(note, context.sourcePath)}` : canvasLink };
+            }
+            default:
+                // Quizzes, discussions and external tools only work inside Canvas
+                return { outcome: null, line: canvasLink };
+        }
+    }
+
+    private async syncPage(item: ModuleItem, pageUrl: string, context: ItemContext): Promise<MirroredItem> {
+        const { app } = this.plugin;
+        const key = this.key(context.profile, 'page', `${context.course.id}/${pageUrl}`);
+        const entry = this.entries[key];
+        const existing = entry ? app.vault.getAbstractFileByPath(entry.path) : null;
+        const updatedAt = context.pageUpdates.get(pageUrl) ?? null;
+
+        if (existing instanceof TFile && updatedAt !== null && entry.updatedAt === updatedAt) {
+            return { outcome: 'unchanged', line: `- ${this.link(existing, context.sourcePath)}` };
+        }
+
+        const api = this.plugin.getApi(context.profile.id);
+        const page = await api.getPage(context.course.id, pageUrl, { fresh: true });
+        const body = canvasHtmlToMarkdown(page.body, {
+            baseUrl: api.baseUrl,
+            resolveLink: createVaultLinkResolver(app, context.profile.id, '', this)
+        }) || '_This page is empty._';
+
+        let file: TFile;
+        let outcome: MirrorOutcome = 'updated';
+        if (existing instanceof TFile) {
+            const content = await app.vault.read(existing);
+            const updated = upsertRegion(content, 'page', body);
+            if (updated !== content) {
+                await app.vault.modify(existing, updated);
+            } else {
+                outcome = 'unchanged';
+            }
+            file = existing;
+        } else {
+            const path = getAvailableNotePath(app, context.folder, page.title, pageUrl);
+            file = await app.vault.create(path, [`# ${page.title}`, '', wrapRegion('page', body), ''].join('\n'));
+            outcome = 'created';
+        }
+        await updateFrontmatterFields(app, file, {
+            [PAGE_URL_KEY]: pageUrl,
+            [PROFILE_KEY]: context.profile.id,
+            course: context.course.name,
+            canvas_url: page.html_url ?? item.html_url ?? null
+        });
+
+        this.entries[key] = { path: file.path, updatedAt: page.updated_at ?? updatedAt };
+        return { outcome, line: `- ${this.link(file, context.sourcePath)}` };
+    }
+
+    private async syncFile(item: ModuleItem, context: ItemContext): Promise<MirroredItem> {
+        const { app } = this.plugin;
+        const api = this.plugin.getApi(context.profile.id);
+        const key = this.key(context.profile, 'file', String(item.content_id));
+        const entry = this.entries[key];
+        const existing = entry ? app.vault.getAbstractFileByPath(entry.path) : null;
+
+        // The course file list already has what getFile would return; files missing from it are fetched one by one
+        let file: CanvasFile;
+        try {
+            file = context.files.get(String(item.content_id)) ?? await api.getFile(item.content_id as string | number);
+        } catch (error) {
+            // Locked or unpublished files answer 401/403; list them without a copy
+            if (error instanceof CanvasApiError && [401, 403, 404].includes(error.status)) {
+                return { outcome: 'skipped', line: `- ${this.canvasLink(item.title, item.html_url)} (not available)` };
+            }
+            throw error;
+        }
+
+        const updatedAt = file.updated_at ?? file.modified_at ?? null;
+        if (existing instanceof TFile && entry.updatedAt === updatedAt && entry.size === file.size) {
+            return { outcome: 'unchanged', line: `- ${this.link(existing, context.sourcePath)}` };
+        }
+
+        const reason = file.locked_for_user ? 'locked' : getSkipReason(file.display_name, file.size, context.rules);
+        if (reason) {
+            const line = `- ${this.canvasLink(file.display_name, item.html_url)} (not downloaded: ${reason})`;
+            // A copy from an earlier run is still worth linking to
+            return { outcome: 'skipped', line: existing instanceof TFile ? `- ${this.link(existing, context.sourcePath)}` : line };
+        }
+
+        const data = await api.downloadFile(file);
+        let target: TFile;
+        let outcome: MirrorOutcome;
+        if (existing instanceof TFile) {
+            await app.vault.modifyBinary(existing, data);
+            target = existing;
+            outcome = 'updated';
+        } else {
+            const path = getAvailableFilePath(app, context.folder, file.display_name, String(file.id));
+            target = await app.vault.createBinary(path, data);
+            outcome = 'created';
+        }
+
+        this.entries[key] = { path: target.path, updatedAt, size: file.size };
+        return { outcome, line: `- ${this.link(target, context.sourcePath)}` };
+    }
+
+    private async syncExternalUrl(item: ModuleItem, context: ItemContext): Promise<MirroredItem> {
+        const { app } = this.plugin;
+        const url = item.external_url ?? item.html_url ?? '';
+        const key = this.key(context.profile, 'link', String(item.id));
+        const entry = this.entries[key];
+        const existing = entry ? app.vault.getAbstractFileByPath(entry.path) : null;
+        const body = this.canvasLink(item.title, url);
+
+        let file: TFile;
+        let outcome: MirrorOutcome = 'unchanged';
+        if (existing instanceof TFile) {
+            const content = await app.vault.read(existing);
+            const updated = upsertRegion(content, 'link', body);
+            if (updated !== content) {
+                await app.vault.modify(existing, updated);
+                outcome = 'updated';
+            }
+            file = existing;
+        } else {
+            const path = getAvailableNotePath(app, context.folder, item.title, String(item.id));
+            file = await app.vault.create(path, [`# ${item.title}`, '', wrapRegion('link', body), ''].join('\n'));
+            outcome = 'created';
+        }
+        await updateFrontmatterFields(app, file, { [PROFILE_KEY]: context.profile.id, canvas_url: url });
+
+        this.entries[key] = { path: file.path, updatedAt: null };
+        return { outcome, line: `- ${this.link(file, context.sourcePath)}` };
+    }
+
+    private async writeModuleIndex(module: Module, course: Course, profile: CanvasProfile, path: string, lines: string[]) {
+        const { app } = this.plugin;
+        const body = lines.length > 0 ? lines.join('\n') : 'This module has no items.';
+        const existing = app.vault.getAbstractFileByPath(path);
+
+        let file: TFile;
+        if (existing instanceof TFile) {
+            const content = await app.vault.read(existing);
+            const updated = upsertRegion(content, 'module-items', body);
+            if (updated !== content) {
+                await app.vault.modify(existing, updated);
+            }
+            file = existing;
+        } else {
+            file = await app.vault.create(path, [`# ${module.name}`, '', wrapRegion('module-items', body), ''].join('\n'));
+        }
+        await updateFrontmatterFields(app, file, {
+            [MODULE_ID_KEY]: module.id,
+            [PROFILE_KEY]: profile.id,
+            course: course.name
+        });
+        this.entries[this.key(profile, 'module', module.id)] = { path: file.path, updatedAt: null };
+    }
+
+    /**
+     * Last update of every page in a course, so unchanged pages are not
+     * fetched again. Courses with the Pages tab hidden refuse the list;
+     * their pages are then fetched on every run.
+     */
+    private async getPageUpdates(course: Course, profile: CanvasProfile): Promise<Map<string, string>> {
+        const updates = new Map<string, string>();
+        try {
+            const pages = await this.plugin.getApi(profile.id).getCoursePages(course.id, { fresh: true });
+            pages.forEach(page => {
+                if (page.updated_at) updates.set(page.url, page.updated_at);
+            });
+        } catch (error) {
+            if (!(error instanceof CanvasApiError) || ![401, 403, 404].includes(error.status)) throw error;
+        }
+        return updates;
+    }
+
+    /**
+     * Files of a course by id, so files need not be fetched one by one.
+     * Courses with the Files tab hidden refuse the list; their files are
+     * then fetched on every run.
+     */
+    private async getCourseFiles(course: Course, profile: CanvasProfile): Promise<Map<string, CanvasFile>> {
+        const files = new Map<string, CanvasFile>();
+        try {
+            const list = await this.plugin.getApi(profile.id).getCourseFiles(course.id, { fresh: true });
+            list.forEach(file => files.set(String(file.id), file));
+        } catch (error) {
+            if (!(error instanceof CanvasApiError) || ![401, 403, 404].includes(error.status)) throw error;
+        }
+        return files;
+    }
+
+    private key(profile: CanvasProfile, kind: string, id: string | number): string {
+        return scopedKey(profile.id, `${kind}:${id}`);
+    }
+
+    private link(file: TFile, sourcePath: string): string {
+        return this.plugin.app.fileManager.generateMarkdownLink(file, sourcePath);
+    }
+
+    /** Link to an item in Canvas, or its plain title if it has no URL */
+    private canvasLink(title: string, url?: string): string {
+        return url ? `[${escapeLinkText(title)}](${url})` : escapeLinkText(title);
+    }
+}
+
+interface ItemContext {
+    course: Course;
+    profile: CanvasProfile;
+    /** Module folder new files go into */
+    folder: string;
+    rules: MirrorRules;
+    /** Last update of each page, by page URL */
+    pageUpdates: Map<string, string>;
+    /** Files of the course, by id */
+    files: Map<string, CanvasFile>;
+    assignmentNotes: Map<string, TFile>;
+    /** Path of the module index note, for relative links */
+    sourcePath: string;
+}
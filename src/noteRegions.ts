@@ -0,0 +1,71 @@
+/**
+ * Managed regions inside user notes.
+ *
+ * Synced notes mix generated content with the user's own writing. Every
+ * generated block is wrapped in a pair of Obsidian comment markers, so a
+ * re-sync can replace exactly that block and leave everything else alone.
+ */
+
+/**
+ * Opening marker of a managed region
+ * @param id Region id, e.g. 'assignments'
+ * @returns Marker line
+ */
+export function regionStart(id: string): string {
+    return `%% canvas-sync:start ${id} %%`;
+}
+
+/**
+ * Closing marker of a managed region
+ * @param id Region id, e.g. 'assignments'
+ * @returns Marker line
+ */
+export function regionEnd(id: string): string {
+    return `%% canvas-sync:end ${id} %%`;
+}
+
+/**
+ * Wrap generated content in region markers
+ * @param id Region id
+ * @param body Generated Markdown
+ * @returns Body surrounded by start and end markers
+ */
+export function wrapRegion(id: string, body: string): string {
+    return `${regionStart(id)}\n${body.trim()}\n${regionEnd(id)}`;
+}
+
+/**
+ * Read the current body of a managed region
+ * @param content Full note content
+ * @param id Region id
+ * @returns Region body, or null if the note has no such region
+ */
+export function readRegion(content: string, id: string): string | null {
+    const start = content.indexOf(regionStart(id));
+    if (start === -1) return null;
+    const bodyStart = start + regionStart(id).length;
+    const end = content.indexOf(regionEnd(id), bodyStart);
+    if (end === -1) return null;
+    return content.slice(bodyStart, end).trim();
+}
+
+/**
+ * Replace the body of a managed region, appending the region to the end
+ * of the note if it does not exist yet
+ * @param content Full note content
+ * @param id Region id
+ * @param body New generated Markdown
+ * @returns Updated note content
+ */
+export function upsertRegion(content: string, id: string, body: string): string {
+    const wrapped = wrapRegion(id, body);
+    const start = content.indexOf(regionStart(id));
+    const end = start === -1 ? -1 : content.indexOf(regionEnd(id), start);
+
+    if (start === -1 || end === -1) {
+        const separator = content.length === 0 || content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+        return `${content}${separator}${wrapped}\n`;
+    }
+
+    return content.slice(0, start) + wrapped + content.slice(end + regionEnd(id).length);
+}
@@ -0,0 +1,442 @@
+import { App, Modal, Notice, ObsidianProtocolData, Setting } from 'obsidian';
+import MyPlugin from './main';
+import { OAuthError } from './errors';
+import { HttpTransport, obsidianTransport } from './httpTransport';
+import { CanvasProfile } from './profiles';
+import { ProxyWarningModal } from './proxy';
+
+/**
+ * OAuth2 sign-in against the Canvas `/login/oauth2` endpoints, using a
+ * developer key the user creates in their Canvas account.
+ *
+ * Sign-in opens the Canvas authorization page in the browser; Canvas
+ * redirects back to `obsidian://canvas-oauth` with a code, which is
+ * exchanged for an access token and a refresh token. Access tokens
+ * expire after an hour and are refreshed shortly before that, or when
+ * Canvas rejects one. The token functions only need the Canvas URL and
+ * take the same HttpTransport as CanvasAPI, so they work just as well
+ * against a local mock server.
+ */
+
+/** Action of the `obsidian://` URL Canvas redirects to after sign-in */
+export const OAUTH_PROTOCOL_ACTION = 'canvas-oauth';
+export const OAUTH_REDIRECT_URI = `obsidian://${OAUTH_PROTOCOL_ACTION}`;
+
+/** Refresh access tokens this long before they expire */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+/** Sign-ins not completed within this time are forgotten */
+const SIGN_IN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Developer key credentials */
+export interface OAuthClient {
+    clientId: string;
+    clientSecret: string;
+    redirectUri: string;
+}
+
+export interface OAuthTokens {
+    accessToken: string;
+    refreshToken: string;
+    /** Epoch milliseconds at which the access token expires, or null if it does not */
+    expiresAt: number | null;
+}
+
+/**
+ * Receives token events from CanvasAPI. The plugin implements this with
+ * CanvasOAuth; without a handler, rejected tokens just fail the request.
+ */
+export interface CanvasAuthHandler {
+    /**
+     * Get a new access token for a profile
+     * @returns The new token, or null if the profile cannot refresh
+     */
+    refresh(profile: CanvasProfile): Promise<string | null>;
+    /** Called when Canvas rejected a profile's token and refreshing did not help */
+    onUnauthorized(profile: CanvasProfile): void;
+    /**
+     * Ask whether a profile's token may go to a proxy outside the Canvas
+     * host. Without this method such requests are refused.
+     * @returns True if the user approved the proxy
+     */
+    approveProxyHost?(profile: CanvasProfile, host: string): Promise<boolean>;
+}
+
+/**
+ * URL of the Canvas page where the user authorizes the developer key
+ * @param baseUrl Canvas instance URL
+ * @param client Developer key credentials
+ * @param state Random value echoed back in the redirect
+ * @returns Authorization URL
+ */
+export function buildAuthorizeUrl(baseUrl: string, client: OAuthClient, state: string): string {
+    const params = new URLSearchParams({
+        client_id: client.clientId,
+        response_type: 'code',
+        redirect_uri: client.redirectUri,
+        state
+    });
+    return `${baseUrl.replace(/\/$/, '')}/login/oauth2/auth?${params.toString()}`;
+}
+
+/**
+ * Read a token endpoint response
+ * @param json Response body
+ * @param now Current time in epoch milliseconds
+ * @param previousRefreshToken Refresh token to keep if the response has none;
+ * Canvas only issues one with the first token
+ * @returns Access token, refresh token and expiry
+ * @throws OAuthError if the response carries no access token
+ */
+export function parseTokenResponse(json: unknown, now: number, previousRefreshToken = ''): OAuthTokens {
+    const accessToken = getStringField(json, 'access_token');
+    if (!accessToken) {
+        throw new OAuthError(getStringField(json, 'error') || 'invalid_response',
+            getStringField(json, 'error_description') || 'No access token in response');
+    }
+    const expiresIn = typeof json === 'object' && json !== null ? Number((json as Record<string, unknown>).expires_in) : NaN;
+    return {
+        accessToken,
+        refreshToken: getStringField(json, 'refresh_token') || previousRefreshToken,
+        expiresAt: expiresIn > 0 ? now + expiresIn * 1000 : null
+    };
+}
+
+/**
+ * String field of a parsed JSON body
+ * @param json Parsed body, of any shape
+ * @param key Field name
+ * @returns The field, or an empty string if the body has no such string
+ */
+function getStringField(json: unknown, key: string): string {
+    if (typeof json !== 'object' || json === null) return '';
+    const value = (json as Record<string, unknown>)[key];
+    return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Whether an OAuth2 profile's access token is expired or about to be
+ * @param profile Profile
+ * @param now Current time in epoch milliseconds
+ * @returns False for token profiles and tokens without expiry
+ */
+export function isTokenExpiring(profile: CanvasProfile, now: number = Date.now()): boolean {
+    return profile.authMethod === 'oauth' && profile.oauthExpiresAt !== null
+        && now >= profile.oauthExpiresAt - EXPIRY_MARGIN_MS;
+}
+
+/**
+ * Exchange the code from the sign-in redirect for tokens
+ * @param baseUrl Canvas instance URL
+ * @param client Developer key credentials
+ * @param code Authorization code
+ * @param transport HTTP transport, Obsidian's `requestUrl` by default
+ * @returns Issued tokens
+ */
+export async function exchangeAuthorizationCode(
+    baseUrl: string,
+    client: OAuthClient,
+    code: string,
+    transport: HttpTransport = obsidianTransport
+): Promise<OAuthTokens> {
+    const json = await requestToken(transport, baseUrl, {
+        grant_type: 'authorization_code',
+        client_id: client.clientId,
+        client_secret: client.clientSecret,
+        redirect_uri: client.redirectUri,
+        code
+    });
+    return parseTokenResponse(json, Date.now());
+}
+
+/**
+ * Get a new access token with a refresh token
+ * @param baseUrl Canvas instance URL
+ * @param client Developer key credentials
+ * @param refreshToken Refresh token from the sign-in
+ * @param transport HTTP transport, Obsidian's `requestUrl` by default
+ * @returns New access token; the refresh token stays the same
+ */
+export async function refreshAccessToken(
+    baseUrl: string,
+    client: OAuthClient,
+    refreshToken: string,
+    transport: HttpTransport = obsidianTransport
+): Promise<OAuthTokens> {
+    const json = await requestToken(transport, baseUrl, {
+        grant_type: 'refresh_token',
+        client_id: client.clientId,
+        client_secret: client.clientSecret,
+        refresh_token: refreshToken
+    });
+    return parseTokenResponse(json, Date.now(), refreshToken);
+}
+
+/**
+ * Ask Canvas to revoke an access token and the refresh token issued with it
+ * @param baseUrl Canvas instance URL
+ * @param accessToken Access token to revoke
+ * @param transport HTTP transport, Obsidian's `requestUrl` by default
+ * @throws OAuthError if Canvas refuses
+ */
+export async function revokeAccessToken(
+    baseUrl: string,
+    accessToken: string,
+    transport: HttpTransport = obsidianTransport
+): Promise<void> {
+    const response = await transport({
+        url: `${baseUrl.replace(/\/$/, '')}/login/oauth2/token`,
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+    });
+    readTokenResponse(response.status, response.text);
+}
+
+/**
+ * POST to the token endpoint. Requests go straight to Canvas, never
+ * through the CORS proxy, since they carry the client secret.
+ */
+async function requestToken(transport: HttpTransport, baseUrl: string, params: Record<string, string>): Promise<unknown> {
+    const response = await transport({
+        url: `${baseUrl.replace(/\/$/, '')}/login/oauth2/token`,
+        method: 'POST',
+        contentType: 'application/x-www-form-urlencoded',
+        body: new URLSearchParams(params).toString()
+    });
+    return readTokenResponse(response.status, response.text);
+}
+
+/**
+ * Parse a token endpoint body
+ * @throws OAuthError for error statuses, with Canvas's error code if it sent one
+ */
+function readTokenResponse(status: number, text: string): unknown {
+    let json: unknown = null;
+    try {
+        json = text ? JSON.parse(text) : null;
+    } catch (error) {
+        json = null;
+    }
+    if (status >= 400) {
+        throw new OAuthError(getStringField(json, 'error') || `HTTP ${status}`, getStringField(json, 'error_description') || undefined);
+    }
+    return json;
+}
+
+function randomState(): string {
+    const bytes = new Uint8Array(16);
+    window.crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Runs sign-in for OAuth2 profiles and keeps their tokens fresh
+ */
+export class CanvasOAuth implements CanvasAuthHandler {
+    plugin: MyPlugin;
+    private transport: HttpTransport;
+    /** Sign-ins waiting for their redirect, by state */
+    private pending = new Map<string, { profileId: string; startedAt: number }>();
+    /** Refreshes in flight, so parallel requests share one */
+    private refreshing = new Map<string, Promise<string | null>>();
+    /** Profiles the user was already asked to sign in again */
+    private prompted = new Set<string>();
+    /** Proxy warnings awaiting an answer, by profile and host */
+    private proxyPrompts = new Map<string, Promise<boolean>>();
+    /** Proxies the user declined, by profile and host */
+    private declinedProxies = new Set<string>();
+
+    constructor(plugin: MyPlugin, transport: HttpTransport = obsidianTransport) {
+        this.plugin = plugin;
+        this.transport = transport;
+    }
+
+    /**
+     * Open the Canvas authorization page for a profile
+     * @param profile OAuth2 profile with a developer key
+     */
+    signIn(profile: CanvasProfile): void {
+        if (!profile.oauthClientId || !profile.oauthClientSecret) {
+            new Notice('Enter the client ID and secret of your Canvas developer key first');
+            return;
+        }
+        const state = randomState();
+        this.pending.set(state, { profileId: profile.id, startedAt: Date.now() });
+        window.open(buildAuthorizeUrl(profile.canvasApiUrl, this.getClient(profile), state));
+    }
+
+    /**
+     * Complete a sign-in from the `obsidian://canvas-oauth` redirect
+     * @param params Query parameters of the redirect
+     */
+    async handleRedirect(params: ObsidianProtocolData): Promise<void> {
+        const attempt = this.pending.get(params.state ?? '');
+        if (!attempt || Date.now() - attempt.startedAt > SIGN_IN_TIMEOUT_MS) {
+            new Notice('Canvas sign-in expired or was not started here. Try again from the settings.');
+            return;
+        }
+        this.pending.delete(params.state);
+
+        const profile = this.plugin.settings.profiles.find(other => other.id === attempt.profileId);
+        if (!profile) return;
+        if (params.error || !params.code) {
+            new Notice(`Canvas sign-in cancelled: ${params.error_description || params.error || 'no code received'}`);
+            return;
+        }
+
+        try {
+            const tokens = await exchangeAuthorizationCode(profile.canvasApiUrl, this.getClient(profile), params.code, this.transport);
+            this.applyTokens(profile, tokens);
+            this.prompted.delete(profile.id);
+            await this.plugin.saveSettings();
+            new Notice(`Signed in to Canvas (${profile.name})`);
+        } catch (error) {
+            console.error('Canvas sign-in failed:', error);
+            new Notice(error.message || 'Canvas sign-in failed');
+        }
+    }
+
+    /**
+     * Forget a profile's tokens and ask Canvas to revoke them
+     * @param profile OAuth2 profile
+     */
+    async signOut(profile: CanvasProfile): Promise<void> {
+        if (profile.canvasApiToken) {
+            // Best effort; the tokens are dropped locally either way
+            await revokeAccessToken(profile.canvasApiUrl, profile.canvasApiToken, this.transport)
+                .catch(error => console.warn('Could not revoke Canvas token:', error));
+        }
+        this.applyTokens(profile, { accessToken: '', refreshToken: '', expiresAt: null });
+        await this.plugin.saveSettings();
+    }
+
+    async refresh(profile: CanvasProfile): Promise<string | null> {
+        if (profile.authMethod !== 'oauth' || !profile.oauthRefreshToken) return null;
+
+        let refresh = this.refreshing.get(profile.id);
+        if (!refresh) {
+            refresh = this.doRefresh(profile).finally(() => this.refreshing.delete(profile.id));
+            this.refreshing.set(profile.id, refresh);
+        }
+        return refresh;
+    }
+
+    /**
+     * Allow asking about rejected tokens again, e.g. after the user
+     * changed the settings
+     */
+    resetPrompts(): void {
+        this.prompted.clear();
+        this.declinedProxies.clear();
+    }
+
+    onUnauthorized(profile: CanvasProfile): void {
+        // Ask once; background syncs would otherwise stack up dialogs
+        if (this.prompted.has(profile.id)) return;
+        this.prompted.add(profile.id);
+        new ReauthModal(this.plugin.app, profile, () => this.signIn(profile)).open();
+    }
+
+    async approveProxyHost(profile: CanvasProfile, host: string): Promise<boolean> {
+        if (profile.approvedProxyHost === host) return true;
+        const key = `${profile.id}/${host}`;
+        // Like sign-in prompts, ask once instead of once per queued request
+        if (this.declinedProxies.has(key)) return false;
+        let prompt = this.proxyPrompts.get(key);
+        if (!prompt) {
+            prompt = new Promise<boolean>(resolve => new ProxyWarningModal(this.plugin.app, profile, host, resolve).open())
+                .then(async approved => {
+                    if (approved) {
+                        profile.approvedProxyHost = host;
+                        // Only persist, so requests waiting on this answer keep their client
+                        await this.plugin.persistSettings();
+                    } else {
+                        this.declinedProxies.add(key);
+                    }
+                    return approved;
+                })
+                .finally(() => this.proxyPrompts.delete(key));
+            this.proxyPrompts.set(key, prompt);
+        }
+        return prompt;
+    }
+
+    private async doRefresh(profile: CanvasProfile): Promise<string | null> {
+        try {
+            const tokens = await refreshAccessToken(profile.canvasApiUrl, this.getClient(profile), profile.oauthRefreshToken, this.transport);
+            this.applyTokens(profile, tokens);
+            // Only persist; recreating the API clients would drop requests in flight
+            await this.plugin.persistSettings();
+            return tokens.accessToken;
+        } catch (error) {
+            console.error('Refreshing the Canvas token failed:', error);
+            if (error instanceof OAuthError) {
+                // The refresh token was revoked or expired; only a new sign-in helps
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private applyTokens(profile: CanvasProfile, tokens: OAuthTokens): void {
+        profile.canvasApiToken = tokens.accessToken;
+        profile.oauthRefreshToken = tokens.refreshToken;
+        profile.oauthExpiresAt = tokens.expiresAt;
+    }
+
+    private getClient(profile: CanvasProfile): OAuthClient {
+        return {
+            clientId: profile.oauthClientId,
+            clientSecret: profile.oauthClientSecret,
+            redirectUri: OAUTH_REDIRECT_URI
+        };
+    }
+}
+
+/**
+ * Tells the user a profile's token stopped working and how to fix it
+ */
+class ReauthModal extends Modal {
+    private profile: CanvasProfile;
+    private onSignIn: () => void;
+
+    constructor(app: App, profile: CanvasProfile, onSignIn: () => void) {
+        super(app);
+        this.profile = profile;
+        this.onSignIn = onSignIn;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h3', { text: 'Canvas sign-in required' });
+
+        if (this.profile.authMethod === 'oauth') {
+            contentEl.createEl('p', {
+                text: `Canvas no longer accepts the sign-in of the "${this.profile.name}" profile. Sign in again to continue syncing.`
+            });
+            new Setting(contentEl)
+                .addButton(button => button
+                    .setButtonText('Sign in')
+                    .setCta()
+                    .onClick(() => {
+                        this.close();
+                        this.onSignIn();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Later')
+                    .onClick(() => this.close()));
+        } else {
+            contentEl.createEl('p', {
+                text: `Canvas rejected the access token of the "${this.profile.name}" profile. It may have expired or been revoked. `
+                    + 'Create a new token in Canvas under Account → Settings and enter it in the plugin settings.'
+            });
+            new Setting(contentEl)
+                .addButton(button => button
+                    .setButtonText('OK')
+                    .onClick(() => this.close()));
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,371 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import {
+    Assignment, CalendarEvent, Course, SUBMISSION_STATUS_LABELS, TodoItem, UserProfile, getSubmissionStatus,
+    getTodoDueAt, getTodoTitle, isSubmissionComplete
+} from './canvasTypes';
+import { formatTemplateDate } from './markdownUtils';
+import { renderOutputTemplate } from './templateEngine';
+
+/**
+ * Templates of the "Insert in Note" commands. Each command offers
+ * built-in list, table and task layouts where they make sense, a
+ * template typed into the settings, or a template file in the vault.
+ * The data each template receives is built here, so the placeholders
+ * stay the same whichever layout is chosen.
+ */
+
+export type OutputTemplateId = 'courses' | 'profile' | 'events' | 'todo' | 'todoTasks' | 'grades';
+
+export type TemplateVariant = 'list' | 'table' | 'tasks' | 'custom' | 'file';
+
+export interface OutputTemplateSetting {
+    variant: TemplateVariant;
+    /** Template text used by the 'custom' variant */
+    custom: string;
+    /** Vault path of the template used by the 'file' variant */
+    file: string;
+}
+
+export interface TemplateFormat {
+    /** Moment format used by `date` without an explicit format */
+    dateFormat: string;
+    /** IANA time zone; empty for the system zone */
+    timeZone: string;
+}
+
+export const TEMPLATE_VARIANT_LABELS: Record<TemplateVariant, string> = {
+    list: 'List',
+    table: 'Table',
+    tasks: 'Tasks',
+    custom: 'Custom template',
+    file: 'Template file'
+};
+
+export const OUTPUT_TEMPLATE_NAMES: Record<OutputTemplateId, string> = {
+    courses: 'Courses and assignments',
+    profile: 'User profile',
+    events: 'Upcoming events',
+    todo: 'Todo items',
+    todoTasks: 'Todo items as tasks',
+    grades: 'Course grades'
+};
+
+/** Built-in layouts of each command */
+export const BUILT_IN_TEMPLATES: Record<OutputTemplateId, Partial<Record<TemplateVariant, string>>> = {
+    courses: {
+        table: `## Canvas Active Courses
+
+{{#each courses}}
+- **{{name}}** (ID: {{id}})
+{{/each}}
+{{#each courses}}
+
+### Assignments for {{name}}
+
+{{#if assignments}}
+| Assignment | Due Date | Status |
+| --- | --- | --- |
+{{#each assignments}}
+| {{name|cell}} | {{due|date|default:"No date"|cell}} | {{status|cell}} |
+{{/each}}
+
+**Summary:** {{completed}} completed, {{pending}} pending assignments
+{{else}}
+No assignments found for this course.
+{{/if}}
+{{/each}}
+`,
+        list: `## Canvas Active Courses
+{{#each courses}}
+
+### {{name}}
+
+{{#each assignments}}
+- {{name}}: due {{due|date|default:"no date"}} ({{status}})
+{{else}}
+No assignments found for this course.
+{{/each}}
+{{/each}}
+`,
+        tasks: `## Canvas Assignments
+{{#each courses}}
+
+### {{name}}
+
+{{#each assignments}}
+- [{{#if completed}}x{{else}} {{/if}}] {{name}} (due {{due|date|default:"no date"}})
+{{else}}
+No assignments found for this course.
+{{/each}}
+{{/each}}
+`
+    },
+    profile: {
+        list: `## Canvas User Profile
+
+- **Name:** {{name}}
+- **ID:** {{id}}
+- **Email:** {{email|default:"N/A"}}
+- **Login ID:** {{login_id}}
+
+`,
+        table: `## Canvas User Profile
+
+| Field | Value |
+| --- | --- |
+| Name | {{name|cell}} |
+| ID | {{id|cell}} |
+| Email | {{email|default:"N/A"|cell}} |
+| Login ID | {{login_id|cell}} |
+
+`
+    },
+    events: {
+        table: `## Canvas Upcoming Events
+
+{{#if events}}
+| Event | Date | Course |
+| --- | --- | --- |
+{{#each events}}
+| {{title|cell}} | {{start|date|default:"No date"|cell}} | {{course|default:"N/A"|cell}} |
+{{/each}}
+{{else}}
+No upcoming events found.
+{{/if}}
+`,
+        list: `## Canvas Upcoming Events
+
+{{#each events}}
+- {{start|date|default:"No date"}}: {{title}} ({{course|default:"N/A"}})
+{{else}}
+No upcoming events found.
+{{/each}}
+`,
+        tasks: `## Canvas Upcoming Events
+
+{{#each events}}
+- [ ] {{title}} ({{course|default:"N/A"}}, {{start|date|default:"no date"}})
+{{else}}
+No upcoming events found.
+{{/each}}
+`
+    },
+    todo: {
+        table: `## Canvas Todo Items
+
+{{#if items}}
+| Assignment | Course | Due Date |
+| --- | --- | --- |
+{{#each items}}
+| {{title|cell}} | {{course|default:"N/A"|cell}} | {{due|date|default:"No date"|cell}} |
+{{/each}}
+{{else}}
+No todo items found.
+{{/if}}
+`,
+        list: `## Canvas Todo Items
+
+{{#each items}}
+- {{title}} ({{course|default:"N/A"}}, due {{due|date|default:"no date"}})
+{{else}}
+No todo items found.
+{{/each}}
+`,
+        tasks: `## Canvas Todo Items
+
+{{#each items}}
+- [ ] {{title}} ({{course|default:"N/A"}}, due {{due|date|default:"no date"}})
+{{else}}
+No todo items found.
+{{/each}}
+`
+    },
+    todoTasks: {
+        tasks: `## Canvas Todo Items
+
+{{#each items}}
+- [ ] {{title}} ({{course|default:"N/A"}}, due {{due|date|default:"no date"}}) {{marker}}
+{{else}}
+No todo items found.
+{{/each}}
+`
+    },
+    grades: {
+        table: `## Canvas Course Grades
+
+| Course | Grade | Score |
+| --- | --- | --- |
+{{#each courses}}
+| {{name|cell}} | {{grade|default:"N/A"|cell}} | {{score|default:"N/A"|cell}} |
+{{else}}
+No courses with grades found.
+{{/each}}
+`,
+        list: `## Canvas Course Grades
+
+{{#each courses}}
+- **{{name}}**: {{grade|default:"no grade"}}{{#if score}} ({{score}}%){{/if}}
+{{else}}
+No courses with grades found.
+{{/each}}
+`
+    }
+};
+
+export const DEFAULT_OUTPUT_TEMPLATES: Record<OutputTemplateId, OutputTemplateSetting> = {
+    courses: { variant: 'table', custom: '', file: '' },
+    profile: { variant: 'list', custom: '', file: '' },
+    events: { variant: 'table', custom: '', file: '' },
+    todo: { variant: 'table', custom: '', file: '' },
+    todoTasks: { variant: 'tasks', custom: '', file: '' },
+    grades: { variant: 'table', custom: '', file: '' }
+};
+
+/**
+ * Layouts a command can use, built-in ones first
+ * @param id Command template id
+ * @returns Available variants
+ */
+export function getTemplateVariants(id: OutputTemplateId): TemplateVariant[] {
+    return [...Object.keys(BUILT_IN_TEMPLATES[id]) as TemplateVariant[], 'custom', 'file'];
+}
+
+/**
+ * Load the template text a command is set to use
+ * @param app Obsidian app, to read template files
+ * @param id Command template id
+ * @param setting The command's template setting
+ * @returns Template text
+ */
+export async function loadOutputTemplate(app: App, id: OutputTemplateId, setting: OutputTemplateSetting): Promise<string> {
+    const builtIn = BUILT_IN_TEMPLATES[id];
+    const fallback = builtIn[DEFAULT_OUTPUT_TEMPLATES[id].variant] ?? '';
+    switch (setting.variant) {
+        case 'custom':
+            return setting.custom || fallback;
+        case 'file': {
+            if (!setting.file) return fallback;
+            const path = normalizePath(setting.file.endsWith('.md') ? setting.file : `${setting.file}.md`);
+            const file = app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                throw new Error(`Template file ${path} not found`);
+            }
+            return app.vault.cachedRead(file);
+        }
+        default:
+            return builtIn[setting.variant] ?? fallback;
+    }
+}
+
+/**
+ * Fill a command template
+ * @param template Template text
+ * @param data Template data, as built by the functions below
+ * @param format Date format and time zone
+ * @returns Markdown to insert
+ */
+export function renderCommandTemplate(template: string, data: Record<string, unknown>, format: TemplateFormat): string {
+    return renderOutputTemplate(template, { now: new Date().toISOString(), ...data }, {
+        formatDate: (value, dateFormat) => formatTemplateDate(value, dateFormat || format.dateFormat, format.timeZone)
+    });
+}
+
+/**
+ * Data of the courses template: `courses[]` with `name`, `id`, `code`,
+ * `completed`, `pending` and `assignments[]` with `name`, `due`, `status`,
+ * `completed`, `points` and `url`. Undated assignments are left out.
+ */
+export function buildCoursesData(courses: Course[], assignmentsByCourse: Assignment[][]): Record<string, unknown> {
+    return {
+        courses: courses.map((course, index) => {
+            const assignments = (assignmentsByCourse[index] ?? [])
+                .filter(assignment => assignment.due_at)
+                .map(assignment => ({
+                    name: assignment.name,
+                    id: assignment.id,
+                    due: assignment.due_at,
+                    status: SUBMISSION_STATUS_LABELS[getSubmissionStatus(assignment)],
+                    completed: isSubmissionComplete(assignment),
+                    points: assignment.points_possible ?? null,
+                    url: assignment.html_url ?? ''
+                }));
+            const completed = assignments.filter(assignment => assignment.completed).length;
+            return {
+                name: course.name,
+                id: course.id,
+                code: course.course_code ?? '',
+                assignments,
+                completed,
+                pending: assignments.length - completed
+            };
+        })
+    };
+}
+
+/**
+ * Data of the profile template: `name`, `id`, `email`, `login_id`, `time_zone`
+ */
+export function buildProfileData(profile: UserProfile): Record<string, unknown> {
+    return {
+        name: profile.name,
+        id: profile.id,
+        email: profile.primary_email || profile.email || '',
+        login_id: profile.login_id ?? '',
+        time_zone: profile.time_zone ?? ''
+    };
+}
+
+/**
+ * Data of the events template: `events[]` with `title`, `start`, `end`,
+ * `course`, `location` and `url`
+ */
+export function buildEventsData(events: CalendarEvent[]): Record<string, unknown> {
+    return {
+        events: events.map(event => ({
+            title: event.title,
+            start: event.start_at,
+            end: event.end_at ?? null,
+            course: event.context_name ?? '',
+            location: event.location_name ?? '',
+            url: event.html_url ?? ''
+        }))
+    };
+}
+
+/**
+ * Data of the todo templates: `items[]` with `title`, `course`, `due`,
+ * `type`, `url` and, for task output, the completion-sync `marker`
+ * @param todos Todo items
+ * @param markerFor Task marker of an item, if it can be synced
+ */
+export function buildTodoData(todos: TodoItem[], markerFor: (todo: TodoItem) => string = () => ''): Record<string, unknown> {
+    return {
+        items: todos.map(todo => ({
+            title: getTodoTitle(todo),
+            course: todo.context_name ?? '',
+            due: getTodoDueAt(todo),
+            type: todo.type,
+            url: todo.html_url ?? '',
+            marker: markerFor(todo)
+        }))
+    };
+}
+
+/**
+ * Data of the grades template: `courses[]` with `name`, `id`, `grade`,
+ * `score` and `period`, taken from the student enrollment
+ */
+export function buildGradesData(courses: Course[]): Record<string, unknown> {
+    return {
+        courses: courses.map(course => {
+            const enrollment = course.enrollments?.find(other => other.type === 'student') ?? course.enrollments?.[0];
+            return {
+                name: course.name,
+                id: course.id,
+                grade: enrollment?.computed_current_grade ?? '',
+                score: enrollment?.computed_current_score ?? '',
+                period: enrollment?.current_grading_period_title ?? ''
+            };
+        })
+    };
+}
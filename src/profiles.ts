@@ -0,0 +1,196 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { findNoteByFrontmatter, indexNotesByFrontmatter, sanitizeFileName } from './vaultUtils';
+
+/**
+ * Canvas profiles: one per Canvas account, e.g. a student account at one
+ * institution and a TA account at another.
+ *
+ * Synced notes record the profile they came from in frontmatter, since
+ * course and assignment ids are only unique within one Canvas instance.
+ * Notes written before profiles existed have no profile key and belong
+ * to the default profile, which keeps the id `default` so those notes
+ * and task markers stay valid.
+ */
+
+/** How a profile authorizes requests: a pasted access token, or OAuth2 sign-in */
+export type CanvasAuthMethod = 'token' | 'oauth';
+
+/** Enrollment type a profile works as; it decides which courses are listed */
+export type EnrollmentRole = 'student' | 'teacher' | 'ta';
+
+export interface CanvasProfile {
+    /** Stable id written into notes and task markers; never changes */
+    id: string;
+    name: string;
+    canvasApiUrl: string;
+    authMethod: CanvasAuthMethod;
+    /** Access token; for OAuth2 profiles the one issued at sign-in */
+    canvasApiToken: string;
+    /** Client ID of the Canvas developer key used for OAuth2 sign-in */
+    oauthClientId: string;
+    oauthClientSecret: string;
+    oauthRefreshToken: string;
+    /** Epoch milliseconds at which the OAuth2 access token expires */
+    oauthExpiresAt: number | null;
+    useProxy: boolean;
+    /** Self-hosted proxy that forwards requests to Canvas; see proxy/canvas-proxy.mjs */
+    corsProxyUrl: string;
+    /** Shared secret the proxy checks request signatures against */
+    proxySecret: string;
+    /** Proxy host the user agreed to send the token to; empty until asked */
+    approvedProxyHost: string;
+    /** IDs of the courses to work with; empty means all active courses */
+    enabledCourses: string[];
+    /** Teacher and TA profiles list the courses they teach and unlock the grading commands */
+    role: EnrollmentRole;
+}
+
+/** Frontmatter key naming the profile a synced note belongs to */
+export const PROFILE_KEY = 'canvas_profile';
+
+/** Id of the profile migrated from single-account settings */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/** Profile fields that grant access to Canvas and must not leak */
+export const PROFILE_SECRET_FIELDS = ['canvasApiToken', 'oauthClientSecret', 'oauthRefreshToken', 'proxySecret'] as const;
+
+export type ProfileSecrets = Pick<CanvasProfile, typeof PROFILE_SECRET_FIELDS[number]>;
+
+/**
+ * Where secrets are kept: in data.json, which travels with the vault, or
+ * in this device's local storage, which is never synced or backed up
+ */
+export type SecretStorage = 'vault' | 'device';
+
+/** Local storage key holding secrets by profile id when stored on the device */
+export const SECRETS_STORAGE_KEY = 'canvas-lms-secrets';
+
+export const DEFAULT_PROFILE: CanvasProfile = {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    canvasApiUrl: 'https://canvas.instructure.com',
+    authMethod: 'token',
+    canvasApiToken: '',
+    oauthClientId: '',
+    oauthClientSecret: '',
+    oauthRefreshToken: '',
+    oauthExpiresAt: null,
+    useProxy: false,
+    corsProxyUrl: '',
+    proxySecret: '',
+    approvedProxyHost: '',
+    enabledCourses: [],
+    role: 'student'
+};
+
+/**
+ * Create a new profile with a fresh id
+ * @param name Display name
+ * @param existing Profiles already configured, to keep ids unique
+ * @returns Profile with default connection settings
+ */
+export function createProfile(name: string, existing: CanvasProfile[]): CanvasProfile {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'profile';
+    let id = base;
+    for (let n = 2; existing.some(profile => profile.id === id); n++) {
+        id = `${base}-${n}`;
+    }
+    return { ...DEFAULT_PROFILE, id, name, enabledCourses: [] };
+}
+
+/**
+ * Whether a synced note belongs to a profile
+ * @param frontmatter Note frontmatter
+ * @param profileId Profile id
+ * @returns True if the note names the profile, or names none and the profile is the default one
+ */
+export function belongsToProfile(frontmatter: Record<string, unknown>, profileId: string): boolean {
+    const noteProfile = frontmatter[PROFILE_KEY];
+    return (noteProfile === undefined || noteProfile === null ? DEFAULT_PROFILE_ID : String(noteProfile)) === profileId;
+}
+
+/**
+ * Key for state kept per Canvas object, such as a course, across profiles.
+ * Keys of the default profile are the plain id, so state saved before
+ * profiles existed stays valid.
+ * @param profileId Profile the object belongs to
+ * @param id Canvas id, or another key unique within the profile
+ * @returns Key unique across profiles
+ */
+export function scopedKey(profileId: string, id: string | number): string {
+    return profileId === DEFAULT_PROFILE_ID ? String(id) : `${profileId}/${id}`;
+}
+
+/**
+ * Find a profile's synced note by its Canvas id
+ * @param app Obsidian app
+ * @param key Frontmatter key, e.g. 'canvas_course_id'
+ * @param value Canvas id
+ * @param profileId Profile the note must belong to
+ * @returns Matching note, or null if there is none
+ */
+export function findProfileNote(app: App, key: string, value: string | number, profileId: string): TFile | null {
+    return findNoteByFrontmatter(app, key, value, frontmatter => belongsToProfile(frontmatter, profileId));
+}
+
+/**
+ * Index a profile's synced notes by their Canvas id
+ * @param app Obsidian app
+ * @param key Frontmatter key, e.g. 'canvas_assignment_id'
+ * @param profileId Profile the notes must belong to
+ * @returns Map from stringified id to note
+ */
+export function indexProfileNotes(app: App, key: string, profileId: string): Map<string, TFile> {
+    return indexNotesByFrontmatter(app, key, frontmatter => belongsToProfile(frontmatter, profileId));
+}
+
+/**
+ * Folder for a profile's notes below a root folder. The default profile
+ * writes to the root itself, so existing vaults keep their layout.
+ * @param root Configured notes folder
+ * @param profile Profile the notes belong to
+ * @returns Vault-relative folder
+ */
+export function getProfileFolder(root: string, profile: CanvasProfile): string {
+    return normalizePath(profile.id === DEFAULT_PROFILE_ID ? root : `${root}/${sanitizeFileName(profile.name)}`);
+}
+
+/**
+ * Secret fields of a profile, for storage outside the synced vault
+ * @param profile Profile
+ * @returns Token, client secret, refresh token and proxy secret
+ */
+export function getProfileSecrets(profile: CanvasProfile): ProfileSecrets {
+    return {
+        canvasApiToken: profile.canvasApiToken,
+        oauthClientSecret: profile.oauthClientSecret,
+        oauthRefreshToken: profile.oauthRefreshToken,
+        proxySecret: profile.proxySecret
+    };
+}
+
+/**
+ * Copy of a profile with its secret fields blanked
+ * @param profile Profile
+ * @returns Profile safe to write to data.json
+ */
+export function withoutSecrets(profile: CanvasProfile): CanvasProfile {
+    return { ...profile, canvasApiToken: '', oauthClientSecret: '', oauthRefreshToken: '', proxySecret: '' };
+}
+
+/**
+ * Build the profile list from settings saved before profiles existed
+ * @param data Raw saved settings
+ * @returns The single profile those settings describe
+ */
+export function migrateLegacyProfile(data: Record<string, any>): CanvasProfile {
+    return {
+        ...DEFAULT_PROFILE,
+        canvasApiUrl: data.canvasApiUrl ?? DEFAULT_PROFILE.canvasApiUrl,
+        canvasApiToken: data.canvasApiToken ?? '',
+        useProxy: data.useProxy ?? false,
+        corsProxyUrl: data.corsProxyUrl ?? DEFAULT_PROFILE.corsProxyUrl,
+        // The auto-sync course selection was the only per-course setting
+        enabledCourses: Array.isArray(data.autoSyncCourses) ? [...data.autoSyncCourses] : []
+    };
+}
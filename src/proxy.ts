@@ -0,0 +1,158 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CanvasProfile } from './profiles';
+
+/**
+ * Optional proxy between the plugin and Canvas.
+ *
+ * Requests through the proxy carry the profile's access token, so the
+ * proxy sees everything the token allows. The plugin ships a minimal
+ * script to run one locally or on a server the user controls
+ * (proxy/canvas-proxy.mjs); it only forwards to the configured Canvas host
+ * and, with a shared secret, only accepts requests signed by the plugin.
+ * The token never goes to a proxy the user has not approved.
+ */
+
+/** Header with the epoch seconds a proxied request was signed at */
+export const PROXY_TIMESTAMP_HEADER = 'X-Canvas-Proxy-Timestamp';
+/** Header with the hex HMAC-SHA256 of the signed request */
+export const PROXY_SIGNATURE_HEADER = 'X-Canvas-Proxy-Signature';
+
+/** Public proxies earlier versions defaulted to; they are never used */
+const PUBLIC_PROXY_HOSTS = ['cors-anywhere.herokuapp.com'];
+
+/**
+ * Host of a URL, including the port if it is not the default one
+ * @param url Absolute URL
+ * @returns Host, or an empty string if the URL cannot be parsed
+ */
+export function getHost(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch (error) {
+        return '';
+    }
+}
+
+/**
+ * Whether a URL is on the profile's Canvas host, the only host the access
+ * token may be sent to directly
+ * @param url Absolute request URL
+ * @param canvasUrl Canvas instance URL of the profile
+ * @returns True if both URLs have the same protocol and host
+ */
+export function isCanvasUrl(url: string, canvasUrl: string): boolean {
+    try {
+        const target = new URL(url);
+        const canvas = new URL(canvasUrl);
+        return target.protocol === canvas.protocol && target.host === canvas.host;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * URL of a request sent through the proxy. The Canvas URL is appended
+ * encoded, which is what the bundled proxy script expects.
+ * @param proxyUrl Proxy base URL, e.g. `http://127.0.0.1:8787/`
+ * @param targetUrl Absolute Canvas URL
+ * @returns Proxied URL
+ */
+export function buildProxyUrl(proxyUrl: string, targetUrl: string): string {
+    return `${proxyUrl.endsWith('/') ? proxyUrl : proxyUrl + '/'}${encodeURIComponent(targetUrl)}`;
+}
+
+/**
+ * Headers that prove a proxied request came from the plugin: an
+ * HMAC-SHA256 over the timestamp, method, Canvas URL and SHA-256 of the
+ * body, keyed with the secret shared with the proxy
+ * @param secret Shared secret; without one no headers are added
+ * @param method HTTP method
+ * @param targetUrl Absolute Canvas URL
+ * @param body Request body as sent, empty for requests without one
+ * @param now Epoch milliseconds to sign at
+ * @returns Timestamp and signature headers
+ */
+export async function signProxyRequest(
+    secret: string,
+    method: string,
+    targetUrl: string,
+    body = '',
+    now = Date.now()
+): Promise<Record<string, string>> {
+    if (!secret) return {};
+    const timestamp = String(Math.floor(now / 1000));
+    const encoder = new TextEncoder();
+    const bodyHash = toHex(await crypto.subtle.digest('SHA-256', encoder.encode(body)));
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}\n${method.toUpperCase()}\n${targetUrl}\n${bodyHash}`));
+    return {
+        [PROXY_TIMESTAMP_HEADER]: timestamp,
+        [PROXY_SIGNATURE_HEADER]: toHex(signature)
+    };
+}
+
+function toHex(bytes: ArrayBuffer): string {
+    return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Drop a public proxy saved by an earlier version, which defaulted to one
+ * @param profile Loaded profile
+ * @returns The profile, with the proxy turned off if it was a public one
+ */
+export function withoutPublicProxy(profile: CanvasProfile): CanvasProfile {
+    if (!PUBLIC_PROXY_HOSTS.includes(getHost(profile.corsProxyUrl))) return profile;
+    return { ...profile, useProxy: false, corsProxyUrl: '', approvedProxyHost: '' };
+}
+
+/**
+ * Warns that the access token is about to leave for a host other than
+ * Canvas and asks whether to go ahead
+ */
+export class ProxyWarningModal extends Modal {
+    private profile: CanvasProfile;
+    private host: string;
+    private onDecide: (approved: boolean) => void;
+    private decided = false;
+
+    constructor(app: App, profile: CanvasProfile, host: string, onDecide: (approved: boolean) => void) {
+        super(app);
+        this.profile = profile;
+        this.host = host;
+        this.onDecide = onDecide;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h3', { text: 'Send Canvas token to proxy?' });
+        contentEl.createEl('p', {
+            text: `The "${this.profile.name}" profile sends its requests through ${this.host}, which is not `
+                + `${getHost(this.profile.canvasApiUrl) || 'the Canvas host'}. The proxy sees your access token `
+                + 'and can do anything in Canvas that you can.'
+        });
+        contentEl.createEl('p', {
+            text: 'Only continue if you run this proxy yourself, e.g. the canvas-proxy script that comes with the plugin.'
+        });
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Trust this proxy')
+                .setWarning()
+                .onClick(() => this.decide(true)))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.decide(false)));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing the dialog any other way declines
+        this.decide(false);
+    }
+
+    private decide(approved: boolean): void {
+        if (this.decided) return;
+        this.decided = true;
+        this.onDecide(approved);
+        this.close();
+    }
+}
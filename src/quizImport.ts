@@ -0,0 +1,310 @@
+import { TFile, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import { Assignment, CanvasId, Course, Quiz, QuizAnswer, QuizQuestion, QuizSubmission, RubricAssessmentEntry, RubricCriterion } from './canvasTypes';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import { HtmlConversionOptions, canvasHtmlToMarkdown } from './htmlConverter';
+import { createVaultLinkResolver } from './linkResolver';
+import { readRegion, upsertRegion, wrapRegion } from './noteRegions';
+import { CanvasProfile, PROFILE_KEY, getProfileFolder, indexProfileNotes } from './profiles';
+import { ensureFolder, getAvailableNotePath, sanitizeFileName, updateFrontmatterFields } from './vaultUtils';
+
+/** Frontmatter key identifying the Canvas quiz a flashcard note belongs to */
+export const QUIZ_ID_KEY = 'canvas_quiz_id';
+
+/** A quiz question turned into a spaced-repetition card */
+export interface Flashcard {
+    question: string;
+    answer: string;
+}
+
+export interface QuizImportResult {
+    /** Quizzes written as flashcard notes */
+    quizzes: number;
+    cards: number;
+    /** Questions skipped because Canvas does not show their answers */
+    hidden: number;
+    /** Assignment notes that got a rubric checklist */
+    rubrics: number;
+}
+
+/**
+ * Imports study material from a course: every quiz the user has finished
+ * becomes a flashcard note, and the rubric of every assignment is added
+ * to its assignment note as a checklist. Only what the student can
+ * already see in Canvas is imported; questions whose correct answers the
+ * quiz keeps hidden are skipped.
+ *
+ * Flashcards use the `Question::Answer` syntax of the Spaced Repetition
+ * plugin, or a `?` line between question and answer for multi-line cards.
+ */
+export class QuizImporter {
+    plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Import the quizzes and rubrics of one course
+     * @param course Course to import
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @returns Number of quizzes, cards and rubrics written
+     */
+    async importCourse(course: Course, profile: CanvasProfile = this.plugin.activeProfile): Promise<QuizImportResult> {
+        const api = this.plugin.getApi(profile.id);
+        const conversion: HtmlConversionOptions = {
+            baseUrl: api.baseUrl,
+            resolveLink: createVaultLinkResolver(this.plugin.app, profile.id, '', this.plugin.moduleMirror)
+        };
+        const result: QuizImportResult = { quizzes: 0, cards: 0, hidden: 0, rubrics: 0 };
+
+        const quizzes = await api.getQuizzes(course.id);
+        for (const quiz of quizzes) {
+            const submission = getLatestAttempt(await api.getQuizSubmissions(course.id, quiz.id, { fresh: true }));
+            if (!submission) continue;
+            const questions = await api.getQuizQuestions(course.id, quiz.id, submission);
+            const cards: Flashcard[] = [];
+            questions.forEach(question => {
+                const card = questionToFlashcard(question, conversion);
+                if (card) {
+                    cards.push(card);
+                } else if (hasAnswer(question.question_type)) {
+                    result.hidden++;
+                }
+            });
+            if (cards.length === 0) continue;
+            await this.writeQuizNote(course, quiz, submission, cards, profile);
+            result.quizzes++;
+            result.cards += cards.length;
+        }
+
+        const index = indexProfileNotes(this.plugin.app, ASSIGNMENT_ID_KEY, profile.id);
+        const assignments = await api.getCourseAssignments(course.id, { include: ['submission'] });
+        for (const assignment of assignments) {
+            const note = index.get(String(assignment.id));
+            if (!note || !assignment.rubric?.length) continue;
+            const assessment = assignment.submission?.workflow_state === 'graded'
+                ? (await api.getSubmission(course.id, assignment.id, 'self', { fresh: true })).rubric_assessment ?? {}
+                : {};
+            await this.writeRubric(note, assignment, assessment);
+            result.rubrics++;
+        }
+        return result;
+    }
+
+    /**
+     * Folder holding a course's flashcard notes
+     */
+    getCourseFolder(course: Course, profile: CanvasProfile = this.plugin.activeProfile): string {
+        const root = getProfileFolder(this.plugin.settings.quizNotesFolder || 'Canvas/Quizzes', profile);
+        return normalizePath(`${root}/${sanitizeFileName(course.name)}`);
+    }
+
+    private async writeQuizNote(course: Course, quiz: Quiz, submission: QuizSubmission, cards: Flashcard[], profile: CanvasProfile) {
+        const { app } = this.plugin;
+        const body = renderFlashcards(cards, getDeckTag(this.plugin.settings.flashcardTag, course));
+        let file = this.findQuizNote(quiz.id, profile);
+
+        if (!file) {
+            const folder = this.getCourseFolder(course, profile);
+            await ensureFolder(app, folder);
+            const path = getAvailableNotePath(app, folder, quiz.title, String(quiz.id));
+            file = await app.vault.create(path, [
+                `# ${quiz.title}`,
+                '',
+                wrapRegion('flashcards', body),
+                '',
+                '## Notes',
+                ''
+            ].join('\n'));
+        } else {
+            const content = await app.vault.read(file);
+            const updated = upsertRegion(content, 'flashcards', body);
+            if (updated !== content) {
+                await app.vault.modify(file, updated);
+            }
+        }
+
+        await updateFrontmatterFields(app, file, {
+            [QUIZ_ID_KEY]: quiz.id,
+            [PROFILE_KEY]: profile.id,
+            course_id: course.id,
+            course: course.name,
+            attempt: submission.attempt ?? null,
+            score: submission.kept_score ?? submission.score ?? null,
+            points_possible: submission.quiz_points_possible ?? quiz.points_possible ?? null,
+            canvas_url: quiz.html_url ?? null
+        });
+    }
+
+    /**
+     * Write the rubric checklist into an assignment note, keeping the
+     * criteria the user already ticked
+     */
+    private async writeRubric(file: TFile, assignment: Assignment, assessment: Record<string, RubricAssessmentEntry>) {
+        const { app } = this.plugin;
+        const content = await app.vault.read(file);
+        const checked = getCheckedCriteria(readRegion(content, 'rubric') ?? '');
+        const body = renderRubricChecklist(assignment.rubric ?? [], assessment, checked);
+        const updated = upsertRegion(content, 'rubric', body);
+        if (updated !== content) {
+            await app.vault.modify(file, updated);
+        }
+    }
+
+    private findQuizNote(quizId: CanvasId, profile: CanvasProfile): TFile | null {
+        return indexProfileNotes(this.plugin.app, QUIZ_ID_KEY, profile.id).get(String(quizId)) ?? null;
+    }
+}
+
+/**
+ * Latest finished attempt of a quiz, if any
+ * @param submissions Quiz submissions of the current user
+ * @returns Attempt whose questions can be reviewed, or null
+ */
+export function getLatestAttempt(submissions: QuizSubmission[]): QuizSubmission | null {
+    return submissions
+        .filter(submission => submission.workflow_state === 'complete' || submission.workflow_state === 'pending_review')
+        .reduce<QuizSubmission | null>((latest, submission) =>
+            !latest || (submission.attempt ?? 0) > (latest.attempt ?? 0) ? submission : latest, null);
+}
+
+/**
+ * Turn a quiz question into a flashcard
+ * @param question Question fetched for a finished attempt
+ * @param conversion Options for converting the question HTML
+ * @returns The card, or null for questions without a visible correct answer
+ */
+export function questionToFlashcard(question: QuizQuestion, conversion: HtmlConversionOptions = {}): Flashcard | null {
+    const answer = getAnswerText(question, conversion);
+    if (!answer) return null;
+    const text = canvasHtmlToMarkdown(question.question_text, conversion) || question.question_name || '';
+    if (!text) return null;
+    return { question: text, answer };
+}
+
+/**
+ * Render flashcards for the Spaced Repetition plugin below a deck tag
+ * @param cards Cards to render
+ * @param tag Deck tag, e.g. `#flashcards/biology`
+ * @returns Markdown with one card per paragraph
+ */
+export function renderFlashcards(cards: Flashcard[], tag: string): string {
+    const blocks = cards.map(card => {
+        if (!card.question.includes('\n') && !card.answer.includes('\n')) {
+            return `${card.question}::${card.answer}`;
+        }
+        return `${card.question}\n?\n${card.answer}`;
+    });
+    return [tag, ...blocks].join('\n\n');
+}
+
+/**
+ * Render a rubric as a checklist, one item per criterion with its
+ * ratings below and the points and comments received, if assessed
+ * @param rubric Criteria of the assignment
+ * @param assessment Rubric assessment of the user's submission
+ * @param checked Ids of criteria ticked in the note
+ * @returns Markdown checklist
+ */
+export function renderRubricChecklist(
+    rubric: RubricCriterion[],
+    assessment: Record<string, RubricAssessmentEntry> = {},
+    checked: Set<string> = new Set()
+): string {
+    const lines = ['## Rubric', ''];
+    rubric.forEach(criterion => {
+        const box = checked.has(String(criterion.id)) ? 'x' : ' ';
+        lines.push(`- [${box}] **${criterion.description}** (${criterion.points} pts) %% rubric:${criterion.id} %%`);
+        if (criterion.long_description) {
+            lines.push(`    - ${criterion.long_description.replace(/\s*\n\s*/g, ' ')}`);
+        }
+        criterion.ratings.forEach(rating => {
+            lines.push(`    - ${rating.points} pts: ${rating.description}`);
+        });
+        const received = assessment[criterion.id];
+        if (typeof received?.points === 'number') {
+            lines.push(`    - Received: ${received.points} / ${criterion.points} pts`);
+        }
+        if (received?.comments) {
+            lines.push(`    - Comments: ${received.comments.replace(/\s*\n\s*/g, ' ')}`);
+        }
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Ids of ticked rubric criteria in a rendered checklist
+ */
+export function getCheckedCriteria(region: string): Set<string> {
+    const checked = new Set<string>();
+    const pattern = /^- \[[xX]\] .*%% rubric:(\S+) %%$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(region)) !== null) {
+        checked.add(match[1]);
+    }
+    return checked;
+}
+
+/**
+ * Question types that are graded automatically and so can have a correct answer to show
+ */
+function hasAnswer(type: string): boolean {
+    return !['essay_question', 'file_upload_question', 'text_only_question'].includes(type);
+}
+
+function getAnswerText(question: QuizQuestion, conversion: HtmlConversionOptions): string {
+    const answers = question.answers ?? [];
+    const correct = answers.filter(answer => answer.weight === 100);
+
+    switch (question.question_type) {
+        case 'multiple_choice_question':
+        case 'true_false_question':
+        case 'multiple_answers_question':
+        case 'short_answer_question':
+            return correct.map(answer => getChoiceText(answer, conversion)).filter(Boolean).join('; ');
+        case 'fill_in_multiple_blanks_question':
+        case 'multiple_dropdowns_question': {
+            const blanks = new Map<string, string[]>();
+            correct.forEach(answer => {
+                const blank = answer.blank_id ?? '';
+                blanks.set(blank, [...(blanks.get(blank) ?? []), getChoiceText(answer, conversion)]);
+            });
+            return [...blanks.entries()]
+                .map(([blank, texts]) => `${blank}: ${texts.filter(Boolean).join(' / ')}`)
+                .join('; ');
+        }
+        case 'matching_question':
+            return answers
+                .filter(answer => answer.left && answer.right)
+                .map(answer => `${answer.left} → ${answer.right}`)
+                .join('; ');
+        case 'numerical_question':
+            return correct.map(formatNumericalAnswer).filter(Boolean).join(' or ');
+        default:
+            return '';
+    }
+}
+
+function getChoiceText(answer: QuizAnswer, conversion: HtmlConversionOptions): string {
+    const text = answer.html ? canvasHtmlToMarkdown(answer.html, conversion) : answer.text ?? '';
+    return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+function formatNumericalAnswer(answer: QuizAnswer): string {
+    switch (answer.numerical_answer_type) {
+        case 'range_answer':
+            return `${answer.start} to ${answer.end}`;
+        case 'precision_answer':
+            return `${answer.approximate} (${answer.precision} significant digits)`;
+        default:
+            if (answer.exact === undefined || answer.exact === null) return '';
+            return answer.margin ? `${answer.exact} ± ${answer.margin}` : String(answer.exact);
+    }
+}
+
+function getDeckTag(tag: string, course: Course): string {
+    const root = (tag || 'flashcards').replace(/^#/, '').replace(/\/+$/, '');
+    const deck = (course.course_code || course.name).replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+    return deck ? `#${root}/${deck}` : `#${root}`;
+}
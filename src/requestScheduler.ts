@@ -0,0 +1,232 @@
+import { RequestAbortedError } from './errors';
+
+/**
+ * Concurrency limiting, throttling and retries for Canvas requests.
+ *
+ * Canvas meters each token with a leaky bucket and reports what is left
+ * in `X-Rate-Limit-Remaining`. When the bucket runs dry it answers 403
+ * "Rate Limit Exceeded" (or 429 behind some proxies). The scheduler keeps
+ * at most `concurrency` requests in flight, slows down as the bucket
+ * empties, and retries throttled responses with jittered exponential
+ * backoff. Reads are also retried after 5xx responses and network errors;
+ * writes are not, since Canvas may have applied them already and a resent
+ * POST would create a second submission, reply or override.
+ */
+
+export interface SchedulerOptions {
+    /** Maximum number of requests in flight at once */
+    concurrency: number;
+    /** Retries after the first attempt for retryable failures */
+    maxRetries: number;
+    /** Backoff before the first retry; doubles on every further attempt */
+    baseDelayMs: number;
+    /** Upper bound for any single wait */
+    maxDelayMs: number;
+    /** Start slowing down when fewer rate limit units than this remain */
+    lowRemainingThreshold: number;
+}
+
+/** The parts of a response the scheduler inspects */
+export interface ScheduledResponse {
+    status: number;
+    headers: Record<string, string>;
+    text?: string;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+    concurrency: 4,
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    lowRemainingThreshold: 150
+};
+
+/** Longest pause applied while the rate limit bucket is running low */
+const MAX_THROTTLE_DELAY_MS = 2000;
+
+/**
+ * Whether Canvas refused a request because of rate limiting
+ * @param response Response to inspect
+ * @returns True for 429 and rate limit 403 responses
+ */
+export function isThrottled(response: ScheduledResponse): boolean {
+    if (response.status === 429) return true;
+    return response.status === 403 && /rate limit exceeded/i.test(response.text ?? '');
+}
+
+/**
+ * Whether a request is safe to send again after a failure Canvas may
+ * have acted on
+ * @param method HTTP method
+ * @returns True for reads
+ */
+function isIdempotent(method: string): boolean {
+    return ['GET', 'HEAD'].includes(method.toUpperCase());
+}
+
+/**
+ * Whether a response is worth retrying
+ * @param response Response to inspect
+ * @param method HTTP method of the request
+ * @returns True for throttling, and for transient server errors of reads
+ */
+export function isRetryable(response: ScheduledResponse, method: string): boolean {
+    return isThrottled(response) || (isIdempotent(method) && [500, 502, 503, 504].includes(response.status));
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers ?? {}).find(k => k.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+}
+
+/**
+ * Wait for a while, giving up early if the signal aborts
+ * @param ms Milliseconds to wait
+ * @param signal Optional abort signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestAbortedError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestAbortedError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new RequestAbortedError();
+    }
+}
+
+export class RequestScheduler {
+    private options: SchedulerOptions;
+    private active = 0;
+    private waiting: Array<() => void> = [];
+    private pausedUntil = 0;
+
+    constructor(options: Partial<SchedulerOptions> = {}) {
+        this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+        this.options.concurrency = Math.max(1, Math.floor(this.options.concurrency));
+        this.options.maxRetries = Math.max(0, Math.floor(this.options.maxRetries));
+    }
+
+    /**
+     * Run a request under the concurrency limit, retrying retryable
+     * failures. Network errors thrown by the task are retried as well,
+     * for reads only.
+     * @param method HTTP method of the request
+     * @param task Function performing one attempt of the request
+     * @param signal Optional abort signal; aborting rejects with RequestAbortedError
+     * @returns Response of the last attempt
+     */
+    async run<T extends ScheduledResponse>(method: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire(signal);
+
+            let response: T;
+            try {
+                await this.waitForPause(signal);
+                response = await task();
+            } catch (error) {
+                this.release();
+                if (error instanceof RequestAbortedError || !isIdempotent(method) || attempt >= this.options.maxRetries) {
+                    throw error;
+                }
+                console.warn(`Canvas request failed, retrying (attempt ${attempt + 1}):`, error);
+                await sleep(this.backoffDelay(attempt), signal);
+                continue;
+            }
+            this.release();
+            throwIfAborted(signal);
+
+            this.observeRateLimit(response.headers);
+
+            if (!isRetryable(response, method) || attempt >= this.options.maxRetries) {
+                return response;
+            }
+
+            const delay = this.retryDelay(response, attempt);
+            if (isThrottled(response)) {
+                // Throttling applies to the whole token, so hold back every request
+                this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+            }
+            console.warn(`Canvas responded ${response.status}, retrying in ${delay} ms`);
+            await sleep(delay, signal);
+        }
+    }
+
+    private acquire(signal?: AbortSignal): Promise<void> {
+        throwIfAborted(signal);
+        if (this.active < this.options.concurrency) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(entry => entry !== start);
+                reject(new RequestAbortedError());
+            };
+            const start = () => {
+                signal?.removeEventListener('abort', onAbort);
+                this.active++;
+                resolve();
+            };
+            this.waiting.push(start);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private release(): void {
+        this.active--;
+        const next = this.waiting.shift();
+        if (next) {
+            next();
+        }
+    }
+
+    private async waitForPause(signal?: AbortSignal): Promise<void> {
+        const wait = this.pausedUntil - Date.now();
+        if (wait > 0) {
+            await sleep(wait, signal);
+        }
+    }
+
+    /**
+     * Slow down as the rate limit bucket empties
+     */
+    private observeRateLimit(headers: Record<string, string>): void {
+        const remaining = parseFloat(getHeader(headers, 'x-rate-limit-remaining') ?? '');
+        if (isNaN(remaining) || remaining >= this.options.lowRemainingThreshold) return;
+
+        const pressure = 1 - Math.max(0, remaining) / this.options.lowRemainingThreshold;
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + Math.round(pressure * MAX_THROTTLE_DELAY_MS));
+    }
+
+    private retryDelay(response: ScheduledResponse, attempt: number): number {
+        const retryAfter = Number(getHeader(response.headers, 'retry-after'));
+        if (!isNaN(retryAfter) && retryAfter > 0) {
+            return Math.min(retryAfter * 1000, this.options.maxDelayMs);
+        }
+        return this.backoffDelay(attempt);
+    }
+
+    /**
+     * Exponential backoff with jitter, so parallel requests throttled
+     * together do not all retry at the same instant
+     */
+    private backoffDelay(attempt: number): number {
+        const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt));
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+}
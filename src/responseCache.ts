@@ -0,0 +1,204 @@
+/**
+ * Persistent cache of Canvas GET responses.
+ *
+ * Entries are keyed by the full request URL, so endpoint and query
+ * parameters are both part of the key, and each page of a paginated list
+ * is cached on its own together with its Link header. The cache itself
+ * only stores and expires entries; CanvasAPI decides when to serve them.
+ */
+
+export type CacheResource = 'profile' | 'courses' | 'assignments' | 'modules' | 'events' | 'todo' | 'other';
+
+export interface CachedResponse {
+    status: number;
+    /** Only the headers needed to replay the response, e.g. Link */
+    headers: Record<string, string>;
+    json: unknown;
+    /** Epoch milliseconds when the response was received */
+    fetchedAt: number;
+}
+
+export interface CacheSnapshot {
+    entries: Record<string, CachedResponse>;
+    lastSyncedAt: number | null;
+}
+
+/** Where the cache is persisted; the plugin stores it next to data.json */
+export interface CacheStore {
+    load(): Promise<CacheSnapshot | null>;
+    save(snapshot: CacheSnapshot): Promise<void>;
+}
+
+/** Default time-to-live per resource, in minutes */
+export const DEFAULT_CACHE_TTL_MINUTES: Record<CacheResource, number> = {
+    profile: 24 * 60,
+    courses: 60,
+    assignments: 15,
+    modules: 60,
+    events: 5,
+    todo: 5,
+    other: 15
+};
+
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Classify a request path for TTL purposes
+ * @param path API path, e.g. `/api/v1/courses/1/assignments`
+ * @returns Resource kind
+ */
+export function getCacheResource(path: string): CacheResource {
+    const normalized = path.replace(/^\/api\/v1/, '').replace(/\?.*$/, '');
+    if (/^\/users\/self\/?$/.test(normalized)) return 'profile';
+    if (/^\/users\/self\/upcoming_events/.test(normalized)) return 'events';
+    if (/^\/users\/self\/todo/.test(normalized)) return 'todo';
+    if (/^\/courses\/[^/]+\/assignment(s|_groups)/.test(normalized)) return 'assignments';
+    if (/^\/courses\/[^/]+\/modules/.test(normalized)) return 'modules';
+    if (/^\/courses\/?$/.test(normalized)) return 'courses';
+    return 'other';
+}
+
+/** Lists that gather items from every course, so a write in any course can change them */
+const CROSS_COURSE_PATHS = ['/users/self/todo', '/users/self/upcoming_events', '/planner/items'];
+
+/**
+ * API paths a write makes outdated. Lists show the state of their items,
+ * e.g. `assignments?include[]=submission` after a submission or
+ * `planner/items` after an override, so dropping the written path alone
+ * is not enough: everything below the course or other top-level resource
+ * the path belongs to goes, and so does the written path's parent
+ * collection.
+ * @param path API path that was written, e.g. `/api/v1/courses/1/assignments/2/submissions`
+ * @returns Path prefixes whose cached responses are outdated
+ */
+export function getInvalidationPrefixes(path: string): string[] {
+    const normalized = path.replace(/^\/api\/v1/, '').replace(/\?.*$/, '').replace(/\/+$/, '');
+    // `/courses/1` and `/users/self` own what is below them; `/planner` or `/calendar_events` stand alone
+    const owner = normalized.match(/^\/(?:courses|users|groups|accounts)\/[^/]+/)?.[0] ?? normalized.match(/^\/[^/]+/)?.[0];
+    const parent = normalized.replace(/\/[^/]+$/, '');
+    const prefixes = [normalized, owner, parent].filter((prefix): prefix is string => !!prefix);
+    if (normalized.startsWith('/courses/')) {
+        prefixes.push(...CROSS_COURSE_PATHS);
+    }
+    return Array.from(new Set(prefixes)).map(prefix => `/api/v1${prefix}`);
+}
+
+/**
+ * API path of a cache key, which is a request URL optionally preceded by
+ * a profile id
+ */
+function getKeyPath(key: string): string {
+    const url = key.slice(key.lastIndexOf(' ') + 1);
+    try {
+        return new URL(url).pathname;
+    } catch (error) {
+        return url.replace(/\?.*$/, '');
+    }
+}
+
+export class ResponseCache {
+    private entries: Record<string, CachedResponse> = {};
+    private store: CacheStore;
+    private maxEntries: number;
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+    private syncedAt: number | null = null;
+
+    constructor(store: CacheStore, maxEntries = 500) {
+        this.store = store;
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Time of the most recent response received from Canvas
+     */
+    get lastSyncedAt(): number | null {
+        return this.syncedAt;
+    }
+
+    /**
+     * Restore the cache from its store
+     */
+    async load(): Promise<void> {
+        const snapshot = await this.store.load();
+        if (snapshot) {
+            this.entries = snapshot.entries ?? {};
+            this.syncedAt = snapshot.lastSyncedAt ?? null;
+        }
+    }
+
+    /**
+     * Look up a cached response
+     * @param key Request URL
+     * @returns Cached response, or undefined on a miss
+     */
+    get(key: string): CachedResponse | undefined {
+        return this.entries[key];
+    }
+
+    /**
+     * Store a response, evicting the oldest entries beyond the size limit
+     * @param key Request URL
+     * @param response Response to cache
+     */
+    set(key: string, response: CachedResponse): void {
+        this.entries[key] = response;
+        this.syncedAt = Math.max(this.syncedAt ?? 0, response.fetchedAt);
+
+        const keys = Object.keys(this.entries);
+        if (keys.length > this.maxEntries) {
+            keys
+                .sort((a, b) => this.entries[a].fetchedAt - this.entries[b].fetchedAt)
+                .slice(0, keys.length - this.maxEntries)
+                .forEach(oldKey => delete this.entries[oldKey]);
+        }
+        this.scheduleSave();
+    }
+
+    /**
+     * Drop every entry a write to the given path made outdated; see
+     * getInvalidationPrefixes
+     * @param path API path that was written
+     */
+    invalidate(path: string): void {
+        const prefixes = getInvalidationPrefixes(path);
+        let changed = false;
+        Object.keys(this.entries).forEach(key => {
+            const keyPath = getKeyPath(key);
+            if (prefixes.some(prefix => keyPath === prefix || keyPath.startsWith(`${prefix}/`))) {
+                delete this.entries[key];
+                changed = true;
+            }
+        });
+        if (changed) {
+            this.scheduleSave();
+        }
+    }
+
+    /**
+     * Drop all entries
+     */
+    async clear(): Promise<void> {
+        this.entries = {};
+        this.syncedAt = null;
+        await this.flush();
+    }
+
+    /**
+     * Write pending changes to the store now
+     */
+    async flush(): Promise<void> {
+        if (this.saveTimer !== null) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        await this.store.save({ entries: this.entries, lastSyncedAt: this.syncedAt });
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer !== null) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.flush().catch(error => console.error('Failed to save Canvas cache:', error));
+        }, SAVE_DELAY_MS);
+    }
+}
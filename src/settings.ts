@@ -1,20 +1,136 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, moment } from 'obsidian';
 import MyPlugin from './main';
+import { DEFAULT_ITEM_TEMPLATE } from './dailyNotes';
+import { parseAlarmMinutes } from './icsExport';
+import { CanvasAPI } from './canvasApi';
+import { CourseMirrorRules, MirrorRules, parseExtensions } from './moduleMirror';
+import { OAUTH_REDIRECT_URI } from './oauth';
+import {
+    BUILT_IN_TEMPLATES, DEFAULT_OUTPUT_TEMPLATES, OUTPUT_TEMPLATE_NAMES, OutputTemplateId, OutputTemplateSetting, TEMPLATE_VARIANT_LABELS,
+    TemplateVariant, getTemplateVariants
+} from './outputTemplates';
+import { getTimeZoneOffset } from './markdownUtils';
+import { validateTemplate } from './templateEngine';
+import {
+    CanvasAuthMethod, CanvasProfile, DEFAULT_PROFILE, DEFAULT_PROFILE_ID, EnrollmentRole, SecretStorage, createProfile, scopedKey
+} from './profiles';
+import { DEFAULT_SCHEDULER_OPTIONS } from './requestScheduler';
+import { EFFORT_KEY, PlannerOutput, parseWeeklyHours } from './studyPlanner';
+import { CacheResource, DEFAULT_CACHE_TTL_MINUTES } from './responseCache';
+import { TaskCompletionAction, TaskConflictPolicy } from './taskSync';
 
 export interface MyPluginSettings {
     mySetting: string;
-    canvasApiUrl: string;
-    canvasApiToken: string;
-    useProxy: boolean;
-    corsProxyUrl: string;
+    profiles: CanvasProfile[];
+    /** Profile used by commands and views that do not name one */
+    activeProfileId: string;
+    secretStorage: SecretStorage;
+    courseNotesFolder: string;
+    assignmentNotesFolder: string;
+    discussionNotesFolder: string;
+    reviewNotesFolder: string;
+    quizNotesFolder: string;
+    flashcardTag: string;
+    cacheEnabled: boolean;
+    staleWhileRevalidate: boolean;
+    offlineMode: boolean;
+    cacheTtlMinutes: Record<CacheResource, number>;
+    maxConcurrentRequests: number;
+    maxRetries: number;
+    dailyNoteEnabled: boolean;
+    dailyNoteFolder: string;
+    dailyNoteFormat: string;
+    dailyNoteHeading: string;
+    dailyNoteLookaheadDays: number;
+    dailyNoteTemplate: string;
+    taskSyncEnabled: boolean;
+    taskCompletionAction: TaskCompletionAction;
+    taskConflictPolicy: TaskConflictPolicy;
+    dashboardDueDays: number;
+    dashboardRefreshMinutes: number;
+    autoSyncEnabled: boolean;
+    autoSyncIntervalMinutes: number;
+    autoSyncNotes: boolean;
+    autoSyncNotify: boolean;
+    icsExportPath: string;
+    icsCalendarName: string;
+    icsAlarmMinutes: number[];
+    icsAutoExport: boolean;
+    mirrorFolder: string;
+    /** Download rules for courses without their own */
+    mirrorRules: MirrorRules;
+    /** Mirroring per course, keyed by profile-scoped course id */
+    mirrorCourses: Record<string, CourseMirrorRules>;
+    /** Layout of each "Insert in Note" command */
+    outputTemplates: Record<OutputTemplateId, OutputTemplateSetting>;
+    templateDateFormat: string;
+    /** IANA time zone for dates in inserted text; empty for the system zone */
+    templateTimeZone: string;
+    plannerOutput: PlannerOutput;
+    plannerNotePath: string;
+    /** Hours available for study on each weekday, Monday first */
+    plannerWeeklyHours: number[];
+    /** Effort of assignments without an estimate of their own */
+    plannerDefaultMinutes: number;
+    /** Estimate effort from points instead when above zero */
+    plannerMinutesPerPoint: number;
+    plannerMaxSessionMinutes: number;
+    plannerMinSessionMinutes: number;
+    plannerHorizonDays: number;
+    plannerAutoReplan: boolean;
 }
 
 export const DEFAULT_SETTINGS: MyPluginSettings = {
     mySetting: 'default',
-    canvasApiUrl: 'https://canvas.instructure.com',
-    canvasApiToken: '',
-    useProxy: false,
-    corsProxyUrl: 'https://cors-anywhere.herokuapp.com/'
+    profiles: [DEFAULT_PROFILE],
+    activeProfileId: DEFAULT_PROFILE_ID,
+    secretStorage: 'vault',
+    courseNotesFolder: 'Canvas',
+    assignmentNotesFolder: 'Canvas/Assignments',
+    discussionNotesFolder: 'Canvas/Discussions',
+    reviewNotesFolder: 'Canvas/Grading',
+    quizNotesFolder: 'Canvas/Quizzes',
+    flashcardTag: 'flashcards',
+    cacheEnabled: true,
+    staleWhileRevalidate: false,
+    offlineMode: false,
+    cacheTtlMinutes: { ...DEFAULT_CACHE_TTL_MINUTES },
+    maxConcurrentRequests: DEFAULT_SCHEDULER_OPTIONS.concurrency,
+    maxRetries: DEFAULT_SCHEDULER_OPTIONS.maxRetries,
+    dailyNoteEnabled: false,
+    dailyNoteFolder: '',
+    dailyNoteFormat: 'YYYY-MM-DD',
+    dailyNoteHeading: '## Canvas',
+    dailyNoteLookaheadDays: 1,
+    dailyNoteTemplate: DEFAULT_ITEM_TEMPLATE,
+    taskSyncEnabled: true,
+    taskCompletionAction: 'complete',
+    taskConflictPolicy: 'newest',
+    dashboardDueDays: 7,
+    dashboardRefreshMinutes: 10,
+    autoSyncEnabled: false,
+    autoSyncIntervalMinutes: 30,
+    autoSyncNotes: true,
+    autoSyncNotify: true,
+    icsExportPath: 'Canvas/canvas.ics',
+    icsCalendarName: 'Canvas',
+    icsAlarmMinutes: [60],
+    icsAutoExport: false,
+    mirrorFolder: 'Canvas/Modules',
+    mirrorRules: { includeExtensions: [], excludeExtensions: [], maxFileSizeMb: 50 },
+    mirrorCourses: {},
+    outputTemplates: DEFAULT_OUTPUT_TEMPLATES,
+    templateDateFormat: 'YYYY-MM-DD HH:mm',
+    templateTimeZone: '',
+    plannerOutput: 'note',
+    plannerNotePath: 'Canvas/Study plan.md',
+    plannerWeeklyHours: [2, 2, 2, 2, 2, 1, 1],
+    plannerDefaultMinutes: 60,
+    plannerMinutesPerPoint: 0,
+    plannerMaxSessionMinutes: 90,
+    plannerMinSessionMinutes: 25,
+    plannerHorizonDays: 14,
+    plannerAutoReplan: true
 }
 
 export class SampleSettingTab extends PluginSettingTab {
@@ -33,57 +149,620 @@ export class SampleSettingTab extends PluginSettingTab {
         containerEl.createEl('h2', {text: 'Canvas LMS API Settings'});
 
         new Setting(containerEl)
-            .setName('Canvas API URL')
-            .setDesc("Your Canvas instance URL (e.g., https://'your school'.instructure.com)")
+            .setName('Active profile')
+            .setDesc('Canvas account used by commands, the dashboard and code blocks without a profile')
+            .addDropdown(dropdown => {
+                this.plugin.settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+                dropdown
+                    .setValue(this.plugin.activeProfile.id)
+                    .onChange(async (value) => {
+                        await this.plugin.setActiveProfile(value);
+                        this.display();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Store tokens')
+            .setDesc('Tokens kept in the plugin settings travel with vault sync and backups. Tokens kept on this device never leave it, so other devices sign in on their own.')
+            .addDropdown(dropdown => dropdown
+                .addOption('vault', 'In plugin settings')
+                .addOption('device', 'On this device only')
+                .setValue(this.plugin.settings.secretStorage)
+                .onChange(async (value) => {
+                    this.plugin.settings.secretStorage = value as SecretStorage;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.plugin.settings.profiles.forEach(profile => this.displayProfile(containerEl, profile));
+
+        new Setting(containerEl)
+            .setName('Add profile')
+            .setDesc('Connect another Canvas account or institution')
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    const { profiles } = this.plugin.settings;
+                    this.plugin.settings.profiles = [...profiles, createProfile(`Profile ${profiles.length + 1}`, profiles)];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        containerEl.createEl('h3', {text: 'Vault Sync'});
+
+        new Setting(containerEl)
+            .setName('Course notes folder')
+            .setDesc('Folder where "Sync Canvas courses to vault" creates one note per course')
             .addText(text => text
-                .setPlaceholder('https://canvas.instructure.com')
-                .setValue(this.plugin.settings.canvasApiUrl)
+                .setPlaceholder('Canvas')
+                .setValue(this.plugin.settings.courseNotesFolder)
                 .onChange(async (value) => {
-                    this.plugin.settings.canvasApiUrl = value;
+                    this.plugin.settings.courseNotesFolder = value.trim();
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Canvas API Token')
-            .setDesc('Your Canvas API access token')
+            .setName('Assignment notes folder')
+            .setDesc('Folder where "Sync Canvas assignments to vault" creates one note per assignment, grouped by course')
             .addText(text => text
-                .setPlaceholder('Enter your API token')
-                .setValue(this.plugin.settings.canvasApiToken)
+                .setPlaceholder('Canvas/Assignments')
+                .setValue(this.plugin.settings.assignmentNotesFolder)
                 .onChange(async (value) => {
-                    this.plugin.settings.canvasApiToken = value;
+                    this.plugin.settings.assignmentNotesFolder = value.trim();
                     await this.plugin.saveSettings();
                 }));
-        
-        // Add CORS proxy settings
+
         new Setting(containerEl)
-            .setName('Use CORS Proxy')
-            .setDesc('Enable if you are experiencing CORS errors (403 Forbidden)')
+            .setName('Discussion notes folder')
+            .setDesc('Folder where "Sync Canvas announcements and discussions" creates one note per topic, grouped by course')
+            .addText(text => text
+                .setPlaceholder('Canvas/Discussions')
+                .setValue(this.plugin.settings.discussionNotesFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.discussionNotesFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Grading notes folder')
+            .setDesc('Teacher and TA profiles: folder for submission review notes and gradebook exports')
+            .addText(text => text
+                .setPlaceholder('Canvas/Grading')
+                .setValue(this.plugin.settings.reviewNotesFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.reviewNotesFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Quiz notes folder')
+            .setDesc('Folder for flashcard notes imported from finished quizzes')
+            .addText(text => text
+                .setPlaceholder('Canvas/Quizzes')
+                .setValue(this.plugin.settings.quizNotesFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.quizNotesFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Flashcard tag')
+            .setDesc('Deck tag of imported quiz cards; each course becomes a subdeck, e.g. #flashcards/BIO101')
+            .addText(text => text
+                .setPlaceholder('flashcards')
+                .setValue(this.plugin.settings.flashcardTag)
+                .onChange(async (value) => {
+                    this.plugin.settings.flashcardTag = value.trim().replace(/^#/, '');
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Daily Notes'});
+
+        new Setting(containerEl)
+            .setName('Add Canvas agenda to daily notes')
+            .setDesc("When a daily note is created or opened, fill a Canvas section with upcoming due items and new grades")
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.useProxy)
+                .setValue(this.plugin.settings.dailyNoteEnabled)
                 .onChange(async (value) => {
-                    this.plugin.settings.useProxy = value;
+                    this.plugin.settings.dailyNoteEnabled = value;
                     await this.plugin.saveSettings();
-                    // Update the disabled state of the CORS proxy URL input
-                    containerEl.querySelector('.cors-proxy-url input')?.toggleAttribute('disabled', !value);
                 }));
-                
+
         new Setting(containerEl)
-            .setName('CORS Proxy URL')
-            .setDesc('URL for a CORS proxy service (e.g., https://cors-anywhere.herokuapp.com/)')
+            .setName('Daily notes folder')
+            .setDesc('Folder holding your daily notes; leave empty for the vault root')
             .addText(text => text
-                .setPlaceholder('https://cors-anywhere.herokuapp.com/')
-                .setValue(this.plugin.settings.corsProxyUrl)
-                .setDisabled(!this.plugin.settings.useProxy)
+                .setPlaceholder('Daily')
+                .setValue(this.plugin.settings.dailyNoteFolder)
                 .onChange(async (value) => {
-                    this.plugin.settings.corsProxyUrl = value;
+                    this.plugin.settings.dailyNoteFolder = value.trim();
                     await this.plugin.saveSettings();
-                }))
-            .settingEl.addClass('cors-proxy-url');
-        
+                }));
+
+        new Setting(containerEl)
+            .setName('Daily note date format')
+            .setDesc('Moment.js format of daily note file names, as set in the Daily notes plugin')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.plugin.settings.dailyNoteFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteFormat = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Section heading')
+            .setDesc('Heading placed above the Canvas section the first time it is added')
+            .addText(text => text
+                .setPlaceholder('## Canvas')
+                .setValue(this.plugin.settings.dailyNoteHeading)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteHeading = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Look-ahead days')
+            .setDesc('Days after the note date to include; 1 shows today and tomorrow')
+            .addSlider(slider => slider
+                .setLimits(0, 14, 1)
+                .setValue(this.plugin.settings.dailyNoteLookaheadDays)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyNoteLookaheadDays = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const itemTemplateDesc = 'Line written for each due item. Placeholders: {{link}}, {{title}}, {{course}}, {{due}}, {{time}}, {{url}}, and {{dueAt}} for the date filter, as in {{dueAt|date:"ddd HH:mm"}}';
+        const itemTemplate = new Setting(containerEl)
+            .setName('Item template')
+            .setDesc(itemTemplateDesc)
+            .addTextArea(text => text
+                .setPlaceholder(DEFAULT_ITEM_TEMPLATE)
+                .setValue(this.plugin.settings.dailyNoteTemplate)
+                .onChange(async (value) => {
+                    const error = validateTemplate(value);
+                    itemTemplate.setDesc(error ?? itemTemplateDesc);
+                    if (error) return;
+                    this.plugin.settings.dailyNoteTemplate = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Auto-sync'});
+
+        new Setting(containerEl)
+            .setName('Sync in the background')
+            .setDesc('Periodically check the enabled courses of every profile for new assignments, changed due dates, new grades and announcements')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSyncEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync interval')
+            .setDesc('Minutes between background syncs')
+            .addSlider(slider => slider
+                .setLimits(5, 240, 5)
+                .setValue(this.plugin.settings.autoSyncIntervalMinutes)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncIntervalMinutes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Update notes')
+            .setDesc('Also update course and assignment notes and task checkboxes on each background sync')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSyncNotes)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncNotes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Notify about changes')
+            .setDesc('Show a notice when a sync finds changes; they are always counted in the status bar')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSyncNotify)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncNotify = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Calendar Export'});
+
+        new Setting(containerEl)
+            .setName('Export file')
+            .setDesc('Vault path of the .ics file written by "Export Canvas calendar"')
+            .addText(text => text
+                .setPlaceholder('Canvas/canvas.ics')
+                .setValue(this.plugin.settings.icsExportPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.icsExportPath = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Calendar name')
+            .setDesc('Name calendar apps show for the subscribed file')
+            .addText(text => text
+                .setPlaceholder('Canvas')
+                .setValue(this.plugin.settings.icsCalendarName)
+                .onChange(async (value) => {
+                    this.plugin.settings.icsCalendarName = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Reminders')
+            .setDesc('Minutes before each deadline or event to remind, separated by commas; leave empty for none')
+            .addText(text => text
+                .setPlaceholder('60, 1440')
+                .setValue(this.plugin.settings.icsAlarmMinutes.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.icsAlarmMinutes = parseAlarmMinutes(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Export on auto-sync')
+            .setDesc('Regenerate the calendar file after every background sync')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.icsAutoExport)
+                .onChange(async (value) => {
+                    this.plugin.settings.icsAutoExport = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Study Planner'});
+
+        new Setting(containerEl)
+            .setName('Write plan to')
+            .setDesc('One plan note, or a "Study plan" section in each daily note using the daily note folder and format above')
+            .addDropdown(dropdown => dropdown
+                .addOption('note', 'Plan note')
+                .addOption('daily', 'Daily notes')
+                .setValue(this.plugin.settings.plannerOutput)
+                .onChange(async (value) => {
+                    this.plugin.settings.plannerOutput = value as PlannerOutput;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Plan note')
+            .setDesc('Vault path of the plan note')
+            .addText(text => text
+                .setPlaceholder('Canvas/Study plan.md')
+                .setValue(this.plugin.settings.plannerNotePath)
+                .onChange(async (value) => {
+                    this.plugin.settings.plannerNotePath = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Available hours')
+            .setDesc('Hours you can study on each day, Monday to Sunday, separated by commas')
+            .addText(text => text
+                .setPlaceholder('2, 2, 2, 2, 2, 1, 1')
+                .setValue(this.plugin.settings.plannerWeeklyHours.join(', '))
+                .onChange(async (value) => {
+                    const hours = parseWeeklyHours(value);
+                    if (!hours) return;
+                    this.plugin.settings.plannerWeeklyHours = hours;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Default effort')
+            .setDesc(`Minutes of work for assignments without an "${EFFORT_KEY}" value in their note's frontmatter`)
+            .addText(text => text
+                .setPlaceholder('60')
+                .setValue(String(this.plugin.settings.plannerDefaultMinutes))
+                .onChange(async (value) => {
+                    const minutes = Number(value);
+                    if (isNaN(minutes) || minutes <= 0) return;
+                    this.plugin.settings.plannerDefaultMinutes = minutes;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Minutes per point')
+            .setDesc('Estimate effort from an assignment\'s points instead of the default; 0 turns this off')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.plannerMinutesPerPoint))
+                .onChange(async (value) => {
+                    const minutes = Number(value);
+                    if (isNaN(minutes) || minutes < 0) return;
+                    this.plugin.settings.plannerMinutesPerPoint = minutes;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Longest session')
+            .setDesc('Most minutes spent on one assignment in a day; longer work is spread over several days')
+            .addSlider(slider => slider
+                .setLimits(15, 240, 5)
+                .setValue(this.plugin.settings.plannerMaxSessionMinutes)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.plannerMaxSessionMinutes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Shortest session')
+            .setDesc('Time left in a day below this many minutes is not used, unless it finishes an assignment')
+            .addSlider(slider => slider
+                .setLimits(5, 120, 5)
+                .setValue(this.plugin.settings.plannerMinSessionMinutes)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.plannerMinSessionMinutes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Planning window')
+            .setDesc('Days ahead whose assignments are planned')
+            .addSlider(slider => slider
+                .setLimits(1, 60, 1)
+                .setValue(this.plugin.settings.plannerHorizonDays)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.plannerHorizonDays = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Re-plan on auto-sync')
+            .setDesc('Update the plan after every background sync when due dates, estimates or progress changed')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.plannerAutoReplan)
+                .onChange(async (value) => {
+                    this.plugin.settings.plannerAutoReplan = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Insert Templates'});
+
+        new Setting(containerEl)
+            .setName('Date format')
+            .setDesc('Moment.js format of dates in inserted text; templates can override it with {{due|date:"ddd D MMM"}}')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD HH:mm')
+                .setValue(this.plugin.settings.templateDateFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.templateDateFormat = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Time zone')
+            .setDesc('IANA time zone such as Europe/Berlin for dates in inserted text; leave empty to use this device\'s')
+            .addText(text => text
+                .setPlaceholder('Europe/Berlin')
+                .setValue(this.plugin.settings.templateTimeZone)
+                .onChange(async (value) => {
+                    const timeZone = value.trim();
+                    if (timeZone && getTimeZoneOffset(new Date(), timeZone) === null) return;
+                    this.plugin.settings.templateTimeZone = timeZone;
+                    await this.plugin.saveSettings();
+                }));
+
+        (Object.keys(OUTPUT_TEMPLATE_NAMES) as OutputTemplateId[]).forEach(id => this.displayOutputTemplate(containerEl, id));
+
+        containerEl.createEl('h3', {text: 'Module Mirror'});
+
+        new Setting(containerEl)
+            .setName('Mirror folder')
+            .setDesc('Folder that gets one subfolder per course and module')
+            .addText(text => text
+                .setPlaceholder('Canvas/Modules')
+                .setValue(this.plugin.settings.mirrorFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.mirrorFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Download file types')
+            .setDesc('File extensions to download, separated by commas; leave empty for all')
+            .addText(text => text
+                .setPlaceholder('pdf, pptx, docx')
+                .setValue(this.plugin.settings.mirrorRules.includeExtensions.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.mirrorRules.includeExtensions = parseExtensions(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Skip file types')
+            .setDesc('File extensions never to download, separated by commas')
+            .addText(text => text
+                .setPlaceholder('mp4, zip')
+                .setValue(this.plugin.settings.mirrorRules.excludeExtensions.join(', '))
+                .onChange(async (value) => {
+                    this.plugin.settings.mirrorRules.excludeExtensions = parseExtensions(value);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Largest file (MB)')
+            .setDesc('Files above this size are linked instead of downloaded; 0 for no limit')
+            .addText(text => text
+                .setPlaceholder('50')
+                .setValue(String(this.plugin.settings.mirrorRules.maxFileSizeMb))
+                .onChange(async (value) => {
+                    const size = Number(value);
+                    if (!Number.isNaN(size) && size >= 0) {
+                        this.plugin.settings.mirrorRules.maxFileSizeMb = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        this.displayMirrorCourses(containerEl.createDiv());
+
+        containerEl.createEl('h3', {text: 'Dashboard'});
+
+        new Setting(containerEl)
+            .setName('Due soon window')
+            .setDesc('Days ahead listed under "Due in the next N days"')
+            .addSlider(slider => slider
+                .setLimits(1, 30, 1)
+                .setValue(this.plugin.settings.dashboardDueDays)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.dashboardDueDays = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Refresh interval')
+            .setDesc('Minutes between background refreshes while the dashboard is open; applies when it is next opened')
+            .addSlider(slider => slider
+                .setLimits(1, 60, 1)
+                .setValue(this.plugin.settings.dashboardRefreshMinutes)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.dashboardRefreshMinutes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Task Completion'});
+
+        new Setting(containerEl)
+            .setName('Sync task checkboxes with Canvas')
+            .setDesc('Ticking a Canvas task in a note marks it done in the Canvas planner, and items completed in Canvas are ticked on sync')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.taskSyncEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.taskSyncEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('When a task is ticked')
+            .setDesc('Dismissed items disappear from the Canvas to-do list instead of showing as done')
+            .addDropdown(dropdown => dropdown
+                .addOption('complete', 'Mark complete')
+                .addOption('dismiss', 'Dismiss')
+                .setValue(this.plugin.settings.taskCompletionAction)
+                .onChange(async (value) => {
+                    this.plugin.settings.taskCompletionAction = value as TaskCompletionAction;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Conflicts')
+            .setDesc('Which side wins when a task differs between the vault and Canvas and neither was synced before')
+            .addDropdown(dropdown => dropdown
+                .addOption('newest', 'Most recent change')
+                .addOption('obsidian', 'Obsidian')
+                .addOption('canvas', 'Canvas')
+                .setValue(this.plugin.settings.taskConflictPolicy)
+                .onChange(async (value) => {
+                    this.plugin.settings.taskConflictPolicy = value as TaskConflictPolicy;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Requests'});
+
+        new Setting(containerEl)
+            .setName('Parallel requests')
+            .setDesc('Maximum number of Canvas requests in flight at once. Lower this if your token gets throttled.')
+            .addSlider(slider => slider
+                .setLimits(1, 10, 1)
+                .setValue(this.plugin.settings.maxConcurrentRequests)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxConcurrentRequests = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Retries')
+            .setDesc('How often to retry requests that were throttled, and reads that failed with a server error')
+            .addSlider(slider => slider
+                .setLimits(0, 6, 1)
+                .setValue(this.plugin.settings.maxRetries)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.maxRetries = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', {text: 'Cache'});
+
+        new Setting(containerEl)
+            .setName('Cache Canvas responses')
+            .setDesc('Keep responses on disk and reuse them until they expire')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.cacheEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.cacheEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Stale-while-revalidate')
+            .setDesc('Show expired cached data immediately and refresh it in the background')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.staleWhileRevalidate)
+                .onChange(async (value) => {
+                    this.plugin.settings.staleWhileRevalidate = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Offline mode')
+            .setDesc('Never contact Canvas; commands use cached data only')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.offlineMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.offlineMode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const ttlLabels: Record<CacheResource, string> = {
+            profile: 'User profile',
+            courses: 'Courses',
+            assignments: 'Assignments',
+            modules: 'Modules',
+            events: 'Upcoming events',
+            todo: 'Todo items',
+            other: 'Everything else'
+        };
+        (Object.keys(ttlLabels) as CacheResource[]).forEach(resource => {
+            new Setting(containerEl)
+                .setName(`Cache lifetime: ${ttlLabels[resource]}`)
+                .setDesc('Minutes before a cached response is refetched')
+                .addText(text => text
+                    .setPlaceholder(String(DEFAULT_CACHE_TTL_MINUTES[resource]))
+                    .setValue(String(this.plugin.settings.cacheTtlMinutes[resource]))
+                    .onChange(async (value) => {
+                        const minutes = Number(value);
+                        if (value.trim() === '' || isNaN(minutes) || minutes < 0) return;
+                        this.plugin.settings.cacheTtlMinutes[resource] = minutes;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Clear cache')
+            .setDesc('Remove all cached Canvas responses')
+            .addButton(button => button
+                .setButtonText('Clear')
+                .onClick(async () => {
+                    await this.plugin.clearCanvasCache();
+                }));
+
         // Add a test connection button
         new Setting(containerEl)
             .setName('Test Connection')
-            .setDesc('Test your Canvas API connection')
+            .setDesc('Test the Canvas API connection of the active profile')
             .addButton(button => button
                 .setButtonText('Test')
                 .onClick(async () => {
@@ -113,4 +792,319 @@ export class SampleSettingTab extends PluginSettingTab {
                 }));
         
     }
+
+    /**
+     * Developer key and sign-in state of an OAuth2 profile
+     */
+    private displayOAuth(profileEl: HTMLElement, profile: CanvasProfile): void {
+        new Setting(profileEl)
+            .setName('Client ID')
+            .setDesc(`ID of the Canvas developer key. Its redirect URI must be ${OAUTH_REDIRECT_URI}`)
+            .addText(text => text
+                .setValue(profile.oauthClientId)
+                .onChange(async (value) => {
+                    profile.oauthClientId = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileEl)
+            .setName('Client secret')
+            .setDesc('Key of the Canvas developer key')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.setValue(profile.oauthClientSecret)
+                    .onChange(async (value) => {
+                        profile.oauthClientSecret = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        const signedIn = profile.canvasApiToken !== '';
+        const expiry = profile.oauthExpiresAt
+            ? `; the current token expires ${moment(profile.oauthExpiresAt).format('HH:mm')} and is renewed automatically`
+            : '';
+        new Setting(profileEl)
+            .setName('Canvas account')
+            .setDesc(signedIn ? `Signed in${expiry}` : 'Not signed in')
+            .addButton(button => button
+                .setButtonText(signedIn ? 'Sign out' : 'Sign in')
+                .onClick(async () => {
+                    if (signedIn) {
+                        await this.plugin.oauth.signOut(profile);
+                        this.display();
+                    } else {
+                        this.plugin.oauth.signIn(profile);
+                    }
+                }));
+    }
+
+    /**
+     * Connection settings and enabled courses of one profile
+     */
+    private displayProfile(containerEl: HTMLElement, profile: CanvasProfile): void {
+        const profileEl = containerEl.createDiv({cls: 'canvas-profile-settings'});
+        profileEl.createEl('h3', {text: profile.name});
+
+        new Setting(profileEl)
+            .setName('Profile name')
+            .setDesc('Notes of profiles other than the first are kept in a subfolder with this name')
+            .addText(text => text
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value.trim() || profile.name;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileEl)
+            .setName('Canvas API URL')
+            .setDesc("Your Canvas instance URL (e.g., https://'your school'.instructure.com)")
+            .addText(text => text
+                .setPlaceholder('https://canvas.instructure.com')
+                .setValue(profile.canvasApiUrl)
+                .onChange(async (value) => {
+                    profile.canvasApiUrl = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileEl)
+            .setName('Sign-in method')
+            .setDesc('Paste an access token, or sign in through OAuth2 with a developer key from your Canvas admin')
+            .addDropdown(dropdown => dropdown
+                .addOption('token', 'Access token')
+                .addOption('oauth', 'OAuth2 sign-in')
+                .setValue(profile.authMethod)
+                .onChange(async (value) => {
+                    profile.authMethod = value as CanvasAuthMethod;
+                    // Tokens of one method are no use to the other
+                    profile.canvasApiToken = '';
+                    profile.oauthRefreshToken = '';
+                    profile.oauthExpiresAt = null;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (profile.authMethod === 'oauth') {
+            this.displayOAuth(profileEl, profile);
+        } else {
+            new Setting(profileEl)
+                .setName('Canvas API Token')
+                .setDesc('Your Canvas API access token')
+                .addText(text => {
+                    text.inputEl.type = 'password';
+                    text.setPlaceholder('Enter your API token')
+                        .setValue(profile.canvasApiToken)
+                        .onChange(async (value) => {
+                            profile.canvasApiToken = value.trim();
+                            await this.plugin.saveSettings();
+                        });
+                });
+        }
+
+        // Add CORS proxy settings
+        new Setting(profileEl)
+            .setName('Use CORS Proxy')
+            .setDesc('Enable if you are experiencing CORS errors (403 Forbidden). Requests then carry your token through the proxy.')
+            .addToggle(toggle => toggle
+                .setValue(profile.useProxy)
+                .onChange(async (value) => {
+                    profile.useProxy = value;
+                    await this.plugin.saveSettings();
+                    // Update the disabled state of the CORS proxy inputs
+                    profileEl.querySelectorAll('.cors-proxy-url input').forEach(input => input.toggleAttribute('disabled', !value));
+                }));
+
+        new Setting(profileEl)
+            .setName('CORS Proxy URL')
+            .setDesc('A proxy you run yourself, such as proxy/canvas-proxy.mjs from the plugin repository. You are asked once before your token is sent to it.')
+            .addText(text => text
+                .setPlaceholder('http://127.0.0.1:8787/')
+                .setValue(profile.corsProxyUrl)
+                .setDisabled(!profile.useProxy)
+                .onChange(async (value) => {
+                    profile.corsProxyUrl = value.trim();
+                    await this.plugin.saveSettings();
+                }))
+            .settingEl.addClass('cors-proxy-url');
+
+        new Setting(profileEl)
+            .setName('Proxy secret')
+            .setDesc('Signs proxied requests; set the same PROXY_SECRET when starting the proxy')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.setValue(profile.proxySecret)
+                    .setDisabled(!profile.useProxy)
+                    .onChange(async (value) => {
+                        profile.proxySecret = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .settingEl.addClass('cors-proxy-url');
+
+        new Setting(profileEl)
+            .setName('Role')
+            .setDesc('Teachers and TAs see the courses they teach and get the grading commands')
+            .addDropdown(dropdown => dropdown
+                .addOption('student', 'Student')
+                .addOption('teacher', 'Teacher')
+                .addOption('ta', 'Teaching assistant')
+                .setValue(profile.role)
+                .onChange(async (value) => {
+                    profile.role = value as EnrollmentRole;
+                    // Course ids of one role mean nothing to the other
+                    profile.enabledCourses = [];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        const coursesEl = profileEl.createDiv();
+        coursesEl.createEl('div', {
+            text: 'Enabled courses (none selected enables all active courses)',
+            cls: 'setting-item-description'
+        });
+        // List every course, not just the enabled ones the profile's client returns
+        new CanvasAPI({ ...profile, enabledCourses: [] }, this.plugin.settings, this.plugin.responseCache)
+            .getCourses(profile.role, 'active')
+            .then(courses => courses.forEach(course => {
+                const id = String(course.id);
+                new Setting(coursesEl)
+                    .setName(course.name)
+                    .addToggle(toggle => toggle
+                        .setValue(profile.enabledCourses.includes(id))
+                        .onChange(async (value) => {
+                            const selected = profile.enabledCourses.filter(other => other !== id);
+                            profile.enabledCourses = value ? [...selected, id] : selected;
+                            await this.plugin.saveSettings();
+                        }));
+            }))
+            .catch(error => {
+                coursesEl.createEl('div', {
+                    text: `Could not load courses: ${error.message || 'Unknown error'}`,
+                    cls: 'setting-item-description'
+                });
+            });
+
+        if (this.plugin.settings.profiles.length > 1) {
+            new Setting(profileEl)
+                .setName('Remove profile')
+                .setDesc('Synced notes are kept in the vault')
+                .addButton(button => button
+                    .setButtonText('Remove')
+                    .setWarning()
+                    .onClick(async () => {
+                        const settings = this.plugin.settings;
+                        settings.profiles = settings.profiles.filter(other => other.id !== profile.id);
+                        if (settings.activeProfileId === profile.id) {
+                            settings.activeProfileId = settings.profiles[0].id;
+                        }
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        }
+    }
+
+    /**
+     * Per-course mirroring switches and rule overrides for the active profile
+     */
+    private displayMirrorCourses(coursesEl: HTMLElement): void {
+        const profile = this.plugin.activeProfile;
+        coursesEl.createEl('div', {
+            text: `Courses to mirror (${profile.name}); empty overrides use the rules above`,
+            cls: 'setting-item-description'
+        });
+        this.plugin.canvasApi.getCourses(profile.role, 'active')
+            .then(courses => courses.forEach(course => {
+                const key = scopedKey(profile.id, course.id);
+                const rules = (): CourseMirrorRules => {
+                    const { mirrorCourses } = this.plugin.settings;
+                    mirrorCourses[key] = mirrorCourses[key] ?? { enabled: false };
+                    return mirrorCourses[key];
+                };
+                const current = this.plugin.settings.mirrorCourses[key];
+                new Setting(coursesEl)
+                    .setName(course.name)
+                    .addText(text => text
+                        .setPlaceholder('Skip types')
+                        .setValue(current?.excludeExtensions?.join(', ') ?? '')
+                        .onChange(async (value) => {
+                            rules().excludeExtensions = value.trim() ? parseExtensions(value) : undefined;
+                            await this.plugin.saveSettings();
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Max MB')
+                        .setValue(current?.maxFileSizeMb !== undefined ? String(current.maxFileSizeMb) : '')
+                        .onChange(async (value) => {
+                            const size = Number(value);
+                            rules().maxFileSizeMb = value.trim() && !Number.isNaN(size) && size >= 0 ? size : undefined;
+                            await this.plugin.saveSettings();
+                        }))
+                    .addToggle(toggle => toggle
+                        .setValue(current?.enabled ?? false)
+                        .onChange(async (value) => {
+                            rules().enabled = value;
+                            await this.plugin.saveSettings();
+                        }));
+            }))
+            .catch(error => {
+                coursesEl.createEl('div', {
+                    text: `Could not load courses: ${error.message || 'Unknown error'}`,
+                    cls: 'setting-item-description'
+                });
+            });
+    }
+
+    /**
+     * Layout choice of one insert command, with the custom template or
+     * template file when those are selected
+     */
+    private displayOutputTemplate(containerEl: HTMLElement, id: OutputTemplateId): void {
+        const templates = this.plugin.settings.outputTemplates;
+        const template = templates[id] ?? { ...DEFAULT_OUTPUT_TEMPLATES[id] };
+        templates[id] = template;
+
+        new Setting(containerEl)
+            .setName(OUTPUT_TEMPLATE_NAMES[id])
+            .addDropdown(dropdown => {
+                getTemplateVariants(id).forEach(variant => dropdown.addOption(variant, TEMPLATE_VARIANT_LABELS[variant]));
+                dropdown
+                    .setValue(template.variant)
+                    .onChange(async (value) => {
+                        // Start a custom template from the layout it replaces
+                        if (value === 'custom' && !template.custom) {
+                            template.custom = BUILT_IN_TEMPLATES[id][template.variant] ?? '';
+                        }
+                        template.variant = value as TemplateVariant;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        if (template.variant === 'custom') {
+            const setting = new Setting(containerEl)
+                .setDesc('Placeholders like {{title}}, blocks like {{#each items}}…{{/each}}, filters like |cell and |date')
+                .addTextArea(text => {
+                    text
+                        .setPlaceholder('{{#each items}}\n- {{title}}\n{{/each}}')
+                        .setValue(template.custom)
+                        .onChange(async (value) => {
+                            const error = validateTemplate(value);
+                            setting.setDesc(error ?? 'Template is valid');
+                            if (error) return;
+                            template.custom = value;
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.rows = 8;
+                    text.inputEl.addClass('canvas-template-input');
+                });
+        } else if (template.variant === 'file') {
+            new Setting(containerEl)
+                .setDesc('Vault path of a note holding the template')
+                .addText(text => text
+                    .setPlaceholder('Templates/Canvas todo.md')
+                    .setValue(template.file)
+                    .onChange(async (value) => {
+                        template.file = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
 }
@@ -0,0 +1,457 @@
+import { Notice, TFile, moment, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import { ASSIGNMENT_ID_KEY } from './assignmentSync';
+import { CanvasId, getTodoDueAt, getTodoTitle, isSubmissionComplete } from './canvasTypes';
+import { escapeLinkText, formatNoteDate } from './markdownUtils';
+import { readRegion, upsertRegion, wrapRegion } from './noteRegions';
+import { CanvasProfile, indexProfileNotes, scopedKey } from './profiles';
+import { StudySchedule, StudySession, StudyTask, addDays, formatMinutes, scheduleStudySessions } from './studyScheduler';
+import { ensureFolder } from './vaultUtils';
+
+/** Frontmatter key of assignment notes holding the user's effort estimate in minutes */
+export const EFFORT_KEY = 'estimated_minutes';
+
+/** Region id of the plan in the plan note and in daily notes */
+const PLAN_REGION = 'study-plan';
+
+/** Marker ending each session line: task id, date and minutes */
+const SESSION_MARKER = /%% study:(\S+) (\d{4}-\d{2}-\d{2}) (\d+) %%/;
+
+/** Assignments due at or after this hour can still be worked on that day */
+const EVENING_DUE_HOUR = 18;
+
+export type PlannerOutput = 'note' | 'daily';
+
+/** What the plan knows about an assignment, enough to render its sessions */
+export interface PlannedAssignment {
+    title: string;
+    course: string;
+    dueAt: string;
+    /** Work cannot start before the assignment unlocks */
+    unlockAt?: string | null;
+    assignmentId?: CanvasId;
+    url?: string;
+    points: number | null;
+    /** Estimated minutes in total, before ticked sessions are deducted */
+    effortMinutes: number;
+}
+
+export interface StudyPlanState {
+    /** Inputs of the last plan, to tell whether anything changed since */
+    signature: string;
+    plannedAt: number | null;
+    profileId: string;
+    assignments: Record<string, PlannedAssignment>;
+    schedule: StudySchedule;
+    /** Minutes of ticked sessions, keyed by `taskId|date` */
+    done: Record<string, number>;
+}
+
+export interface StudyPlanStore {
+    load(): Promise<StudyPlanState | null>;
+    save(state: StudyPlanState): Promise<void>;
+}
+
+const EMPTY_STATE: StudyPlanState = {
+    signature: '',
+    plannedAt: null,
+    profileId: '',
+    assignments: {},
+    schedule: { sessions: [], unfit: [] },
+    done: {}
+};
+
+/**
+ * Turns the active profile's upcoming assignments into a day-by-day
+ * schedule of work sessions, written as tasks into a plan note or into
+ * daily notes. Effort comes from the `estimated_minutes` frontmatter of
+ * assignment notes, falling back to an estimate from the points. Ticked
+ * sessions count as work done; unticked past sessions are scheduled
+ * again. After each auto-sync the plan is only rewritten when due dates,
+ * estimates or progress changed, and the user is told about assignments
+ * that no longer fit before their deadline.
+ */
+export class StudyPlanner {
+    plugin: MyPlugin;
+    private store: StudyPlanStore;
+    private state: StudyPlanState = EMPTY_STATE;
+
+    constructor(plugin: MyPlugin, store: StudyPlanStore) {
+        this.plugin = plugin;
+        this.store = store;
+    }
+
+    /**
+     * Whether a plan has been made, so there is one to keep up to date
+     */
+    get hasPlan(): boolean {
+        return this.state.plannedAt !== null;
+    }
+
+    /**
+     * Restore the last plan from the store
+     */
+    async load(): Promise<void> {
+        const state = await this.store.load();
+        if (state) {
+            this.state = { ...EMPTY_STATE, ...state };
+        }
+    }
+
+    /**
+     * Plan the upcoming assignments and write the plan
+     * @param force Rewrite the plan even if nothing changed
+     * @returns The plan, and whether it was rewritten
+     */
+    async plan(force = false): Promise<{ state: StudyPlanState; changed: boolean }> {
+        const { settings } = this.plugin;
+        const profile = this.plugin.activeProfile;
+        const today = moment().format('YYYY-MM-DD');
+        const done = await this.collectDone();
+        const assignments = await this.collectAssignments(profile);
+
+        const tasks: StudyTask[] = Object.entries(assignments).map(([id, assignment]) => {
+            // A day with a ticked session is finished for that assignment
+            const doneDays = Object.keys(done).filter(key => getTaskId(key) === id).map(getDate);
+            const firstDays = [
+                ...doneDays.filter(date => date >= today).map(date => addDays(date, 1)),
+                ...(assignment.unlockAt ? [moment(assignment.unlockAt).format('YYYY-MM-DD')] : [])
+            ].sort();
+            return {
+                id,
+                effortMinutes: assignment.effortMinutes - sumDone(done, id),
+                lastDay: getLastWorkDay(assignment.dueAt),
+                firstDay: firstDays[firstDays.length - 1],
+                points: assignment.points
+            };
+        });
+        const options = {
+            startDate: today,
+            weeklyMinutes: toWeeklyMinutes(settings.plannerWeeklyHours),
+            maxSessionMinutes: settings.plannerMaxSessionMinutes,
+            minSessionMinutes: settings.plannerMinSessionMinutes
+        };
+        const signature = JSON.stringify({ profile: profile.id, tasks, options, output: settings.plannerOutput });
+        if (!force && signature === this.state.signature) {
+            return { state: this.state, changed: false };
+        }
+
+        const previous = this.state;
+        const state: StudyPlanState = {
+            signature,
+            plannedAt: Date.now(),
+            profileId: profile.id,
+            assignments,
+            schedule: scheduleStudySessions(tasks, options),
+            done
+        };
+        this.state = state;
+        await this.write(state, previous);
+        await this.store.save(state);
+
+        const newlyUnfit = state.schedule.unfit.filter(task => !previous.schedule.unfit.some(other => other.taskId === task.taskId));
+        if (newlyUnfit.length > 0 && !force) {
+            const names = newlyUnfit.map(task => state.assignments[task.taskId]?.title ?? task.taskId);
+            new Notice(`Study plan: ${names.join(', ')} no longer fit${newlyUnfit.length === 1 ? 's' : ''} before the deadline`);
+        }
+        return { state, changed: true };
+    }
+
+    /**
+     * Fill the study sessions of a daily note from the current plan, when
+     * plans are written into daily notes
+     * @param file Note that was created or opened
+     */
+    async handleDailyNote(file: TFile | null): Promise<void> {
+        if (!file || this.plugin.settings.plannerOutput !== 'daily' || !this.hasPlan) return;
+        const date = this.plugin.dailyNoteAgenda.getDailyNoteDate(file);
+        if (!date || date.isBefore(moment().startOf('day'))) return;
+        try {
+            await this.writeDailyNote(file, date.format('YYYY-MM-DD'), this.state);
+        } catch (error) {
+            console.error('Error adding study plan to daily note:', error);
+        }
+    }
+
+    /**
+     * The plan note, if plans have been written to one
+     */
+    getPlanNote(): TFile | null {
+        const file = this.plugin.app.vault.getAbstractFileByPath(this.getPlanNotePath());
+        return file instanceof TFile ? file : null;
+    }
+
+    /**
+     * Upcoming assignments not handed in yet, with their effort estimate
+     */
+    private async collectAssignments(profile: CanvasProfile): Promise<Record<string, PlannedAssignment>> {
+        const { settings } = this.plugin;
+        const api = this.plugin.getApi(profile.id);
+        const now = moment();
+        const horizon = moment().add(Math.max(1, settings.plannerHorizonDays), 'days').endOf('day');
+        const inRange = (dueAt: string | null | undefined): dueAt is string =>
+            !!dueAt && moment(dueAt).isAfter(now) && moment(dueAt).isBefore(horizon);
+        const notes = indexProfileNotes(this.plugin.app, ASSIGNMENT_ID_KEY, profile.id);
+        const estimate = (assignmentId: CanvasId | undefined, points: number | null) => {
+            const note = assignmentId !== undefined ? notes.get(String(assignmentId)) : undefined;
+            const own = note ? Number(this.plugin.app.metadataCache.getFileCache(note)?.frontmatter?.[EFFORT_KEY]) : NaN;
+            if (own > 0) return own;
+            if (settings.plannerMinutesPerPoint > 0 && points) return points * settings.plannerMinutesPerPoint;
+            return settings.plannerDefaultMinutes;
+        };
+
+        const assignments: Record<string, PlannedAssignment> = {};
+        for (const course of await api.getCourses(profile.role, 'active')) {
+            for (const assignment of await api.getCourseAssignments(course.id, { include: ['submission'] })) {
+                if (!inRange(assignment.due_at) || isSubmissionComplete(assignment)) continue;
+                const points = assignment.points_possible ?? null;
+                assignments[scopedKey(profile.id, `assignment:${assignment.id}`)] = {
+                    title: assignment.name,
+                    course: course.name,
+                    dueAt: assignment.due_at,
+                    unlockAt: assignment.unlock_at,
+                    assignmentId: assignment.id,
+                    url: assignment.html_url,
+                    points,
+                    effortMinutes: estimate(assignment.id, points)
+                };
+            }
+        }
+
+        // The todo list adds quizzes and items of courses not listed above
+        for (const todo of await api.getTodoItems()) {
+            const dueAt = getTodoDueAt(todo);
+            const id = todo.assignment ? `assignment:${todo.assignment.id}` : todo.quiz ? `quiz:${todo.quiz.id}` : null;
+            if (!id || !inRange(dueAt)) continue;
+            const key = scopedKey(profile.id, id);
+            if (assignments[key]) continue;
+            const points = todo.assignment?.points_possible ?? null;
+            assignments[key] = {
+                title: getTodoTitle(todo),
+                course: todo.context_name ?? '',
+                dueAt,
+                assignmentId: todo.assignment?.id,
+                url: todo.html_url ?? todo.assignment?.html_url,
+                points,
+                effortMinutes: estimate(todo.assignment?.id, points)
+            };
+        }
+        return assignments;
+    }
+
+    /**
+     * Minutes of ticked sessions, read from wherever the last plan was written
+     */
+    private async collectDone(): Promise<Record<string, number>> {
+        const done = { ...this.state.done };
+        const files = new Set<TFile>();
+        const planNote = this.getPlanNote();
+        if (planNote) files.add(planNote);
+        new Set(this.state.schedule.sessions.map(session => session.date)).forEach(date => {
+            const note = this.getDailyNote(date);
+            if (note) files.add(note);
+        });
+
+        for (const file of files) {
+            const region = readRegion(await this.plugin.app.vault.cachedRead(file), PLAN_REGION) ?? '';
+            region.split('\n').forEach(line => {
+                const marker = SESSION_MARKER.exec(line);
+                const checkbox = /^\s*[-*] \[(.)\]/.exec(line);
+                if (!marker || !checkbox) return;
+                const key = `${marker[1]}|${marker[2]}`;
+                if (checkbox[1] === ' ') {
+                    delete done[key];
+                } else {
+                    done[key] = Number(marker[3]);
+                }
+            });
+        }
+        // Progress on assignments that left the plan is no longer needed
+        const current = new Set(Object.keys(this.state.assignments));
+        Object.keys(done).forEach(key => {
+            if (!current.has(getTaskId(key))) delete done[key];
+        });
+        return done;
+    }
+
+    private async write(state: StudyPlanState, previous: StudyPlanState): Promise<void> {
+        const { app, settings } = this.plugin;
+        if (settings.plannerOutput === 'note') {
+            const path = this.getPlanNotePath();
+            const body = this.renderPlan(state, path);
+            const existing = this.getPlanNote();
+            if (existing) {
+                await app.vault.modify(existing, upsertRegion(await app.vault.read(existing), PLAN_REGION, body));
+            } else {
+                await ensureFolder(app, path.split('/').slice(0, -1).join('/'));
+                await app.vault.create(path, `# Study plan\n\n${wrapRegion(PLAN_REGION, body)}\n`);
+            }
+            return;
+        }
+
+        // Daily notes that exist already; the rest are filled when created
+        const today = moment().format('YYYY-MM-DD');
+        const dates = new Set([...previous.schedule.sessions, ...state.schedule.sessions]
+            .map(session => session.date)
+            .filter(date => date >= today));
+        for (const date of dates) {
+            const note = this.getDailyNote(date);
+            if (note) await this.writeDailyNote(note, date, state);
+        }
+    }
+
+    private async writeDailyNote(file: TFile, date: string, state: StudyPlanState): Promise<void> {
+        const { app } = this.plugin;
+        const sessions = getSessionsOn(date, state);
+        const lines = sessions.length > 0
+            ? sessions.map(session => this.renderSession(session, state, file.path))
+            : ['No study sessions planned.'];
+        if (date === moment().format('YYYY-MM-DD')) {
+            lines.unshift(...this.renderUnfit(state));
+        }
+        const body = lines.join('\n');
+
+        const content = await app.vault.read(file);
+        let updated: string;
+        if (readRegion(content, PLAN_REGION) !== null) {
+            updated = upsertRegion(content, PLAN_REGION, body);
+        } else {
+            const separator = content.length === 0 || content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+            updated = `${content}${separator}## Study plan\n\n${wrapRegion(PLAN_REGION, body)}\n`;
+        }
+        if (updated !== content) {
+            await app.vault.modify(file, updated);
+        }
+    }
+
+    private renderPlan(state: StudyPlanState, sourcePath: string): string {
+        const total = state.schedule.sessions.reduce((sum, session) => sum + session.minutes, 0);
+        const count = state.schedule.sessions.length;
+        const sections = [
+            `_Planned ${formatNoteDate(new Date(state.plannedAt ?? Date.now()).toISOString())} · ${formatMinutes(total)} of work in ${count} session${count === 1 ? '' : 's'}_`
+        ];
+        const unfit = this.renderUnfit(state);
+        if (unfit.length > 0) sections.push(unfit.join('\n'));
+
+        const today = moment().format('YYYY-MM-DD');
+        const dates = [...new Set([
+            ...Object.keys(state.done).map(getDate).filter(date => date >= today),
+            ...state.schedule.sessions.map(session => session.date)
+        ])].sort();
+        dates.forEach(date => {
+            const lines = getSessionsOn(date, state).map(session => this.renderSession(session, state, sourcePath));
+            sections.push(`### ${moment(date, 'YYYY-MM-DD').format('dddd, MMMM D')}\n\n${lines.join('\n')}`);
+        });
+        if (dates.length === 0 && unfit.length === 0) {
+            sections.push('Nothing to plan: no open assignments are due soon.');
+        }
+        return sections.join('\n\n');
+    }
+
+    private renderUnfit(state: StudyPlanState): string[] {
+        if (state.schedule.unfit.length === 0) return [];
+        return [
+            '> [!warning] Not enough time before the deadline',
+            ...state.schedule.unfit.map(task => {
+                const assignment = state.assignments[task.taskId];
+                if (!assignment) return `> - ${task.taskId}`;
+                return `> - ${this.link(assignment, '')} (${assignment.course}): ${formatMinutes(task.missingMinutes)} short, due ${formatNoteDate(assignment.dueAt)}`;
+            })
+        ];
+    }
+
+    private renderSession(session: StudySession, state: StudyPlanState, sourcePath: string): string {
+        const assignment = state.assignments[session.taskId];
+        const checked = state.done[`${session.taskId}|${session.date}`] !== undefined ? 'x' : ' ';
+        const label = assignment
+            ? `${this.link(assignment, sourcePath)} (${assignment.course}) · ${formatMinutes(session.minutes)}, due ${moment(assignment.dueAt).format('MMM D HH:mm')}`
+            : formatMinutes(session.minutes);
+        return `- [${checked}] ${label} %% study:${session.taskId} ${session.date} ${session.minutes} %%`;
+    }
+
+    /**
+     * Link to the synced assignment note, or to Canvas if there is none
+     */
+    private link(assignment: PlannedAssignment, sourcePath: string): string {
+        const { app } = this.plugin;
+        const notes = indexProfileNotes(app, ASSIGNMENT_ID_KEY, this.state.profileId);
+        const note = assignment.assignmentId !== undefined ? notes.get(String(assignment.assignmentId)) : undefined;
+        if (note) {
+            const linktext = app.metadataCache.fileToLinktext(note, sourcePath, true);
+            return `[[${linktext}|${assignment.title.replace(/[|\]]/g, ' ')}]]`;
+        }
+        return assignment.url ? `[${escapeLinkText(assignment.title)}](${assignment.url})` : assignment.title;
+    }
+
+    private getPlanNotePath(): string {
+        const path = this.plugin.settings.plannerNotePath || 'Canvas/Study plan.md';
+        return normalizePath(path.endsWith('.md') ? path : `${path}.md`);
+    }
+
+    private getDailyNote(date: string): TFile | null {
+        const { settings } = this.plugin;
+        const name = moment(date, 'YYYY-MM-DD').format(settings.dailyNoteFormat || 'YYYY-MM-DD');
+        const file = this.plugin.app.vault.getAbstractFileByPath(normalizePath(`${settings.dailyNoteFolder || '/'}/${name}.md`));
+        return file instanceof TFile ? file : null;
+    }
+}
+
+/**
+ * Last day an assignment can be worked on: its due day when it is due
+ * in the evening, otherwise the day before
+ * @param dueAt ISO due date
+ * @returns Date as `YYYY-MM-DD`
+ */
+export function getLastWorkDay(dueAt: string): string {
+    const due = moment(dueAt);
+    return (due.hour() >= EVENING_DUE_HOUR ? due : due.clone().subtract(1, 'day')).format('YYYY-MM-DD');
+}
+
+/**
+ * Parse available hours per weekday, Monday first, as typed in the settings
+ * @param value Seven numbers separated by commas
+ * @returns Hours per weekday, Monday first; null if the value is not valid
+ */
+export function parseWeeklyHours(value: string): number[] | null {
+    const hours = value.split(',').map(part => Number(part.trim()));
+    if (hours.length !== 7 || hours.some(hour => isNaN(hour) || hour < 0 || hour > 24)) return null;
+    return hours;
+}
+
+/**
+ * Minutes per weekday, Sunday first, from hours per weekday, Monday first
+ */
+function toWeeklyMinutes(hours: number[]): number[] {
+    const minutes = hours.map(hour => Math.round(hour * 60));
+    return [minutes[6] ?? 0, ...minutes.slice(0, 6)];
+}
+
+/**
+ * Sessions of a day: those already ticked, then the planned ones
+ */
+function getSessionsOn(date: string, state: StudyPlanState): StudySession[] {
+    const done = Object.entries(state.done)
+        .filter(([key]) => getDate(key) === date && state.assignments[getTaskId(key)])
+        .map(([key, minutes]) => ({ taskId: getTaskId(key), date, minutes }));
+    return [...done, ...state.schedule.sessions.filter(session => session.date === date)];
+}
+
+/**
+ * Task id of a `taskId|date` key of ticked sessions
+ */
+function getTaskId(key: string): string {
+    return key.slice(0, key.lastIndexOf('|'));
+}
+
+/**
+ * Date of a `taskId|date` key of ticked sessions
+ */
+function getDate(key: string): string {
+    return key.slice(key.lastIndexOf('|') + 1);
+}
+
+function sumDone(done: Record<string, number>, taskId: string): number {
+    return Object.entries(done)
+        .filter(([key]) => getTaskId(key) === taskId)
+        .reduce((sum, [, minutes]) => sum + minutes, 0);
+}
@@ -0,0 +1,128 @@
+/**
+ * Work session scheduling for the study planner.
+ *
+ * Each task has an effort estimate, a last day it can be worked on and
+ * possibly a first one.
+ * Days are filled in order, earliest deadline first, up to the minutes
+ * available on that weekday; no task gets more than one session of at
+ * most `maxSessionMinutes` per day, so long assignments are spread over
+ * several days. Leftover capacity shorter than `minSessionMinutes` is
+ * not used unless it finishes a task. Tasks that still have work left
+ * after their last day are reported with the minutes that did not fit.
+ *
+ * Dates are plain `YYYY-MM-DD` strings in the user's calendar; turning
+ * Canvas timestamps into them is up to the caller. Everything here is
+ * free of Obsidian and network access so it can be reused and tested.
+ */
+
+export interface StudyTask {
+    id: string;
+    /** Estimated minutes of work still to do */
+    effortMinutes: number;
+    /** Last day work can be scheduled on, as `YYYY-MM-DD` */
+    lastDay: string;
+    /** First day work can be scheduled on, e.g. when the task unlocks */
+    firstDay?: string;
+    /** Breaks ties between tasks with the same deadline; higher goes first */
+    points?: number | null;
+}
+
+export interface SchedulerOptions {
+    /** First day sessions may be scheduled on, as `YYYY-MM-DD` */
+    startDate: string;
+    /** Minutes available on each weekday, Sunday first */
+    weeklyMinutes: number[];
+    /** Longest session of one task on one day */
+    maxSessionMinutes: number;
+    /** Shortest session worth scheduling, unless it finishes the task */
+    minSessionMinutes: number;
+}
+
+export interface StudySession {
+    taskId: string;
+    date: string;
+    minutes: number;
+}
+
+export interface UnfitTask {
+    taskId: string;
+    /** Minutes of work left over after the task's last day */
+    missingMinutes: number;
+}
+
+export interface StudySchedule {
+    /** Sessions in date order, most urgent task first within a day */
+    sessions: StudySession[];
+    /** Tasks that cannot be finished before their deadline */
+    unfit: UnfitTask[];
+}
+
+/**
+ * Spread tasks over the days before their deadlines
+ * @param tasks Tasks to schedule; tasks without effort left are ignored
+ * @param options Availability and session lengths
+ * @returns Sessions per day and the tasks that do not fit
+ */
+export function scheduleStudySessions(tasks: StudyTask[], options: SchedulerOptions): StudySchedule {
+    const remaining = new Map<string, number>();
+    tasks.forEach(task => {
+        if (task.effortMinutes > 0) remaining.set(task.id, Math.ceil(task.effortMinutes));
+    });
+    const pending = tasks
+        .filter(task => remaining.has(task.id))
+        .sort((a, b) => a.lastDay.localeCompare(b.lastDay) || (b.points ?? 0) - (a.points ?? 0) || a.id.localeCompare(b.id));
+    const maxSession = Math.max(1, options.maxSessionMinutes);
+    const minSession = Math.max(1, Math.min(options.minSessionMinutes, maxSession));
+    const lastDay = pending.reduce((latest, task) => task.lastDay > latest ? task.lastDay : latest, options.startDate);
+
+    const sessions: StudySession[] = [];
+    for (let date = options.startDate; date <= lastDay; date = addDays(date, 1)) {
+        let capacity = Math.max(0, options.weeklyMinutes[getWeekday(date)] ?? 0);
+        for (const task of pending) {
+            if (capacity <= 0) break;
+            const left = remaining.get(task.id) ?? 0;
+            if (left <= 0 || task.lastDay < date || (task.firstDay !== undefined && task.firstDay > date)) continue;
+
+            const minutes = Math.min(left, maxSession, capacity);
+            // A short slot is only worth it when it finishes the task
+            if (minutes < minSession && minutes < left) continue;
+            sessions.push({ taskId: task.id, date, minutes });
+            remaining.set(task.id, left - minutes);
+            capacity -= minutes;
+        }
+    }
+
+    const unfit = pending
+        .filter(task => (remaining.get(task.id) ?? 0) > 0)
+        .map(task => ({ taskId: task.id, missingMinutes: remaining.get(task.id) ?? 0 }));
+    return { sessions, unfit };
+}
+
+/**
+ * Date a number of days after another
+ * @param date Date as `YYYY-MM-DD`
+ * @param days Days to add; may be negative
+ * @returns Date as `YYYY-MM-DD`
+ */
+export function addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week of a date, Sunday being 0
+ */
+export function getWeekday(date: string): number {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Describe a number of minutes as hours and minutes, e.g. `1h 30m`
+ */
+export function formatMinutes(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    if (hours === 0) return `${rest}m`;
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
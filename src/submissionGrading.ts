@@ -0,0 +1,615 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import MyPlugin from './main';
+import {
+    Assignment, CanvasFile, CanvasId, Course, Enrollment, RubricAssessmentEntry, RubricCriterion, Submission
+} from './canvasTypes';
+import { canvasHtmlToMarkdown } from './htmlConverter';
+import { createVaultLinkResolver } from './linkResolver';
+import { formatNoteDate, markdownTable } from './markdownUtils';
+import { upsertRegion, wrapRegion } from './noteRegions';
+import { CanvasProfile, PROFILE_KEY, getProfileFolder } from './profiles';
+import { ensureFolder, getAvailableNotePath, sanitizeFileName, updateFrontmatterFields } from './vaultUtils';
+
+/** Frontmatter keys identifying the submission a review note grades */
+export const REVIEW_ASSIGNMENT_KEY = 'review_assignment_id';
+export const REVIEW_STUDENT_KEY = 'review_student_id';
+
+/** Grade, rubric assessment and comment typed into a review note */
+export interface ReviewGrade {
+    /** Score or letter grade as typed; null when left empty */
+    score: string | null;
+    /** Points and comments per rubric criterion id */
+    rubric: Record<string, RubricAssessmentEntry>;
+    comment: string;
+}
+
+/** A submission waiting for a grade, with where it belongs */
+interface GradingTarget {
+    course: Course;
+    assignment: Assignment;
+    submission: Submission;
+    profile: CanvasProfile;
+}
+
+/** Review note's Canvas ids, read from its frontmatter */
+interface ReviewNote {
+    courseId: CanvasId;
+    assignmentId: CanvasId;
+    studentId: CanvasId;
+    student: string;
+    assignment: string;
+    profile: CanvasProfile;
+}
+
+/** Gradebook rows, ready for a Markdown table or CSV */
+export interface Gradebook {
+    headers: string[];
+    rows: Array<Array<string | number>>;
+}
+
+/**
+ * Grading for teacher and TA profiles. Submissions waiting for a grade
+ * are listed per assignment; choosing one writes a review note with the
+ * student's text entry, downloaded attachments and a rubric to fill in.
+ * The score, rubric points and comment typed into the note are posted
+ * back to Canvas on request. Courses can also be exported as a gradebook
+ * table and CSV file.
+ */
+export class SubmissionGrader {
+    plugin: MyPlugin;
+
+    constructor(plugin: MyPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Let the user pick an assignment with ungraded submissions, then a
+     * submission, and open its review note
+     */
+    async chooseSubmission(): Promise<void> {
+        const profile = this.plugin.activeProfile;
+        const api = this.plugin.getApi(profile.id);
+        new Notice('Loading submissions to grade...');
+
+        const pending: Array<{ course: Course; assignment: Assignment }> = [];
+        for (const course of await api.getCourses(profile.role, 'active')) {
+            const assignments = await api.getCourseAssignments(course.id, { fresh: true });
+            assignments
+                .filter(assignment => (assignment.needs_grading_count ?? 0) > 0)
+                .forEach(assignment => pending.push({ course, assignment }));
+        }
+        if (pending.length === 0) {
+            new Notice('No Canvas submissions are waiting for a grade');
+            return;
+        }
+
+        new ItemSuggestModal(
+            this.plugin.app,
+            pending,
+            ({ course, assignment }) => `${course.name}: ${assignment.name} (${assignment.needs_grading_count} to grade)`,
+            'Choose an assignment to grade',
+            async ({ course, assignment }) => {
+                try {
+                    const submissions = (await api.getSubmissions(course.id, assignment.id, { fresh: true })).filter(needsGrading);
+                    if (submissions.length === 0) {
+                        new Notice(`No submissions of ${assignment.name} are waiting for a grade`);
+                        return;
+                    }
+                    new ItemSuggestModal(
+                        this.plugin.app,
+                        submissions.map(submission => ({ course, assignment, submission, profile })),
+                        ({ submission }) => describeSubmission(submission),
+                        `Choose a submission of ${assignment.name}`,
+                        target => this.openReviewNote(target)
+                    ).open();
+                } catch (error) {
+                    console.error('Error loading Canvas submissions:', error);
+                    new Notice(`Failed to load submissions: ${error.message || 'Unknown error'}`);
+                }
+            }
+        ).open();
+    }
+
+    /**
+     * Create or refresh the review note of a submission. Only the submission region is rewritten; the rubric and grade the
+     * user typed are kept.
+     * @param target Submission to review
+     * @returns The review note
+     */
+    async writeReviewNote(target: GradingTarget): Promise<TFile> {
+        const { app } = this.plugin;
+        const { course, submission, profile } = target;
+        const api = this.plugin.getApi(profile.id);
+        const assignment = await api.getAssignment(course.id, target.assignment.id, { fresh: true });
+        const full = await api.getSubmission(course.id, assignment.id, submission.user_id as CanvasId, { fresh: true });
+        const studentId = full.user_id ?? submission.user_id as CanvasId;
+        const student = full.user?.name ?? submission.user?.name ?? `Student ${studentId}`;
+        const folder = this.getAssignmentFolder(course, assignment, profile);
+        await ensureFolder(app, folder);
+
+        let file = this.findReviewNote(folder, assignment.id, studentId);
+        const attachments = await this.downloadAttachments(full, folder, student, file, profile);
+        const body = this.renderSubmission(full, attachments, file?.path ?? `${folder}/${student}.md`, profile);
+
+        if (!file) {
+            const path = getAvailableNotePath(app, folder, student, String(studentId));
+            file = await app.vault.create(path, [
+                `# ${student}: ${assignment.name}`,
+                '',
+                wrapRegion('submission', body),
+                '',
+                ...renderRubric(assignment.rubric ?? [], full.rubric_assessment ?? {}),
+                '## Grade',
+                '',
+                `score:: ${full.grade ?? ''}`,
+                'comment:: ',
+                ''
+            ].join('\n'));
+        } else {
+            const content = await app.vault.read(file);
+            const updated = upsertRegion(content, 'submission', body);
+            if (updated !== content) {
+                await app.vault.modify(file, updated);
+            }
+        }
+
+        await updateFrontmatterFields(app, file, {
+            [REVIEW_ASSIGNMENT_KEY]: assignment.id,
+            [REVIEW_STUDENT_KEY]: studentId,
+            [PROFILE_KEY]: profile.id,
+            course_id: course.id,
+            course: course.name,
+            assignment: assignment.name,
+            student,
+            points_possible: assignment.points_possible ?? null,
+            submitted_at: full.submitted_at ?? null,
+            submission_attempt: full.attempt ?? null,
+            late: full.late ?? false,
+            workflow_state: full.workflow_state,
+            canvas_url: `${api.baseUrl}/courses/${course.id}/gradebook/speed_grader?assignment_id=${assignment.id}&student_id=${studentId}`
+        });
+        return file;
+    }
+
+    /**
+     * Read the grade typed into a review note, confirm it and post it to Canvas
+     * @param file Review note
+     */
+    async postGrade(file: TFile): Promise<void> {
+        const review = this.getReviewNote(file);
+        if (!review) return;
+        const grade = parseReviewNote(await this.plugin.app.vault.read(file));
+        if (grade.score === null && Object.keys(grade.rubric).length === 0 && !grade.comment) {
+            new Notice('Fill in a score, rubric points or a comment under the Grade and Rubric headings first');
+            return;
+        }
+
+        new GradeConfirmModal(this.plugin.app, review, grade, async () => {
+            try {
+                new Notice(`Posting grade for ${review.student}...`);
+                const submission = await this.plugin.getApi(review.profile.id).gradeSubmission(
+                    review.courseId,
+                    review.assignmentId,
+                    review.studentId,
+                    {
+                        postedGrade: grade.score ?? undefined,
+                        rubricAssessment: grade.rubric,
+                        comment: grade.comment || undefined
+                    }
+                );
+                await updateFrontmatterFields(this.plugin.app, file, {
+                    workflow_state: submission.workflow_state,
+                    posted_grade: submission.grade ?? null,
+                    posted_score: submission.score ?? null,
+                    graded_at: submission.graded_at ?? new Date().toISOString()
+                });
+                new Notice(`Posted grade for ${review.student}${submission.grade ? `: ${submission.grade}` : ''}`);
+            } catch (error) {
+                console.error('Error posting Canvas grade:', error);
+                new Notice(`Failed to post grade: ${error.message || 'Unknown error'}`);
+            }
+        }).open();
+    }
+
+    /**
+     * Let the user pick a course and export its gradebook
+     */
+    async chooseGradebookCourse(): Promise<void> {
+        const profile = this.plugin.activeProfile;
+        const courses = await this.plugin.getApi(profile.id).getCourses(profile.role, 'active');
+        if (courses.length === 0) {
+            new Notice('No active Canvas courses found');
+            return;
+        }
+        new ItemSuggestModal(this.plugin.app, courses, course => course.name, 'Choose a course to export', async course => {
+            try {
+                new Notice(`Exporting gradebook of ${course.name}...`);
+                const file = await this.exportGradebook(course, profile);
+                await this.plugin.app.workspace.getLeaf(false).openFile(file);
+                new Notice(`Exported gradebook of ${course.name}`);
+            } catch (error) {
+                console.error('Error exporting Canvas gradebook:', error);
+                new Notice(`Failed to export gradebook: ${error.message || 'Unknown error'}`);
+            }
+        }).open();
+    }
+
+    /**
+     * Write a course's gradebook as a Markdown table note and a CSV file
+     * next to it; text outside the table region of the note is kept
+     * @param course Course to export
+     * @param profile Profile the course belongs to; defaults to the active one
+     * @returns The gradebook note
+     */
+    async exportGradebook(course: Course, profile: CanvasProfile = this.plugin.activeProfile): Promise<TFile> {
+        const { app } = this.plugin;
+        const api = this.plugin.getApi(profile.id);
+        const [assignments, enrollments, submissions] = await Promise.all([
+            api.getCourseAssignments(course.id, { fresh: true }),
+            api.getCourseEnrollments(course.id, ['StudentEnrollment'], { fresh: true }),
+            api.getStudentSubmissions(course.id, { fresh: true })
+        ]);
+        const gradebook = buildGradebook(assignments.filter(assignment => assignment.published !== false), enrollments, submissions);
+
+        const folder = this.getCourseFolder(course, profile);
+        await ensureFolder(app, folder);
+        const table = [`_Exported ${formatNoteDate(new Date().toISOString())}_`, '', markdownTable(gradebook.headers, gradebook.rows)].join('\n');
+        const notePath = normalizePath(`${folder}/Gradebook.md`);
+        const csvPath = normalizePath(`${folder}/Gradebook.csv`);
+
+        let note = app.vault.getAbstractFileByPath(notePath);
+        if (note instanceof TFile) {
+            await app.vault.modify(note, upsertRegion(await app.vault.read(note), 'gradebook', table));
+        } else {
+            note = await app.vault.create(notePath, `# ${course.name} gradebook\n\n${wrapRegion('gradebook', table)}\n`);
+        }
+        const csv = app.vault.getAbstractFileByPath(csvPath);
+        if (csv instanceof TFile) {
+            await app.vault.modify(csv, toCsv(gradebook));
+        } else {
+            await app.vault.create(csvPath, toCsv(gradebook));
+        }
+        return note as TFile;
+    }
+
+    /**
+     * Canvas ids and profile of a review note, read from its frontmatter
+     */
+    getReviewNote(file: TFile): ReviewNote | null {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        const assignmentId = frontmatter?.[REVIEW_ASSIGNMENT_KEY];
+        const studentId = frontmatter?.[REVIEW_STUDENT_KEY];
+        const courseId = frontmatter?.course_id;
+        if ([assignmentId, studentId, courseId].some(id => id === undefined || id === null)) return null;
+        const profile = this.plugin.settings.profiles.find(other => other.id === frontmatter?.[PROFILE_KEY])
+            ?? this.plugin.activeProfile;
+        return {
+            courseId,
+            assignmentId,
+            studentId,
+            student: String(frontmatter?.student ?? `Student ${studentId}`),
+            assignment: String(frontmatter?.assignment ?? `Assignment ${assignmentId}`),
+            profile
+        };
+    }
+
+    private async openReviewNote(target: GradingTarget) {
+        try {
+            const file = await this.writeReviewNote(target);
+            await this.plugin.app.workspace.getLeaf(false).openFile(file);
+        } catch (error) {
+            console.error('Error writing Canvas review note:', error);
+            new Notice(`Failed to open submission: ${error.message || 'Unknown error'}`);
+        }
+    }
+
+    private getCourseFolder(course: Course, profile: CanvasProfile): string {
+        const root = getProfileFolder(this.plugin.settings.reviewNotesFolder || 'Canvas/Grading', profile);
+        return normalizePath(`${root}/${sanitizeFileName(course.name)}`);
+    }
+
+    private getAssignmentFolder(course: Course, assignment: Assignment, profile: CanvasProfile): string {
+        return normalizePath(`${this.getCourseFolder(course, profile)}/${sanitizeFileName(assignment.name)}`);
+    }
+
+    private findReviewNote(folder: string, assignmentId: CanvasId, studentId: CanvasId): TFile | null {
+        const { app } = this.plugin;
+        return app.vault.getMarkdownFiles().find(file => {
+            if (!file.path.startsWith(`${folder}/`)) return false;
+            const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+            return String(frontmatter?.[REVIEW_ASSIGNMENT_KEY]) === String(assignmentId)
+                && String(frontmatter?.[REVIEW_STUDENT_KEY]) === String(studentId);
+        }) ?? null;
+    }
+
+    /**
+     * Save a submission's attachments in a folder per student, downloading
+     * them again only for a new attempt
+     */
+    private async downloadAttachments(
+        submission: Submission,
+        folder: string,
+        student: string,
+        existing: TFile | null,
+        profile: CanvasProfile
+    ): Promise<TFile[]> {
+        const files = submission.attachments ?? [];
+        if (files.length === 0) return [];
+        const { app } = this.plugin;
+        const api = this.plugin.getApi(profile.id);
+        const attachmentFolder = normalizePath(`${folder}/${sanitizeFileName(student)} files`);
+        await ensureFolder(app, attachmentFolder);
+        const previousAttempt = existing ? app.metadataCache.getFileCache(existing)?.frontmatter?.submission_attempt : undefined;
+        const newAttempt = previousAttempt !== (submission.attempt ?? null);
+
+        const saved: TFile[] = [];
+        for (const attachment of files) {
+            const path = normalizePath(`${attachmentFolder}/${attachmentName(attachment)}`);
+            const current = app.vault.getAbstractFileByPath(path);
+            if (current instanceof TFile) {
+                if (newAttempt) {
+                    await app.vault.modifyBinary(current, await api.downloadFile(attachment));
+                }
+                saved.push(current);
+            } else {
+                saved.push(await app.vault.createBinary(path, await api.downloadFile(attachment)));
+            }
+        }
+        return saved;
+    }
+
+    private renderSubmission(submission: Submission, attachments: TFile[], sourcePath: string, profile: CanvasProfile): string {
+        const api = this.plugin.getApi(profile.id);
+        const details = [
+            submission.submitted_at ? `Submitted ${formatNoteDate(submission.submitted_at)}` : 'Not submitted',
+            submission.attempt ? `attempt ${submission.attempt}` : '',
+            submission.late ? 'late' : ''
+        ].filter(Boolean).join(' · ');
+        const lines = [`_${details}_`, ''];
+
+        if (submission.body) {
+            lines.push(canvasHtmlToMarkdown(submission.body, {
+                baseUrl: api.baseUrl,
+                resolveLink: createVaultLinkResolver(this.plugin.app, profile.id, sourcePath, this.plugin.moduleMirror)
+            }), '');
+        }
+        if (submission.url) {
+            lines.push(`Website: <${submission.url}>`, '');
+        }
+        if (attachments.length > 0) {
+            lines.push('**Attachments**', '');
+            attachments.forEach(file => lines.push(`- ${this.plugin.app.fileManager.generateMarkdownLink(file, sourcePath)}`));
+            lines.push('');
+        }
+        if (!submission.body && !submission.url && attachments.length === 0) {
+            lines.push('_Nothing to show here; open the submission in SpeedGrader._');
+        }
+        return lines.join('\n');
+    }
+}
+
+/**
+ * Whether a submission is waiting for a grade, including resubmissions
+ * of graded work
+ */
+export function needsGrading(submission: Submission): boolean {
+    return submission.workflow_state === 'submitted' || submission.workflow_state === 'pending_review';
+}
+
+/**
+ * Read the grade a user typed into a review note. Fields are written as
+ * `key:: value` lines: `score::` and `comment::` anywhere outside the
+ * rubric, and `points::` and `comments::` under a criterion heading of
+ * the rubric. Generated regions are skipped, so text quoted from the
+ * submission is never taken for a grade.
+ * @param content Full note content
+ * @returns Grade, rubric assessment and comment
+ */
+export function parseReviewNote(content: string): ReviewGrade {
+    const text = content.replace(/%% canvas-sync:start (\S+) %%[\s\S]*?%% canvas-sync:end \1 %%/g, '');
+    const grade: ReviewGrade = { score: null, rubric: {}, comment: '' };
+    let criterion: string | null = null;
+
+    for (const line of text.split('\n')) {
+        const heading = /^#{1,6}\s/.test(line);
+        if (heading) {
+            criterion = /%%\s*criterion:(\S+)\s*%%/.exec(line)?.[1] ?? null;
+            continue;
+        }
+        const field = /^\s*(?:[-*]\s+)?(score|comment|points|comments)::[ \t]*(.*)$/.exec(line);
+        if (!field) continue;
+        const [, key, rawValue] = field;
+        const value = rawValue.trim();
+        if (!value) continue;
+
+        if (criterion && (key === 'points' || key === 'comments')) {
+            const entry = grade.rubric[criterion] ?? (grade.rubric[criterion] = {});
+            if (key === 'points') {
+                const points = Number(value);
+                if (!Number.isNaN(points)) entry.points = points;
+            } else {
+                entry.comments = value;
+            }
+        } else if (!criterion && key === 'score') {
+            grade.score = value;
+        } else if (!criterion && key === 'comment') {
+            grade.comment = value;
+        }
+    }
+    return grade;
+}
+
+/**
+ * Build a gradebook with one row per student and one column per assignment.
+ * Excused submissions show as `EX`; missing ones are left empty.
+ * @param assignments Assignments, in column order
+ * @param enrollments Student enrollments; students in several sections appear once
+ * @param submissions Submissions of every student
+ * @returns Headers and rows
+ */
+export function buildGradebook(assignments: Assignment[], enrollments: Enrollment[], submissions: Submission[]): Gradebook {
+    const scores = new Map<string, Submission>();
+    submissions.forEach(submission => {
+        scores.set(`${submission.user_id}:${submission.assignment_id}`, submission);
+    });
+
+    const students = new Map<string, Enrollment>();
+    enrollments.forEach(enrollment => {
+        const id = String(enrollment.user_id ?? enrollment.user?.id);
+        if (!students.has(id)) students.set(id, enrollment);
+    });
+    const sorted = [...students.entries()].sort(([, a], [, b]) => {
+        const nameA = a.user?.sortable_name ?? a.user?.name ?? '';
+        const nameB = b.user?.sortable_name ?? b.user?.name ?? '';
+        return nameA.localeCompare(nameB);
+    });
+
+    const headers = [
+        'Student',
+        ...assignments.map(assignment => assignment.points_possible
+            ? `${assignment.name} (${assignment.points_possible})`
+            : assignment.name),
+        'Current score',
+        'Current grade'
+    ];
+    const rows = sorted.map(([id, enrollment]) => [
+        enrollment.user?.sortable_name ?? enrollment.user?.name ?? `Student ${id}`,
+        ...assignments.map(assignment => {
+            const submission = scores.get(`${id}:${assignment.id}`);
+            if (submission?.excused) return 'EX';
+            return submission?.score ?? '';
+        }),
+        enrollment.grades?.current_score ?? '',
+        enrollment.grades?.current_grade ?? ''
+    ]);
+    return { headers, rows };
+}
+
+/**
+ * Serialize a gradebook as CSV, quoting fields where needed
+ */
+export function toCsv(gradebook: Gradebook): string {
+    const field = (value: string | number) => {
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [gradebook.headers, ...gradebook.rows]
+        .map(row => row.map(field).join(','))
+        .join('\r\n') + '\r\n';
+}
+
+/**
+ * Rubric section of a new review note: one heading per criterion with its
+ * ratings, and fields prefilled from an earlier assessment
+ */
+function renderRubric(rubric: RubricCriterion[], assessment: Record<string, RubricAssessmentEntry>): string[] {
+    if (rubric.length === 0) return [];
+    const lines = ['## Rubric', ''];
+    rubric.forEach(criterion => {
+        const previous = assessment[criterion.id];
+        lines.push(`### ${criterion.description} (${criterion.points} pts) %% criterion:${criterion.id} %%`, '');
+        if (criterion.long_description) {
+            lines.push(criterion.long_description, '');
+        }
+        const ratings = criterion.ratings.map(rating => `${rating.description} (${rating.points})`).join(' · ');
+        if (ratings) {
+            lines.push(`_${ratings}_`, '');
+        }
+        lines.push(`points:: ${previous?.points ?? ''}`, `comments:: ${previous?.comments ?? ''}`, '');
+    });
+    return lines;
+}
+
+function describeSubmission(submission: Submission): string {
+    const name = submission.user?.name ?? `Student ${submission.user_id}`;
+    const details = [
+        submission.submitted_at ? formatNoteDate(submission.submitted_at) : '',
+        submission.late ? 'late' : '',
+        submission.workflow_state === 'pending_review' ? 'pending review' : ''
+    ].filter(Boolean).join(', ');
+    return details ? `${name} (${details})` : name;
+}
+
+function attachmentName(file: CanvasFile): string {
+    const name = file.display_name || file.filename || `file-${file.id}`;
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? `${sanitizeFileName(name.slice(0, dot))}${name.slice(dot)}` : sanitizeFileName(name);
+}
+
+class ItemSuggestModal<T> extends FuzzySuggestModal<T> {
+    private items: T[];
+    private getText: (item: T) => string;
+    private onChoose: (item: T) => void;
+
+    constructor(app: App, items: T[], getText: (item: T) => string, placeholder: string, onChoose: (item: T) => void) {
+        super(app);
+        this.items = items;
+        this.getText = getText;
+        this.onChoose = onChoose;
+        this.setPlaceholder(placeholder);
+    }
+
+    getItems(): T[] {
+        return this.items;
+    }
+
+    getItemText(item: T): string {
+        return this.getText(item);
+    }
+
+    onChooseItem(item: T): void {
+        this.onChoose(item);
+    }
+}
+
+/**
+ * Shows the grade about to be posted before it reaches the student
+ */
+class GradeConfirmModal extends Modal {
+    private review: ReviewNote;
+    private grade: ReviewGrade;
+    private onConfirm: () => void;
+
+    constructor(app: App, review: ReviewNote, grade: ReviewGrade, onConfirm: () => void) {
+        super(app);
+        this.review = review;
+        this.grade = grade;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h3', { text: 'Post grade to Canvas' });
+        contentEl.createEl('p', { text: `${this.review.student}: ${this.review.assignment}` });
+        contentEl.createEl('p', { text: `Score: ${this.grade.score ?? 'unchanged'}` });
+
+        const criteria = Object.values(this.grade.rubric);
+        if (criteria.length > 0) {
+            const points = criteria.reduce((sum, entry) => sum + (entry.points ?? 0), 0);
+            contentEl.createEl('p', { text: `Rubric: ${criteria.length} criteria assessed, ${points} points` });
+        }
+        if (this.grade.comment) {
+            contentEl.createEl('p', { text: `Comment: ${this.grade.comment}` });
+        }
+        contentEl.createEl('p', {
+            text: 'Students see posted grades and comments right away unless the assignment holds them back.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Post grade')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onConfirm();
+                }))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,131 @@
+import { Assignment, Course, DiscussionTopic } from './canvasTypes';
+
+/**
+ * Compact record of what a course looked like at the last background
+ * sync, and the diff between two such records. Only the fields that
+ * changes are reported for are kept, so the snapshot file stays small.
+ */
+
+export interface AssignmentSnapshot {
+    name: string;
+    dueAt: string | null;
+    gradedAt: string | null;
+    score: number | null;
+    grade: string | null;
+    pointsPossible: number | null;
+    url?: string;
+}
+
+export interface AnnouncementSnapshot {
+    title: string;
+    postedAt: string | null;
+    url?: string;
+}
+
+export interface CourseSnapshot {
+    name: string;
+    assignments: Record<string, AssignmentSnapshot>;
+    announcements: Record<string, AnnouncementSnapshot>;
+}
+
+export interface SyncSnapshot {
+    courses: Record<string, CourseSnapshot>;
+    /** Epoch milliseconds of the last successful sync */
+    lastSyncedAt: number | null;
+}
+
+export type CanvasChangeKind = 'new-assignment' | 'due-date-changed' | 'grade-posted' | 'new-announcement';
+
+export interface CanvasChange {
+    kind: CanvasChangeKind;
+    courseId: string;
+    course: string;
+    title: string;
+    /** Due date of new assignments and the new due date of moved ones */
+    dueAt?: string | null;
+    /** Score or grade of newly graded assignments */
+    grade?: string;
+    url?: string;
+}
+
+/** Labels used when changes are listed in notices */
+export const CHANGE_LABELS: Record<CanvasChangeKind, string> = {
+    'new-assignment': 'New assignment',
+    'due-date-changed': 'Due date changed',
+    'grade-posted': 'Grade posted',
+    'new-announcement': 'New announcement'
+};
+
+/**
+ * Record the current state of a course
+ * @param course Course
+ * @param assignments Course assignments, fetched with `include[]=submission`
+ * @param announcements Recent announcements of the course
+ * @returns Snapshot of the course
+ */
+export function snapshotCourse(course: Course, assignments: Assignment[], announcements: DiscussionTopic[]): CourseSnapshot {
+    const snapshot: CourseSnapshot = { name: course.name, assignments: {}, announcements: {} };
+    assignments.forEach(assignment => {
+        const submission = assignment.submission;
+        const graded = submission?.workflow_state === 'graded';
+        snapshot.assignments[String(assignment.id)] = {
+            name: assignment.name,
+            dueAt: assignment.due_at,
+            gradedAt: graded ? submission?.graded_at ?? null : null,
+            score: graded ? submission?.score ?? null : null,
+            grade: graded ? submission?.grade ?? null : null,
+            pointsPossible: assignment.points_possible ?? null,
+            url: assignment.html_url
+        };
+    });
+    announcements.forEach(announcement => {
+        snapshot.announcements[String(announcement.id)] = {
+            title: announcement.title,
+            postedAt: announcement.posted_at ?? null,
+            url: announcement.html_url
+        };
+    });
+    return snapshot;
+}
+
+/**
+ * Changes between two snapshots of the same course. A course seen for the
+ * first time has no previous snapshot and reports nothing, so enabling
+ * auto-sync does not flood the user with every existing assignment.
+ * @param courseId Course ID
+ * @param previous Snapshot from the last sync, if any
+ * @param next Current snapshot
+ * @returns Detected changes
+ */
+export function diffCourseSnapshots(courseId: string, previous: CourseSnapshot | undefined, next: CourseSnapshot): CanvasChange[] {
+    if (!previous) return [];
+
+    const changes: CanvasChange[] = [];
+    const change = (kind: CanvasChangeKind, title: string, url: string | undefined, extra: Partial<CanvasChange> = {}) =>
+        changes.push({ kind, courseId, course: next.name, title, url, ...extra });
+
+    Object.entries(next.assignments).forEach(([id, assignment]) => {
+        const before = previous.assignments[id];
+        if (!before) {
+            change('new-assignment', assignment.name, assignment.url, { dueAt: assignment.dueAt });
+            return;
+        }
+        if (before.dueAt !== assignment.dueAt) {
+            change('due-date-changed', assignment.name, assignment.url, { dueAt: assignment.dueAt });
+        }
+        if (assignment.gradedAt && assignment.gradedAt !== before.gradedAt) {
+            const grade = assignment.score !== null && assignment.pointsPossible !== null
+                ? `${assignment.score}/${assignment.pointsPossible}`
+                : assignment.grade ?? undefined;
+            change('grade-posted', assignment.name, assignment.url, { grade });
+        }
+    });
+
+    Object.entries(next.announcements).forEach(([id, announcement]) => {
+        if (!previous.announcements[id]) {
+            change('new-announcement', announcement.title, announcement.url);
+        }
+    });
+
+    return changes;
+}
@@ -0,0 +1,447 @@
+import { TAbstractFile, TFile, moment } from 'obsidian';
+import MyPlugin from './main';
+import { CanvasId, PlannerItem, isPlannerItemComplete } from './canvasTypes';
+import { CanvasApiError } from './errors';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+/**
+ * Two-way completion sync between Markdown tasks and the Canvas planner.
+ *
+ * Tasks rendered from Canvas carry a hidden marker naming the planner
+ * item they stand for, e.g.
+ *
+ *     - [ ] Essay 2 (English 101, due 23:59) %% canvas-task assignment 123 %%
+ *
+ * Items of profiles other than the default one name the profile too, as
+ * in `%% canvas-task work/assignment 123 %%`, since planner ids are only
+ * unique within one Canvas instance.
+ *
+ * Ticking such a task creates or updates a planner override in Canvas.
+ * On sync, items completed in Canvas are ticked in the vault. The state
+ * of each task at the last successful sync is kept as the common base,
+ * so a side that differs from it is known to have changed; when there is
+ * no base to decide by, the configured conflict policy picks a winner.
+ */
+
+export type TaskCompletionAction = 'complete' | 'dismiss';
+export type TaskConflictPolicy = 'newest' | 'obsidian' | 'canvas';
+
+/** Reference to a planner item, as written in a task marker */
+export interface CanvasTaskRef {
+    /** Profile the item belongs to */
+    profile: string;
+    type: string;
+    id: string;
+}
+
+export interface CanvasTaskLine extends CanvasTaskRef {
+    /** Zero-based line number */
+    line: number;
+    checked: boolean;
+}
+
+/** What is known about a task as of its last successful sync */
+export interface TaskState {
+    completed: boolean;
+    /** Existing Canvas override, so later changes can update it */
+    overrideId?: CanvasId;
+    /** Planner item the marker resolved to, when it differs from the marker */
+    plannableType?: string;
+    plannableId?: CanvasId;
+}
+
+/** Where task states are persisted; the plugin stores them next to data.json */
+export interface TaskStateStore {
+    load(): Promise<Record<string, TaskState> | null>;
+    save(states: Record<string, TaskState>): Promise<void>;
+}
+
+export interface TaskSyncResult {
+    /** Tasks whose state was sent to Canvas */
+    pushed: number;
+    /** Tasks ticked or unticked from Canvas */
+    pulled: number;
+    /** Tasks that changed on both sides without a common base */
+    conflicts: number;
+}
+
+/** Planner range searched on sync, relative to today */
+const PLANNER_DAYS_BEHIND = 60;
+const PLANNER_DAYS_AHEAD = 180;
+
+/** Wait this long after the last edit before pushing ticks to Canvas */
+const PUSH_DELAY_MS = 1500;
+const SAVE_DELAY_MS = 2000;
+
+const TASK_LINE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)(.)(\].*?%%\s*canvas-task\s+(?:([a-z0-9-]+)\/)?([a-z_]+)\s+([^\s%]+)\s*%%)/;
+
+/**
+ * Hidden marker tying a task to a Canvas planner item
+ * @param type Plannable type, e.g. 'assignment'
+ * @param id Plannable ID
+ * @param profile Profile the item belongs to
+ * @returns Obsidian comment to append to the task line
+ */
+export function taskMarker(type: string, id: CanvasId, profile = DEFAULT_PROFILE_ID): string {
+    return `%% canvas-task ${profile === DEFAULT_PROFILE_ID ? '' : `${profile}/`}${type} ${id} %%`;
+}
+
+/**
+ * Key identifying a planner item in task states. Keys of the default
+ * profile carry no prefix, so states saved before profiles stay valid.
+ */
+export function taskKey(type: string, id: CanvasId, profile = DEFAULT_PROFILE_ID): string {
+    return profile === DEFAULT_PROFILE_ID ? `${type}:${id}` : `${profile}/${type}:${id}`;
+}
+
+function matchTaskRef(match: RegExpMatchArray): CanvasTaskRef {
+    return { profile: match[4] ?? DEFAULT_PROFILE_ID, type: match[5], id: match[6] };
+}
+
+/**
+ * Find all marked Canvas tasks in a note
+ * @param content Note content
+ * @returns Marked task lines, in order
+ */
+export function findCanvasTasks(content: string): CanvasTaskLine[] {
+    const tasks: CanvasTaskLine[] = [];
+    content.split('\n').forEach((line, index) => {
+        const match = line.match(TASK_LINE);
+        if (match) {
+            tasks.push({ line: index, ...matchTaskRef(match), checked: match[2] === 'x' || match[2] === 'X' });
+        }
+    });
+    return tasks;
+}
+
+/**
+ * Tick or untick marked Canvas tasks
+ * @param content Note content
+ * @param completed Desired state per task key; other tasks are left alone
+ * @returns Updated content
+ */
+export function setCanvasTasksChecked(content: string, completed: Map<string, boolean>): string {
+    return content.split('\n').map(line => {
+        const match = line.match(TASK_LINE);
+        if (!match) return line;
+        const ref = matchTaskRef(match);
+        const desired = completed.get(taskKey(ref.type, ref.id, ref.profile));
+        const checked = match[2] === 'x' || match[2] === 'X';
+        if (desired === undefined || desired === checked) return line;
+        return `${match[1]}${desired ? 'x' : ' '}${line.slice(match[1].length + 1)}`;
+    }).join('\n');
+}
+
+/**
+ * Turn a rendered line into a marked Canvas task, if it is a task at all
+ * @param line Rendered Markdown line
+ * @param type Plannable type
+ * @param id Plannable ID
+ * @param completed Whether the item is done in Canvas
+ * @param profile Profile the item belongs to
+ * @returns The line with its checkbox set and the marker appended
+ */
+export function markCanvasTask(
+    line: string,
+    type: string,
+    id: CanvasId,
+    completed: boolean,
+    profile = DEFAULT_PROFILE_ID
+): string {
+    const match = line.match(/^(\s*(?:[-*+]|\d+[.)])\s+\[)(.)\]/);
+    if (!match) return line;
+    return `${match[1]}${completed ? 'x' : ' '}${line.slice(match[1].length + 1)} ${taskMarker(type, id, profile)}`;
+}
+
+export class TaskCompletionSync {
+    plugin: MyPlugin;
+    private store: TaskStateStore;
+    private states: Record<string, TaskState> = {};
+    private pushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(plugin: MyPlugin, store: TaskStateStore) {
+        this.plugin = plugin;
+        this.store = store;
+    }
+
+    /**
+     * Restore task states from the store
+     */
+    async load(): Promise<void> {
+        this.states = (await this.store.load()) ?? {};
+    }
+
+    /**
+     * Record the state of tasks just written from Canvas data, so they are
+     * not mistaken for local edits
+     * @param tasks Plannable type, ID and completion of each task, and the
+     * profile it belongs to unless that is the default one
+     */
+    recordTasks(tasks: Array<{ profile?: string; type: string; id: CanvasId; completed: boolean }>): void {
+        tasks.forEach(task => {
+            const key = taskKey(task.type, task.id, task.profile);
+            this.states[key] = { ...this.states[key], completed: task.completed };
+        });
+        this.scheduleSave();
+    }
+
+    /**
+     * Completion of the planner items in a date range, for rendering tasks
+     * @param start Start of the range
+     * @param end End of the range
+     * @param profileId Profile whose planner to read
+     * @returns Completion per task key, including assignment aliases
+     */
+    async fetchCompletion(start: moment.Moment, end: moment.Moment, profileId: string): Promise<Map<string, boolean>> {
+        const items = this.indexPlannerItems(await this.plugin.getApi(profileId).getPlannerItems(
+            start.toISOString(), end.toISOString(), { fresh: true }
+        ), profileId);
+        const completion = new Map<string, boolean>();
+        items.forEach((item, key) => completion.set(key, isPlannerItemComplete(item)));
+        return completion;
+    }
+
+    /**
+     * Push ticks made in a note to Canvas shortly after the user stops editing
+     * @param file File that was modified
+     */
+    handleModify(file: TAbstractFile): void {
+        if (!this.plugin.settings.taskSyncEnabled || !(file instanceof TFile) || file.extension !== 'md') return;
+
+        const pending = this.pushTimers.get(file.path);
+        if (pending !== undefined) {
+            clearTimeout(pending);
+        }
+        this.pushTimers.set(file.path, setTimeout(() => {
+            this.pushTimers.delete(file.path);
+            this.pushFile(file).catch(error => console.error('Error pushing Canvas task completion:', error));
+        }, PUSH_DELAY_MS));
+    }
+
+    /**
+     * Send every task in a note whose checkbox changed since the last sync
+     * @param file Note to scan
+     * @returns Number of tasks sent to Canvas
+     */
+    async pushFile(file: TFile): Promise<number> {
+        const content = await this.plugin.app.vault.cachedRead(file);
+        let pushed = 0;
+        for (const task of findCanvasTasks(content)) {
+            const state = this.states[taskKey(task.type, task.id, task.profile)];
+            // Tasks without a base are left for reconcile() to sort out
+            if (!state || state.completed === task.checked) continue;
+            await this.push(task, task.checked);
+            pushed++;
+        }
+        return pushed;
+    }
+
+    /**
+     * Reconcile every marked task in the vault with the Canvas planner
+     * @returns Counts of pushed, pulled and conflicting tasks
+     */
+    async reconcile(): Promise<TaskSyncResult> {
+        const result: TaskSyncResult = { pushed: 0, pulled: 0, conflicts: 0 };
+        const { app } = this.plugin;
+
+        const profileIds = new Set(this.plugin.settings.profiles.map(profile => profile.id));
+        const filesByKey = new Map<string, { ref: CanvasTaskRef; lines: Array<{ file: TFile; checked: boolean }> }>();
+        for (const file of this.getCandidateFiles()) {
+            const tasks = findCanvasTasks(await app.vault.cachedRead(file));
+            tasks.forEach(task => {
+                // Tasks of removed profiles have nowhere to sync to
+                if (!profileIds.has(task.profile)) return;
+                const key = taskKey(task.type, task.id, task.profile);
+                const entry = filesByKey.get(key) ?? { ref: { profile: task.profile, type: task.type, id: task.id }, lines: [] };
+                entry.lines.push({ file, checked: task.checked });
+                filesByKey.set(key, entry);
+            });
+        }
+        if (filesByKey.size === 0) return result;
+
+        // Only ask the planners of profiles that have tasks in the vault
+        const today = moment().startOf('day');
+        const planner = new Map<string, PlannerItem>();
+        for (const profileId of new Set([...filesByKey.values()].map(({ ref }) => ref.profile))) {
+            const items = await this.plugin.getApi(profileId).getPlannerItems(
+                today.clone().subtract(PLANNER_DAYS_BEHIND, 'days').toISOString(),
+                today.clone().add(PLANNER_DAYS_AHEAD, 'days').toISOString(),
+                { fresh: true }
+            );
+            this.indexPlannerItems(items, profileId).forEach((item, key) => planner.set(key, item));
+        }
+
+        const desired = new Map<string, boolean>();
+        for (const [key, { ref, lines }] of filesByKey) {
+            const base = this.states[key];
+            // A line that differs from the base is a local edit; otherwise all lines agree with it
+            const local = lines.find(line => !base || line.checked !== base.completed)?.checked ?? lines[0].checked;
+            const item = planner.get(key);
+
+            if (!item) {
+                // Outside the planner range; still send local edits made since the last sync
+                if (base && local !== base.completed) {
+                    await this.push(ref, local);
+                    result.pushed++;
+                }
+                continue;
+            }
+
+            this.states[key] = {
+                ...base,
+                completed: base?.completed ?? local,
+                overrideId: item.planner_override?.id ?? base?.overrideId,
+                plannableType: item.plannable_type,
+                plannableId: item.plannable_id
+            };
+            const remote = isPlannerItemComplete(item);
+
+            let winner: boolean;
+            if (local === remote) {
+                winner = local;
+            } else if (base && local !== base.completed) {
+                winner = local;
+            } else if (base) {
+                winner = remote;
+            } else {
+                winner = this.resolveConflict(local, remote, item, lines.map(line => line.file));
+                result.conflicts++;
+            }
+
+            if (winner !== remote) {
+                await this.push(ref, winner);
+                result.pushed++;
+            } else {
+                this.states[key].completed = winner;
+            }
+            if (lines.some(line => line.checked !== winner)) {
+                desired.set(key, winner);
+                if (winner === remote) result.pulled++;
+            }
+        }
+        this.scheduleSave();
+
+        if (desired.size > 0) {
+            const files = new Set<TFile>();
+            filesByKey.forEach(({ lines }, key) => {
+                if (desired.has(key)) lines.forEach(line => files.add(line.file));
+            });
+            for (const file of files) {
+                // Re-read right before writing so edits made meanwhile are kept
+                const content = await app.vault.read(file);
+                const updated = setCanvasTasksChecked(content, desired);
+                if (updated !== content) {
+                    await app.vault.modify(file, updated);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Write task states now. Pushes still waiting for their delay are
+     * dropped; their ticks differ from the base and go out on the next sync.
+     */
+    async flush(): Promise<void> {
+        this.pushTimers.forEach(timer => clearTimeout(timer));
+        this.pushTimers.clear();
+        if (this.saveTimer !== null) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        await this.store.save(this.states);
+    }
+
+    /**
+     * Set the completion of a planner item in Canvas
+     * @param ref Task marker reference
+     * @param completed Desired state
+     */
+    private async push(ref: CanvasTaskRef, completed: boolean): Promise<void> {
+        const api = this.plugin.getApi(ref.profile);
+        const key = taskKey(ref.type, ref.id, ref.profile);
+        const state = this.states[key];
+        const changes = !completed
+            ? { marked_complete: false, dismissed: false }
+            : this.plugin.settings.taskCompletionAction === 'dismiss'
+                ? { dismissed: true }
+                : { marked_complete: true };
+        const type = state?.plannableType ?? ref.type;
+        const id = state?.plannableId ?? ref.id;
+
+        let overrideId = state?.overrideId;
+        if (overrideId === undefined) {
+            try {
+                overrideId = (await api.createPlannerOverride(type, id, changes)).id;
+            } catch (error) {
+                // Canvas refuses a second override for the same item; update the existing one
+                if (!(error instanceof CanvasApiError) || error.status !== 400) throw error;
+                const existing = (await api.getPlannerOverrides({ fresh: true }))
+                    .find(override => override.plannable_type === type && String(override.plannable_id) === String(id));
+                if (!existing) throw error;
+                overrideId = (await api.updatePlannerOverride(existing.id, changes)).id;
+            }
+        } else {
+            await api.updatePlannerOverride(overrideId, changes);
+        }
+
+        this.states[key] = { ...state, completed, overrideId };
+        this.scheduleSave();
+    }
+
+    /**
+     * Pick the winning state of a task changed on both sides
+     */
+    private resolveConflict(local: boolean, remote: boolean, item: PlannerItem, files: TFile[]): boolean {
+        switch (this.plugin.settings.taskConflictPolicy) {
+            case 'obsidian':
+                return local;
+            case 'canvas':
+                return remote;
+            case 'newest': {
+                const remoteTime = Date.parse(item.planner_override?.updated_at ?? '');
+                const localTime = Math.max(...files.map(file => file.stat.mtime));
+                // Without an override the Canvas state comes from the submission itself, which wins
+                if (isNaN(remoteTime)) return remote;
+                return localTime >= remoteTime ? local : remote;
+            }
+        }
+    }
+
+    /**
+     * Planner items of a profile by task key. Graded quizzes and
+     * discussions are also indexed under their assignment, since
+     * assignment notes and todo entries refer to them that way.
+     */
+    private indexPlannerItems(items: PlannerItem[], profileId: string): Map<string, PlannerItem> {
+        const index = new Map<string, PlannerItem>();
+        items.forEach(item => {
+            index.set(taskKey(item.plannable_type, item.plannable_id, profileId), item);
+            const assignmentId = item.plannable.assignment_id;
+            if (assignmentId !== undefined && item.plannable_type !== 'assignment') {
+                index.set(taskKey('assignment', assignmentId, profileId), item);
+            }
+        });
+        return index;
+    }
+
+    /**
+     * Notes that contain tasks, according to the metadata cache
+     */
+    private getCandidateFiles(): TFile[] {
+        const { metadataCache, vault } = this.plugin.app;
+        return vault.getMarkdownFiles().filter(file =>
+            metadataCache.getFileCache(file)?.listItems?.some(item => item.task !== undefined)
+        );
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer !== null) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.store.save(this.states).catch(error => console.error('Failed to save Canvas task states:', error));
+        }, SAVE_DELAY_MS);
+    }
+}
@@ -0,0 +1,216 @@
+import { escapeLinkText, escapeTableCell } from './markdownUtils';
+
+/**
+ * Small Handlebars-style template engine for the text the insert
+ * commands put into notes.
+ *
+ * Supported syntax:
+ * - `{{name}}` and dotted paths such as `{{course.name}}`; names not
+ *   found in the current item are looked up in the enclosing ones
+ * - filters: `{{due|date:"ddd D MMM"|default:"No date"}}`
+ * - `{{#each list}}…{{else}}…{{/each}}` with `{{this}}`, `{{@index}}`,
+ *   `{{@number}}`, `{{@first}}` and `{{@last}}` inside
+ * - `{{#if value}}…{{else}}…{{/if}}` and `{{#unless value}}…{{/unless}}`
+ *
+ * A block tag on a line of its own removes that whole line, so templates
+ * can be laid out one tag per line without leaving blank lines behind.
+ * Nothing is escaped implicitly: use `cell` for table cells and `link`
+ * for link labels.
+ */
+
+export interface TemplateOptions {
+    /**
+     * Format a timestamp for the `date` filter
+     * @param value ISO timestamp
+     * @param format Moment format from the template, if any
+     */
+    formatDate: (value: string, format?: string) => string;
+}
+
+export type TemplateFilter = (value: unknown, args: string[], options: TemplateOptions) => unknown;
+
+type Node =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; path: string; filters: Array<{ name: string; args: string[] }> }
+    | { kind: 'block'; type: 'each' | 'if' | 'unless'; path: string; body: Node[]; inverse: Node[] };
+
+/** Thrown for templates with unbalanced or unknown block tags */
+export class TemplateSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateSyntaxError';
+        Object.setPrototypeOf(this, TemplateSyntaxError.prototype);
+    }
+}
+
+const FILTERS: Record<string, TemplateFilter> = {
+    date: (value, args, options) => typeof value === 'string' && value ? options.formatDate(value, args[0]) : '',
+    cell: value => escapeTableCell(value),
+    link: value => escapeLinkText(stringify(value)),
+    default: (value, args) => stringify(value) === '' ? args[0] ?? '' : value,
+    upper: value => stringify(value).toUpperCase(),
+    lower: value => stringify(value).toLowerCase(),
+    fixed: (value, args) => typeof value === 'number' ? value.toFixed(Number(args[0] ?? 2)) : value
+};
+
+const TAG = /\{\{\s*(#each|#if|#unless|\/each|\/if|\/unless|else)?\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * Fill a template with data
+ * @param template Template text
+ * @param data Values the template refers to
+ * @param options Date formatting
+ * @returns Rendered text
+ */
+export function renderOutputTemplate(template: string, data: Record<string, unknown>, options: TemplateOptions): string {
+    return renderNodes(parseTemplate(template), [data], options);
+}
+
+/**
+ * Check a template for syntax errors without rendering it
+ * @param template Template text
+ * @returns Error message, or null if the template is valid
+ */
+export function validateTemplate(template: string): string | null {
+    try {
+        parseTemplate(template);
+        return null;
+    } catch (error) {
+        if (error instanceof TemplateSyntaxError) return error.message;
+        throw error;
+    }
+}
+
+function parseTemplate(template: string): Node[] {
+    // Standalone block tags take their line with them
+    const source = template.replace(/^[ \t]*(\{\{\s*(?:#|\/|else)[^}]*\}\})[ \t]*\r?\n/gm, '$1');
+    const root: Node[] = [];
+    const stack: Array<{ node: Extract<Node, { kind: 'block' }>; inElse: boolean }> = [];
+    const target = () => {
+        const top = stack[stack.length - 1];
+        return top ? (top.inElse ? top.node.inverse : top.node.body) : root;
+    };
+
+    let last = 0;
+    for (const match of source.matchAll(TAG)) {
+        const index = match.index ?? 0;
+        if (index > last) {
+            target().push({ kind: 'text', text: source.slice(last, index) });
+        }
+        last = index + match[0].length;
+        const [, keyword, expression] = match;
+
+        if (!keyword) {
+            target().push(parseValue(expression));
+        } else if (keyword.startsWith('#')) {
+            const node: Extract<Node, { kind: 'block' }> = {
+                kind: 'block',
+                type: keyword.slice(1) as 'each' | 'if' | 'unless',
+                path: expression,
+                body: [],
+                inverse: []
+            };
+            target().push(node);
+            stack.push({ node, inElse: false });
+        } else if (keyword === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.inElse) throw new TemplateSyntaxError('{{else}} outside of a block');
+            top.inElse = true;
+        } else {
+            const top = stack.pop();
+            if (!top || `/${top.node.type}` !== keyword) {
+                throw new TemplateSyntaxError(`Unexpected {{${keyword}}}`);
+            }
+        }
+    }
+    if (last < source.length) {
+        target().push({ kind: 'text', text: source.slice(last) });
+    }
+    if (stack.length > 0) {
+        throw new TemplateSyntaxError(`Missing {{/${stack[stack.length - 1].node.type}}}`);
+    }
+    return root;
+}
+
+function parseValue(expression: string): Node {
+    // Split on pipes and colons that are not inside quotes
+    const parts = expression.match(/(?:"[^"]*"|'[^']*'|[^|])+/g) ?? [''];
+    const [path, ...filterParts] = parts.map(part => part.trim());
+    const filters = filterParts.map(part => {
+        const [name, ...args] = (part.match(/(?:"[^"]*"|'[^']*'|[^:])+/g) ?? []).map(arg => unquote(arg.trim()));
+        if (!FILTERS[name]) throw new TemplateSyntaxError(`Unknown filter "${name}"`);
+        return { name, args };
+    });
+    return { kind: 'value', path, filters };
+}
+
+function renderNodes(nodes: Node[], scopes: unknown[], options: TemplateOptions): string {
+    return nodes.map(node => {
+        switch (node.kind) {
+            case 'text':
+                return node.text;
+            case 'value': {
+                const value = node.filters.reduce(
+                    (current, filter) => FILTERS[filter.name](current, filter.args, options),
+                    lookup(node.path, scopes)
+                );
+                return stringify(value);
+            }
+            case 'block': {
+                const value = lookup(node.path, scopes);
+                if (node.type === 'each') {
+                    const items = Array.isArray(value) ? value : [];
+                    if (items.length === 0) return renderNodes(node.inverse, scopes, options);
+                    return items.map((item, index) => renderNodes(node.body, [{
+                        '@item': item,
+                        '@index': index,
+                        '@number': index + 1,
+                        '@first': index === 0,
+                        '@last': index === items.length - 1
+                    }, ...scopes], options)).join('');
+                }
+                const truthy = isTruthy(value) !== (node.type === 'unless');
+                return renderNodes(truthy ? node.body : node.inverse, scopes, options);
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Resolve a path against the innermost scope that has its first segment
+ */
+function lookup(path: string, scopes: unknown[]): unknown {
+    if (path.startsWith('@')) {
+        return (scopes[0] as Record<string, unknown>)?.[path];
+    }
+    const [head, ...rest] = path.split('.');
+    for (const scope of scopes) {
+        // Loop frames hold the current item under '@item'
+        const frame = scope as Record<string, unknown>;
+        const item = '@item' in frame ? frame['@item'] : frame;
+        if (head === 'this') return resolve(item, rest);
+        if (isRecord(item) && head in item) return resolve(item[head], rest);
+    }
+    return undefined;
+}
+
+function resolve(value: unknown, path: string[]): unknown {
+    return path.reduce<unknown>((current, key) => isRecord(current) ? current[key] : undefined, value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTruthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return String(value);
+}
+
+function unquote(value: string): string {
+    return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
@@ -0,0 +1,147 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+
+/**
+ * Make a string safe to use as a note or folder name
+ * @param name Raw name, e.g. a Canvas course or assignment name
+ * @returns Name without characters Obsidian or the file system reject
+ */
+export function sanitizeFileName(name: string): string {
+    const cleaned = name
+        .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^\.+/, '');
+    return cleaned.length > 0 ? cleaned.slice(0, 120) : 'Untitled';
+}
+
+/**
+ * Create a folder, and any missing parents, if it does not exist yet
+ * @param app Obsidian app
+ * @param path Vault-relative folder path
+ */
+export async function ensureFolder(app: App, path: string): Promise<void> {
+    const normalized = normalizePath(path);
+    if (normalized === '/' || normalized === '') return;
+
+    const existing = app.vault.getAbstractFileByPath(normalized);
+    if (existing instanceof TFolder) return;
+    if (existing) {
+        throw new Error(`Cannot create folder ${normalized}: a file with that name exists`);
+    }
+
+    const parent = normalized.split('/').slice(0, -1).join('/');
+    if (parent) {
+        await ensureFolder(app, parent);
+    }
+    await app.vault.createFolder(normalized);
+}
+
+/**
+ * Find the note carrying a given frontmatter value, wherever it lives.
+ * Synced notes are matched by their Canvas id rather than by path, so
+ * they keep updating after the user renames or moves them.
+ * @param app Obsidian app
+ * @param key Frontmatter key, e.g. 'canvas_course_id'
+ * @param value Expected value
+ * @param filter Optional extra condition on the frontmatter
+ * @returns Matching note, or null if there is none
+ */
+export function findNoteByFrontmatter(
+    app: App,
+    key: string,
+    value: string | number,
+    filter?: (frontmatter: Record<string, unknown>) => boolean
+): TFile | null {
+    for (const file of app.vault.getMarkdownFiles()) {
+        const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+        if (frontmatter && frontmatter[key] !== undefined && String(frontmatter[key]) === String(value)
+            && (!filter || filter(frontmatter))) {
+            return file;
+        }
+    }
+    return null;
+}
+
+/**
+ * Index all notes carrying a frontmatter key by its value, for bulk
+ * lookups where calling findNoteByFrontmatter per item would rescan the
+ * whole vault every time
+ * @param app Obsidian app
+ * @param key Frontmatter key, e.g. 'canvas_assignment_id'
+ * @param filter Optional extra condition on the frontmatter
+ * @returns Map from stringified value to note
+ */
+export function indexNotesByFrontmatter(
+    app: App,
+    key: string,
+    filter?: (frontmatter: Record<string, unknown>) => boolean
+): Map<string, TFile> {
+    const index = new Map<string, TFile>();
+    for (const file of app.vault.getMarkdownFiles()) {
+        const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+        if (frontmatter && frontmatter[key] !== undefined && frontmatter[key] !== null
+            && (!filter || filter(frontmatter))) {
+            index.set(String(frontmatter[key]), file);
+        }
+    }
+    return index;
+}
+
+/**
+ * Pick a path for a new note that does not clash with an existing file
+ * @param app Obsidian app
+ * @param folder Vault-relative folder
+ * @param baseName Note name without extension
+ * @param suffix Disambiguating suffix used when the plain name is taken
+ * @returns Free vault-relative path ending in `.md`
+ */
+export function getAvailableNotePath(app: App, folder: string, baseName: string, suffix: string): string {
+    const base = normalizePath(`${folder}/${sanitizeFileName(baseName)}`);
+    if (!app.vault.getAbstractFileByPath(`${base}.md`)) {
+        return `${base}.md`;
+    }
+    return normalizePath(`${base} (${suffix}).md`);
+}
+
+/**
+ * Pick a path for a new file of any type that does not clash with an
+ * existing file
+ * @param app Obsidian app
+ * @param folder Vault-relative folder
+ * @param fileName File name including extension, e.g. `Week 1.pdf`
+ * @param suffix Disambiguating suffix used when the plain name is taken
+ * @returns Free vault-relative path
+ */
+export function getAvailableFilePath(app: App, folder: string, fileName: string, suffix: string): string {
+    const dot = fileName.lastIndexOf('.');
+    const extension = dot > 0 ? fileName.slice(dot) : '';
+    const base = normalizePath(`${folder}/${sanitizeFileName(dot > 0 ? fileName.slice(0, dot) : fileName)}`);
+    if (!app.vault.getAbstractFileByPath(`${base}${extension}`)) {
+        return `${base}${extension}`;
+    }
+    return normalizePath(`${base} (${suffix})${extension}`);
+}
+
+/**
+ * Set frontmatter fields on a note, leaving any other keys untouched
+ * @param app Obsidian app
+ * @param file Note to update
+ * @param fields Values to write
+ * @returns True if any field changed
+ */
+export async function updateFrontmatterFields(
+    app: App,
+    file: TFile,
+    fields: Record<string, unknown>
+): Promise<boolean> {
+    let changed = false;
+    await app.fileManager.processFrontMatter(file, frontmatter => {
+        Object.entries(fields).forEach(([key, value]) => {
+            if (frontmatter[key] !== value) {
+                frontmatter[key] = value;
+                changed = true;
+            }
+        });
+    });
+    return changed;
+}
@@ -0,0 +1,96 @@
+/**
+ * Stand-in for the obsidian module, which only exists inside the app.
+ * It covers what the plugin's modules touch when they are loaded; tests
+ * that need vault behaviour build their own fakes.
+ */
+import * as moment from 'moment';
+
+export { moment };
+
+export class Component {
+    load(): void {}
+    unload(): void {}
+    register(): void {}
+    registerEvent(): void {}
+    registerInterval(id: number): number {
+        return id;
+    }
+}
+
+export class App {}
+
+export class TAbstractFile {
+    path = '';
+    name = '';
+}
+
+export class TFile extends TAbstractFile {
+    basename = '';
+    extension = 'md';
+}
+
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+}
+
+export class Plugin extends Component {
+    app: App;
+
+    constructor(app: App) {
+        super();
+        this.app = app;
+    }
+}
+
+export class Modal {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    open(): void {}
+    close(): void {}
+}
+
+export class FuzzySuggestModal<T> extends Modal {
+    setPlaceholder(placeholder: string): void {}
+
+    getItems(): T[] {
+        return [];
+    }
+}
+
+export class PluginSettingTab {
+    app: App;
+
+    constructor(app: App, plugin: Plugin) {
+        this.app = app;
+    }
+}
+
+export class Setting {}
+
+export class ItemView extends Component {}
+
+export class MarkdownView extends ItemView {}
+
+export class MarkdownRenderChild extends Component {}
+
+export class WorkspaceLeaf {}
+
+export class Notice {
+    constructor(message: string) {}
+
+    hide(): void {}
+}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export function setIcon(): void {}
+
+export function requestUrl(): never {
+    throw new Error('requestUrl is not available in tests; pass a transport to CanvasAPI');
+}
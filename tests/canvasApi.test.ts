@@ -0,0 +1,445 @@
+import { CanvasAPI } from '../src/canvasApi';
+import { validateCourse, validateQuizQuestion } from '../src/canvasValidators';
+import { CanvasApiError, CanvasAuthError, CanvasOfflineError, CanvasValidationError } from '../src/errors';
+import { CacheSnapshot, ResponseCache } from '../src/responseCache';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+
+const server = new MockCanvasServer();
+let api: CanvasAPI;
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(() => {
+    server.reset();
+    api = createTestApi(server.origin);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function memoryCache(): ResponseCache {
+    let snapshot: CacheSnapshot | null = null;
+    return new ResponseCache({
+        load: async () => snapshot,
+        save: async value => {
+            snapshot = value;
+        }
+    });
+}
+
+describe('user', () => {
+    it('gets the profile', async () => {
+        const profile = await api.getUserProfile();
+        expect(profile.name).toBe('Alex Rivera');
+        expect(server.requests[0].headers.authorization).toBe('Bearer test-token');
+    });
+
+    it('reports a working connection', async () => {
+        expect(await api.testConnection()).toBe(true);
+        server.token = 'another-token';
+        expect(await api.testConnection()).toBe(false);
+    });
+});
+
+describe('courses', () => {
+    it('lists courses with the enrollment filters', async () => {
+        const courses = await api.getCourses('student', 'active', { include: ['term'] });
+        expect(courses.map(course => course.id)).toEqual([101, 102, 103]);
+        const query = server.requests[0].query;
+        expect(query.get('enrollment_type')).toBe('student');
+        expect(query.get('enrollment_state')).toBe('active');
+        expect(query.getAll('include[]')).toEqual(['term']);
+    });
+
+    it('follows Link headers across pages', async () => {
+        const courses = await api.getCourses(undefined, undefined, { perPage: 1 });
+        expect(courses).toHaveLength(3);
+        expect(server.requestsTo('/api/v1/courses').map(request => request.query.get('page'))).toEqual([null, '2', '3']);
+    });
+
+    it('stops paging once maxItems are read', async () => {
+        const courses = await api.getCourses(undefined, undefined, { perPage: 1, maxItems: 2 });
+        expect(courses).toHaveLength(2);
+        expect(server.requestsTo('/api/v1/courses')).toHaveLength(2);
+    });
+
+    it('keeps only the courses enabled in the profile', async () => {
+        api = createTestApi(server.origin, { profile: { enabledCourses: ['102'] } });
+        expect((await api.getCourses()).map(course => course.name)).toEqual(['World History']);
+    });
+
+    it('gets course grades for the profile role', async () => {
+        const courses = await api.getCourseGrades({}, 'teacher');
+        expect(courses[0].enrollments?.[0].computed_current_score).toBe(88.5);
+        const query = server.requests[0].query;
+        expect(query.get('enrollment_type')).toBe('teacher');
+        expect(query.getAll('include[]')).toEqual(['total_scores', 'current_grading_period_scores']);
+    });
+
+    it('names courses restricted by date without changing the response', async () => {
+        const restricted = { id: 104, access_restricted_by_date: true };
+        server.enqueue('GET', '/api/v1/courses', { status: 200, body: [restricted] });
+        expect((await api.getCourses())[0].name).toBe('Course 104');
+        expect(validateCourse(restricted, '/courses[0]').name).toBe('Course 104');
+        expect(restricted).toEqual({ id: 104, access_restricted_by_date: true });
+    });
+
+    it('lists enrollments with their users', async () => {
+        const enrollments = await api.getCourseEnrollments(101);
+        expect(enrollments.map(enrollment => enrollment.user?.name)).toEqual(['Alex Rivera', 'Sam Okafor']);
+        expect(server.requests[0].query.getAll('type[]')).toEqual(['StudentEnrollment']);
+    });
+});
+
+describe('assignments', () => {
+    it('lists assignments with submissions', async () => {
+        const assignments = await api.getCourseAssignments(101, { include: ['submission'] });
+        expect(assignments.map(assignment => assignment.name)).toContain('Lab report: Photosynthesis');
+        expect(assignments[0].submission?.score).toBe(8);
+        expect(assignments[0].html_url).toBe(`${server.origin}/courses/101/assignments/201`);
+    });
+
+    it('gets one assignment', async () => {
+        const assignment = await api.getAssignment(101, 201, { include: ['submission'] });
+        expect(assignment.rubric).toHaveLength(2);
+        expect(server.requests[0].query.getAll('include[]')).toEqual(['submission']);
+    });
+
+    it('gets assignment groups', async () => {
+        const groups = await api.getAssignmentGroups(101);
+        expect(groups.map(group => group.group_weight)).toEqual([60, 40]);
+        expect(groups[0].assignments).toHaveLength(2);
+    });
+
+    it('hands in a text entry', async () => {
+        const submission = await api.submitAssignment(101, 201, { submission_type: 'online_text_entry', body: '<p>My report</p>' });
+        expect(submission.attempt).toBe(2);
+        const [request] = server.requestsTo('/api/v1/courses/101/assignments/201/submissions', 'POST');
+        expect(JSON.parse(request.body.toString())).toEqual({
+            submission: { submission_type: 'online_text_entry', body: '<p>My report</p>' }
+        });
+    });
+
+    it('uploads a submission file without sending the token to the upload URL', async () => {
+        const data = new TextEncoder().encode('lab report').buffer;
+        const file = await api.uploadSubmissionFile(101, 201, { name: 'report.pdf', contentType: 'application/pdf', data });
+
+        expect(file.display_name).toBe('report.pdf');
+        expect(file.size).toBe(10);
+        expect(server.uploads).toHaveLength(1);
+        expect(server.uploads[0].fields).toEqual({ filename: 'report.pdf', content_type: 'application/pdf' });
+        expect(server.uploads[0].data.toString()).toBe('lab report');
+        expect(server.requestsTo('/upload')[0].headers.authorization).toBeUndefined();
+    });
+});
+
+describe('submissions and grading', () => {
+    it('lists the submissions of an assignment', async () => {
+        const submissions = await api.getSubmissions(101, 201);
+        expect(submissions.map(submission => submission.user?.name)).toEqual(['Alex Rivera', 'Sam Okafor']);
+        expect(submissions[1].attachments?.[0].display_name).toBe('okafor_lab.pdf');
+    });
+
+    it('gets one submission with its rubric assessment', async () => {
+        const submission = await api.getSubmission(101, 201, 'self');
+        expect(submission.rubric_assessment?._102.comments).toBe('Missing error bars');
+    });
+
+    it('lists the submissions of every student', async () => {
+        const submissions = await api.getStudentSubmissions(101);
+        expect(submissions).toHaveLength(3);
+        expect(server.requests[0].query.getAll('student_ids[]')).toEqual(['all']);
+    });
+
+    it('posts a grade, rubric points and a comment', async () => {
+        const submission = await api.gradeSubmission(101, 201, 8, {
+            postedGrade: '9',
+            rubricAssessment: { _101: { points: 4 } },
+            comment: 'Well argued'
+        });
+        expect(submission.grade).toBe('9');
+        const [request] = server.requestsTo('/api/v1/courses/101/assignments/201/submissions/8', 'PUT');
+        expect(JSON.parse(request.body.toString())).toEqual({
+            submission: { posted_grade: '9' },
+            rubric_assessment: { _101: { points: 4 } },
+            comment: { text_comment: 'Well argued' }
+        });
+    });
+});
+
+describe('modules, pages and files', () => {
+    it('lists modules and their items', async () => {
+        const modules = await api.getCourseModules(101);
+        expect(modules.map(module => module.name)).toEqual(['Week 1: Cells', 'Week 2: Energy']);
+        const items = await api.getModuleItems(101, 301);
+        expect(items.map(item => item.type)).toEqual(['SubHeader', 'Page', 'File']);
+    });
+
+    it('lists pages and gets one with its body', async () => {
+        const pages = await api.getCoursePages(101);
+        const page = await api.getPage(101, pages[0].url);
+        expect(page.body).toContain('Mitochondria');
+    });
+
+    it('gets file metadata and downloads the content', async () => {
+        const file = await api.getFile(401);
+        const content = await api.downloadFile(file);
+        expect(Buffer.from(content).toString()).toBe('%PDF-1.4 microscope notes\n');
+        // The download URL is on the Canvas host, so it is authenticated
+        expect(server.requestsTo('/files/401/download')[0].headers.authorization).toBe('Bearer test-token');
+    });
+
+    it('fails downloads of missing files', async () => {
+        const file = await api.getFile(401);
+        await expect(api.downloadFile({ ...file, url: `${server.origin}/files/999/download` })).rejects.toThrow(CanvasApiError);
+    });
+});
+
+describe('quizzes', () => {
+    it('lists quizzes, attempts and questions', async () => {
+        const [quiz] = await api.getQuizzes(101);
+        const submissions = await api.getQuizSubmissions(101, quiz.id);
+        expect(submissions.map(submission => submission.attempt)).toEqual([1, 2]);
+
+        const questions = await api.getQuizQuestions(101, quiz.id, submissions[1]);
+        expect(questions.map(question => question.question_type)).toEqual([
+            'multiple_choice_question', 'true_false_question', 'essay_question'
+        ]);
+        const query = server.requestsTo('/api/v1/courses/101/quizzes/501/questions')[0].query;
+        expect(query.get('quiz_submission_id')).toBe('5102');
+        expect(query.get('quiz_submission_attempt')).toBe('2');
+    });
+
+    it('follows Link headers across pages of wrapped quiz submissions', async () => {
+        const path = '/api/v1/courses/101/quizzes/501/submissions';
+        const attempt = (id: number, number: number) => ({ id, quiz_id: 501, attempt: number, workflow_state: 'complete', score: number });
+        server.enqueue('GET', path, {
+            status: 200,
+            headers: { Link: `<${server.origin}${path}?page=2&per_page=100>; rel="next"` },
+            body: { quiz_submissions: [attempt(5101, 1)] }
+        });
+        server.enqueue('GET', path, { status: 200, body: { quiz_submissions: [attempt(5102, 2)] } });
+
+        const submissions = await api.getQuizSubmissions(101, 501);
+
+        expect(submissions.map(submission => submission.id)).toEqual([5101, 5102]);
+        expect(server.requestsTo(path).map(request => request.query.get('page'))).toEqual([null, '2']);
+    });
+
+    it('rejects quiz submission pages without their list', async () => {
+        server.enqueue('GET', '/api/v1/courses/101/quizzes/501/submissions', { status: 200, body: { submissions: [] } });
+        const error = await api.getQuizSubmissions(101, 501).catch(caught => caught);
+        expect(error).toBeInstanceOf(CanvasValidationError);
+        expect(error.message).toContain('quiz_submissions');
+    });
+
+    it('fills missing question text without changing the response', () => {
+        const raw = { id: 1, question_type: 'essay_question', question_text: null };
+        expect(validateQuizQuestion(raw, 'questions[0]').question_text).toBe('');
+        expect(raw.question_text).toBeNull();
+    });
+});
+
+describe('calendar and todo', () => {
+    it('gets upcoming events', async () => {
+        const events = await api.getUpcomingEvents();
+        expect(events.map(event => event.title)).toEqual(['Lab safety briefing', 'Lab report: Photosynthesis']);
+    });
+
+    it('gets calendar events of some courses', async () => {
+        const events = await api.getCalendarEvents(['course_102'], '2026-10-01', '2026-12-31');
+        expect(events[0].context_name).toBe('World History');
+        expect(server.requests[0].query.getAll('context_codes[]')).toEqual(['course_102']);
+    });
+
+    it('skips the request when there are no contexts', async () => {
+        expect(await api.getCalendarEvents([], '2026-10-01', '2026-12-31')).toEqual([]);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('gets todo items', async () => {
+        const todos = await api.getTodoItems();
+        expect(todos.map(todo => todo.assignment?.name ?? todo.quiz?.title)).toEqual(['Cell structure quiz', 'Cell structure quiz']);
+    });
+});
+
+describe('discussions', () => {
+    it('gets announcements of some courses', async () => {
+        const announcements = await api.getAnnouncements([101], { startDate: '2026-10-01' });
+        expect(announcements[0].title).toBe('Lab moved to Thursday');
+        expect(server.requests[0].query.get('start_date')).toBe('2026-10-01');
+    });
+
+    it('lists topics, gets one and its entries', async () => {
+        const topics = await api.getDiscussionTopics(101);
+        expect(topics).toHaveLength(2);
+        const topic = await api.getDiscussionTopic(101, 602);
+        expect(topic.unread_count).toBe(1);
+        const view = await api.getDiscussionView(101, 602);
+        expect(view.view[0].replies?.[0].message).toBe('<p>And Virchow!</p>');
+        expect(view.unread_entries).toEqual([702]);
+    });
+
+    it('marks a topic read', async () => {
+        await api.markDiscussionTopicRead(101, 602);
+        expect(server.requestsTo('/api/v1/courses/101/discussion_topics/602/read_all', 'PUT')).toHaveLength(1);
+    });
+
+    it('posts entries and replies', async () => {
+        expect((await api.postDiscussionEntry(101, 602, '<p>New thought</p>')).id).toBe(703);
+        expect((await api.postDiscussionEntry(101, 602, '<p>Good point</p>', 701)).parent_id).toBe(701);
+    });
+});
+
+describe('planner', () => {
+    it('gets planner items and overrides', async () => {
+        const items = await api.getPlannerItems('2026-10-01', '2026-12-31');
+        expect(items.map(item => item.plannable_type)).toEqual(['assignment', 'quiz']);
+        const overrides = await api.getPlannerOverrides();
+        expect(overrides[0].id).toBe(801);
+    });
+
+    it('creates and updates overrides', async () => {
+        const created = await api.createPlannerOverride('assignment', 202, { marked_complete: true });
+        expect(created.marked_complete).toBe(true);
+        const [request] = server.requestsTo('/api/v1/planner/overrides', 'POST');
+        expect(JSON.parse(request.body.toString())).toEqual({ plannable_type: 'assignment', plannable_id: 202, marked_complete: true });
+
+        const updated = await api.updatePlannerOverride(801, { marked_complete: true });
+        expect(updated.marked_complete).toBe(true);
+    });
+});
+
+describe('errors', () => {
+    it('surfaces Canvas error bodies', async () => {
+        const error = await api.getAssignment(101, 999).catch(caught => caught);
+        expect(error).toBeInstanceOf(CanvasApiError);
+        expect(error.status).toBe(404);
+        expect(error.endpoint).toBe('/api/v1/courses/101/assignments/999');
+        expect(error.message).toContain('The specified resource does not exist.');
+    });
+
+    it('rejects responses of the wrong shape', async () => {
+        server.enqueue('GET', '/api/v1/users/self', { status: 200, body: { id: 7 } });
+        await expect(api.getUserProfile()).rejects.toThrow(CanvasValidationError);
+    });
+
+    it('does not read a page that is not a list as an empty one', async () => {
+        server.enqueue('GET', '/api/v1/courses', { status: 200, body: { status: 'unauthenticated' } });
+        const error = await api.getCourses('student', 'active').catch(caught => caught);
+        expect(error).toBeInstanceOf(CanvasValidationError);
+        expect(error.path).toBe('/api/v1/courses');
+    });
+
+    it('refreshes a rejected token once and retries', async () => {
+        const auth = { refresh: jest.fn(async () => 'fresh-token'), onUnauthorized: jest.fn() };
+        api = createTestApi(server.origin, { auth });
+        server.token = 'fresh-token';
+
+        expect((await api.getUserProfile()).id).toBe(7);
+        expect(auth.refresh).toHaveBeenCalledTimes(1);
+        expect(server.requests.map(request => request.headers.authorization)).toEqual(['Bearer test-token', 'Bearer fresh-token']);
+    });
+
+    it('reports tokens that cannot be refreshed', async () => {
+        const auth = { refresh: jest.fn(async () => null), onUnauthorized: jest.fn() };
+        api = createTestApi(server.origin, { auth });
+        server.token = 'another-token';
+
+        await expect(api.getUserProfile()).rejects.toThrow(CanvasAuthError);
+        expect(auth.onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries throttled requests', async () => {
+        server.enqueueThrottle('GET', '/api/v1/users/self', 1);
+        expect((await api.getUserProfile()).name).toBe('Alex Rivera');
+        expect(server.requestsTo('/api/v1/users/self')).toHaveLength(2);
+    });
+
+    it('does not post a reply twice after a server error', async () => {
+        const path = '/api/v1/courses/101/discussion_topics/602/entries';
+        server.enqueue('POST', path, { status: 502, body: 'Bad Gateway' });
+        const error = await api.postDiscussionEntry(101, 602, '<p>Hi</p>').catch(caught => caught);
+        expect(error.status).toBe(502);
+        expect(server.requestsTo(path, 'POST')).toHaveLength(1);
+    });
+
+    it('gives up after the configured retries', async () => {
+        api = createTestApi(server.origin, { settings: { maxRetries: 0 } });
+        server.enqueue('GET', '/api/v1/users/self', { status: 503, body: { errors: [{ message: 'Maintenance' }] } });
+        const error = await api.getUserProfile().catch(caught => caught);
+        expect(error.status).toBe(503);
+        expect(error.message).toContain('Maintenance');
+    });
+});
+
+describe('response cache', () => {
+    it('serves repeated GETs from the cache until asked for fresh data', async () => {
+        const cache = memoryCache();
+        api = createTestApi(server.origin, { cache, settings: { cacheEnabled: true } });
+
+        await api.getUserProfile();
+        await api.getUserProfile();
+        expect(server.requestsTo('/api/v1/users/self')).toHaveLength(1);
+
+        await api.getUserProfile({ fresh: true });
+        expect(server.requestsTo('/api/v1/users/self')).toHaveLength(2);
+        await cache.flush();
+    });
+
+    it('answers from the cache in offline mode and refuses writes', async () => {
+        const cache = memoryCache();
+        await createTestApi(server.origin, { cache, settings: { cacheEnabled: true } }).getCourses();
+        server.reset();
+
+        api = createTestApi(server.origin, { cache, settings: { cacheEnabled: true, offlineMode: true } });
+        expect(await api.getCourses()).toHaveLength(3);
+        await expect(api.getUserProfile()).rejects.toThrow(CanvasOfflineError);
+        await expect(api.markDiscussionTopicRead(101, 602)).rejects.toThrow(CanvasOfflineError);
+        expect(server.requests).toHaveLength(0);
+        await cache.flush();
+    });
+
+    it('shows the new state in lists after a submission', async () => {
+        const cache = memoryCache();
+        api = createTestApi(server.origin, { cache, settings: { cacheEnabled: true } });
+        const before = await api.getCourseAssignments(101, { include: ['submission'] });
+        await api.getTodoItems();
+
+        const resubmission = await api.submitAssignment(101, 201, { submission_type: 'online_text_entry', body: '<p>Second try</p>' });
+        const submitted = before.map(assignment => assignment.id === 201 ? { ...assignment, submission: resubmission } : assignment);
+        server.enqueue('GET', '/api/v1/courses/101/assignments', { status: 200, body: submitted });
+
+        const after = await api.getCourseAssignments(101, { include: ['submission'] });
+        expect(after.find(assignment => assignment.id === 201)?.submission?.attempt).toBe(2);
+        await api.getTodoItems();
+        expect(server.requestsTo('/api/v1/users/self/todo')).toHaveLength(2);
+        await cache.flush();
+    });
+
+    it('drops cached planner items after an override changes', async () => {
+        const cache = memoryCache();
+        api = createTestApi(server.origin, { cache, settings: { cacheEnabled: true } });
+        await api.getPlannerItems('2026-10-01', '2026-12-31');
+        await api.getUserProfile();
+
+        await api.updatePlannerOverride(801, { marked_complete: true });
+        await api.getPlannerItems('2026-10-01', '2026-12-31');
+        await api.getUserProfile();
+        expect(server.requestsTo('/api/v1/planner/items')).toHaveLength(2);
+        // Unrelated resources stay cached
+        expect(server.requestsTo('/api/v1/users/self')).toHaveLength(1);
+        await cache.flush();
+    });
+});
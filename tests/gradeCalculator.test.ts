@@ -0,0 +1,186 @@
+import { AssignmentGroup } from '../src/canvasTypes';
+import { GradeGroup, GradeModel, GradedAssignment, buildGradeModel, calculateGrade, scoreNeeded } from '../src/gradeCalculator';
+
+/**
+ * Grades by Canvas's rules: weighting, drop rules, excused and missing
+ * work, and the score needed for a target grade
+ */
+
+function assignment(id: string, pointsPossible: number, score: number | null, fields: Partial<GradedAssignment> = {}): GradedAssignment {
+    return { id, name: id, pointsPossible, score, excused: false, missing: false, dueAt: null, ...fields };
+}
+
+function group(id: string, assignments: GradedAssignment[], fields: Partial<GradeGroup> = {}): GradeGroup {
+    return { id, name: id, weight: 0, dropLowest: 0, dropHighest: 0, neverDrop: [], assignments, ...fields };
+}
+
+describe('calculateGrade', () => {
+    it('rescales weights when some groups have nothing to count', () => {
+        const model: GradeModel = {
+            weighted: true,
+            groups: [
+                group('labs', [assignment('lab', 10, 8)], { weight: 60 }),
+                group('exams', [assignment('exam', 50, null)], { weight: 30 }),
+                group('participation', [], { weight: 10 })
+            ]
+        };
+        const { current, final } = calculateGrade(model);
+
+        // Only labs count so far, so they stand for the whole grade
+        expect(current.percent).toBeCloseTo(80);
+        // The ungraded exam counts as zero; the empty group still does not count
+        expect(final.percent).toBeCloseTo((0.8 * 60 + 0 * 30) * 100 / 90);
+        expect(final.groups.map(entry => entry.percent)).toEqual([80, 0, null]);
+    });
+
+    it('does not scale weights that add up to more than 100 down', () => {
+        const model: GradeModel = {
+            weighted: true,
+            groups: [
+                group('a', [assignment('a1', 10, 10)], { weight: 80 }),
+                group('b', [assignment('b1', 10, 5)], { weight: 40 })
+            ]
+        };
+        expect(calculateGrade(model).current.percent).toBeCloseTo(100);
+    });
+
+    it('has no grade before anything is graded', () => {
+        const model: GradeModel = { weighted: false, groups: [group('a', [assignment('a1', 10, null)])] };
+        expect(calculateGrade(model).current).toMatchObject({ percent: null, score: 0, possible: 0 });
+        expect(calculateGrade(model).final.percent).toBe(0);
+    });
+
+    it('drops the lowest scores that lift the group most, not the lowest percentages', () => {
+        // Dropping the 0/1 quiz leaves 59/110; dropping the 50/100 test leaves 9/11
+        const quizzes = group('quizzes', [assignment('small', 10, 9), assignment('big', 100, 50), assignment('tiny', 1, 0)], { dropLowest: 1 });
+        const [grade] = calculateGrade({ weighted: false, groups: [quizzes] }).current.groups;
+
+        expect(grade.dropped).toEqual(['big']);
+        expect(grade.percent).toBeCloseTo(9 / 11 * 100);
+    });
+
+    it('drops the highest scores that lower the group most', () => {
+        // Dropping the 10/10 leaves 6/21; dropping the 1/1 leaves 15/30
+        const essays = group('essays', [assignment('full', 10, 10), assignment('one', 1, 1), assignment('weak', 20, 5)], { dropHighest: 1 });
+        const [grade] = calculateGrade({ weighted: false, groups: [essays] }).current.groups;
+
+        expect(grade.dropped).toEqual(['full']);
+        expect(grade.percent).toBeCloseTo(6 / 21 * 100);
+    });
+
+    it('never drops protected assignments', () => {
+        const labs = group('labs', [assignment('final-lab', 10, 2), assignment('lab-1', 10, 5), assignment('lab-2', 10, 9)], {
+            dropLowest: 1,
+            neverDrop: ['final-lab']
+        });
+        const [grade] = calculateGrade({ weighted: false, groups: [labs] }).current.groups;
+
+        expect(grade.dropped).toEqual(['lab-1']);
+        expect(grade.percent).toBeCloseTo(55);
+    });
+
+    it('keeps at least one assignment however many the rules drop', () => {
+        const labs = group('labs', [assignment('lab-1', 10, 5), assignment('lab-2', 10, 9)], { dropLowest: 5 });
+        const [grade] = calculateGrade({ weighted: false, groups: [labs] }).current.groups;
+
+        expect(grade.dropped).toEqual(['lab-1']);
+        expect(grade.percent).toBeCloseTo(90);
+    });
+
+    it('leaves excused work out and counts missing work as zero in the final grade', () => {
+        const model: GradeModel = {
+            weighted: false,
+            groups: [group('homework', [
+                assignment('done', 10, 8),
+                assignment('excused', 10, null, { excused: true }),
+                assignment('excused-graded', 10, 0, { excused: true }),
+                assignment('missing', 10, null, { missing: true }),
+                assignment('missing-zero', 10, 0, { missing: true })
+            ])]
+        };
+        const { current, final } = calculateGrade(model);
+
+        expect(current).toMatchObject({ score: 8, possible: 20, percent: 40 });
+        expect(final).toMatchObject({ score: 8, possible: 30 });
+    });
+
+    it('uses what-if scores in place of received ones', () => {
+        const model: GradeModel = { weighted: false, groups: [group('a', [assignment('a1', 10, 4), assignment('a2', 10, null)])] };
+        expect(calculateGrade(model, { a1: 10, a2: 6 }).current.percent).toBeCloseTo(80);
+    });
+});
+
+describe('buildGradeModel', () => {
+    it('reads scores, excused and missing flags and leaves out what Canvas does not grade', () => {
+        const groups = [{
+            id: 1,
+            name: 'Homework',
+            group_weight: 25,
+            rules: { drop_lowest: 1, never_drop: [13] },
+            assignments: [
+                { id: 11, name: 'Graded', points_possible: 10, due_at: null, submission: { score: 7, workflow_state: 'graded' } },
+                { id: 12, name: 'In review', points_possible: 10, due_at: null, submission: { score: 9, workflow_state: 'pending_review' } },
+                { id: 13, name: 'Excused', points_possible: 10, due_at: null, submission: { excused: true, missing: false } },
+                { id: 14, name: 'Missing', points_possible: 10, due_at: null, submission: { score: null, missing: true } },
+                { id: 15, name: 'Practice', points_possible: 5, due_at: null, omit_from_final_grade: true },
+                { id: 16, name: 'Survey', points_possible: 0, due_at: null, grading_type: 'not_graded' },
+                { id: 17, name: 'Draft', points_possible: 10, due_at: null, published: false }
+            ]
+        }] as unknown as AssignmentGroup[];
+
+        const model = buildGradeModel(groups, true);
+
+        expect(model.weighted).toBe(true);
+        expect(model.groups[0]).toMatchObject({ id: '1', weight: 25, dropLowest: 1, dropHighest: 0, neverDrop: ['13'] });
+        expect(model.groups[0].assignments.map(({ id, score, excused, missing }) => ({ id, score, excused, missing }))).toEqual([
+            { id: '11', score: 7, excused: false, missing: false },
+            { id: '12', score: null, excused: false, missing: false },
+            { id: '13', score: null, excused: true, missing: false },
+            { id: '14', score: null, excused: false, missing: true }
+        ]);
+    });
+});
+
+describe('scoreNeeded', () => {
+    const model: GradeModel = {
+        weighted: false,
+        groups: [group('course', [assignment('midterm', 50, 40), assignment('exam', 50, null), assignment('essay', 10, null, { excused: true })])]
+    };
+
+    it('finds the lowest score that reaches the target', () => {
+        const needed = scoreNeeded(model, 'exam', 85);
+        expect(needed).toBeGreaterThanOrEqual(45);
+        expect(needed).toBeLessThanOrEqual(45.01);
+    });
+
+    it('takes other what-if scores into account', () => {
+        const withBetterMidterm = scoreNeeded(model, 'exam', 85, { midterm: 50 });
+        expect(withBetterMidterm).toBeGreaterThanOrEqual(35);
+        expect(withBetterMidterm).toBeLessThanOrEqual(35.01);
+    });
+
+    it('needs nothing when the target is reached anyway', () => {
+        expect(scoreNeeded(model, 'exam', 30)).toBe(0);
+    });
+
+    it('gives up on targets out of reach', () => {
+        // Even 150 of 50 points, the extra credit limit, only reaches 190%
+        expect(scoreNeeded(model, 'exam', 200)).toBeNull();
+    });
+
+    it('has no answer for excused or unknown assignments', () => {
+        expect(scoreNeeded(model, 'essay', 90)).toBeNull();
+        expect(scoreNeeded(model, 'nope', 90)).toBeNull();
+    });
+
+    it('accounts for drop rules', () => {
+        // A low exam score would be dropped, so only a score above the quiz's 50% counts at all
+        const dropping: GradeModel = {
+            weighted: false,
+            groups: [group('tests', [assignment('quiz', 10, 5), assignment('exam', 10, null)], { dropLowest: 1 })]
+        };
+        const needed = scoreNeeded(dropping, 'exam', 80);
+        expect(needed).toBeGreaterThanOrEqual(8);
+        expect(needed).toBeLessThanOrEqual(8.01);
+    });
+});
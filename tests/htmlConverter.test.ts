@@ -0,0 +1,113 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { CanvasLinkTarget, canvasHtmlToMarkdown, parseCanvasUrl } from '../src/htmlConverter';
+
+/**
+ * Rich content as the Canvas editor saves it, in tests/fixtures/html,
+ * converted with the options the note syncs pass
+ */
+
+const BASE_URL = 'https://canvas.test';
+
+function fixture(name: string): string {
+    return fs.readFileSync(path.join(__dirname, 'fixtures', 'html', `${name}.html`), 'utf8');
+}
+
+/** Resolves the lab report assignment and one image, like a partly synced vault */
+function resolveLink(target: CanvasLinkTarget): string | null {
+    if (target.type === 'assignment' && target.id === '201') return 'Biology 101/Lab report';
+    if (target.type === 'file' && target.id === '402') return 'leaf.png';
+    return null;
+}
+
+function convert(name: string): string {
+    return canvasHtmlToMarkdown(fixture(name), { baseUrl: BASE_URL, resolveLink });
+}
+
+describe('canvasHtmlToMarkdown', () => {
+    it('converts tables, keeping cells on one line', () => {
+        expect(convert('table')).toBe(`**Grading scale**
+
+| Grade | Range | Notes |
+| --- | --- | --- |
+| **A** | 90 – 100 | Top *marks*<br>with honours |
+| B | 80 \\| 89 |  |
+| C | 70 – 79 | - Pass<br>- Retake optional |`);
+    });
+
+    it('indents nested lists with tabs', () => {
+        expect(convert('nested-lists')).toBe(`Before the lab:
+
+1. Read chapter 4
+\t- Sections 4.1–4.3
+\t- Skip the *appendix*
+\t\t1. Unless you are curious
+2. Bring safety goggles
+\t- Spare pairs are at the front desk
+
+5. Submit the worksheet`);
+    });
+
+    it('turns equation images and LaTeX delimiters into Obsidian math', () => {
+        expect(convert('math')).toBe(`The energy of a photon is $E = h\\nu$ joules.
+
+$$
+\\frac{1}{2}mv^2
+$$
+
+Inline delimiters: $a^2 + b^2 = c^2$ and display ones: $$\\sum_{i=1}^n i$$
+
+$$
+x = \\frac{-b \\pm \\sqrt{b^2-4ac}}{2a}
+$$`);
+    });
+
+    it('replaces iframes with links to their source', () => {
+        expect(convert('iframes')).toBe(`Watch this before class:
+
+[Photosynthesis explained](https://www.youtube.com/embed/abc123)
+
+[Embedded content](https://canvas.test/media_objects_iframe/m-42?type=video)`);
+    });
+
+    it('resolves synced Canvas links and makes the rest absolute', () => {
+        expect(convert('links')).toBe('See the [[Biology 101/Lab report|lab report]], '
+            + 'the [safety page](https://canvas.test/courses/101/pages/lab-safety), '
+            + 'the [rubric PDF](https://canvas.test/courses/101/files/401/download?wrap=1) '
+            + 'and [the forum](https://canvas.test/courses/101/discussion_topics/601).\n\n'
+            + 'External: [chloroplast](<https://en.wikipedia.org/wiki/Chloroplast_(biology)>), back to top.\n\n'
+            + '![[leaf.png]]');
+    });
+
+    it('decodes entities and escapes Markdown syntax in text', () => {
+        expect(convert('entities')).toBe(`## Q&A — week 3
+
+Use \\<em> tags, not \\*stars\\* or \\_underscores\\_.
+
+Costs \\$5 & takes 2–3 days; see \\#biology for details © 2026.
+
+Café résumé “quotes” 😀`);
+    });
+
+    it('returns an empty string for empty content', () => {
+        expect(canvasHtmlToMarkdown(null)).toBe('');
+        expect(canvasHtmlToMarkdown('  \n ')).toBe('');
+    });
+});
+
+describe('parseCanvasUrl', () => {
+    it('recognizes links to course objects', () => {
+        expect(parseCanvasUrl('/courses/101/pages/lab%20safety', BASE_URL)).toEqual({ type: 'page', courseId: '101', id: 'lab safety' });
+        expect(parseCanvasUrl(`${BASE_URL}/courses/101/modules/items/77`, BASE_URL)).toEqual({ type: 'module_item', courseId: '101', id: '77' });
+        expect(parseCanvasUrl('/users/7/files/9', BASE_URL)).toEqual({ type: 'file', courseId: '', id: '9' });
+        expect(parseCanvasUrl('/courses/101', BASE_URL)).toEqual({ type: 'course', courseId: '101', id: '101' });
+    });
+
+    it('ignores other hosts and unknown paths', () => {
+        expect(parseCanvasUrl('https://example.com/courses/101/assignments/201', BASE_URL)).toBeNull();
+        expect(parseCanvasUrl('/courses/101/grades', BASE_URL)).toBeNull();
+    });
+});
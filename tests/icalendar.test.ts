@@ -0,0 +1,221 @@
+/**
+ * @jest-environment jsdom
+ */
+import { CanvasAPI } from '../src/canvasApi';
+import { CalendarItem, CalendarOptions, escapeText, foldLine, formatDateTime, serializeCalendar } from '../src/icalendar';
+import { IcsExporter } from '../src/icsExport';
+import type MyPlugin from '../src/main';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+import { createStubApp } from './mockCanvas/vault';
+
+/**
+ * The .ics export against RFC 5545: the writer on its own, then the
+ * exporter on the mock server's assignments and events
+ */
+
+const server = new MockCanvasServer();
+const NOW = new Date('2026-10-18T08:30:00Z');
+const OPTIONS: CalendarOptions = { prodId: '-//Test//EN', name: 'Canvas', alarmMinutes: [], now: NOW };
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(() => {
+    server.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function octets(line: string): number {
+    return Buffer.byteLength(line, 'utf8');
+}
+
+/** Content lines of a component, unfolded */
+function componentLines(calendar: string, uid: string): string[] {
+    const lines = calendar.replace(/\r\n[ \t]/g, '').split('\r\n');
+    const start = lines.indexOf(`UID:${uid}`) - 1;
+    return lines.slice(start, lines.indexOf(lines[start].replace('BEGIN', 'END'), start) + 1);
+}
+
+describe('serializeCalendar', () => {
+    const todo: CalendarItem = {
+        uid: 'canvas-assignment-1@canvas.test',
+        kind: 'todo',
+        summary: 'Essay, draft; part 1',
+        categories: ['History'],
+        due: new Date('2026-11-05T12:00:00Z')
+    };
+    const event: CalendarItem = {
+        uid: 'canvas-event-2@canvas.test',
+        kind: 'event',
+        summary: 'Review',
+        categories: [],
+        start: new Date('2026-10-28T17:00:00Z'),
+        end: new Date('2026-10-28T18:30:00Z')
+    };
+
+    it('ends every line with CRLF', () => {
+        const calendar = serializeCalendar([todo, event], OPTIONS);
+        expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    });
+
+    it('writes assignments as VTODOs and events as VEVENTs in UTC', () => {
+        const calendar = serializeCalendar([todo, event], OPTIONS);
+        expect(componentLines(calendar, todo.uid)).toEqual([
+            'BEGIN:VTODO',
+            'UID:canvas-assignment-1@canvas.test',
+            'DTSTAMP:20261018T083000Z',
+            'SEQUENCE:0',
+            expect.stringMatching(/^X-CANVAS-HASH:[0-9a-f]{8}$/),
+            'DUE:20261105T120000Z',
+            'STATUS:NEEDS-ACTION',
+            'SUMMARY:Essay\\, draft\\; part 1',
+            'CATEGORIES:History',
+            'END:VTODO'
+        ]);
+        expect(componentLines(calendar, event.uid)).toEqual([
+            'BEGIN:VEVENT',
+            'UID:canvas-event-2@canvas.test',
+            'DTSTAMP:20261018T083000Z',
+            'SEQUENCE:0',
+            expect.stringMatching(/^X-CANVAS-HASH:/),
+            'DTSTART:20261028T170000Z',
+            'DTEND:20261028T183000Z',
+            'SUMMARY:Review',
+            'END:VEVENT'
+        ]);
+    });
+
+    it('gives completed todos a stable COMPLETED time and no alarm', () => {
+        const done = { ...todo, completed: true, completedAt: new Date('2026-11-04T20:00:00Z') };
+        const lines = componentLines(serializeCalendar([done], { ...OPTIONS, alarmMinutes: [60] }), todo.uid);
+        expect(lines).toContain('STATUS:COMPLETED');
+        expect(lines).toContain('COMPLETED:20261104T200000Z');
+        expect(lines).not.toContain('BEGIN:VALARM');
+
+        const undated = componentLines(serializeCalendar([{ ...todo, completed: true }], OPTIONS), todo.uid);
+        expect(undated).toContain('COMPLETED:20261105T120000Z');
+    });
+
+    it('writes all-day events as exclusive DATE ranges', () => {
+        const day = { ...event, allDay: true, start: new Date(2026, 9, 20), end: new Date(2026, 9, 20) };
+        const lines = componentLines(serializeCalendar([day], OPTIONS), event.uid);
+        expect(lines).toContain('DTSTART;VALUE=DATE:20261020');
+        expect(lines).toContain('DTEND;VALUE=DATE:20261021');
+    });
+
+    it('keeps DTSTAMP and SEQUENCE of unchanged components and bumps changed ones', () => {
+        const first = serializeCalendar([todo, event], OPTIONS);
+        const later = new Date('2026-10-19T08:30:00Z');
+        const second = serializeCalendar([todo, { ...event, summary: 'Review (moved)' }], { ...OPTIONS, now: later, previous: first });
+
+        expect(componentLines(second, todo.uid)).toEqual(componentLines(first, todo.uid));
+        expect(componentLines(second, event.uid)).toContain('DTSTAMP:20261019T083000Z');
+        expect(componentLines(second, event.uid)).toContain('SEQUENCE:1');
+    });
+});
+
+describe('escapeText', () => {
+    it('escapes backslashes, semicolons, commas and newlines', () => {
+        expect(escapeText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf');
+    });
+});
+
+describe('foldLine', () => {
+    it('leaves lines of 75 octets alone', () => {
+        const line = `SUMMARY:${'x'.repeat(67)}`;
+        expect(foldLine(line)).toBe(line);
+    });
+
+    it('folds at 75 octets without splitting multi-byte characters', () => {
+        const line = `DESCRIPTION:${'Café résumé 📚 — '.repeat(12)}`;
+        const folded = foldLine(line);
+        const parts = folded.split('\r\n');
+
+        expect(parts.length).toBeGreaterThan(1);
+        parts.forEach((part, index) => {
+            expect(octets(part)).toBeLessThanOrEqual(75);
+            if (index > 0) expect(part.startsWith(' ')).toBe(true);
+            // A split surrogate pair or UTF-8 sequence would not survive the round trip
+            expect(Buffer.from(part, 'utf8').toString('utf8')).toBe(part);
+            expect(part).not.toMatch(/[\uD800-\uDBFF]$/);
+        });
+        expect(folded.replace(/\r\n /g, '')).toBe(line);
+    });
+});
+
+describe('formatDateTime', () => {
+    it('formats UTC date-times', () => {
+        expect(formatDateTime(new Date('2026-01-31T23:59:59.999Z'))).toBe('20260131T235959Z');
+    });
+});
+
+describe('IcsExporter', () => {
+    function createExporter(api: CanvasAPI) {
+        const app = createStubApp();
+        const plugin = {
+            app,
+            manifest: { name: 'Canvas LMS', version: '1.2.0' },
+            settings: {
+                ...DEFAULT_SETTINGS,
+                profiles: [api.profile],
+                icsExportPath: 'Canvas/canvas.ics',
+                icsCalendarName: 'School',
+                icsAlarmMinutes: []
+            },
+            getApi: () => api
+        } as unknown as MyPlugin;
+        return { exporter: new IcsExporter(plugin), vault: app.vault };
+    }
+
+    it('exports deadlines and events with stable UIDs', async () => {
+        const events = [{
+            id: 7002,
+            title: 'Midterm review session',
+            start_at: '2026-10-28T17:00:00Z',
+            end_at: '2026-10-28T18:30:00Z',
+            context_code: 'course_102',
+            description: '<p>Bring <strong>your notes</strong> &amp; the *reading*.</p><ul><li>Chapter 3</li><li><a href="/courses/102/pages/map">Map</a></li></ul>'
+        }];
+        // Once for each export
+        server.enqueue('GET', '/api/v1/calendar_events', { status: 200, body: events });
+        server.enqueue('GET', '/api/v1/calendar_events', { status: 200, body: events });
+        const { exporter, vault } = createExporter(createTestApi(server.origin));
+        const result = await exporter.export();
+        const calendar = vault.files.get('Canvas/canvas.ics') ?? '';
+        const host = new URL(server.origin).hostname;
+
+        expect(result).toEqual({ items: 5, written: true, path: 'Canvas/canvas.ics' });
+        expect(calendar).toContain('X-WR-CALNAME:School');
+        expect(calendar.match(/^UID:.*$/gm)).toEqual([
+            `UID:canvas-assignment-201@${host}`,
+            `UID:canvas-assignment-202@${host}`,
+            `UID:canvas-assignment-251@${host}`,
+            `UID:canvas-event-7001@${host}`,
+            `UID:canvas-event-7002@${host}`
+        ]);
+
+        const handedIn = componentLines(calendar, `canvas-assignment-251@${host}`);
+        expect(handedIn).toContain('STATUS:COMPLETED');
+        expect(handedIn).toContain('COMPLETED:20261104T200000Z');
+
+        // Plain text: no Markdown escapes or emphasis markers for calendar apps to show
+        expect(componentLines(calendar, `canvas-event-7002@${host}`)).toContain(
+            `DESCRIPTION:Bring your notes & the *reading*.\\n\\n- Chapter 3\\n- Map (${server.origin}/courses/102/pages/map)`
+        );
+
+        // A second export finds nothing new and leaves the file alone
+        expect(await exporter.export()).toEqual({ items: 5, written: false, path: 'Canvas/canvas.ics' });
+    });
+});
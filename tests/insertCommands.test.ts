@@ -0,0 +1,130 @@
+import * as obsidian from 'obsidian';
+import { CanvasAPI } from '../src/canvasApi';
+import MyPlugin from '../src/main';
+import { DEFAULT_OUTPUT_TEMPLATES } from '../src/outputTemplates';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+import { StubEditor, StubVault, createStubApp } from './mockCanvas/vault';
+
+/**
+ * The fetch commands of the plugin, inserting Canvas data into the
+ * active note through the command templates
+ */
+
+const server = new MockCanvasServer();
+
+let api: CanvasAPI;
+let vault: StubVault;
+let editor: StubEditor;
+let notices: string[];
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(() => {
+    server.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    notices = [];
+    jest.spyOn(obsidian, 'Notice').mockImplementation(message => {
+        notices.push(String(message));
+        return {} as obsidian.Notice;
+    });
+
+    api = createTestApi(server.origin);
+    vault = new StubVault();
+    editor = new StubEditor('# Week 8\n');
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function createPlugin(activeEditor: StubEditor | null = editor): MyPlugin {
+    const plugin = new MyPlugin(createStubApp(vault, activeEditor), { id: 'canvas', dir: '.obsidian/plugins/canvas' } as obsidian.PluginManifest);
+    plugin.settings = { ...DEFAULT_SETTINGS, profiles: [api.profile], activeProfileId: api.profile.id };
+    jest.spyOn(plugin, 'getApi').mockReturnValue(api);
+    return plugin;
+}
+
+describe('fetch commands', () => {
+    it('insert courses with their assignments at the cursor', async () => {
+        await createPlugin().fetchCanvasData(true);
+
+        expect(editor.getValue()).toMatch(/^# Week 8\n.*Biology 101/s);
+        expect(editor.getValue()).toContain('Cell structure quiz');
+        expect(notices).toContain('Fetched 3 courses');
+        expect(notices).toContain('Canvas courses data inserted into note');
+    });
+
+    it('insert the user profile', async () => {
+        await createPlugin().fetchCanvasUserProfile(true);
+        expect(editor.getValue()).toContain('Alex Rivera');
+    });
+
+    it('insert upcoming events', async () => {
+        await createPlugin().fetchCanvasEvents(true);
+        expect(editor.getValue()).toContain('Lab safety briefing');
+        expect(notices).toContain('Fetched 2 upcoming events');
+    });
+
+    it('insert todo items', async () => {
+        await createPlugin().fetchCanvasTodoItems(true);
+        expect(editor.getValue()).toContain('Cell structure quiz');
+        expect(editor.getValue()).toContain('Biology 101');
+    });
+
+    it('insert course grades', async () => {
+        await createPlugin().fetchCanvasGrades(true);
+        expect(editor.getValue()).toContain('88.5');
+    });
+
+    it('fill the template file chosen in the settings', async () => {
+        vault.files.set('Templates/Events.md', '{{#each events}}\n- {{title}}\n{{/each}}\n');
+        const plugin = createPlugin();
+        plugin.settings.outputTemplates = {
+            ...plugin.settings.outputTemplates,
+            events: { ...DEFAULT_OUTPUT_TEMPLATES.events, variant: 'file', file: 'Templates/Events.md' }
+        };
+
+        await plugin.fetchCanvasEvents(true);
+
+        expect(editor.getValue()).toBe('# Week 8\n- Lab safety briefing\n- Lab report: Photosynthesis\n');
+    });
+
+    it('insert at the cursor rather than at the end of the note', async () => {
+        editor = new StubEditor('# Profile\n\n## Notes\n');
+        editor.setCursor({ line: 1, ch: 0 });
+
+        await createPlugin().fetchCanvasUserProfile(true);
+
+        expect(editor.getValue()).toMatch(/^# Profile\n.*Alex Rivera.*\n## Notes\n$/s);
+    });
+
+    it('only log to the console unless asked to insert', async () => {
+        await createPlugin().fetchCanvasEvents(false);
+        expect(editor.getValue()).toBe('# Week 8\n');
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Lab safety briefing'));
+    });
+
+    it('tell the user when no note is open', async () => {
+        await createPlugin(null).fetchCanvasUserProfile(true);
+        expect(notices).toContain('No active document to insert text into');
+        expect(notices).not.toContain('Canvas profile data inserted into note');
+    });
+
+    it('report Canvas errors instead of throwing', async () => {
+        server.enqueue('GET', '/api/v1/users/self/todo', { status: 403, body: { errors: [{ message: 'Forbidden' }] } });
+
+        await createPlugin().fetchCanvasTodoItems(true);
+
+        expect(editor.getValue()).toBe('# Week 8\n');
+        expect(notices.some(notice => notice.startsWith('Failed to fetch todo items:'))).toBe(true);
+    });
+});
@@ -0,0 +1,36 @@
+import { CanvasAPI } from '../../src/canvasApi';
+import { CanvasAuthHandler } from '../../src/oauth';
+import { CanvasProfile, DEFAULT_PROFILE } from '../../src/profiles';
+import { ResponseCache } from '../../src/responseCache';
+import { DEFAULT_SETTINGS, MyPluginSettings } from '../../src/settings';
+import { TEST_TOKEN } from './server';
+import { nodeTransport } from './transport';
+
+export interface TestApiOptions {
+    profile?: Partial<CanvasProfile>;
+    settings?: Partial<MyPluginSettings>;
+    cache?: ResponseCache | null;
+    auth?: CanvasAuthHandler | null;
+}
+
+/**
+ * CanvasAPI client talking to the mock server. The response cache is
+ * off and retries are limited unless the options say otherwise.
+ * @param origin Mock server URL
+ * @param options Profile, settings, cache and auth handler overrides
+ */
+export function createTestApi(origin: string, options: TestApiOptions = {}): CanvasAPI {
+    const profile: CanvasProfile = {
+        ...DEFAULT_PROFILE,
+        canvasApiUrl: origin,
+        canvasApiToken: TEST_TOKEN,
+        ...options.profile
+    };
+    const settings: MyPluginSettings = {
+        ...DEFAULT_SETTINGS,
+        cacheEnabled: false,
+        maxRetries: 1,
+        ...options.settings
+    };
+    return new CanvasAPI(profile, settings, options.cache ?? null, options.auth ?? null, nodeTransport);
+}
@@ -0,0 +1,335 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+
+/**
+ * A fake Canvas instance on localhost, answering from recorded JSON
+ * fixtures.
+ *
+ * A GET of `/api/v1/courses/101/assignments` is answered with
+ * `fixtures/api/v1/courses/101/assignments.json`; writes look for a
+ * fixture named after the method, e.g. `.../submissions.POST.json`, and
+ * answer 204 without one. Other paths, such as file downloads, are
+ * served as raw files. `{{origin}}` in a fixture becomes the server's
+ * own URL, so fixtures can link back to it.
+ *
+ * Like Canvas, the server pages JSON arrays by `per_page` and `page`
+ * with a `Link` header, reports a shrinking `X-Rate-Limit-Remaining`,
+ * rejects unknown tokens with 401 and answers missing resources with a
+ * Canvas error body. File uploads are accepted at `/upload`, and the
+ * OAuth2 token endpoint issues, refreshes and revokes tokens for the
+ * test developer key. One-off responses can be queued to simulate
+ * throttling and server errors.
+ */
+
+export const DEFAULT_FIXTURES = path.join(__dirname, '..', 'fixtures', 'canvas');
+
+export const TEST_TOKEN = 'test-token';
+
+/** Developer key the token endpoint accepts */
+export const TEST_CLIENT_ID = '10000000000001';
+export const TEST_CLIENT_SECRET = 'test-client-secret';
+/** Authorization code the sign-in redirect would carry */
+export const TEST_CODE = 'test-code';
+export const TEST_REFRESH_TOKEN = 'test-refresh-token';
+
+/** Canvas's default page size */
+const DEFAULT_PER_PAGE = 10;
+
+/** Rate limit bucket of a fresh token */
+const RATE_LIMIT = 700;
+
+export interface RecordedRequest {
+    method: string;
+    /** Path without query string */
+    path: string;
+    query: URLSearchParams;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+export interface CannedResponse {
+    status: number;
+    headers?: Record<string, string>;
+    /** JSON-serialized unless it is a string */
+    body?: unknown;
+}
+
+export interface UploadedFile {
+    fields: Record<string, string>;
+    fileName: string;
+    contentType: string;
+    data: Buffer;
+}
+
+export class MockCanvasServer {
+    readonly fixtures: string;
+    token = TEST_TOKEN;
+    refreshToken = TEST_REFRESH_TOKEN;
+    /** Every request received, in order */
+    requests: RecordedRequest[] = [];
+    uploads: UploadedFile[] = [];
+    private server: http.Server | null = null;
+    private queued: Array<{ method: string; path: string; response: CannedResponse }> = [];
+    private remaining = RATE_LIMIT;
+    private refreshes = 0;
+
+    constructor(fixtures: string = DEFAULT_FIXTURES) {
+        this.fixtures = fixtures;
+    }
+
+    /** Base URL, available once started */
+    get origin(): string {
+        if (!this.server) throw new Error('Mock Canvas server is not running');
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async start(): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', chunk => chunks.push(chunk));
+            req.on('end', () => this.handle(req, Buffer.concat(chunks), res));
+        });
+        await new Promise<void>(resolve => this.server?.listen(0, '127.0.0.1', resolve));
+        return this.origin;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (server) {
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+    }
+
+    /** Forget recorded requests, uploads and queued responses */
+    reset(): void {
+        this.requests = [];
+        this.uploads = [];
+        this.queued = [];
+        this.remaining = RATE_LIMIT;
+        this.token = TEST_TOKEN;
+        this.refreshToken = TEST_REFRESH_TOKEN;
+        this.refreshes = 0;
+    }
+
+    /**
+     * Answer the next matching request with a canned response instead of its fixture
+     * @param method HTTP method
+     * @param path Request path, e.g. `/api/v1/courses`
+     * @param response Response to send once
+     */
+    enqueue(method: string, path: string, response: CannedResponse): void {
+        this.queued.push({ method, path, response });
+    }
+
+    /** Queue Canvas's answer to a token whose rate limit bucket ran dry */
+    enqueueThrottle(method: string, path: string, retryAfterSeconds?: number): void {
+        this.enqueue(method, path, {
+            status: 403,
+            headers: retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : {},
+            body: '403 Forbidden (Rate Limit Exceeded)'
+        });
+    }
+
+    /** Requests received for a path, optionally of one method */
+    requestsTo(path: string, method?: string): RecordedRequest[] {
+        return this.requests.filter(request => request.path === path && (!method || request.method === method));
+    }
+
+    private handle(req: http.IncomingMessage, body: Buffer, res: http.ServerResponse): void {
+        const url = new URL(req.url ?? '/', this.origin);
+        const method = req.method ?? 'GET';
+        this.requests.push({ method, path: url.pathname, query: url.searchParams, headers: req.headers, body });
+
+        const queued = this.queued.findIndex(entry => entry.method === method && entry.path === url.pathname);
+        if (queued !== -1) {
+            const { response } = this.queued.splice(queued, 1)[0];
+            this.send(res, response.status, response.body, response.headers);
+            return;
+        }
+
+        if (url.pathname === '/upload' && method === 'POST') {
+            this.handleUpload(req, body, res);
+        } else if (url.pathname === '/login/oauth2/token') {
+            this.handleToken(req, method, body, res);
+        } else if (url.pathname.startsWith('/api/v1/')) {
+            this.handleApi(req, method, url, body, res);
+        } else {
+            this.handleRaw(url, res);
+        }
+    }
+
+    private handleApi(req: http.IncomingMessage, method: string, url: URL, body: Buffer, res: http.ServerResponse): void {
+        if (req.headers.authorization !== `Bearer ${this.token}`) {
+            this.send(res, 401, { errors: [{ message: 'Invalid access token.' }] }, {
+                'WWW-Authenticate': 'Bearer realm="canvas-lms"'
+            });
+            return;
+        }
+
+        const cost = method === 'GET' ? 1 : 2;
+        this.remaining = Math.max(0, this.remaining - cost);
+        const rateHeaders = {
+            'X-Request-Cost': String(cost),
+            'X-Rate-Limit-Remaining': String(this.remaining)
+        };
+
+        const suffix = method === 'GET' ? '.json' : `.${method}.json`;
+        const fixture = this.readFixture(`${url.pathname}${suffix}`);
+        if (fixture === null) {
+            if (method === 'GET') {
+                this.send(res, 404, { errors: [{ message: 'The specified resource does not exist.' }] }, rateHeaders);
+            } else {
+                this.send(res, 204, undefined, rateHeaders);
+            }
+            return;
+        }
+
+        const json = JSON.parse(fixture);
+        if (method !== 'GET' || !Array.isArray(json)) {
+            this.send(res, method === 'POST' ? 201 : 200, json, rateHeaders);
+            return;
+        }
+
+        const perPage = Math.max(1, Math.min(100, Number(url.searchParams.get('per_page')) || DEFAULT_PER_PAGE));
+        const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+        const lastPage = Math.max(1, Math.ceil(json.length / perPage));
+        const link = (rel: string, number: number) => {
+            const target = new URL(url.toString());
+            target.searchParams.set('page', String(number));
+            target.searchParams.set('per_page', String(perPage));
+            return `<${target.toString()}>; rel="${rel}"`;
+        };
+        const links = [link('current', page), link('first', 1), link('last', lastPage)];
+        if (page < lastPage) links.push(link('next', page + 1));
+        if (page > 1) links.push(link('prev', page - 1));
+
+        this.send(res, 200, json.slice((page - 1) * perPage, page * perPage), { ...rateHeaders, Link: links.join(',') });
+    }
+
+    private handleToken(req: http.IncomingMessage, method: string, body: Buffer, res: http.ServerResponse): void {
+        if (method === 'DELETE') {
+            if (!this.token || req.headers.authorization !== `Bearer ${this.token}`) {
+                this.send(res, 401, { errors: [{ message: 'Invalid access token.' }] });
+                return;
+            }
+            // Revoking the access token also ends its refresh token
+            this.token = '';
+            this.refreshToken = '';
+            this.send(res, 200, {});
+            return;
+        }
+        if (method !== 'POST') {
+            this.send(res, 405, 'Method Not Allowed');
+            return;
+        }
+
+        const params = new URLSearchParams(body.toString());
+        if (params.get('client_id') !== TEST_CLIENT_ID || params.get('client_secret') !== TEST_CLIENT_SECRET) {
+            this.send(res, 401, { error: 'invalid_client', error_description: 'unknown client' });
+            return;
+        }
+        const user = { id: 1, name: 'Alex Rivera' };
+        switch (params.get('grant_type')) {
+            case 'authorization_code':
+                if (params.get('code') !== TEST_CODE) {
+                    this.send(res, 400, { error: 'invalid_grant', error_description: 'authorization_code not found' });
+                    return;
+                }
+                this.send(res, 200, {
+                    access_token: this.token,
+                    token_type: 'Bearer',
+                    user,
+                    refresh_token: this.refreshToken,
+                    expires_in: 3600
+                });
+                return;
+            case 'refresh_token':
+                if (!this.refreshToken || params.get('refresh_token') !== this.refreshToken) {
+                    this.send(res, 400, { error: 'invalid_grant', error_description: 'refresh_token not found' });
+                    return;
+                }
+                // Like Canvas, a refresh replaces the access token but not the refresh token
+                this.refreshes++;
+                this.token = `${TEST_TOKEN}-${this.refreshes}`;
+                this.send(res, 200, { access_token: this.token, token_type: 'Bearer', user, expires_in: 3600 });
+                return;
+            default:
+                this.send(res, 400, { error: 'unsupported_grant_type', error_description: 'grant_type not supported' });
+        }
+    }
+
+    private handleUpload(req: http.IncomingMessage, body: Buffer, res: http.ServerResponse): void {
+        const boundary = /boundary=(.+)$/.exec(req.headers['content-type'] ?? '')?.[1];
+        if (!boundary) {
+            this.send(res, 400, { errors: [{ message: 'Expected a multipart/form-data body' }] });
+            return;
+        }
+
+        const upload: UploadedFile = { fields: {}, fileName: '', contentType: '', data: Buffer.alloc(0) };
+        const delimiter = Buffer.from(`--${boundary}`);
+        let start = body.indexOf(delimiter) + delimiter.length;
+        while (start >= delimiter.length) {
+            const end = body.indexOf(delimiter, start);
+            if (end === -1) break;
+            // Each part is CRLF, headers, a blank line, content and CRLF
+            const part = body.subarray(start + 2, end - 2);
+            const headerEnd = part.indexOf('\r\n\r\n');
+            const headers = part.subarray(0, headerEnd).toString();
+            const content = part.subarray(headerEnd + 4);
+            const name = /name="([^"]*)"/.exec(headers)?.[1] ?? '';
+            const fileName = /filename="([^"]*)"/.exec(headers)?.[1];
+            if (fileName !== undefined) {
+                upload.fileName = fileName;
+                upload.contentType = /Content-Type: (.+)/i.exec(headers)?.[1].trim() ?? '';
+                upload.data = Buffer.from(content);
+            } else {
+                upload.fields[name] = content.toString();
+            }
+            start = end + delimiter.length;
+        }
+        this.uploads.push(upload);
+
+        const id = 900 + this.uploads.length;
+        this.send(res, 201, {
+            id,
+            display_name: upload.fileName,
+            filename: upload.fileName,
+            size: upload.data.length,
+            'content-type': upload.contentType,
+            url: `${this.origin}/files/${id}/download`
+        });
+    }
+
+    private handleRaw(url: URL, res: http.ServerResponse): void {
+        const file = path.join(this.fixtures, ...url.pathname.split('/').filter(Boolean));
+        if (!file.startsWith(this.fixtures) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+            this.send(res, 404, 'Not Found');
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(fs.readFileSync(file));
+    }
+
+    private readFixture(relativePath: string): string | null {
+        const file = path.join(this.fixtures, ...relativePath.split('/').filter(Boolean));
+        if (!file.startsWith(this.fixtures) || !fs.existsSync(file)) return null;
+        return fs.readFileSync(file, 'utf8').replace(/\{\{origin\}\}/g, this.origin);
+    }
+
+    private send(res: http.ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}): void {
+        if (body === undefined) {
+            res.writeHead(status, headers);
+            res.end();
+            return;
+        }
+        const text = typeof body === 'string' ? body : JSON.stringify(body);
+        res.writeHead(status, {
+            'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json; charset=utf-8',
+            ...headers
+        });
+        res.end(text);
+    }
+}
@@ -0,0 +1,46 @@
+import * as http from 'http';
+import { HttpRequest, HttpResponse, HttpTransport } from '../../src/httpTransport';
+
+/**
+ * Transport on Node's http module, standing in for Obsidian's
+ * `requestUrl` when CanvasAPI talks to the mock server. Redirects are
+ * returned as they are, not followed.
+ */
+export const nodeTransport: HttpTransport = (request: HttpRequest) => new Promise<HttpResponse>((resolve, reject) => {
+    const headers: Record<string, string> = { ...request.headers };
+    if (request.contentType) {
+        headers['Content-Type'] = request.contentType;
+    }
+    const body = request.body === undefined
+        ? undefined
+        : typeof request.body === 'string' ? Buffer.from(request.body) : Buffer.from(new Uint8Array(request.body));
+    if (body) {
+        headers['Content-Length'] = String(body.length);
+    }
+
+    const req = http.request(request.url, { method: request.method, headers }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+            const data = Buffer.concat(chunks);
+            const text = data.toString('utf8');
+            const responseHeaders: Record<string, string> = {};
+            Object.entries(res.headers).forEach(([name, value]) => {
+                if (value !== undefined) responseHeaders[name] = Array.isArray(value) ? value.join(', ') : value;
+            });
+            resolve({
+                status: res.statusCode ?? 0,
+                headers: responseHeaders,
+                text,
+                // Like requestUrl, parse lazily and throw on bodies that are not JSON
+                get json() {
+                    return JSON.parse(text);
+                },
+                arrayBuffer: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+            });
+        });
+    });
+    req.on('error', reject);
+    req.end(body);
+});
@@ -0,0 +1,224 @@
+import { App, EditorPosition, TAbstractFile, TFile, TFolder } from 'obsidian';
+
+/**
+ * In-memory stand-in for the parts of the Obsidian vault the plugin
+ * writes notes and exports through. Notes are plain strings by path,
+ * attachments byte arrays; frontmatter is read back from the content,
+ * like the metadata cache.
+ */
+export class StubVault {
+    readonly files = new Map<string, string>();
+    readonly binaries = new Map<string, ArrayBuffer>();
+    readonly folders = new Set<string>();
+    /** Modification times of files written through the vault */
+    readonly mtimes = new Map<string, number>();
+
+    getAbstractFileByPath(path: string): TAbstractFile | null {
+        if (this.files.has(path) || this.binaries.has(path)) return this.toFile(path);
+        if (this.folders.has(path)) return this.toFolder(path);
+        return null;
+    }
+
+    getMarkdownFiles(): TFile[] {
+        return Array.from(this.files.keys())
+            .filter(path => path.endsWith('.md'))
+            .map(path => this.toFile(path));
+    }
+
+    async read(file: TFile): Promise<string> {
+        return this.contentOf(file);
+    }
+
+    async cachedRead(file: TFile): Promise<string> {
+        return this.contentOf(file);
+    }
+
+    async create(path: string, content: string): Promise<TFile> {
+        if (this.files.has(path)) {
+            throw new Error(`File already exists: ${path}`);
+        }
+        this.files.set(path, content);
+        this.mtimes.set(path, Date.now());
+        return this.toFile(path);
+    }
+
+    async createBinary(path: string, data: ArrayBuffer): Promise<TFile> {
+        if (this.getAbstractFileByPath(path)) {
+            throw new Error(`File already exists: ${path}`);
+        }
+        this.binaries.set(path, data);
+        return this.toFile(path);
+    }
+
+    async readBinary(file: TFile): Promise<ArrayBuffer> {
+        const data = this.binaries.get(file.path);
+        if (!data) {
+            throw new Error(`No such file: ${file.path}`);
+        }
+        return data;
+    }
+
+    async modifyBinary(file: TFile, data: ArrayBuffer): Promise<void> {
+        await this.readBinary(file);
+        this.binaries.set(file.path, data);
+    }
+
+    async createFolder(path: string): Promise<void> {
+        this.folders.add(path);
+    }
+
+    async modify(file: TFile, content: string): Promise<void> {
+        this.contentOf(file);
+        this.files.set(file.path, content);
+        this.mtimes.set(file.path, Date.now());
+    }
+
+    async process(file: TFile, update: (content: string) => string): Promise<string> {
+        const content = update(this.contentOf(file));
+        this.files.set(file.path, content);
+        this.mtimes.set(file.path, Date.now());
+        return content;
+    }
+
+    /**
+     * Frontmatter of a note, parsed from simple `key: value` lines
+     * @param path Note path
+     * @returns Frontmatter, or undefined if the note has none
+     */
+    getFrontmatter(path: string): Record<string, unknown> | undefined {
+        const match = (this.files.get(path) ?? '').match(/^---\n([\s\S]*?)\n---/);
+        if (!match) return undefined;
+        const frontmatter: Record<string, unknown> = {};
+        match[1].split('\n').forEach(line => {
+            const field = line.match(/^([\w-]+):\s*(.*)$/);
+            if (!field) return;
+            const value = field[2].trim();
+            frontmatter[field[1]] = /^(-?\d+(\.\d+)?|null|true|false|".*")$/.test(value) ? JSON.parse(value) : value;
+        });
+        return frontmatter;
+    }
+
+    /**
+     * Rewrite the frontmatter of a note, like `FileManager.processFrontMatter`
+     * @param path Note path
+     * @param update Changes the parsed frontmatter in place
+     */
+    processFrontmatter(path: string, update: (frontmatter: Record<string, unknown>) => void): void {
+        const frontmatter = this.getFrontmatter(path) ?? {};
+        update(frontmatter);
+        const lines = Object.entries(frontmatter).map(([key, value]) =>
+            `${key}: ${typeof value === 'string' && /^[\w .()/-]*$/.test(value) ? value : JSON.stringify(value)}`);
+        const body = (this.files.get(path) ?? '').replace(/^---\n[\s\S]*?\n---\n/, '');
+        this.files.set(path, `---\n${lines.join('\n')}\n---\n${body}`);
+    }
+
+    /**
+     * Task list items of a note, as the metadata cache lists them
+     * @param path Note path
+     * @returns Line number and checkbox character of each task
+     */
+    getTaskLines(path: string): Array<{ line: number; task: string }> {
+        return (this.files.get(path) ?? '').split('\n').flatMap((text, line) => {
+            const match = text.match(/^\s*(?:[-*+]|\d+[.)])\s+\[(.)\]/);
+            return match ? [{ line, task: match[1] }] : [];
+        });
+    }
+
+    private contentOf(file: TAbstractFile): string {
+        const content = this.files.get(file.path);
+        if (content === undefined) {
+            throw new Error(`No such file: ${file.path}`);
+        }
+        return content;
+    }
+
+    private toFile(path: string): TFile {
+        const file = new TFile();
+        file.path = path;
+        file.name = path.split('/').pop() ?? path;
+        file.extension = file.name.includes('.') ? file.name.split('.').pop() ?? '' : '';
+        file.basename = file.extension ? file.name.slice(0, -(file.extension.length + 1)) : file.name;
+        const mtime = this.mtimes.get(path) ?? 0;
+        file.stat = { ctime: mtime, mtime, size: (this.files.get(path) ?? '').length };
+        return file;
+    }
+
+    private toFolder(path: string): TFolder {
+        const folder = new TFolder();
+        folder.path = path;
+        folder.name = path.split('/').pop() ?? path;
+        return folder;
+    }
+}
+
+/**
+ * Editor of the active note, holding its text as a string. The cursor
+ * starts at the end of the text.
+ */
+export class StubEditor {
+    text: string;
+    private cursor: EditorPosition;
+
+    constructor(text = '') {
+        this.text = text;
+        this.cursor = this.offsetToPos(text.length);
+    }
+
+    getValue(): string {
+        return this.text;
+    }
+
+    getCursor(): EditorPosition {
+        return { ...this.cursor };
+    }
+
+    setCursor(position: EditorPosition): void {
+        this.cursor = { ...position };
+    }
+
+    replaceRange(replacement: string, from: EditorPosition, to: EditorPosition = from): void {
+        const start = this.posToOffset(from);
+        this.text = this.text.slice(0, start) + replacement + this.text.slice(this.posToOffset(to));
+    }
+
+    private posToOffset(position: EditorPosition): number {
+        const lines = this.text.split('\n').slice(0, position.line);
+        return lines.reduce((offset, line) => offset + line.length + 1, 0) + position.ch;
+    }
+
+    private offsetToPos(offset: number): EditorPosition {
+        const lines = this.text.slice(0, offset).split('\n');
+        return { line: lines.length - 1, ch: lines[lines.length - 1].length };
+    }
+}
+
+/**
+ * App with a stub vault, and a metadata cache and file manager working
+ * on that vault. Links are wikilinks by file name. The workspace's
+ * active Markdown view holds the given editor, if any.
+ * @param vault Vault to expose
+ * @param editor Editor of the active note
+ * @returns Object usable where the plugin expects an App
+ */
+export function createStubApp(vault: StubVault = new StubVault(), editor: StubEditor | null = null): App & { vault: StubVault } {
+    const fileToLinktext = (file: TFile) => file.extension === 'md' ? file.basename : file.name;
+    return {
+        vault,
+        metadataCache: {
+            getFileCache: (file: TFile) => {
+                const frontmatter = vault.getFrontmatter(file.path);
+                const listItems = vault.getTaskLines(file.path).map(line => ({ task: line.task, position: { start: { line: line.line } } }));
+                return frontmatter || listItems.length > 0 ? { frontmatter, listItems } : null;
+            },
+            fileToLinktext
+        },
+        fileManager: {
+            processFrontMatter: async (file: TFile, update: (frontmatter: Record<string, unknown>) => void) =>
+                vault.processFrontmatter(file.path, update),
+            generateMarkdownLink: (file: TFile) => `[[${fileToLinktext(file)}]]`
+        },
+        workspace: {
+            getActiveViewOfType: () => editor ? { editor } : null
+        }
+    } as unknown as App & { vault: StubVault };
+}
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment jsdom
+ */
+import { CanvasAPI } from '../src/canvasApi';
+import { Course } from '../src/canvasTypes';
+import { createVaultLinkResolver } from '../src/linkResolver';
+import type MyPlugin from '../src/main';
+import { MirrorEntry, ModuleMirror } from '../src/moduleMirror';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+import { StubVault, createStubApp } from './mockCanvas/vault';
+
+/**
+ * Mirroring the modules of course 101 into a stub vault, and resolving
+ * links to the mirrored pages and files
+ */
+
+const server = new MockCanvasServer();
+const COURSE = { id: 101, name: 'Biology 101' } as Course;
+const WEEK_1 = 'Canvas/Modules/Biology 101/Week 1 Cells (301)';
+
+let api: CanvasAPI;
+let vault: StubVault;
+let mirror: ModuleMirror;
+let manifest: Record<string, MirrorEntry>;
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(async () => {
+    server.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    api = createTestApi(server.origin);
+    const app = createStubApp();
+    vault = app.vault;
+    manifest = {};
+    const plugin = {
+        app,
+        settings: { ...DEFAULT_SETTINGS, mirrorFolder: 'Canvas/Modules', profiles: [api.profile] },
+        activeProfile: api.profile,
+        getApi: () => api
+    } as unknown as MyPlugin;
+    mirror = new ModuleMirror(plugin, {
+        load: async () => ({ ...manifest }),
+        save: async entries => {
+            manifest = { ...entries };
+        }
+    });
+    await mirror.load();
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function moduleIndex(): string {
+    return vault.files.get(`${WEEK_1}/Week 1 Cells.md`) ?? '';
+}
+
+describe('ModuleMirror', () => {
+    it('writes pages, files and module indexes into folders named after the module id', async () => {
+        expect(await mirror.syncCourse(COURSE, api.profile)).toEqual({ created: 2, updated: 0, unchanged: 0, skipped: 0 });
+
+        expect(vault.files.get(`${WEEK_1}/Cell organelles.md`)).toContain('The *powerhouse* of the cell.');
+        expect(vault.binaries.has(`${WEEK_1}/Microscope handout.pdf`)).toBe(true);
+        expect(moduleIndex()).toContain('- **Readings**\n  - [[Cell organelles]]\n  - [[Microscope handout.pdf]]');
+        expect(vault.files.has('Canvas/Modules/Biology 101/Week 2 Energy (302)/Week 2 Energy.md')).toBe(true);
+        // The course file list has the file's metadata already
+        expect(server.requestsTo('/api/v1/files/401')).toHaveLength(0);
+    });
+
+    it('fetches nothing again for pages and files that did not change', async () => {
+        await mirror.syncCourse(COURSE, api.profile);
+        server.reset();
+
+        expect(await mirror.syncCourse(COURSE, api.profile)).toEqual({ created: 0, updated: 0, unchanged: 2, skipped: 0 });
+        expect(server.requestsTo('/api/v1/courses/101/pages/cell-organelles')).toHaveLength(0);
+        expect(server.requestsTo('/api/v1/files/401')).toHaveLength(0);
+        expect(server.requestsTo('/files/401/download')).toHaveLength(0);
+    });
+
+    it('keeps module folders when modules are reordered', async () => {
+        await mirror.syncCourse(COURSE, api.profile);
+        server.enqueue('GET', '/api/v1/courses/101/modules', {
+            status: 200,
+            body: [
+                { id: 302, name: 'Week 2: Energy', position: 1, items_count: 0 },
+                { id: 301, name: 'Week 1: Cells', position: 2, items_count: 3 }
+            ]
+        });
+
+        await mirror.syncCourse(COURSE, api.profile);
+
+        expect(Array.from(vault.folders).filter(folder => folder.startsWith('Canvas/Modules/Biology 101/')).sort()).toEqual([
+            WEEK_1,
+            'Canvas/Modules/Biology 101/Week 2 Energy (302)'
+        ]);
+        expect(moduleIndex()).toContain('[[Cell organelles]]');
+    });
+
+    it('remembers what it wrote before a later module failed', async () => {
+        server.enqueue('GET', '/api/v1/courses/101/modules/302/items', { status: 404, body: { errors: [{ message: 'Not found' }] } });
+
+        await expect(mirror.syncCourse(COURSE, api.profile)).rejects.toThrow();
+        expect(Object.values(manifest).map(entry => entry.path)).toEqual(expect.arrayContaining([
+            `${WEEK_1}/Cell organelles.md`,
+            `${WEEK_1}/Microscope handout.pdf`
+        ]));
+
+        await mirror.load();
+        expect(await mirror.syncCourse(COURSE, api.profile)).toEqual({ created: 0, updated: 0, unchanged: 2, skipped: 0 });
+        expect(Array.from(vault.files.keys()).filter(path => path.startsWith(`${WEEK_1}/Cell organelles`))).toHaveLength(1);
+    });
+
+    it('lists files it leaves out by name when they have no Canvas link', async () => {
+        server.enqueue('GET', '/api/v1/courses/101/modules/301/items', {
+            status: 200,
+            body: [
+                { id: 3104, title: 'Answer key.pdf', type: 'File', content_id: 499 },
+                { id: 3105, title: 'Lecture recording.mp4', type: 'File', content_id: 402 }
+            ]
+        });
+        server.enqueue('GET', '/api/v1/courses/101/files', {
+            status: 200,
+            body: [{ id: 402, display_name: 'Lecture recording.mp4', size: 10, url: `${server.origin}/files/402/download` }]
+        });
+        mirror.plugin.settings.mirrorRules = { includeExtensions: [], excludeExtensions: ['mp4'], maxFileSizeMb: 0 };
+
+        expect(await mirror.syncCourse(COURSE, api.profile)).toMatchObject({ skipped: 2 });
+        expect(moduleIndex()).toContain('- Answer key.pdf (not available)\n- Lecture recording.mp4 (not downloaded: type .mp4 excluded)');
+    });
+});
+
+describe('createVaultLinkResolver', () => {
+    it('links to mirrored pages and files', async () => {
+        await mirror.syncCourse(COURSE, api.profile);
+        const resolve = createVaultLinkResolver(mirror.plugin.app, api.profile.id, '', mirror);
+
+        expect(resolve({ type: 'page', courseId: '101', id: 'cell-organelles' })).toBe('Cell organelles');
+        expect(resolve({ type: 'file', courseId: '101', id: '401' })).toBe('Microscope handout.pdf');
+        // Slugs are only unique within a course
+        expect(resolve({ type: 'page', courseId: '102', id: 'cell-organelles' })).toBeNull();
+    });
+
+    it('finds page notes by their frontmatter without the manifest', async () => {
+        await mirror.syncCourse(COURSE, api.profile);
+        const resolve = createVaultLinkResolver(mirror.plugin.app, api.profile.id);
+
+        expect(resolve({ type: 'page', courseId: '101', id: 'cell-organelles' })).toBe('Cell organelles');
+        expect(resolve({ type: 'file', courseId: '101', id: '401' })).toBeNull();
+        expect(createVaultLinkResolver(mirror.plugin.app, 'other-profile')({ type: 'page', courseId: '101', id: 'cell-organelles' })).toBeNull();
+    });
+});
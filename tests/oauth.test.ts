@@ -0,0 +1,180 @@
+import { OAuthError } from '../src/errors';
+import type MyPlugin from '../src/main';
+import {
+    CanvasOAuth,
+    OAUTH_REDIRECT_URI,
+    OAuthClient,
+    exchangeAuthorizationCode,
+    parseTokenResponse,
+    refreshAccessToken,
+    revokeAccessToken
+} from '../src/oauth';
+import { CanvasProfile, DEFAULT_PROFILE } from '../src/profiles';
+import { createTestApi } from './mockCanvas/client';
+import {
+    MockCanvasServer,
+    TEST_CLIENT_ID,
+    TEST_CLIENT_SECRET,
+    TEST_CODE,
+    TEST_REFRESH_TOKEN,
+    TEST_TOKEN
+} from './mockCanvas/server';
+import { nodeTransport } from './mockCanvas/transport';
+
+/**
+ * OAuth2 sign-in against the mock server's token endpoint: code
+ * exchange, refresh, rejected refresh tokens and sign-out
+ */
+
+const server = new MockCanvasServer();
+const CLIENT: OAuthClient = { clientId: TEST_CLIENT_ID, clientSecret: TEST_CLIENT_SECRET, redirectUri: OAUTH_REDIRECT_URI };
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(() => {
+    server.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function oauthProfile(overrides: Partial<CanvasProfile> = {}): CanvasProfile {
+    return {
+        ...DEFAULT_PROFILE,
+        canvasApiUrl: server.origin,
+        authMethod: 'oauth',
+        canvasApiToken: TEST_TOKEN,
+        oauthClientId: TEST_CLIENT_ID,
+        oauthClientSecret: TEST_CLIENT_SECRET,
+        oauthRefreshToken: TEST_REFRESH_TOKEN,
+        oauthExpiresAt: Date.now() + 3600 * 1000,
+        ...overrides
+    };
+}
+
+function createOAuth(profile: CanvasProfile) {
+    const plugin = {
+        app: {},
+        settings: { profiles: [profile] },
+        saveSettings: jest.fn(async () => undefined),
+        persistSettings: jest.fn(async () => undefined)
+    };
+    return { oauth: new CanvasOAuth(plugin as unknown as MyPlugin, nodeTransport), plugin };
+}
+
+describe('token endpoint', () => {
+    it('exchanges the authorization code for tokens', async () => {
+        const before = Date.now();
+        const tokens = await exchangeAuthorizationCode(server.origin, CLIENT, TEST_CODE, nodeTransport);
+
+        expect(tokens).toEqual({ accessToken: TEST_TOKEN, refreshToken: TEST_REFRESH_TOKEN, expiresAt: expect.any(Number) });
+        expect(tokens.expiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000);
+
+        const [request] = server.requestsTo('/login/oauth2/token', 'POST');
+        expect(request.headers['content-type']).toBe('application/x-www-form-urlencoded');
+        expect(Object.fromEntries(new URLSearchParams(request.body.toString()))).toEqual({
+            grant_type: 'authorization_code',
+            client_id: TEST_CLIENT_ID,
+            client_secret: TEST_CLIENT_SECRET,
+            redirect_uri: OAUTH_REDIRECT_URI,
+            code: TEST_CODE
+        });
+    });
+
+    it('reports the error code of a rejected exchange', async () => {
+        const error = await exchangeAuthorizationCode(server.origin, CLIENT, 'used-code', nodeTransport).catch(caught => caught);
+        expect(error).toBeInstanceOf(OAuthError);
+        expect(error.code).toBe('invalid_grant');
+    });
+
+    it('keeps the refresh token when refreshing', async () => {
+        const tokens = await refreshAccessToken(server.origin, CLIENT, TEST_REFRESH_TOKEN, nodeTransport);
+        expect(tokens.accessToken).toBe(`${TEST_TOKEN}-1`);
+        expect(tokens.refreshToken).toBe(TEST_REFRESH_TOKEN);
+    });
+
+    it('rejects revoked refresh tokens with invalid_grant', async () => {
+        await revokeAccessToken(server.origin, TEST_TOKEN, nodeTransport);
+        const error = await refreshAccessToken(server.origin, CLIENT, TEST_REFRESH_TOKEN, nodeTransport).catch(caught => caught);
+        expect(error).toBeInstanceOf(OAuthError);
+        expect(error.code).toBe('invalid_grant');
+    });
+});
+
+describe('parseTokenResponse', () => {
+    it('rejects bodies without a usable access token', () => {
+        expect(() => parseTokenResponse(null, 0)).toThrow(OAuthError);
+        expect(() => parseTokenResponse('access_token', 0)).toThrow(OAuthError);
+        expect(() => parseTokenResponse({ access_token: 42, error: 'invalid_client' }, 0))
+            .toThrow(expect.objectContaining({ code: 'invalid_client' }));
+    });
+
+    it('ignores fields of the wrong type', () => {
+        expect(parseTokenResponse({ access_token: 'abc', refresh_token: 7, expires_in: 'soon' }, 1000, 'kept')).toEqual({
+            accessToken: 'abc',
+            refreshToken: 'kept',
+            expiresAt: null
+        });
+        expect(parseTokenResponse({ access_token: 'abc', expires_in: 60 }, 1000).expiresAt).toBe(61000);
+    });
+});
+
+describe('CanvasOAuth', () => {
+    it('refreshes an expired token before the request that needs it', async () => {
+        const profile = oauthProfile({ canvasApiToken: 'expired', oauthExpiresAt: Date.now() - 1000 });
+        const { oauth, plugin } = createOAuth(profile);
+
+        const api = createTestApi(server.origin, { profile, auth: oauth });
+        const user = await api.getUserProfile();
+
+        expect(user.name).toBe('Alex Rivera');
+        expect(api.profile.canvasApiToken).toBe(`${TEST_TOKEN}-1`);
+        expect(api.profile.oauthRefreshToken).toBe(TEST_REFRESH_TOKEN);
+        expect(plugin.persistSettings).toHaveBeenCalled();
+        expect(server.requestsTo('/api/v1/users/self')[0].headers.authorization).toBe(`Bearer ${TEST_TOKEN}-1`);
+    });
+
+    it('asks for a new sign-in when the refresh token is invalid', async () => {
+        const profile = oauthProfile({ oauthRefreshToken: 'revoked' });
+        const { oauth, plugin } = createOAuth(profile);
+
+        await expect(oauth.refresh(profile)).resolves.toBeNull();
+        expect(profile.canvasApiToken).toBe(TEST_TOKEN);
+        expect(plugin.persistSettings).not.toHaveBeenCalled();
+    });
+
+    it('revokes the token on sign-out and forgets it', async () => {
+        const profile = oauthProfile();
+        const { oauth, plugin } = createOAuth(profile);
+
+        await oauth.signOut(profile);
+
+        const [request] = server.requestsTo('/login/oauth2/token', 'DELETE');
+        expect(request.headers.authorization).toBe(`Bearer ${TEST_TOKEN}`);
+        expect(profile).toMatchObject({ canvasApiToken: '', oauthRefreshToken: '', oauthExpiresAt: null });
+        expect(plugin.saveSettings).toHaveBeenCalled();
+        // Canvas no longer accepts the token either
+        await expect(createTestApi(server.origin).getUserProfile()).rejects.toThrow();
+    });
+
+    it('signs out locally when Canvas cannot revoke the token', async () => {
+        server.enqueue('DELETE', '/login/oauth2/token', { status: 500, body: 'Internal Server Error' });
+        const profile = oauthProfile();
+        const { oauth } = createOAuth(profile);
+
+        await oauth.signOut(profile);
+
+        expect(profile.canvasApiToken).toBe('');
+        expect(console.warn).toHaveBeenCalledWith('Could not revoke Canvas token:', expect.any(OAuthError));
+    });
+});
@@ -0,0 +1,154 @@
+import { CanvasAPI } from '../src/canvasApi';
+import {
+    BUILT_IN_TEMPLATES, OutputTemplateId, TemplateFormat, TemplateVariant, buildCoursesData, buildEventsData, buildGradesData,
+    buildProfileData, buildTodoData, renderCommandTemplate
+} from '../src/outputTemplates';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+
+/**
+ * The "Insert in Note" commands (fetchCanvas* in main) fetch through
+ * CanvasAPI, build template data and render the chosen layout. These
+ * tests run the same steps against the mock server.
+ */
+
+const server = new MockCanvasServer();
+const format: TemplateFormat = { dateFormat: 'YYYY-MM-DD HH:mm', timeZone: 'UTC' };
+let api: CanvasAPI;
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(() => {
+    server.reset();
+    api = createTestApi(server.origin);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function render(id: OutputTemplateId, variant: TemplateVariant, data: Record<string, unknown>): string {
+    return renderCommandTemplate(BUILT_IN_TEMPLATES[id][variant] ?? '', data, format);
+}
+
+async function fetchCoursesData(): Promise<Record<string, unknown>> {
+    const courses = await api.getCourses('student', 'active');
+    const assignmentsByCourse = await Promise.all(courses.map(course =>
+        api.getCourseAssignments(course.id, { include: ['submission'] })
+    ));
+    return buildCoursesData(courses, assignmentsByCourse);
+}
+
+describe('courses', () => {
+    it('renders the table layout', async () => {
+        expect(render('courses', 'table', await fetchCoursesData())).toBe(`## Canvas Active Courses
+
+- **Biology 101** (ID: 101)
+- **World History** (ID: 102)
+- **Intro to Chemistry** (ID: 103)
+
+### Assignments for Biology 101
+
+| Assignment | Due Date | Status |
+| --- | --- | --- |
+| Lab report: Photosynthesis | 2026-11-02 23:59 | ✅ Graded |
+| Cell structure quiz | 2026-11-09 23:59 | ⏳ Pending |
+
+**Summary:** 1 completed, 1 pending assignments
+
+### Assignments for World History
+
+| Assignment | Due Date | Status |
+| --- | --- | --- |
+| Essay: Causes of the First World War | 2026-11-05 12:00 | ✅ Submitted |
+
+**Summary:** 1 completed, 0 pending assignments
+
+### Assignments for Intro to Chemistry
+
+No assignments found for this course.
+`);
+    });
+
+    it('renders the task layout', async () => {
+        const output = render('courses', 'tasks', await fetchCoursesData());
+        expect(output).toContain('- [x] Lab report: Photosynthesis (due 2026-11-02 23:59)');
+        expect(output).toContain('- [ ] Cell structure quiz (due 2026-11-09 23:59)');
+        expect(output).not.toContain('Reading response');
+    });
+});
+
+describe('profile', () => {
+    it('renders the list layout', async () => {
+        expect(render('profile', 'list', buildProfileData(await api.getUserProfile()))).toBe(`## Canvas User Profile
+
+- **Name:** Alex Rivera
+- **ID:** 7
+- **Email:** alex.rivera@example.edu
+- **Login ID:** arivera
+
+`);
+    });
+});
+
+describe('events', () => {
+    it('renders the table layout', async () => {
+        expect(render('events', 'table', buildEventsData(await api.getUpcomingEvents()))).toBe(`## Canvas Upcoming Events
+
+| Event | Date | Course |
+| --- | --- | --- |
+| Lab safety briefing | 2026-10-20 15:00 | Biology 101 |
+| Lab report: Photosynthesis | 2026-11-02 23:59 | Biology 101 |
+`);
+    });
+
+    it('says so when there are no events', async () => {
+        server.enqueue('GET', '/api/v1/users/self/upcoming_events', { status: 200, body: [] });
+        expect(render('events', 'list', buildEventsData(await api.getUpcomingEvents()))).toContain('No upcoming events found.');
+    });
+});
+
+describe('todo', () => {
+    it('renders the table layout', async () => {
+        expect(render('todo', 'table', buildTodoData(await api.getTodoItems()))).toBe(`## Canvas Todo Items
+
+| Assignment | Course | Due Date |
+| --- | --- | --- |
+| Cell structure quiz | Biology 101 | 2026-11-09 23:59 |
+| Cell structure quiz | Biology 101 | 2026-11-09 23:59 |
+`);
+    });
+
+    it('adds completion markers to tasks', async () => {
+        const todos = await api.getTodoItems();
+        const output = render('todoTasks', 'tasks', buildTodoData(todos, todo => `%% canvas-task:${todo.quiz ? 'quiz' : 'assignment'} %%`));
+        expect(output).toContain('- [ ] Cell structure quiz (Biology 101, due 2026-11-09 23:59) %% canvas-task:assignment %%');
+        expect(output).toContain('- [ ] Cell structure quiz (Biology 101, due 2026-11-09 23:59) %% canvas-task:quiz %%');
+    });
+});
+
+describe('grades', () => {
+    it('renders the table layout', async () => {
+        expect(render('grades', 'table', buildGradesData(await api.getCourseGrades()))).toBe(`## Canvas Course Grades
+
+| Course | Grade | Score |
+| --- | --- | --- |
+| Biology 101 | B+ | 88.5 |
+| World History | N/A | 93 |
+| Intro to Chemistry | N/A | N/A |
+`);
+    });
+
+    it('renders the list layout', async () => {
+        const output = render('grades', 'list', buildGradesData(await api.getCourseGrades()));
+        expect(output).toContain('- **Biology 101**: B+ (88.5%)');
+        expect(output).toContain('- **Intro to Chemistry**: no grade\n');
+    });
+});
@@ -0,0 +1,192 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as path from 'path';
+import { CanvasAPI } from '../src/canvasApi';
+import { CanvasApiError, CanvasAuthError, UntrustedHostError } from '../src/errors';
+import { redactSecrets } from '../src/httpTransport';
+import { CanvasAuthHandler } from '../src/oauth';
+import { CanvasProfile, DEFAULT_PROFILE } from '../src/profiles';
+import { signProxyRequest, withoutPublicProxy } from '../src/proxy';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+import { nodeTransport } from './mockCanvas/transport';
+
+/**
+ * The token may only reach the Canvas host or a proxy the user approved.
+ * These tests run proxy/canvas-proxy.mjs in front of the mock server.
+ */
+
+const PROXY_SECRET = 'proxy-secret';
+const server = new MockCanvasServer();
+let proxy: ChildProcess;
+let proxyOrigin: string;
+
+/**
+ * Start the proxy script on a free port
+ * @returns Origin the proxy listens on
+ */
+function startProxy(): Promise<string> {
+    proxy = spawn(process.execPath, [path.join(__dirname, '../proxy/canvas-proxy.mjs')], {
+        env: { ...process.env, CANVAS_URL: server.origin, PROXY_SECRET, PORT: '0', HOST: '127.0.0.1' },
+        stdio: ['ignore', 'pipe', 'inherit']
+    });
+    return new Promise((resolve, reject) => {
+        let output = '';
+        proxy.stdout?.on('data', chunk => {
+            output += chunk;
+            const started = output.match(/Forwarding (http:\/\/[^/\s]+)\//);
+            if (started) resolve(started[1]);
+        });
+        proxy.on('exit', code => reject(new Error(`Proxy exited with code ${code}`)));
+    });
+}
+
+beforeAll(async () => {
+    await server.start();
+    proxyOrigin = await startProxy();
+});
+
+afterAll(async () => {
+    proxy.kill();
+    await server.stop();
+});
+
+beforeEach(() => {
+    server.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function proxiedApi(profile: Partial<CanvasProfile> = {}, auth: CanvasAuthHandler | null = null): CanvasAPI {
+    return createTestApi(server.origin, {
+        profile: { useProxy: true, corsProxyUrl: `${proxyOrigin}/`, proxySecret: PROXY_SECRET, ...profile },
+        auth
+    });
+}
+
+function approvingAuth(): CanvasAuthHandler & { approveProxyHost: jest.Mock } {
+    return {
+        refresh: async () => null,
+        onUnauthorized: () => undefined,
+        approveProxyHost: jest.fn(async (profile: CanvasProfile, host: string) => {
+            profile.approvedProxyHost = host;
+            return true;
+        })
+    };
+}
+
+describe('allow-list', () => {
+    it('does not follow pagination links off the Canvas host', async () => {
+        server.enqueue('GET', '/api/v1/courses', {
+            status: 200,
+            headers: { Link: '<http://canvas.example.net/api/v1/courses?page=2>; rel="next"' },
+            body: [{ id: 1 }]
+        });
+        const items: unknown[] = [];
+        const read = async () => {
+            for await (const item of createTestApi(server.origin).paginate('/courses')) items.push(item);
+        };
+        await expect(read()).rejects.toBeInstanceOf(UntrustedHostError);
+        expect(items).toEqual([{ id: 1 }]);
+    });
+});
+
+describe('proxy', () => {
+    it('refuses to send the token to a proxy nobody approved', async () => {
+        await expect(proxiedApi().getUserProfile()).rejects.toBeInstanceOf(UntrustedHostError);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('asks once, then sends signed requests through the proxy', async () => {
+        const auth = approvingAuth();
+        const api = proxiedApi({}, auth);
+        expect((await api.getUserProfile()).name).toBe('Alex Rivera');
+        await api.getUserProfile();
+
+        expect(auth.approveProxyHost).toHaveBeenCalledTimes(1);
+        expect(auth.approveProxyHost.mock.calls[0][1]).toBe(new URL(proxyOrigin).host);
+        expect(server.requests).toHaveLength(2);
+        expect(server.requests[0].headers.authorization).toBe('Bearer test-token');
+        // The signature is for the proxy; Canvas never sees it
+        expect(server.requests[0].headers['x-canvas-proxy-signature']).toBeUndefined();
+    });
+
+    it('does not treat a refused signature as a rejected token', async () => {
+        const api = proxiedApi({ proxySecret: 'wrong-secret', approvedProxyHost: new URL(proxyOrigin).host });
+        const error = await api.getUserProfile().catch(caught => caught);
+        expect(error).toBeInstanceOf(CanvasApiError);
+        expect(error).not.toBeInstanceOf(CanvasAuthError);
+        expect(error.status).toBe(401);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('forwards signed request bodies', async () => {
+        const api = proxiedApi({ approvedProxyHost: new URL(proxyOrigin).host });
+        await api.postDiscussionEntry(101, 602, '<p>Mitochondria</p>');
+
+        const [request] = server.requestsTo('/api/v1/courses/101/discussion_topics/602/entries', 'POST');
+        expect(JSON.parse(request.body.toString())).toEqual({ message: '<p>Mitochondria</p>' });
+    });
+
+    it('refuses bodies other than the signed one', async () => {
+        const target = `${server.origin}/api/v1/courses/101/discussion_topics/602/entries`;
+        const headers = await signProxyRequest(PROXY_SECRET, 'POST', target, JSON.stringify({ message: 'Hello' }));
+        const response = await nodeTransport({
+            url: `${proxyOrigin}/${encodeURIComponent(target)}`,
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json', Authorization: 'Bearer test-token' },
+            body: JSON.stringify({ message: 'Something else' })
+        });
+        expect(response.status).toBe(401);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('refuses stale signatures', async () => {
+        const target = `${server.origin}/api/v1/users/self`;
+        const headers = await signProxyRequest(PROXY_SECRET, 'GET', target, '', Date.now() - 10 * 60 * 1000);
+        const response = await nodeTransport({ url: `${proxyOrigin}/${encodeURIComponent(target)}`, method: 'GET', headers });
+        expect(response.status).toBe(401);
+    });
+
+    it('only forwards to the Canvas host', async () => {
+        const target = 'http://canvas.example.net/api/v1/users/self';
+        const headers = await signProxyRequest(PROXY_SECRET, 'GET', target);
+        const response = await nodeTransport({ url: `${proxyOrigin}/${encodeURIComponent(target)}`, method: 'GET', headers });
+        expect(response.status).toBe(403);
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('drops the public proxy earlier versions defaulted to', () => {
+        const profile = { ...DEFAULT_PROFILE, useProxy: true, corsProxyUrl: 'https://cors-anywhere.herokuapp.com/' };
+        expect(withoutPublicProxy(profile)).toMatchObject({ useProxy: false, corsProxyUrl: '' });
+        const own = { ...profile, corsProxyUrl: 'http://127.0.0.1:8787/' };
+        expect(withoutPublicProxy(own)).toBe(own);
+    });
+});
+
+describe('log redaction', () => {
+    it('removes credentials from URLs, headers and bodies', () => {
+        expect(redactSecrets('https://canvas.test/files/1?verifier=abc&x=1')).toBe('https://canvas.test/files/1?verifier=[redacted]&x=1');
+        expect(redactSecrets('Authorization: Bearer 1~abcdef')).toBe('Authorization: Bearer [redacted]');
+        expect(redactSecrets('{"refresh_token":"r-123","user":1}')).toBe('{"refresh_token":"[redacted]","user":1}');
+        expect(redactSecrets('token was s3cret-value', ['s3cret-value'])).toBe('token was [redacted]');
+    });
+
+    it('keeps the token out of the console', async () => {
+        server.enqueue('GET', '/api/v1/users/self', {
+            status: 400,
+            body: { errors: [{ message: 'Malformed header: Bearer test-token' }], echo: 'test-token' }
+        });
+        await expect(createTestApi(server.origin).getUserProfile()).rejects.toBeInstanceOf(CanvasApiError);
+
+        const logged = [console.log, console.error]
+            .flatMap(spy => (spy as jest.Mock).mock.calls)
+            .map(args => args.map(String).join(' '))
+            .join('\n');
+        expect(logged).toContain('Error 400');
+        expect(logged).not.toContain('test-token');
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment jsdom
+ */
+import { CanvasAPI } from '../src/canvasApi';
+import { QuizSubmission } from '../src/canvasTypes';
+import { getCheckedCriteria, getLatestAttempt, questionToFlashcard, renderFlashcards, renderRubricChecklist } from '../src/quizImport';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+
+const server = new MockCanvasServer();
+let api: CanvasAPI;
+
+beforeAll(async () => {
+    await server.start();
+    api = createTestApi(server.origin);
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('quiz flashcards', () => {
+    it('turns the latest attempt into cards, skipping questions without answers', async () => {
+        const attempt = getLatestAttempt(await api.getQuizSubmissions(101, 501));
+        expect(attempt?.attempt).toBe(2);
+
+        const questions = await api.getQuizQuestions(101, 501, attempt as QuizSubmission);
+        const cards = questions.map(question => questionToFlashcard(question));
+        expect(cards).toEqual([
+            { question: 'Which organelle makes ATP?', answer: 'Mitochondrion' },
+            { question: 'Plant cells have a cell wall.', answer: 'True' },
+            null
+        ]);
+    });
+
+    it('covers the other auto-graded question types', () => {
+        const card = (question_type: string, answers: object[]) =>
+            questionToFlashcard({ id: 1, question_type, question_text: '<p>Q</p>', answers })?.answer;
+
+        expect(card('multiple_answers_question', [
+            { text: 'A', weight: 100 }, { text: 'B', weight: 0 }, { text: 'C', weight: 100 }
+        ])).toBe('A; C');
+        expect(card('fill_in_multiple_blanks_question', [
+            { text: 'red', blank_id: 'color', weight: 100 }, { text: 'crimson', blank_id: 'color', weight: 100 },
+            { text: 'apple', blank_id: 'fruit', weight: 100 }
+        ])).toBe('color: red / crimson; fruit: apple');
+        expect(card('matching_question', [{ left: 'H2O', right: 'Water' }, { left: 'NaCl', right: 'Salt' }]))
+            .toBe('H2O → Water; NaCl → Salt');
+        expect(card('numerical_question', [
+            { numerical_answer_type: 'exact_answer', exact: 9.81, margin: 0.01, weight: 100 },
+            { numerical_answer_type: 'range_answer', start: 1, end: 2, weight: 100 }
+        ])).toBe('9.81 ± 0.01 or 1 to 2');
+        // Students only get weights once the quiz shows correct answers
+        expect(card('multiple_choice_question', [{ text: 'A' }, { text: 'B' }])).toBeUndefined();
+    });
+
+    it('renders single-line and multi-line cards', () => {
+        expect(renderFlashcards([
+            { question: 'Which organelle makes ATP?', answer: 'Mitochondrion' },
+            { question: 'Name the stages\nof mitosis', answer: 'Prophase, metaphase, anaphase, telophase' }
+        ], '#flashcards/BIO101')).toBe([
+            '#flashcards/BIO101',
+            '',
+            'Which organelle makes ATP?::Mitochondrion',
+            '',
+            'Name the stages\nof mitosis\n?\nProphase, metaphase, anaphase, telophase'
+        ].join('\n'));
+    });
+});
+
+describe('rubric checklist', () => {
+    it('lists criteria with ratings and the assessment, keeping ticks', async () => {
+        const assignment = await api.getAssignment(101, 201);
+        const submission = await api.getSubmission(101, 201, 'self');
+        const checklist = renderRubricChecklist(assignment.rubric ?? [], submission.rubric_assessment ?? {}, new Set(['_101']));
+
+        expect(checklist).toBe([
+            '## Rubric',
+            '',
+            '- [x] **Hypothesis** (4 pts) %% rubric:_101 %%',
+            '    - States a testable hypothesis',
+            '    - 4 pts: Clear and testable',
+            '    - 2 pts: Vague',
+            '    - 0 pts: Missing',
+            '    - Received: 4 / 4 pts',
+            '- [ ] **Data analysis** (6 pts) %% rubric:_102 %%',
+            '    - 6 pts: Complete',
+            '    - 3 pts: Partial',
+            '    - Received: 4 / 6 pts',
+            '    - Comments: Missing error bars'
+        ].join('\n'));
+        expect(getCheckedCriteria(checklist)).toEqual(new Set(['_101']));
+    });
+});
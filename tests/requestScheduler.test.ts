@@ -0,0 +1,57 @@
+import { RequestScheduler, ScheduledResponse } from '../src/requestScheduler';
+
+/**
+ * Which failures the scheduler sends again: throttled requests always,
+ * server and network errors only for reads
+ */
+
+const scheduler = new RequestScheduler({ maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 });
+
+function respond(...statuses: number[]): jest.Mock<Promise<ScheduledResponse>> {
+    const task = jest.fn<Promise<ScheduledResponse>, []>();
+    statuses.forEach(status => task.mockResolvedValueOnce({
+        status,
+        headers: {},
+        text: status === 403 ? 'Rate Limit Exceeded' : ''
+    }));
+    return task;
+}
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('RequestScheduler', () => {
+    it('retries reads after server errors', async () => {
+        const task = respond(502, 503, 200);
+        expect((await scheduler.run('GET', task)).status).toBe(200);
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not resend a POST that failed with a server error', async () => {
+        const task = respond(502, 200);
+        expect((await scheduler.run('POST', task)).status).toBe(502);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not resend writes after network errors', async () => {
+        const task = jest.fn(async (): Promise<ScheduledResponse> => {
+            throw new Error('socket hang up');
+        });
+        await expect(scheduler.run('PUT', task)).rejects.toThrow('socket hang up');
+        expect(task).toHaveBeenCalledTimes(1);
+
+        await expect(scheduler.run('GET', task)).rejects.toThrow('socket hang up');
+        expect(task).toHaveBeenCalledTimes(4);
+    });
+
+    it('retries throttled writes, which Canvas did not apply', async () => {
+        const task = respond(429, 403, 201);
+        expect((await scheduler.run('POST', task)).status).toBe(201);
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+});
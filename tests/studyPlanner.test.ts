@@ -0,0 +1,156 @@
+import { moment } from 'obsidian';
+import { CanvasAPI } from '../src/canvasApi';
+import type MyPlugin from '../src/main';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { StudyPlanState, StudyPlanner, getLastWorkDay, parseWeeklyHours } from '../src/studyPlanner';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+import { StubVault, createStubApp } from './mockCanvas/vault';
+
+/**
+ * Planning the open assignments of the mock server's courses into a plan
+ * note or daily notes, and keeping the plan up to date
+ */
+
+const server = new MockCanvasServer();
+const PLAN_NOTE = 'Canvas/Study plan.md';
+// A Monday morning, a week before the cell structure quiz is due
+const NOW = moment('2026-11-02T09:00:00');
+
+let api: CanvasAPI;
+let vault: StubVault;
+let planner: StudyPlanner;
+let stored: StudyPlanState | null;
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(async () => {
+    server.reset();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW.valueOf());
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    api = createTestApi(server.origin);
+    const app = createStubApp();
+    vault = app.vault;
+    stored = null;
+    const plugin = {
+        app,
+        settings: { ...DEFAULT_SETTINGS, profiles: [api.profile] },
+        activeProfile: api.profile,
+        getApi: () => api
+    } as unknown as MyPlugin;
+    planner = new StudyPlanner(plugin, {
+        load: async () => stored,
+        save: async state => {
+            stored = state;
+        }
+    });
+    await planner.load();
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function planNote(): string {
+    return vault.files.get(PLAN_NOTE) ?? '';
+}
+
+function assignmentsDueAt(dueAt: string) {
+    return {
+        status: 200,
+        body: [{
+            id: 202,
+            course_id: 101,
+            name: 'Cell structure quiz',
+            due_at: dueAt,
+            points_possible: 5,
+            html_url: `${server.origin}/courses/101/assignments/202`,
+            submission: { id: 3002, assignment_id: 202, user_id: 7, workflow_state: 'unsubmitted', score: null }
+        }]
+    };
+}
+
+describe('StudyPlanner', () => {
+    it('plans open assignments and quizzes, taking effort from assignment notes', async () => {
+        vault.files.set('Canvas/Cell structure quiz.md', '---\ncanvas_assignment_id: 202\nestimated_minutes: 150\n---\n');
+
+        const { state, changed } = await planner.plan();
+
+        expect(changed).toBe(true);
+        // Graded and submitted assignments have nothing left to plan
+        expect(Object.keys(state.assignments).sort()).toEqual(['assignment:202', 'quiz:501']);
+        expect(state.assignments['assignment:202'].effortMinutes).toBe(150);
+        expect(state.assignments['quiz:501'].effortMinutes).toBe(DEFAULT_SETTINGS.plannerDefaultMinutes);
+        expect(state.schedule.unfit).toEqual([]);
+        expect(planNote()).toContain('3h 30m of work');
+        expect(planNote()).toContain('[[Cell structure quiz|Cell structure quiz]] (Biology 101)');
+        expect(stored).toBe(state);
+    });
+
+    it('only rewrites the plan when something changed', async () => {
+        await planner.plan();
+        const first = planNote();
+
+        expect((await planner.plan()).changed).toBe(false);
+        expect(planNote()).toBe(first);
+    });
+
+    it('plans again when a due date moves and flags work that no longer fits', async () => {
+        vault.files.set('Canvas/Cell structure quiz.md', '---\ncanvas_assignment_id: 202\nestimated_minutes: 300\n---\n');
+        await planner.plan();
+        // Due tonight: one session of at most 90 minutes is left
+        server.enqueue('GET', '/api/v1/courses/101/assignments', assignmentsDueAt(NOW.clone().hour(20).toISOString()));
+
+        const { state, changed } = await planner.plan();
+
+        expect(changed).toBe(true);
+        expect(state.schedule.unfit).toEqual([{ taskId: 'assignment:202', missingMinutes: 210 }]);
+        expect(planNote()).toContain('> [!warning] Not enough time before the deadline');
+        expect(planNote()).toContain('3h 30m short');
+    });
+
+    it('counts ticked sessions as work done', async () => {
+        await planner.plan();
+        const line = planNote().split('\n').find(text => text.includes('%% study:quiz:501 2026-11-02'));
+        expect(line).toBeDefined();
+        vault.files.set(PLAN_NOTE, planNote().replace(line as string, (line as string).replace('- [ ]', '- [x]')));
+
+        const { state } = await planner.plan();
+
+        expect(state.done['quiz:501|2026-11-02']).toBe(60);
+        expect(state.schedule.sessions.filter(session => session.taskId === 'quiz:501')).toEqual([]);
+        expect(planNote()).toContain('- [x] ');
+    });
+
+    it('writes sessions into existing daily notes', async () => {
+        planner.plugin.settings.plannerOutput = 'daily';
+        planner.plugin.settings.dailyNoteFolder = 'Daily';
+        vault.files.set('Daily/2026-11-02.md', '# Monday\n');
+
+        await planner.plan();
+
+        expect(vault.files.has(PLAN_NOTE)).toBe(false);
+        expect(vault.files.get('Daily/2026-11-02.md')).toMatch(/^# Monday\n\n## Study plan\n\n.*%% study:/s);
+    });
+});
+
+describe('planner settings', () => {
+    it('works on the due day of assignments due in the evening only', () => {
+        expect(getLastWorkDay(moment('2026-11-09T23:59:00').toISOString())).toBe('2026-11-09');
+        expect(getLastWorkDay(moment('2026-11-09T09:00:00').toISOString())).toBe('2026-11-08');
+    });
+
+    it('reads seven hour counts, Monday first', () => {
+        expect(parseWeeklyHours('2, 2, 2, 2, 1.5, 0, 0')).toEqual([2, 2, 2, 2, 1.5, 0, 0]);
+        expect(parseWeeklyHours('2, 2, 2')).toBeNull();
+        expect(parseWeeklyHours('2, 2, 2, 2, 2, 2, 25')).toBeNull();
+        expect(parseWeeklyHours('2, 2, 2, 2, 2, 2, x')).toBeNull();
+    });
+});
@@ -0,0 +1,77 @@
+import { addDays, formatMinutes, getWeekday, scheduleStudySessions } from '../src/studyScheduler';
+
+// 2026-10-19 is a Monday
+const options = {
+    startDate: '2026-10-19',
+    weeklyMinutes: [0, 120, 120, 120, 120, 120, 0],
+    maxSessionMinutes: 90,
+    minSessionMinutes: 25
+};
+
+describe('scheduleStudySessions', () => {
+    it('spreads long tasks over several days', () => {
+        const schedule = scheduleStudySessions([{ id: 'essay', effortMinutes: 200, lastDay: '2026-10-23' }], options);
+        expect(schedule.sessions).toEqual([
+            { taskId: 'essay', date: '2026-10-19', minutes: 90 },
+            { taskId: 'essay', date: '2026-10-20', minutes: 90 },
+            { taskId: 'essay', date: '2026-10-21', minutes: 20 }
+        ]);
+        expect(schedule.unfit).toEqual([]);
+    });
+
+    it('works on the earliest deadline first', () => {
+        const schedule = scheduleStudySessions([
+            { id: 'later', effortMinutes: 60, lastDay: '2026-10-23' },
+            { id: 'sooner', effortMinutes: 60, lastDay: '2026-10-19' }
+        ], options);
+        expect(schedule.sessions.filter(session => session.date === '2026-10-19')).toEqual([
+            { taskId: 'sooner', date: '2026-10-19', minutes: 60 },
+            { taskId: 'later', date: '2026-10-19', minutes: 60 }
+        ]);
+    });
+
+    it('skips short leftovers unless they finish a task', () => {
+        const schedule = scheduleStudySessions([
+            { id: 'a', effortMinutes: 100, lastDay: '2026-10-19' },
+            { id: 'b', effortMinutes: 60, lastDay: '2026-10-20' }
+        ], { ...options, maxSessionMinutes: 100 });
+        // 20 minutes are left on Monday, too short to start b
+        expect(schedule.sessions.filter(session => session.taskId === 'b')).toEqual([
+            { taskId: 'b', date: '2026-10-20', minutes: 60 }
+        ]);
+    });
+
+    it('waits for the first day of a task', () => {
+        const schedule = scheduleStudySessions([
+            { id: 'locked', effortMinutes: 30, lastDay: '2026-10-23', firstDay: '2026-10-22' }
+        ], options);
+        expect(schedule.sessions).toEqual([{ taskId: 'locked', date: '2026-10-22', minutes: 30 }]);
+    });
+
+    it('reports work that does not fit before the deadline', () => {
+        const schedule = scheduleStudySessions([{ id: 'weekend', effortMinutes: 60, lastDay: '2026-10-25' }], {
+            ...options,
+            startDate: '2026-10-24'
+        });
+        expect(schedule.sessions).toEqual([]);
+        expect(schedule.unfit).toEqual([{ taskId: 'weekend', missingMinutes: 60 }]);
+    });
+});
+
+describe('date helpers', () => {
+    it('adds days across month ends', () => {
+        expect(addDays('2026-10-30', 3)).toBe('2026-11-02');
+        expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('finds the weekday', () => {
+        expect(getWeekday('2026-10-18')).toBe(0);
+        expect(getWeekday('2026-10-24')).toBe(6);
+    });
+
+    it('formats durations', () => {
+        expect(formatMinutes(45)).toBe('45m');
+        expect(formatMinutes(120)).toBe('2h');
+        expect(formatMinutes(95)).toBe('1h 35m');
+    });
+});
@@ -0,0 +1,160 @@
+import { CanvasAPI } from '../src/canvasApi';
+import { Course } from '../src/canvasTypes';
+import type MyPlugin from '../src/main';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { SubmissionGrader, buildGradebook, needsGrading, parseReviewNote, toCsv } from '../src/submissionGrading';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+import { StubVault, createStubApp } from './mockCanvas/vault';
+
+const server = new MockCanvasServer();
+let api: CanvasAPI;
+
+beforeAll(async () => {
+    await server.start();
+    api = createTestApi(server.origin);
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('needsGrading', () => {
+    it('picks submitted work without a grade', async () => {
+        const submissions = await api.getSubmissions(101, 201);
+        expect(submissions.filter(needsGrading).map(submission => submission.user?.name)).toEqual(['Sam Okafor']);
+    });
+});
+
+describe('parseReviewNote', () => {
+    it('reads the score, rubric and comment outside generated regions', () => {
+        const note = [
+            '%% canvas-sync:start submission %%',
+            'score:: 100',
+            '%% canvas-sync:end submission %%',
+            '',
+            '## Rubric',
+            '',
+            '### Hypothesis (4 pts) %% criterion:_101 %%',
+            '',
+            'points:: 3',
+            'comments:: Not quite testable',
+            '',
+            '### Data analysis (6 pts) %% criterion:_102 %%',
+            '',
+            'points:: ',
+            'comments:: ',
+            '',
+            '## Grade',
+            '',
+            'score:: 7',
+            'comment:: Good start'
+        ].join('\n');
+
+        expect(parseReviewNote(note)).toEqual({
+            score: '7',
+            rubric: { _101: { points: 3, comments: 'Not quite testable' } },
+            comment: 'Good start'
+        });
+    });
+
+    it('leaves empty fields unset', () => {
+        expect(parseReviewNote('## Grade\n\nscore:: \ncomment:: ')).toEqual({ score: null, rubric: {}, comment: '' });
+    });
+});
+
+describe('gradebook', () => {
+    it('builds rows per student from Canvas data and writes CSV', async () => {
+        const [assignments, enrollments, submissions] = await Promise.all([
+            api.getCourseAssignments(101),
+            api.getCourseEnrollments(101),
+            api.getStudentSubmissions(101)
+        ]);
+        const gradebook = buildGradebook(assignments, enrollments, submissions);
+
+        expect(gradebook.headers).toEqual([
+            'Student', 'Lab report: Photosynthesis (10)', 'Cell structure quiz (5)', 'Reading response (2)', 'Current score', 'Current grade'
+        ]);
+        expect(gradebook.rows).toEqual([
+            ['Okafor, Sam', '', 5, '', 95, 'A'],
+            ['Rivera, Alex', 8, '', '', 88.5, 'B+']
+        ]);
+        expect(toCsv(gradebook).split('\r\n')[1]).toBe('"Okafor, Sam",,5,,95,A');
+    });
+
+    it('marks excused submissions', () => {
+        const gradebook = buildGradebook(
+            [{ id: 1, name: 'Quiz', due_at: null }],
+            [{ type: 'StudentEnrollment', user_id: 2, user: { id: 2, name: 'Kim' } }],
+            [{ assignment_id: 1, user_id: 2, workflow_state: 'graded', excused: true }]
+        );
+        expect(gradebook.rows).toEqual([['Kim', 'EX', '', '']]);
+    });
+});
+
+describe('SubmissionGrader', () => {
+    const course = { id: 101, name: 'Biology 101' } as Course;
+    const folder = 'Canvas/Grading/Biology 101';
+    let vault: StubVault;
+    let grader: SubmissionGrader;
+
+    beforeEach(() => {
+        server.reset();
+        const app = createStubApp();
+        vault = app.vault;
+        grader = new SubmissionGrader({
+            app,
+            settings: { ...DEFAULT_SETTINGS, profiles: [api.profile] },
+            activeProfile: api.profile,
+            getApi: () => api
+        } as unknown as MyPlugin);
+    });
+
+    async function writeReviewNote() {
+        const [submission] = (await api.getSubmissions(101, 201)).filter(needsGrading);
+        const assignment = await api.getAssignment(101, 201);
+        return grader.writeReviewNote({ course, assignment, submission, profile: api.profile });
+    }
+
+    it('writes a review note with the attachments, the rubric and a grade field', async () => {
+        const file = await writeReviewNote();
+        const content = vault.files.get(file.path) ?? '';
+
+        expect(file.path).toBe(`${folder}/Lab report Photosynthesis/Sam Okafor.md`);
+        expect(vault.binaries.has(`${folder}/Lab report Photosynthesis/Sam Okafor files/okafor_lab.pdf`)).toBe(true);
+        expect(content).toContain('**Attachments**\n\n- [[okafor_lab.pdf]]');
+        expect(content).toContain('%% criterion:_101 %%');
+        expect(content).toContain('## Grade\n\nscore:: \ncomment:: ');
+        expect(vault.getFrontmatter(file.path)).toMatchObject({ review_assignment_id: 201, review_student_id: 8, late: true });
+    });
+
+    it('keeps the typed grade and skips downloads of the same attempt when refreshed', async () => {
+        const file = await writeReviewNote();
+        vault.files.set(file.path, (vault.files.get(file.path) ?? '').replace('score:: ', 'score:: 9'));
+        server.reset();
+
+        await writeReviewNote();
+
+        expect(parseReviewNote(vault.files.get(file.path) ?? '').score).toBe('9');
+        expect(server.requestsTo('/files/401/download')).toHaveLength(0);
+    });
+
+    it('exports the gradebook as a note and a CSV file, keeping notes around the table', async () => {
+        await grader.exportGradebook(course, api.profile);
+        vault.files.set(`${folder}/Gradebook.md`, `${vault.files.get(`${folder}/Gradebook.md`)}\nMy notes\n`);
+        await grader.exportGradebook(course, api.profile);
+
+        const note = vault.files.get(`${folder}/Gradebook.md`) ?? '';
+        expect(note).toContain('| Okafor, Sam |  | 5 |  | 95 | A |');
+        expect(note).toContain('My notes');
+        expect(vault.files.get(`${folder}/Gradebook.csv`)?.split('\r\n')[1]).toBe('"Okafor, Sam",,5,,95,A');
+    });
+});
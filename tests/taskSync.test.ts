@@ -0,0 +1,182 @@
+import { CanvasAPI } from '../src/canvasApi';
+import type MyPlugin from '../src/main';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import {
+    TaskCompletionSync,
+    TaskState,
+    findCanvasTasks,
+    markCanvasTask,
+    setCanvasTasksChecked,
+    taskKey
+} from '../src/taskSync';
+import { createTestApi } from './mockCanvas/client';
+import { MockCanvasServer } from './mockCanvas/server';
+import { StubVault, createStubApp } from './mockCanvas/vault';
+
+/**
+ * Completion sync between task lines and the mock server's planner: the
+ * lab report is done in Canvas, the cell structure quiz (assignment 202)
+ * is open with override 801
+ */
+
+const server = new MockCanvasServer();
+const NOTE = 'Biology.md';
+const LAB = '- [ ] Lab report %% canvas-task assignment 201 %%';
+const QUIZ = '- [ ] Cell structure quiz %% canvas-task quiz 501 %%';
+
+let api: CanvasAPI;
+let vault: StubVault;
+let states: Record<string, TaskState>;
+let sync: TaskCompletionSync;
+
+beforeAll(async () => {
+    await server.start();
+});
+
+afterAll(async () => {
+    await server.stop();
+});
+
+beforeEach(async () => {
+    server.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    api = createTestApi(server.origin);
+    const app = createStubApp();
+    vault = app.vault;
+    states = {};
+    const plugin = {
+        app,
+        settings: { ...DEFAULT_SETTINGS, profiles: [api.profile], taskSyncEnabled: true },
+        getApi: () => api
+    } as unknown as MyPlugin;
+    sync = new TaskCompletionSync(plugin, {
+        load: async () => states,
+        save: async saved => {
+            states = { ...saved };
+        }
+    });
+});
+
+afterEach(async () => {
+    // Writes the states and clears the save timer
+    await sync.flush();
+    jest.restoreAllMocks();
+});
+
+async function startFrom(base: Record<string, TaskState>, note: string): Promise<void> {
+    states = base;
+    await sync.load();
+    vault.files.set(NOTE, note);
+}
+
+function overrideRequests(method: string) {
+    return server.requests.filter(request => request.method === method && request.path.startsWith('/api/v1/planner/overrides'));
+}
+
+describe('TaskCompletionSync.reconcile', () => {
+    it('sends ticks made only in the vault to Canvas', async () => {
+        await startFrom({ 'quiz:501': { completed: false } }, `${QUIZ.replace('[ ]', '[x]')}\n`);
+
+        expect(await sync.reconcile()).toEqual({ pushed: 1, pulled: 0, conflicts: 0 });
+
+        const [request] = overrideRequests('PUT');
+        expect(request.path).toBe('/api/v1/planner/overrides/801');
+        expect(JSON.parse(request.body.toString())).toEqual({ marked_complete: true });
+        await sync.flush();
+        expect(states['quiz:501']).toMatchObject({ completed: true, overrideId: 801 });
+    });
+
+    it('ticks tasks completed only in Canvas', async () => {
+        await startFrom({ 'assignment:201': { completed: false } }, `${LAB}\n${QUIZ}\n`);
+
+        expect(await sync.reconcile()).toEqual({ pushed: 0, pulled: 1, conflicts: 0 });
+
+        expect(vault.files.get(NOTE)).toBe(`${LAB.replace('[ ]', '[x]')}\n${QUIZ}\n`);
+        expect(overrideRequests('PUT')).toHaveLength(0);
+        expect(overrideRequests('POST')).toHaveLength(0);
+    });
+
+    it('sends ticks of assignment tasks to the quiz Canvas plans them as', async () => {
+        await startFrom({ 'assignment:202': { completed: false } }, '- [x] Quiz %% canvas-task assignment 202 %%\n');
+
+        expect(await sync.reconcile()).toMatchObject({ pushed: 1 });
+        expect(overrideRequests('PUT').map(request => request.path)).toEqual(['/api/v1/planner/overrides/801']);
+    });
+
+    describe('when both sides changed and there is no saved base', () => {
+        const ticked = `${QUIZ.replace('[ ]', '[x]')}\n`;
+
+        it('keeps the Canvas state under the canvas policy', async () => {
+            sync.plugin.settings.taskConflictPolicy = 'canvas';
+            await startFrom({}, ticked);
+
+            expect(await sync.reconcile()).toEqual({ pushed: 0, pulled: 1, conflicts: 1 });
+            expect(vault.files.get(NOTE)).toBe(`${QUIZ}\n`);
+        });
+
+        it('keeps the vault state under the obsidian policy', async () => {
+            sync.plugin.settings.taskConflictPolicy = 'obsidian';
+            await startFrom({}, ticked);
+
+            expect(await sync.reconcile()).toEqual({ pushed: 1, pulled: 0, conflicts: 1 });
+            expect(vault.files.get(NOTE)).toBe(ticked);
+            expect(overrideRequests('PUT')).toHaveLength(1);
+        });
+
+        it('keeps the newer side under the newest policy', async () => {
+            sync.plugin.settings.taskConflictPolicy = 'newest';
+            await startFrom({}, ticked);
+            vault.mtimes.set(NOTE, Date.parse('2026-10-12T10:00:00Z'));
+            server.enqueue('GET', '/api/v1/planner/items', {
+                status: 200,
+                body: [{
+                    plannable_id: 501,
+                    plannable_type: 'quiz',
+                    plannable_date: '2026-11-09T23:59:00Z',
+                    plannable: { id: 501, title: 'Cell structure quiz', assignment_id: 202 },
+                    planner_override: { id: 801, plannable_type: 'quiz', plannable_id: 501, marked_complete: false, updated_at: '2026-10-10T10:00:00Z' },
+                    submissions: false
+                }]
+            });
+
+            expect(await sync.reconcile()).toEqual({ pushed: 1, pulled: 0, conflicts: 1 });
+        });
+    });
+
+    it('leaves tasks that agree with Canvas alone', async () => {
+        await startFrom({}, `${LAB.replace('[ ]', '[x]')}\n${QUIZ}\n`);
+
+        expect(await sync.reconcile()).toEqual({ pushed: 0, pulled: 0, conflicts: 0 });
+        expect(overrideRequests('PUT')).toHaveLength(0);
+    });
+});
+
+describe('task markers', () => {
+    it('round-trip through rendering, finding and ticking', () => {
+        const content = [
+            '# Week 8',
+            markCanvasTask('- [ ] Essay 2 (due 23:59)', 'assignment', 123, false),
+            markCanvasTask('  * [ ] Reading', 'quiz', 9, true, 'work'),
+            markCanvasTask('Not a task', 'assignment', 1, false)
+        ].join('\n');
+
+        expect(content.split('\n')[3]).toBe('Not a task');
+        expect(findCanvasTasks(content)).toEqual([
+            { line: 1, profile: 'default', type: 'assignment', id: '123', checked: false },
+            { line: 2, profile: 'work', type: 'quiz', id: '9', checked: true }
+        ]);
+
+        const updated = setCanvasTasksChecked(content, new Map([
+            [taskKey('assignment', 123), true],
+            [taskKey('quiz', 9, 'work'), false]
+        ]));
+        expect(updated.split('\n')).toEqual([
+            '# Week 8',
+            '- [x] Essay 2 (due 23:59) %% canvas-task assignment 123 %%',
+            '  * [ ] Reading %% canvas-task work/quiz 9 %%',
+            'Not a task'
+        ]);
+        expect(setCanvasTasksChecked(updated, new Map([[taskKey('assignment', 999), true]]))).toBe(updated);
+    });
+});
@@ -0,0 +1,105 @@
+import { formatTemplateDate, getTimeZoneOffset } from '../src/markdownUtils';
+import { DEFAULT_OUTPUT_TEMPLATES, OutputTemplateSetting, loadOutputTemplate } from '../src/outputTemplates';
+import { TemplateOptions, renderOutputTemplate, validateTemplate } from '../src/templateEngine';
+import { createStubApp } from './mockCanvas/vault';
+
+/**
+ * The template language of the insert commands, date formatting in time
+ * zones, and where command templates come from
+ */
+
+const options: TemplateOptions = {
+    formatDate: (value, format) => `${format ?? 'default'}:${value}`
+};
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+function render(template: string, data: Record<string, unknown>): string {
+    return renderOutputTemplate(template, data, options);
+}
+
+describe('renderOutputTemplate', () => {
+    it('fills values and dotted paths, leaving unknown names empty', () => {
+        expect(render('{{course.name}} ({{course.code}}){{missing}}', { course: { name: 'Biology', code: 'BIO101' } }))
+            .toBe('Biology (BIO101)');
+    });
+
+    it('loops with index helpers and looks up names in enclosing scopes', () => {
+        const template = '{{#each items}}{{@number}}. {{name}} of {{course}}{{#unless @last}}, {{/unless}}{{/each}}';
+        expect(render(template, { course: 'BIO', items: [{ name: 'Lab' }, { name: 'Quiz' }] })).toBe('1. Lab of BIO, 2. Quiz of BIO');
+    });
+
+    it('renders the else branch of empty lists and false conditions', () => {
+        expect(render('{{#each items}}{{this}}{{else}}None{{/each}}', { items: [] })).toBe('None');
+        expect(render('{{#if done}}Done{{else}}Open{{/if}}', { done: false })).toBe('Open');
+    });
+
+    it('drops lines that only hold a block tag', () => {
+        const template = '| Name |\n|---|\n{{#each rows}}\n| {{this}} |\n{{/each}}\n';
+        expect(render(template, { rows: ['a', 'b'] })).toBe('| Name |\n|---|\n| a |\n| b |\n');
+    });
+
+    it('escapes table cells and link labels only when asked', () => {
+        const data = { name: 'Lab [1] | draft\nv2' };
+        expect(render('{{name|cell}}', data)).toBe('Lab [1] \\| draft v2');
+        expect(render('[{{name|link}}](x)', { name: 'Lab [1]' })).toBe('[Lab \\[1\\]](x)');
+        expect(render('{{name}}', { name: 'a|b' })).toBe('a|b');
+    });
+
+    it('chains filters with quoted arguments', () => {
+        expect(render('{{due|date:"ddd D MMM"}}', { due: '2026-10-20T10:00:00Z' })).toBe('ddd D MMM:2026-10-20T10:00:00Z');
+        expect(render('{{due|date|default:"No date"}}', { due: null })).toBe('No date');
+        expect(render('{{score|fixed:1}} {{grade|upper}}', { score: 88.46, grade: 'b+' })).toBe('88.5 B+');
+    });
+});
+
+describe('validateTemplate', () => {
+    it('reports unbalanced blocks and unknown filters', () => {
+        expect(validateTemplate('{{#each items}}{{name}}')).toBe('Missing {{/each}}');
+        expect(validateTemplate('{{#if a}}{{/each}}')).toBe('Unexpected {{/each}}');
+        expect(validateTemplate('{{else}}')).toBe('{{else}} outside of a block');
+        expect(validateTemplate('{{name|shout}}')).toBe('Unknown filter "shout"');
+        expect(validateTemplate('{{#each items}}{{name|cell}}{{/each}}')).toBeNull();
+    });
+});
+
+describe('formatTemplateDate', () => {
+    it('formats in the configured time zone, following daylight saving', () => {
+        expect(formatTemplateDate('2026-07-01T16:00:00Z', 'YYYY-MM-DD HH:mm', 'America/New_York')).toBe('2026-07-01 12:00');
+        expect(formatTemplateDate('2026-12-01T16:00:00Z', 'YYYY-MM-DD HH:mm', 'America/New_York')).toBe('2026-12-01 11:00');
+        expect(formatTemplateDate('2026-12-31T23:30:00Z', 'YYYY-MM-DD', 'Asia/Tokyo')).toBe('2027-01-01');
+    });
+
+    it('leaves missing and invalid dates empty', () => {
+        // moment warns about the unparseable date
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        expect(formatTemplateDate(null, 'YYYY')).toBe('');
+        expect(formatTemplateDate('not a date', 'YYYY')).toBe('');
+        expect(getTimeZoneOffset(new Date(), 'Not/AZone')).toBeNull();
+    });
+});
+
+describe('loadOutputTemplate', () => {
+    const setting = (fields: Partial<OutputTemplateSetting>): OutputTemplateSetting =>
+        ({ ...DEFAULT_OUTPUT_TEMPLATES.events, ...fields });
+
+    it('reads templates from vault files, with or without the extension', async () => {
+        const app = createStubApp();
+        app.vault.files.set('Templates/Events.md', '{{#each events}}- {{title}}\n{{/each}}');
+
+        expect(await loadOutputTemplate(app, 'events', setting({ variant: 'file', file: 'Templates/Events' })))
+            .toBe('{{#each events}}- {{title}}\n{{/each}}');
+        await expect(loadOutputTemplate(app, 'events', setting({ variant: 'file', file: 'Templates/Gone.md' })))
+            .rejects.toThrow('Template file Templates/Gone.md not found');
+    });
+
+    it('falls back to the default layout for empty custom templates', async () => {
+        const app = createStubApp();
+        const fallback = await loadOutputTemplate(app, 'events', DEFAULT_OUTPUT_TEMPLATES.events);
+
+        expect(await loadOutputTemplate(app, 'events', setting({ variant: 'custom', custom: '' }))).toBe(fallback);
+        expect(await loadOutputTemplate(app, 'events', setting({ variant: 'custom', custom: '{{now}}' }))).toBe('{{now}}');
+    });
+});